@@ -1,5 +1,5 @@
 import { Tabs } from 'expo-router';
-import { Calendar, Clock, Users } from 'lucide-react-native';
+import { Calendar, CalendarDays, ChartColumn, Clock, Users } from 'lucide-react-native';
 import { useColorScheme } from 'react-native';
 import { useEffect } from 'react';
 import { useRouter } from 'expo-router';
@@ -49,12 +49,18 @@ export default function TabLayout() {
               case 'upcoming':
                 title = 'Upcoming Sessions';
                 break;
+              case 'calendar':
+                title = 'Calendar';
+                break;
               case 'past':
                 title = 'Past Sessions';
                 break;
               case 'patients':
                 title = 'Patient Management';
                 break;
+              case 'dashboard':
+                title = 'Dashboard';
+                break;
               default:
                 title = "Today's Sessions";
             }
@@ -79,6 +85,14 @@ export default function TabLayout() {
           headerTitle: 'Upcoming Sessions',
         }}
       />
+      <Tabs.Screen
+        name="calendar"
+        options={{
+          title: 'Calendar',
+          tabBarIcon: ({ color, size }) => <CalendarDays size={size} color={color} />,
+          headerTitle: 'Calendar',
+        }}
+      />
       <Tabs.Screen
         name="past"
         options={{
@@ -95,6 +109,14 @@ export default function TabLayout() {
           headerTitle: 'Patient Management',
         }}
       />
+      <Tabs.Screen
+        name="dashboard"
+        options={{
+          title: 'Dashboard',
+          tabBarIcon: ({ color, size }) => <ChartColumn size={size} color={color} />,
+          headerTitle: 'Dashboard',
+        }}
+      />
     </Tabs>
   );
 }
\ No newline at end of file
@@ -0,0 +1,267 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  useColorScheme,
+  ActivityIndicator
+} from 'react-native';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
+import { useFocusEffect } from '@react-navigation/native';
+import { ChevronLeft, ChevronRight } from 'lucide-react-native';
+import { Session } from '../../types';
+import { getFilteredSessions, rescheduleSession, getScheduleConflict } from '../../utils/mongoStorage';
+import { scheduleSessionNotification, cancelSessionNotifications } from '../../utils/notifications';
+import {
+  CalendarMode,
+  formatDateKey,
+  getVisibleDays,
+  shiftAnchor,
+  getRangeTitle
+} from '../../utils/calendarUtils';
+import { isCancelledSession } from '../../utils/sessionStatus';
+import CalendarTimeGrid from '../../components/CalendarTimeGrid';
+import CalendarMonthView from '../../components/CalendarMonthView';
+import SessionForm from '../../components/SessionForm';
+
+const MODES: { mode: CalendarMode; label: string }[] = [
+  { mode: 'day', label: 'Day' },
+  { mode: 'week', label: 'Week' },
+  { mode: 'month', label: 'Month' },
+];
+
+export default function CalendarScreen() {
+  const [mode, setMode] = useState<CalendarMode>('week');
+  const [anchorDate, setAnchorDate] = useState(new Date());
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [selectedSession, setSelectedSession] = useState<Session | undefined>(undefined);
+  const [slotDateTime, setSlotDateTime] = useState<Date | undefined>(undefined);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#1E1E1E' : '#F2F2F7',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    primaryColor: '#0A84FF',
+    inactiveTextColor: isDarkMode ? '#888888' : '#8E8E93',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+  };
+
+  const visibleDays = getVisibleDays(mode, anchorDate);
+  const rangeStart = formatDateKey(visibleDays[0]);
+  const rangeEnd = formatDateKey(visibleDays[visibleDays.length - 1]);
+
+  const loadSessions = async () => {
+    try {
+      setLoading(true);
+      const rangeSessions = await getFilteredSessions({ startDate: rangeStart, endDate: rangeEnd });
+      // Cancelled and rescheduled sessions no longer take up their slot
+      setSessions(rangeSessions.filter(session => !isCancelledSession(session)));
+    } catch (error) {
+      console.error('Error loading calendar sessions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSessions();
+    }, [rangeStart, rangeEnd])
+  );
+
+  const handlePressSlot = (dateTime: Date) => {
+    setSelectedSession(undefined);
+    setSlotDateTime(dateTime);
+    setModalVisible(true);
+  };
+
+  const handlePressSession = (session: Session) => {
+    setSelectedSession(session);
+    setSlotDateTime(undefined);
+    setModalVisible(true);
+  };
+
+  const handlePressDay = (day: Date) => {
+    setAnchorDate(day);
+    setMode('day');
+  };
+
+  // Dragging is a clinic-initiated reschedule, so the old slot stays in the session's history
+  const moveSession = async (session: Session, date: string, time: string, allowConflicts = false) => {
+    try {
+      const movedSession = await rescheduleSession(session.id, date, time, 'clinic', '', allowConflicts);
+      await cancelSessionNotifications(session.id);
+      await scheduleSessionNotification(movedSession);
+      loadSessions();
+    } catch (error) {
+      const conflict = getScheduleConflict(error);
+      if (conflict) {
+        const details = [
+          ...conflict.unavailable.map(item => item.reason),
+          ...conflict.conflicts.map(c => `${c.patientName} at ${c.time}`)
+        ].join('\n');
+        Alert.alert(
+          'Time Not Available',
+          `${conflict.error}:\n${details}`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Move Anyway', onPress: () => moveSession(session, date, time, true) },
+          ]
+        );
+        return;
+      }
+
+      console.error('Error moving session:', error);
+      Alert.alert('Error', 'Failed to reschedule session');
+    }
+  };
+
+  const handleMoveSession = (session: Session, date: string, time: string) => {
+    const newDate = new Date(`${date}T${time}`);
+    Alert.alert(
+      'Reschedule Session',
+      `Move ${session.patientName}'s session to ${newDate.toLocaleDateString()} at ${time}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Move', onPress: () => moveSession(session, date, time) },
+      ]
+    );
+  };
+
+  const handleSaveSession = () => {
+    setModalVisible(false);
+    loadSessions();
+  };
+
+  return (
+    <GestureHandlerRootView style={[styles.container, { backgroundColor: theme.backgroundColor }]}>
+      <View style={[styles.modeSelector, { backgroundColor: theme.cardBackground }]}>
+        {MODES.map(option => (
+          <TouchableOpacity
+            key={option.mode}
+            style={[
+              styles.modeButton,
+              mode === option.mode ? { backgroundColor: theme.primaryColor } : null
+            ]}
+            onPress={() => setMode(option.mode)}
+          >
+            <Text style={[styles.modeButtonText, { color: mode === option.mode ? 'white' : theme.inactiveTextColor }]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.navigationRow}>
+        <TouchableOpacity style={styles.navButton} onPress={() => setAnchorDate(shiftAnchor(mode, anchorDate, -1))}>
+          <ChevronLeft size={24} color={theme.primaryColor} />
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => setAnchorDate(new Date())}>
+          <Text style={[styles.rangeTitle, { color: theme.textColor }]}>{getRangeTitle(mode, anchorDate)}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.navButton} onPress={() => setAnchorDate(shiftAnchor(mode, anchorDate, 1))}>
+          <ChevronRight size={24} color={theme.primaryColor} />
+        </TouchableOpacity>
+      </View>
+
+      {loading && sessions.length === 0 ? (
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color={theme.primaryColor} />
+        </View>
+      ) : mode === 'month' ? (
+        <CalendarMonthView
+          days={visibleDays}
+          month={anchorDate.getMonth()}
+          sessions={sessions}
+          onPressDay={handlePressDay}
+        />
+      ) : (
+        <CalendarTimeGrid
+          days={visibleDays}
+          sessions={sessions}
+          onPressSlot={handlePressSlot}
+          onPressSession={handlePressSession}
+          onMoveSession={handleMoveSession}
+        />
+      )}
+
+      <Modal
+        visible={modalVisible}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+          <View style={styles.modalContent}>
+            <SessionForm
+              existingSession={selectedSession}
+              initialDateTime={slotDateTime}
+              onSave={handleSaveSession}
+              onCancel={() => setModalVisible(false)}
+            />
+          </View>
+        </View>
+      </Modal>
+    </GestureHandlerRootView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 15,
+  },
+  modeSelector: {
+    flexDirection: 'row',
+    borderRadius: 8,
+    padding: 3,
+    marginBottom: 10,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  modeButtonText: {
+    fontWeight: 'bold',
+    fontSize: 14,
+  },
+  navigationRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  navButton: {
+    padding: 5,
+  },
+  rangeTitle: {
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 500,
+  },
+});
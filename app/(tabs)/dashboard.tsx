@@ -0,0 +1,254 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  useColorScheme,
+  useWindowDimensions
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { PracticeStats, RevenuePeriod, StatsGrouping } from '../../types';
+import { getPracticeStats } from '../../utils/mongoStorage';
+import { STATS_GROUPING_OPTIONS, getStatsRange, getRevenueSeries, formatPeriodLabel } from '../../utils/stats';
+import { formatMoney } from '../../utils/currency';
+import LineChart from '../../components/LineChart';
+
+// Horizontal padding of the screen and the card around the chart
+const CHART_INSET = 56;
+
+export default function DashboardScreen() {
+  const [groupBy, setGroupBy] = useState<StatsGrouping>('day');
+  const [stats, setStats] = useState<PracticeStats | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const { width: windowWidth } = useWindowDimensions();
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#1E1E1E' : '#F2F2F7',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    primaryColor: '#0A84FF',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    subtitleColor: '#8E8E93',
+    paidColor: '#34C759',
+    warningColor: '#FF9500',
+    errorColor: '#FF453A',
+  };
+
+  const loadStats = async () => {
+    try {
+      setLoading(true);
+      const { startDate, endDate } = getStatsRange(groupBy);
+      setStats(await getPracticeStats(startDate, endDate, groupBy));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Sessions are completed and paid on the other tabs, so reload on the way back
+  useFocusEffect(
+    useCallback(() => {
+      loadStats();
+    }, [groupBy])
+  );
+
+  const renderStat = (label: string, value: string, detail?: string, color?: string) => (
+    <View style={styles.stat}>
+      <Text style={[styles.statValue, { color: color || theme.textColor }]}>{value}</Text>
+      <Text style={[styles.statLabel, { color: theme.subtitleColor }]}>{label}</Text>
+      {detail ? <Text style={[styles.statDetail, { color: theme.subtitleColor }]}>{detail}</Text> : null}
+    </View>
+  );
+
+  const cardStyle = [styles.card, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }];
+  const rangeLabel = STATS_GROUPING_OPTIONS.find(option => option.value === groupBy)?.rangeLabel;
+  const bestPeriod = stats?.revenue.periods.reduce<RevenuePeriod | null>(
+    (best, period) => (period.revenue > (best?.revenue || 0) ? period : best),
+    null
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundColor }]}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollViewContent}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.chipRow}>
+          {STATS_GROUPING_OPTIONS.map(option => {
+            const isSelected = option.value === groupBy;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[
+                  styles.chip,
+                  { borderColor: isSelected ? theme.primaryColor : theme.borderColor },
+                  isSelected ? { backgroundColor: theme.primaryColor } : null
+                ]}
+                onPress={() => setGroupBy(option.value)}
+              >
+                <Text style={[styles.chipText, { color: isSelected ? 'white' : theme.textColor }]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <Text style={[styles.rangeText, { color: theme.subtitleColor }]}>{rangeLabel}</Text>
+
+        {loading ? (
+          <ActivityIndicator size="large" color={theme.primaryColor} style={styles.loader} />
+        ) : !stats ? (
+          <Text style={[styles.emptyText, { color: theme.placeholderColor }]}>Couldn't load the dashboard</Text>
+        ) : (
+          <>
+            <View style={cardStyle}>
+              <Text style={[styles.cardTitle, { color: theme.textColor }]}>Revenue</Text>
+              <View style={styles.statRow}>
+                {renderStat(
+                  'Total',
+                  formatMoney(stats.revenue.total),
+                  bestPeriod ? `Best: ${formatPeriodLabel(bestPeriod.period, stats.groupBy)}` : undefined
+                )}
+                {renderStat('Collected', formatMoney(stats.revenue.collected), 'Of session fees', theme.paidColor)}
+              </View>
+              <View style={styles.statRow}>
+                {renderStat('Session fees', formatMoney(stats.revenue.sessionFees))}
+                {renderStat('Package sales', formatMoney(stats.revenue.packageSales))}
+              </View>
+              <LineChart series={getRevenueSeries(stats.revenue.periods)} width={windowWidth - CHART_INSET} />
+            </View>
+
+            <View style={cardStyle}>
+              <Text style={[styles.cardTitle, { color: theme.textColor }]}>Sessions</Text>
+              <View style={styles.statRow}>
+                {renderStat('Completed', `${stats.sessions.completed} of ${stats.sessions.booked}`, `${stats.sessions.upcoming} still to come`)}
+                {renderStat('No-shows', `${stats.sessions.noShowRate}%`, `${stats.sessions.noShow} sessions`, stats.sessions.noShow > 0 ? theme.errorColor : undefined)}
+                {renderStat('Cancelled', `${stats.sessions.cancellationRate}%`, `${stats.sessions.cancelled} sessions`, stats.sessions.cancelled > 0 ? theme.warningColor : undefined)}
+              </View>
+            </View>
+
+            <View style={cardStyle}>
+              <Text style={[styles.cardTitle, { color: theme.textColor }]}>Patients</Text>
+              <View style={styles.statRow}>
+                {renderStat('New', String(stats.patients.new), `${stats.patients.registered} registered`)}
+                {renderStat('Returning', String(stats.patients.returning))}
+                {renderStat('Per patient', formatMoney(stats.patients.averageRevenue), `${stats.patients.seen} seen`)}
+              </View>
+            </View>
+
+            <View style={cardStyle}>
+              <Text style={[styles.cardTitle, { color: theme.textColor }]}>Top Services</Text>
+              {stats.topServices.length === 0 ? (
+                <Text style={[styles.statDetail, { color: theme.placeholderColor }]}>No completed sessions booked as a service</Text>
+              ) : (
+                stats.topServices.map(service => (
+                  <View key={service.serviceName} style={styles.serviceRow}>
+                    <View style={styles.serviceDetails}>
+                      <Text style={[styles.serviceName, { color: theme.textColor }]}>{service.serviceName}</Text>
+                      <Text style={[styles.statDetail, { color: theme.subtitleColor }]}>
+                        {service.sessions} {service.sessions === 1 ? 'session' : 'sessions'}
+                      </Text>
+                    </View>
+                    <Text style={[styles.serviceRevenue, { color: theme.textColor }]}>{formatMoney(service.revenue)}</Text>
+                  </View>
+                ))
+              )}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  scrollViewContent: {
+    paddingBottom: 30,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  rangeText: {
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 30,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  statRow: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  stat: {
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  statLabel: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  statDetail: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  serviceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  serviceDetails: {
+    flex: 1,
+  },
+  serviceName: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  serviceRevenue: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -2,8 +2,11 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { View, Text, StyleSheet, FlatList, TouchableOpacity, Alert, Modal, useColorScheme, ActivityIndicator } from 'react-native';
 import { useFocusEffect } from '@react-navigation/native';
 import { Plus } from 'lucide-react-native';
-import { Session } from '../../types';
-import { getTodaySessions, updateSession, deleteSession } from '../../utils/mongoStorage';
+import { Session, SeriesScope, SessionStatus, PlanProgress } from '../../types';
+import { getTodaySessions, updateSession, deleteSession, getPatientRedFlags, getSessionPlanProgress } from '../../utils/mongoStorage';
+import { completeFromPackage } from '../../utils/sessionActions';
+import { cancelSessionNotifications } from '../../utils/notifications';
+import { OPEN_SESSION_STATUSES } from '../../utils/sessionStatus';
 import SessionCard from '../../components/SessionCard';
 import SessionForm from '../../components/SessionForm';
 import PaymentModal from '../../components/PaymentModal';
@@ -13,8 +16,11 @@ export default function TodayScreen() {
   const [loading, setLoading] = useState(true);
   const [modalVisible, setModalVisible] = useState(false);
   const [selectedSession, setSelectedSession] = useState<Session | undefined>(undefined);
+  const [editScope, setEditScope] = useState<SeriesScope>('single');
   const [paymentModalVisible, setPaymentModalVisible] = useState(false);
   const [sessionToComplete, setSessionToComplete] = useState<Session | null>(null);
+  const [redFlagsByPatient, setRedFlagsByPatient] = useState<Record<string, string[]>>({});
+  const [planProgress, setPlanProgress] = useState<Record<string, PlanProgress>>({});
 
   const colorScheme = useColorScheme();
   const isDarkMode = colorScheme === 'dark';
@@ -35,8 +41,14 @@ export default function TodayScreen() {
   const loadSessions = async () => {
     try {
       setLoading(true);
-      const todaySessions = await getTodaySessions();
+      const [todaySessions, redFlags, progress] = await Promise.all([
+        getTodaySessions(),
+        getPatientRedFlags(),
+        getSessionPlanProgress()
+      ]);
       setSessions(todaySessions);
+      setRedFlagsByPatient(redFlags);
+      setPlanProgress(progress);
     } catch (error) {
       console.error('Error loading today sessions:', error);
     } finally {
@@ -52,18 +64,22 @@ export default function TodayScreen() {
 
   const handleAddSession = () => {
     setSelectedSession(undefined);
+    setEditScope('single');
     setModalVisible(true);
   };
 
-  const handleEditSession = (session: Session) => {
+  const handleEditSession = (session: Session, scope: SeriesScope = 'single') => {
     setSelectedSession(session);
+    setEditScope(scope);
     setModalVisible(true);
   };
 
-  const handleDeleteSession = (sessionId: string) => {
+  const handleDeleteSession = (sessionId: string, scope: SeriesScope = 'single') => {
     Alert.alert(
-      'Delete Session',
-      'Are you sure you want to delete this session?',
+      scope === 'single' ? 'Delete Session' : 'Delete Sessions',
+      scope === 'single'
+        ? 'Are you sure you want to delete this session?'
+        : 'Are you sure you want to delete the selected sessions in this series?',
       [
         { text: 'Cancel', style: 'cancel' },
         { 
@@ -71,7 +87,8 @@ export default function TodayScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await deleteSession(sessionId);
+              const deletedIds = await deleteSession(sessionId, scope);
+              await cancelSessionNotifications(deletedIds);
               loadSessions();
             } catch (error) {
               console.error('Error deleting session:', error);
@@ -83,39 +100,41 @@ export default function TodayScreen() {
     );
   };
 
-  const handleToggleComplete = async (session: Session, completed: boolean) => {
-    if (completed) {
+  const handleChangeStatus = async (session: Session, status: SessionStatus, reason: string) => {
+    if (status === 'completed') {
+      // Sessions covered by a prepaid package are completed without asking for a payment
+      if (await completeFromPackage(session)) {
+        loadSessions();
+        return;
+      }
       setSessionToComplete(session);
       setPaymentModalVisible(true);
     } else {
       try {
-        const updatedSession = { ...session, completed, amount: undefined };
+        const updatedSession = { ...session, status, statusReason: reason, amount: undefined };
         await updateSession(updatedSession);
+        if (!OPEN_SESSION_STATUSES.includes(status)) {
+          await cancelSessionNotifications(session.id);
+        }
         loadSessions();
       } catch (error) {
-        console.error('Error updating session completion status:', error);
+        console.error('Error updating session status:', error);
         Alert.alert('Error', 'Failed to update session status');
       }
     }
   };
 
-  const handlePaymentConfirm = async (amount: number) => {
-    if (!sessionToComplete) return;
-    
-    try {
-      const updatedSession = { 
-        ...sessionToComplete, 
-        completed: true,
-        amount: amount
-      };
-      await updateSession(updatedSession);
-      setPaymentModalVisible(false);
-      setSessionToComplete(null);
-      loadSessions();
-    } catch (error) {
-      console.error('Error updating session with payment:', error);
-      Alert.alert('Error', 'Failed to update session payment');
-    }
+  // The payment modal completes the session and records the payment itself
+  const handlePaymentConfirm = () => {
+    setPaymentModalVisible(false);
+    setSessionToComplete(null);
+    loadSessions();
+  };
+
+  // Opens the payment modal for the rest of a completed session's fee
+  const handleRecordPayment = (session: Session) => {
+    setSessionToComplete(session);
+    setPaymentModalVisible(true);
   };
 
   const handlePaymentCancel = () => {
@@ -163,7 +182,11 @@ export default function TodayScreen() {
               session={item}
               onEdit={handleEditSession}
               onDelete={handleDeleteSession}
-              onToggleComplete={handleToggleComplete}
+              onChangeStatus={handleChangeStatus}
+              onRecordPayment={handleRecordPayment}
+              onRescheduled={() => loadSessions()}
+              redFlags={redFlagsByPatient[item.patientId]}
+              planProgress={planProgress[item.id]}
             />
           )}
           contentContainerStyle={styles.listContent}
@@ -180,6 +203,7 @@ export default function TodayScreen() {
           <View style={styles.modalContent}>
             <SessionForm
               existingSession={selectedSession}
+              editScope={editScope}
               onSave={handleSaveSession}
               onCancel={() => setModalVisible(false)}
             />
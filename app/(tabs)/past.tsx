@@ -13,18 +13,22 @@ import {
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useFocusEffect } from '@react-navigation/native';
 import { Plus, FileDown } from 'lucide-react-native';
-import { Session, Patient } from '../../types';
-import { getPastSessions, getCurrentUserPatients, deleteSession, getFilteredSessions, updateSession } from '../../utils/mongoStorage';
+import { Session, Patient, SeriesScope, SessionStatus, PlanProgress } from '../../types';
+import { getPastSessions, getCurrentUserPatients, deleteSession, getFilteredSessions, updateSession, getSessionPlanProgress } from '../../utils/mongoStorage';
+import { completeFromPackage } from '../../utils/sessionActions';
+import { cancelSessionNotifications } from '../../utils/notifications';
 import SessionCard from '../../components/SessionCard';
 import SessionForm from '../../components/SessionForm';
 import SessionFilter from '../../components/SessionFilter';
 import { exportSessionsToExcel } from '../../utils/exportUtils';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import PaymentModal from '../../components/PaymentModal';
+import { OPEN_SESSION_STATUSES, isOpenSession } from '../../utils/sessionStatus';
 
 export default function PastScreen() {
   const [sessions, setSessions] = useState<Session[]>([]);
   const [patients, setPatients] = useState<Patient[]>([]);
+  const [planProgress, setPlanProgress] = useState<Record<string, PlanProgress>>({});
   const [loading, setLoading] = useState(true);
   const [isFiltered, setIsFiltered] = useState(false);
   const [filterTitle, setFilterTitle] = useState('Past Sessions');
@@ -77,8 +81,8 @@ export default function PastScreen() {
         };
         
         const filteredSessions = await getFilteredSessions(filter);
-        // Filter to only include completed sessions
-        const pastSessions = filteredSessions.filter(session => session.completed);
+        // Filter to only include sessions that have an outcome
+        const pastSessions = filteredSessions.filter(session => !isOpenSession(session));
         // Sort sessions by date and time
         const sortedSessions = pastSessions.sort((a, b) => {
           const dateA = new Date(`${a.date}T${a.time}`);
@@ -92,8 +96,8 @@ export default function PastScreen() {
       else if (filters) {
         setIsFiltered(true);
         const filteredSessions = await getFilteredSessions(filters);
-        // Filter to only include completed sessions
-        const pastSessions = filteredSessions.filter(session => session.completed);
+        // Filter to only include sessions that have an outcome
+        const pastSessions = filteredSessions.filter(session => !isOpenSession(session));
         setSessions(pastSessions);
       } 
       // No filters, show all past sessions
@@ -124,10 +128,12 @@ export default function PastScreen() {
     loadSessions();
   };
 
-  const handleDeleteSession = (sessionId: string) => {
+  const handleDeleteSession = (sessionId: string, scope: SeriesScope = 'single') => {
     Alert.alert(
-      'Delete Session',
-      'Are you sure you want to delete this session?',
+      scope === 'single' ? 'Delete Session' : 'Delete Sessions',
+      scope === 'single'
+        ? 'Are you sure you want to delete this session?'
+        : 'Are you sure you want to delete the selected sessions in this series?',
       [
         { text: 'Cancel', style: 'cancel' },
         { 
@@ -135,7 +141,8 @@ export default function PastScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await deleteSession(sessionId);
+              const deletedIds = await deleteSession(sessionId, scope);
+              await cancelSessionNotifications(deletedIds);
               loadSessions();
             } catch (error) {
               console.error('Error deleting session:', error);
@@ -147,35 +154,44 @@ export default function PastScreen() {
     );
   };
 
-  const handleToggleComplete = async (session: Session, completed: boolean) => {
-    // Only allow marking as complete, not reverting back to incomplete
-    if (completed && !session.completed) {
-      // If marking as complete, show payment modal
+  const handleChangeStatus = async (session: Session, status: SessionStatus, reason: string) => {
+    // Completed sessions keep their payment record, so their status can't change any more
+    if (session.status === 'completed') {
+      Alert.alert('Info', 'Completed sessions cannot be marked as incomplete. You can delete the session if needed.');
+    } else if (status === 'completed') {
+      // Sessions covered by a prepaid package are completed without asking for a payment
+      if (await completeFromPackage(session)) {
+        loadSessions();
+        return;
+      }
+      // Otherwise show the payment modal
       setSessionToComplete(session);
       setPaymentModalVisible(true);
-    } else if (!completed && session.completed) {
-      // If trying to mark a completed session as incomplete, show an alert
-      Alert.alert('Info', 'Completed sessions cannot be marked as incomplete. You can delete the session if needed.');
+    } else {
+      try {
+        await updateSession({ ...session, status, statusReason: reason });
+        if (!OPEN_SESSION_STATUSES.includes(status)) {
+          await cancelSessionNotifications(session.id);
+        }
+        loadSessions();
+      } catch (error) {
+        console.error('Error updating session status:', error);
+        Alert.alert('Error', 'Failed to update session status');
+      }
     }
   };
 
-  const handlePaymentConfirm = async (amount: number) => {
-    if (!sessionToComplete) return;
-    
-    try {
-      const updatedSession = { 
-        ...sessionToComplete, 
-        completed: true,
-        amount: amount
-      };
-      await updateSession(updatedSession);
-      setPaymentModalVisible(false);
-      setSessionToComplete(null);
-      loadSessions();
-    } catch (error) {
-      console.error('Error updating session with payment:', error);
-      Alert.alert('Error', 'Failed to update session payment');
-    }
+  // The payment modal completes the session and records the payment itself
+  const handlePaymentConfirm = () => {
+    setPaymentModalVisible(false);
+    setSessionToComplete(null);
+    loadSessions();
+  };
+
+  // Opens the payment modal for the rest of a completed session's fee
+  const handleRecordPayment = (session: Session) => {
+    setSessionToComplete(session);
+    setPaymentModalVisible(true);
   };
 
   const handlePaymentCancel = () => {
@@ -192,6 +208,7 @@ export default function PastScreen() {
       const loadData = async () => {
         await loadPatients();  // Load patients first
         loadSessions();        // Then load sessions
+        setPlanProgress(await getSessionPlanProgress());
       };
       
       loadData();
@@ -274,15 +291,11 @@ export default function PastScreen() {
             <SessionCard
               session={item}
               onEdit={() => Alert.alert('Info', 'Editing past sessions is not allowed')}
-              onDelete={(sessionId) => handleDeleteSession(sessionId)} 
-              onToggleComplete={(session, completed) => {
-                // Only allow marking incomplete sessions as complete
-                if (session.completed && !completed) {
-                  Alert.alert('Info', 'Completed sessions cannot be marked as incomplete. You can delete the session if needed.');
-                } else if (!session.completed && completed) {
-                  handleToggleComplete(session, completed);
-                }
-              }}              
+              onDelete={(sessionId, scope) => handleDeleteSession(sessionId, scope)} 
+              onChangeStatus={handleChangeStatus}
+              onRecordPayment={handleRecordPayment}
+              redFlags={patients.find(patient => patient.id === item.patientId)?.medicalHistory?.redFlags}
+              planProgress={planProgress[item.id]}
             />
           )}
           contentContainerStyle={styles.listContent}
@@ -14,8 +14,9 @@ import {
 } from 'react-native';
 import { useFocusEffect } from '@react-navigation/native';
 import { Plus, Trash2, Edit } from 'lucide-react-native';
-import { Patient } from '../../types';
-import { getCurrentUserPatients, deletePatient } from '../../utils/mongoStorage';
+import { Patient, PatientPackage } from '../../types';
+import { getCurrentUserPatients, deletePatient, getPatientPackages } from '../../utils/mongoStorage';
+import { getCurrentPackage } from '../../utils/packages';
 import PatientForm from '../../components/PatientForm';
 import PatientCard from '../../components/PatientCard';
 import SessionForm from '../../components/SessionForm';
@@ -30,6 +31,7 @@ export default function PatientsScreen() {
   const [selectedPatient, setSelectedPatient] = useState<Patient | undefined>(undefined);
   const [selectedPatientId, setSelectedPatientId] = useState<string>('');
   const [searchQuery, setSearchQuery] = useState('');
+  const [packagesByPatient, setPackagesByPatient] = useState<Record<string, PatientPackage[]>>({});
 
   // Get the device color scheme
   const colorScheme = useColorScheme();
@@ -53,9 +55,13 @@ export default function PatientsScreen() {
   const loadPatients = async () => {
     try {
       setLoading(true);
-      const patientsList = await getCurrentUserPatients();
+      const [patientsList, patientPackages] = await Promise.all([getCurrentUserPatients(), getPatientPackages()]);
       setPatients(patientsList);
       setFilteredPatients(patientsList);
+      setPackagesByPatient(patientPackages.reduce<Record<string, PatientPackage[]>>((groups, patientPackage) => {
+        groups[patientPackage.patientId] = [...(groups[patientPackage.patientId] || []), patientPackage];
+        return groups;
+      }, {}));
     } catch (error) {
       console.error('Error loading patients:', error);
     } finally {
@@ -92,9 +98,9 @@ export default function PatientsScreen() {
             try {
               await deletePatient(patientId);
               loadPatients();
-            } catch (error) {
+            } catch (error: any) {
               console.error('Error deleting patient:', error);
-              Alert.alert('Error', 'Failed to delete patient');
+              Alert.alert('Error', error.message || 'Failed to delete patient');
             }
           }
         },
@@ -122,6 +128,13 @@ export default function PatientsScreen() {
     });
   };
 
+  const handleViewDetails = (patientId: string) => {
+    router.push({
+      pathname: '/patient-details',
+      params: { patientId: patientId }
+    });
+  };
+
   const handleSavePatient = async (patient: Patient) => {
     setPatientModalVisible(false);
     loadPatients();
@@ -188,6 +201,8 @@ export default function PatientsScreen() {
               onDelete={handleDeletePatient}
               onAddSession={handleAddSession}
               onViewSessions={handleViewSessions}
+              onViewDetails={handleViewDetails}
+              currentPackage={getCurrentPackage(packagesByPatient[item.id] || [])}
             />
           )}
           contentContainerStyle={styles.listContent}
@@ -13,9 +13,20 @@ import {
   useSafeAreaInsets
 } from 'react-native';
 import { useFocusEffect } from '@react-navigation/native';
-import { Plus } from 'lucide-react-native';
-import { Session } from '../../types';
-import { getUpcomingSessions, updateSession, deleteSession, getFilteredSessions } from '../../utils/mongoStorage';
+import { Plus, CalendarOff } from 'lucide-react-native';
+import { Session, SeriesScope, SessionStatus, BlockedPeriod, PlanProgress } from '../../types';
+import {
+  getUpcomingSessions,
+  updateSession,
+  deleteSession,
+  getFilteredSessions,
+  getAvailabilitySettings,
+  getPatientRedFlags,
+  getSessionPlanProgress
+} from '../../utils/mongoStorage';
+import { formatDateKey, parseDateKey } from '../../utils/calendarUtils';
+import { cancelSessionNotifications } from '../../utils/notifications';
+import { OPEN_SESSION_STATUSES } from '../../utils/sessionStatus';
 import SessionCard from '../../components/SessionCard';
 import SessionForm from '../../components/SessionForm';
 import SessionFilter from '../../components/SessionFilter';
@@ -27,10 +38,14 @@ export default function UpcomingScreen() {
   const [loading, setLoading] = useState(true);
   const [modalVisible, setModalVisible] = useState(false);
   const [selectedSession, setSelectedSession] = useState<Session | undefined>(undefined);
+  const [editScope, setEditScope] = useState<SeriesScope>('single');
   const [paymentModalVisible, setPaymentModalVisible] = useState(false);
   const [sessionToComplete, setSessionToComplete] = useState<Session | null>(null);
   const [isFiltered, setIsFiltered] = useState(false);
   const [filterTitle, setFilterTitle] = useState('Upcoming Sessions');
+  const [blockedPeriods, setBlockedPeriods] = useState<BlockedPeriod[]>([]);
+  const [redFlagsByPatient, setRedFlagsByPatient] = useState<Record<string, string[]>>({});
+  const [planProgress, setPlanProgress] = useState<Record<string, PlanProgress>>({});
 
   // Get URL params
   const params = useLocalSearchParams();
@@ -55,6 +70,8 @@ export default function UpcomingScreen() {
     placeholderColor: isDarkMode ? '#888888' : '#999999',
     modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
     separatorColor: isDarkMode ? '#333333' : '#EFEFEF',
+    blockedBackground: isDarkMode ? '#3A2A1A' : '#FFF4E5',
+    blockedColor: '#FF9F0A',
   };
 
   const loadSessions = async () => {
@@ -92,26 +109,56 @@ export default function UpcomingScreen() {
     }
   };
 
+  // Holidays and leave that haven't ended yet, shown above the list
+  const loadBlockedPeriods = async () => {
+    try {
+      const today = formatDateKey(new Date());
+      const availability = await getAvailabilitySettings();
+      setBlockedPeriods(
+        availability.blockedPeriods
+          .filter(period => period.endDate >= today)
+          .sort((a, b) => a.startDate.localeCompare(b.startDate))
+      );
+    } catch (error) {
+      console.error('Error loading blocked days:', error);
+    }
+  };
+
+  const loadRedFlags = async () => {
+    setRedFlagsByPatient(await getPatientRedFlags());
+  };
+
+  const loadPlanProgress = async () => {
+    setPlanProgress(await getSessionPlanProgress());
+  };
+
   useFocusEffect(
     useCallback(() => {
       loadSessions();
+      loadBlockedPeriods();
+      loadRedFlags();
+      loadPlanProgress();
     }, [patientId])
   );
 
   const handleAddSession = () => {
     setSelectedSession(undefined);
+    setEditScope('single');
     setModalVisible(true);
   };
 
-  const handleEditSession = (session: Session) => {
+  const handleEditSession = (session: Session, scope: SeriesScope = 'single') => {
     setSelectedSession(session);
+    setEditScope(scope);
     setModalVisible(true);
   };
 
-  const handleDeleteSession = (sessionId: string) => {
+  const handleDeleteSession = (sessionId: string, scope: SeriesScope = 'single') => {
     Alert.alert(
-      'Delete Session',
-      'Are you sure you want to delete this session?',
+      scope === 'single' ? 'Delete Session' : 'Delete Sessions',
+      scope === 'single'
+        ? 'Are you sure you want to delete this session?'
+        : 'Are you sure you want to delete the selected sessions in this series?',
       [
         { text: 'Cancel', style: 'cancel' },
         { 
@@ -119,7 +166,8 @@ export default function UpcomingScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
-              await deleteSession(sessionId);
+              const deletedIds = await deleteSession(sessionId, scope);
+              await cancelSessionNotifications(deletedIds);
               loadSessions();
             } catch (error) {
               console.error('Error deleting session:', error);
@@ -131,8 +179,8 @@ export default function UpcomingScreen() {
     );
   };
 
-  const handleToggleComplete = async (session: Session, completed: boolean) => {
-    if (completed) {
+  const handleChangeStatus = async (session: Session, status: SessionStatus, reason: string) => {
+    if (status === 'completed') {
       // Prevent marking upcoming sessions as complete
       Alert.alert(
         'Cannot Complete',
@@ -140,35 +188,26 @@ export default function UpcomingScreen() {
         [{ text: 'OK' }]
       );
     } else {
-      // If marking as incomplete, just update the session
+      // Cancelled and missed sessions move to the past list with their reason
       try {
-        const updatedSession = { ...session, completed, amount: undefined };
+        const updatedSession = { ...session, status, statusReason: reason, amount: undefined };
         await updateSession(updatedSession);
+        if (!OPEN_SESSION_STATUSES.includes(status)) {
+          await cancelSessionNotifications(session.id);
+        }
         loadSessions();
       } catch (error) {
-        console.error('Error updating session completion status:', error);
+        console.error('Error updating session status:', error);
         Alert.alert('Error', 'Failed to update session status');
       }
     }
   };
 
-  const handlePaymentConfirm = async (amount: number) => {
-    if (!sessionToComplete) return;
-    
-    try {
-      const updatedSession = { 
-        ...sessionToComplete, 
-        completed: true,
-        amount: amount
-      };
-      await updateSession(updatedSession);
-      setPaymentModalVisible(false);
-      setSessionToComplete(null);
-      loadSessions();
-    } catch (error) {
-      console.error('Error updating session with payment:', error);
-      Alert.alert('Error', 'Failed to update session payment');
-    }
+  // The payment modal completes the session and records the payment itself
+  const handlePaymentConfirm = () => {
+    setPaymentModalVisible(false);
+    setSessionToComplete(null);
+    loadSessions();
   };
 
   const handlePaymentCancel = () => {
@@ -202,6 +241,15 @@ export default function UpcomingScreen() {
     return new Date(dateString).toLocaleDateString(undefined, options);
   };
 
+  const formatBlockedPeriod = (period: BlockedPeriod): string => {
+    const typeLabel = period.type === 'leave' ? 'Leave' : period.type === 'holiday' ? 'Holiday' : 'Blocked';
+    const start = parseDateKey(period.startDate).toLocaleDateString();
+    const range = period.startDate === period.endDate
+      ? start
+      : `${start} - ${parseDateKey(period.endDate).toLocaleDateString()}`;
+    return `${typeLabel}${period.reason ? `: ${period.reason}` : ''} (${range})`;
+  };
+
   return (
     <View style={[styles.container, { backgroundColor: theme.backgroundColor }]}>
       <View style={styles.header}>
@@ -229,6 +277,17 @@ export default function UpcomingScreen() {
         )}
       </View>
 
+      {!isFiltered && blockedPeriods.length > 0 && (
+        <View style={[styles.blockedBanner, { backgroundColor: theme.blockedBackground }]}>
+          {blockedPeriods.map(period => (
+            <View key={`${period.startDate}-${period.endDate}`} style={styles.blockedRow}>
+              <CalendarOff size={16} color={theme.blockedColor} />
+              <Text style={[styles.blockedText, { color: theme.textColor }]}>{formatBlockedPeriod(period)}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
       {loading ? (
         <View style={styles.centerContent}>
           <Text style={{ color: theme.textColor }}>Loading sessions...</Text>
@@ -251,10 +310,12 @@ export default function UpcomingScreen() {
             <SessionCard
               key={item.id}
               session={item}
-              isUpcoming={true}
-              onEdit={(session) => handleEditSession(session)}
-              onDelete={(sessionId) => handleDeleteSession(sessionId)}
-              onToggleComplete={(session, completed) => handleToggleComplete(session, completed)}
+              onEdit={(session, scope) => handleEditSession(session, scope)}
+              onDelete={(sessionId, scope) => handleDeleteSession(sessionId, scope)}
+              onChangeStatus={(session, status, reason) => handleChangeStatus(session, status, reason)}
+              onRescheduled={() => loadSessions()}
+              redFlags={redFlagsByPatient[item.patientId]}
+              planProgress={planProgress[item.id]}
             />
           )}
           contentContainerStyle={styles.listContent}
@@ -270,6 +331,7 @@ export default function UpcomingScreen() {
         <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
           <SessionForm
             existingSession={selectedSession}
+            editScope={editScope}
             onSave={handleSaveSession}
             onCancel={() => setModalVisible(false)}
           />
@@ -339,6 +401,21 @@ const styles = StyleSheet.create({
   listContent: {
     paddingBottom: 20,
   },
+  blockedBanner: {
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 15,
+  },
+  blockedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 2,
+  },
+  blockedText: {
+    fontSize: 14,
+    marginLeft: 8,
+    flex: 1,
+  },
   dateGroup: {
     marginBottom: 20,
   },
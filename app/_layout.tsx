@@ -39,7 +39,73 @@ export default function RootLayout() {
               headerShown: false
             }}
           />
+          <Stack.Screen 
+            name="availability" 
+            options={{
+              headerShown: false
+            }}
+          />
+          <Stack.Screen 
+            name="note-templates" 
+            options={{
+              headerShown: false
+            }}
+          />
+          <Stack.Screen 
+            name="consent-templates" 
+            options={{
+              headerShown: false
+            }}
+          />
+          <Stack.Screen 
+            name="consent-sign" 
+            options={{
+              headerShown: false
+            }}
+          />
+          <Stack.Screen 
+            name="services" 
+            options={{
+              headerShown: false
+            }}
+          />
+          <Stack.Screen 
+            name="packages" 
+            options={{
+              headerShown: false
+            }}
+          />
+          <Stack.Screen 
+            name="dues" 
+            options={{
+              headerShown: false
+            }}
+          />
+          <Stack.Screen 
+            name="discharge-letter" 
+            options={{
+              headerShown: false
+            }}
+          />
+          <Stack.Screen 
+            name="exercises" 
+            options={{
+              headerShown: false
+            }}
+          />
+          <Stack.Screen 
+            name="patient-exercises" 
+            options={{
+              headerShown: false
+            }}
+          />
           <Stack.Screen name="patient-sessions" />
+          <Stack.Screen 
+            name="patient-details" 
+            options={{
+              headerShown: false
+            }}
+          />
           <Stack.Screen name="+not-found" />
         </Stack>
       </AuthProvider>
@@ -0,0 +1,557 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Switch,
+  Modal,
+  useColorScheme,
+  StatusBar,
+  Platform,
+} from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { Plus, Trash2 } from 'lucide-react-native';
+import CustomHeader from '../components/CustomHeader';
+import { getAvailabilitySettings, updateAvailabilitySettings } from '../utils/mongoStorage';
+import { formatDateKey, parseDateKey } from '../utils/calendarUtils';
+import { WorkingHours, BreakPeriod, BlockedPeriod, BlockedPeriodType } from '../types';
+
+// Monday first, matching the calendar; values are 0 (Sunday) to 6 (Saturday)
+const WEEKDAYS = [
+  { day: 1, label: 'Monday', short: 'Mon' },
+  { day: 2, label: 'Tuesday', short: 'Tue' },
+  { day: 3, label: 'Wednesday', short: 'Wed' },
+  { day: 4, label: 'Thursday', short: 'Thu' },
+  { day: 5, label: 'Friday', short: 'Fri' },
+  { day: 6, label: 'Saturday', short: 'Sat' },
+  { day: 0, label: 'Sunday', short: 'Sun' },
+];
+
+const BLOCKED_TYPES: { type: BlockedPeriodType; label: string }[] = [
+  { type: 'holiday', label: 'Holiday' },
+  { type: 'leave', label: 'Leave' },
+  { type: 'other', label: 'Other' },
+];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+interface DayHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+interface DatePickerTarget {
+  index: number;
+  field: 'startDate' | 'endDate';
+}
+
+const isValidRange = (start: string, end: string) => TIME_PATTERN.test(start) && TIME_PATTERN.test(end) && start < end;
+
+// One editable row per weekday; days without saved hours start switched off with a 09:00 - 17:00 default
+const buildDayHours = (workingHours: WorkingHours[]): Record<number, DayHours> => {
+  return WEEKDAYS.reduce((hours: Record<number, DayHours>, { day }) => {
+    const entry = workingHours.find(item => item.day === day);
+    hours[day] = entry
+      ? { enabled: true, start: entry.start, end: entry.end }
+      : { enabled: false, start: '09:00', end: '17:00' };
+    return hours;
+  }, {});
+};
+
+export default function AvailabilityScreen() {
+  const [dayHours, setDayHours] = useState<Record<number, DayHours>>(buildDayHours([]));
+  const [breaks, setBreaks] = useState<BreakPeriod[]>([]);
+  const [blockedPeriods, setBlockedPeriods] = useState<BlockedPeriod[]>([]);
+  const [datePickerTarget, setDatePickerTarget] = useState<DatePickerTarget | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#1E1E1E' : '#F2F2F7',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    primaryColor: '#0A84FF',
+    errorColor: '#FF453A',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+    separatorColor: isDarkMode ? '#333333' : '#EFEFEF',
+  };
+
+  useEffect(() => {
+    const loadAvailability = async () => {
+      try {
+        const availability = await getAvailabilitySettings();
+        setDayHours(buildDayHours(availability.workingHours));
+        setBreaks(availability.breaks);
+        setBlockedPeriods(availability.blockedPeriods);
+      } catch (error) {
+        console.error('Error loading availability:', error);
+        Alert.alert('Error', 'Failed to load availability settings');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAvailability();
+  }, []);
+
+  const updateDayHours = (day: number, changes: Partial<DayHours>) => {
+    setDayHours(current => ({ ...current, [day]: { ...current[day], ...changes } }));
+  };
+
+  const updateBreak = (index: number, changes: Partial<BreakPeriod>) => {
+    setBreaks(current => current.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const updateBlockedPeriod = (index: number, changes: Partial<BlockedPeriod>) => {
+    setBlockedPeriods(current => current.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const addBreak = () => {
+    setBreaks(current => [...current, { day: null, start: '13:00', end: '14:00', label: 'Lunch' }]);
+  };
+
+  const addBlockedPeriod = () => {
+    const today = formatDateKey(new Date());
+    setBlockedPeriods(current => [...current, { startDate: today, endDate: today, type: 'holiday', reason: '' }]);
+  };
+
+  const handleDateChange = (event: any, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      setDatePickerTarget(null);
+    }
+
+    if (selectedDate && datePickerTarget) {
+      const dateKey = formatDateKey(selectedDate);
+      const period = blockedPeriods[datePickerTarget.index];
+      const changes: Partial<BlockedPeriod> = { [datePickerTarget.field]: dateKey };
+
+      // Keep the range valid when one end moves past the other
+      if (datePickerTarget.field === 'startDate' && dateKey > period.endDate) {
+        changes.endDate = dateKey;
+      } else if (datePickerTarget.field === 'endDate' && dateKey < period.startDate) {
+        changes.startDate = dateKey;
+      }
+
+      updateBlockedPeriod(datePickerTarget.index, changes);
+    }
+  };
+
+  const validateForm = (): string | null => {
+    const invalidDay = WEEKDAYS.find(({ day }) => dayHours[day].enabled && !isValidRange(dayHours[day].start, dayHours[day].end));
+    if (invalidDay) {
+      return `${invalidDay.label}: enter a start time before the end time (HH:MM)`;
+    }
+
+    if (breaks.some(item => !isValidRange(item.start, item.end))) {
+      return 'Breaks need a start time before the end time (HH:MM)';
+    }
+
+    return null;
+  };
+
+  const handleSave = async () => {
+    const validationError = validateForm();
+    if (validationError) {
+      Alert.alert('Invalid Availability', validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await updateAvailabilitySettings({
+        workingHours: WEEKDAYS
+          .filter(({ day }) => dayHours[day].enabled)
+          .map(({ day }) => ({ day, start: dayHours[day].start, end: dayHours[day].end })),
+        breaks: breaks.map(item => ({ ...item, label: item.label.trim() })),
+        blockedPeriods: blockedPeriods.map(item => ({ ...item, reason: item.reason.trim() })),
+      });
+      Alert.alert('Success', 'Availability updated successfully');
+    } catch (error: any) {
+      Alert.alert('Update Failed', error.message || 'Failed to update availability. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void, key?: string | number) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: selected ? theme.primaryColor : theme.borderColor },
+        selected ? { backgroundColor: theme.primaryColor } : null
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: selected ? 'white' : theme.textColor }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderTimeInput = (value: string, onChangeText: (text: string) => void, editable = true) => (
+    <TextInput
+      style={[
+        styles.timeInput,
+        { color: theme.textColor, borderColor: theme.borderColor },
+        !editable ? styles.disabledInput : null
+      ]}
+      value={value}
+      onChangeText={onChangeText}
+      placeholder="HH:MM"
+      placeholderTextColor={theme.placeholderColor}
+      keyboardType="numbers-and-punctuation"
+      maxLength={5}
+      editable={editable}
+    />
+  );
+
+  const pickerPeriod = datePickerTarget ? blockedPeriods[datePickerTarget.index] : null;
+  const pickerValue = pickerPeriod && datePickerTarget ? parseDateKey(pickerPeriod[datePickerTarget.field]) : new Date();
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundColor }]}>
+      <StatusBar barStyle={isDarkMode ? 'light-content' : 'dark-content'} />
+
+      <CustomHeader title="Availability" showBackButton={true} />
+
+      {loading ? (
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color={theme.primaryColor} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollViewContent}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Working hours */}
+          <View style={[styles.card, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }]}>
+            <Text style={[styles.sectionTitle, { color: theme.textColor }]}>Working Hours</Text>
+            <Text style={[styles.hintText, { color: theme.placeholderColor }]}>
+              With no working days set, sessions can be booked at any time.
+            </Text>
+            {WEEKDAYS.map(({ day, label }) => (
+              <View key={day} style={styles.dayRow}>
+                <Switch
+                  value={dayHours[day].enabled}
+                  onValueChange={enabled => updateDayHours(day, { enabled })}
+                  trackColor={{ false: theme.borderColor, true: theme.primaryColor }}
+                />
+                <Text style={[styles.dayLabel, { color: theme.textColor }]}>{label}</Text>
+                {renderTimeInput(dayHours[day].start, start => updateDayHours(day, { start }), dayHours[day].enabled)}
+                <Text style={[styles.rangeSeparator, { color: theme.textColor }]}>-</Text>
+                {renderTimeInput(dayHours[day].end, end => updateDayHours(day, { end }), dayHours[day].enabled)}
+              </View>
+            ))}
+          </View>
+
+          {/* Breaks */}
+          <View style={[styles.card, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }]}>
+            <View style={styles.sectionHeader}>
+              <Text style={[styles.sectionTitle, { color: theme.textColor }]}>Breaks</Text>
+              <TouchableOpacity style={styles.addButton} onPress={addBreak}>
+                <Plus size={18} color={theme.primaryColor} />
+                <Text style={[styles.addButtonText, { color: theme.primaryColor }]}>Add</Text>
+              </TouchableOpacity>
+            </View>
+            {breaks.length === 0 && (
+              <Text style={[styles.hintText, { color: theme.placeholderColor }]}>No breaks</Text>
+            )}
+            {breaks.map((item, index) => (
+              <View key={index} style={[styles.listItem, { borderTopColor: theme.separatorColor }]}>
+                <View style={styles.itemRow}>
+                  <TextInput
+                    style={[styles.textInput, { color: theme.textColor, borderColor: theme.borderColor }]}
+                    value={item.label}
+                    onChangeText={label => updateBreak(index, { label })}
+                    placeholder="Label"
+                    placeholderTextColor={theme.placeholderColor}
+                  />
+                  {renderTimeInput(item.start, start => updateBreak(index, { start }))}
+                  <Text style={[styles.rangeSeparator, { color: theme.textColor }]}>-</Text>
+                  {renderTimeInput(item.end, end => updateBreak(index, { end }))}
+                  <TouchableOpacity
+                    style={styles.removeButton}
+                    onPress={() => setBreaks(current => current.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 size={18} color={theme.errorColor} />
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.chipRow}>
+                  {renderChip('Every day', item.day === null, () => updateBreak(index, { day: null }))}
+                  {WEEKDAYS.map(({ day, short }) =>
+                    renderChip(short, item.day === day, () => updateBreak(index, { day }), day)
+                  )}
+                </View>
+              </View>
+            ))}
+          </View>
+
+          {/* Holidays and leave */}
+          <View style={[styles.card, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }]}>
+            <View style={styles.sectionHeader}>
+              <Text style={[styles.sectionTitle, { color: theme.textColor }]}>Holidays & Leave</Text>
+              <TouchableOpacity style={styles.addButton} onPress={addBlockedPeriod}>
+                <Plus size={18} color={theme.primaryColor} />
+                <Text style={[styles.addButtonText, { color: theme.primaryColor }]}>Add</Text>
+              </TouchableOpacity>
+            </View>
+            {blockedPeriods.length === 0 && (
+              <Text style={[styles.hintText, { color: theme.placeholderColor }]}>No blocked days</Text>
+            )}
+            {blockedPeriods.map((item, index) => (
+              <View key={index} style={[styles.listItem, { borderTopColor: theme.separatorColor }]}>
+                <View style={styles.itemRow}>
+                  <TouchableOpacity
+                    style={[styles.dateButton, { borderColor: theme.borderColor }]}
+                    onPress={() => setDatePickerTarget({ index, field: 'startDate' })}
+                  >
+                    <Text style={{ color: theme.textColor }}>{parseDateKey(item.startDate).toLocaleDateString()}</Text>
+                  </TouchableOpacity>
+                  <Text style={[styles.rangeSeparator, { color: theme.textColor }]}>-</Text>
+                  <TouchableOpacity
+                    style={[styles.dateButton, { borderColor: theme.borderColor }]}
+                    onPress={() => setDatePickerTarget({ index, field: 'endDate' })}
+                  >
+                    <Text style={{ color: theme.textColor }}>{parseDateKey(item.endDate).toLocaleDateString()}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.removeButton}
+                    onPress={() => setBlockedPeriods(current => current.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 size={18} color={theme.errorColor} />
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.chipRow}>
+                  {BLOCKED_TYPES.map(option =>
+                    renderChip(option.label, item.type === option.type, () => updateBlockedPeriod(index, { type: option.type }), option.type)
+                  )}
+                </View>
+                <TextInput
+                  style={[styles.textInput, styles.reasonInput, { color: theme.textColor, borderColor: theme.borderColor }]}
+                  value={item.reason}
+                  onChangeText={reason => updateBlockedPeriod(index, { reason })}
+                  placeholder="Reason (optional)"
+                  placeholderTextColor={theme.placeholderColor}
+                />
+              </View>
+            ))}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.primaryColor }, isSaving ? styles.disabledButton : null]}
+            onPress={handleSave}
+            disabled={isSaving}
+          >
+            {isSaving ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text style={styles.buttonText}>Save Availability</Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+
+      {datePickerTarget && Platform.OS === 'ios' && (
+        <Modal transparent={true} animationType="slide" visible={true}>
+          <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+            <View style={[styles.datePickerContainer, { backgroundColor: theme.cardBackground }]}>
+              <View style={[styles.datePickerHeader, { borderBottomColor: theme.separatorColor }]}>
+                <TouchableOpacity onPress={() => setDatePickerTarget(null)}>
+                  <Text style={[styles.datePickerDoneText, { color: theme.primaryColor }]}>Done</Text>
+                </TouchableOpacity>
+              </View>
+              <DateTimePicker
+                value={pickerValue}
+                mode="date"
+                display="spinner"
+                onChange={handleDateChange}
+                style={styles.datePicker}
+                textColor={theme.textColor}
+                themeVariant={isDarkMode ? 'dark' : 'light'}
+              />
+            </View>
+          </View>
+        </Modal>
+      )}
+
+      {datePickerTarget && Platform.OS !== 'ios' && (
+        <DateTimePicker
+          value={pickerValue}
+          mode="date"
+          display="default"
+          onChange={handleDateChange}
+          themeVariant={isDarkMode ? 'dark' : 'light'}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  scrollViewContent: {
+    paddingBottom: 30,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    marginBottom: 20,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  hintText: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 5,
+  },
+  addButtonText: {
+    fontSize: 16,
+    marginLeft: 4,
+  },
+  dayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 6,
+  },
+  dayLabel: {
+    flex: 1,
+    fontSize: 16,
+    marginLeft: 10,
+  },
+  timeInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    fontSize: 15,
+    width: 64,
+    textAlign: 'center',
+  },
+  disabledInput: {
+    opacity: 0.4,
+  },
+  rangeSeparator: {
+    marginHorizontal: 6,
+  },
+  listItem: {
+    borderTopWidth: 1,
+    paddingVertical: 10,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  textInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    fontSize: 15,
+    marginRight: 8,
+  },
+  reasonInput: {
+    marginRight: 0,
+    marginTop: 8,
+  },
+  removeButton: {
+    padding: 5,
+    marginLeft: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  dateButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  button: {
+    borderRadius: 8,
+    padding: 15,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  datePickerContainer: {
+    borderRadius: 10,
+    width: '100%',
+    position: 'absolute',
+    bottom: 0,
+  },
+  datePickerHeader: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    padding: 15,
+    borderBottomWidth: 1,
+  },
+  datePickerDoneText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  datePicker: {
+    height: 200,
+  },
+});
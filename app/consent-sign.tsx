@@ -0,0 +1,298 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  useColorScheme,
+  StatusBar,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import CustomHeader from '../components/CustomHeader';
+import SignaturePad from '../components/SignaturePad';
+import { getPatientById, getConsentTemplates, saveConsent } from '../utils/mongoStorage';
+import {
+  SignatureStroke,
+  buildSignatureSvg,
+  fillConsentText,
+  formatValidity,
+  hasSignature
+} from '../utils/consents';
+import { Patient, ConsentTemplate } from '../types';
+
+// The patient reads the consent form, types their name and signs on the device
+export default function ConsentSignScreen() {
+  const params = useLocalSearchParams();
+  const patientId = params.patientId as string;
+  const router = useRouter();
+
+  const [patient, setPatient] = useState<Patient | null>(null);
+  const [templates, setTemplates] = useState<ConsentTemplate[]>([]);
+  const [selectedTemplate, setSelectedTemplate] = useState<ConsentTemplate | null>(null);
+  const [signerName, setSignerName] = useState('');
+  const [strokes, setStrokes] = useState<SignatureStroke[]>([]);
+  const [padSize, setPadSize] = useState({ width: 0, height: 0 });
+  const [isSigning, setIsSigning] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#1E1E1E' : '#F2F2F7',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    inputBackground: isDarkMode ? '#333333' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    primaryColor: '#0A84FF',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    subtitleColor: '#8E8E93',
+  };
+
+  useEffect(() => {
+    const loadData = async () => {
+      if (!patientId) return;
+
+      try {
+        const [patientInfo, consentTemplates] = await Promise.all([
+          getPatientById(patientId),
+          getConsentTemplates()
+        ]);
+        if (patientInfo) {
+          setPatient(patientInfo);
+          setSignerName(patientInfo.name);
+        }
+        setTemplates(consentTemplates);
+        setSelectedTemplate(consentTemplates[0] || null);
+      } catch (error) {
+        console.error('Error loading consent forms:', error);
+        Alert.alert('Error', 'Failed to load consent forms');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [patientId]);
+
+  const consentText = patient && selectedTemplate ? fillConsentText(selectedTemplate, patient.name) : '';
+
+  const handleSignatureChange = (updated: SignatureStroke[], width: number, height: number) => {
+    setStrokes(updated);
+    setPadSize({ width, height });
+  };
+
+  const handleSave = async () => {
+    if (!patient || !selectedTemplate) return;
+
+    if (!signerName.trim()) {
+      Alert.alert('Missing Name', 'Please enter the name of the person signing');
+      return;
+    }
+    if (!hasSignature(strokes)) {
+      Alert.alert('Missing Signature', 'Please sign in the box before saving');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await saveConsent({
+        patientId: patient.id,
+        templateId: selectedTemplate.id,
+        title: selectedTemplate.title,
+        text: consentText,
+        signature: buildSignatureSvg(strokes, padSize.width, padSize.height),
+        signerName: signerName.trim(),
+      });
+      router.back();
+    } catch (error: any) {
+      Alert.alert('Save Failed', error.message || 'Failed to save the consent. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundColor }]}>
+      <StatusBar barStyle={isDarkMode ? 'light-content' : 'dark-content'} />
+
+      <CustomHeader
+        title={patient ? patient.name : 'Consent'}
+        showBackButton={true}
+        hideProfileDropdown={true}
+      />
+
+      {loading ? (
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color={theme.primaryColor} />
+        </View>
+      ) : !patient ? (
+        <View style={styles.centerContent}>
+          <Text style={{ color: theme.textColor }}>Patient not found</Text>
+        </View>
+      ) : templates.length === 0 ? (
+        <View style={styles.centerContent}>
+          <Text style={[styles.emptyText, { color: theme.subtitleColor }]}>
+            No consent forms yet. Add one from Consent Forms in the profile menu.
+          </Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollViewContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+          scrollEnabled={!isSigning}
+        >
+          {templates.length > 1 && (
+            <View style={styles.chipRow}>
+              {templates.map(template => {
+                const isSelected = template.id === selectedTemplate?.id;
+                return (
+                  <TouchableOpacity
+                    key={template.id}
+                    style={[
+                      styles.chip,
+                      { borderColor: isSelected ? theme.primaryColor : theme.borderColor },
+                      isSelected ? { backgroundColor: theme.primaryColor } : null
+                    ]}
+                    onPress={() => setSelectedTemplate(template)}
+                  >
+                    <Text style={[styles.chipText, { color: isSelected ? 'white' : theme.textColor }]}>
+                      {template.title}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+
+          {selectedTemplate && (
+            <View style={[styles.card, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }]}>
+              <Text style={[styles.sectionTitle, { color: theme.textColor }]}>{selectedTemplate.title}</Text>
+              <Text style={[styles.hintText, { color: theme.subtitleColor }]}>
+                {formatValidity(selectedTemplate.validForMonths)}
+              </Text>
+              <Text style={[styles.consentText, { color: theme.textColor }]}>{consentText}</Text>
+            </View>
+          )}
+
+          <View style={[styles.card, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }]}>
+            <Text style={[styles.label, { color: theme.textColor }]}>Signed By</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.borderColor, color: theme.textColor }]}
+              value={signerName}
+              onChangeText={setSignerName}
+              placeholder="Patient or guardian name"
+              placeholderTextColor={theme.placeholderColor}
+            />
+
+            <Text style={[styles.label, { color: theme.textColor }]}>Signature</Text>
+            <SignaturePad value={strokes} onChange={handleSignatureChange} onSigningChange={setIsSigning} />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.primaryColor }, isSaving ? styles.disabledButton : null]}
+            onPress={handleSave}
+            disabled={isSaving}
+          >
+            {isSaving ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text style={styles.buttonText}>I Agree and Sign</Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+  },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  scrollViewContent: {
+    paddingBottom: 30,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  hintText: {
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  consentText: {
+    fontSize: 16,
+    lineHeight: 23,
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 5,
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  button: {
+    borderRadius: 8,
+    padding: 15,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,395 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Modal,
+  useColorScheme,
+  useWindowDimensions,
+  StatusBar,
+} from 'react-native';
+import { Plus, Trash2, Edit } from 'lucide-react-native';
+import CustomHeader from '../components/CustomHeader';
+import {
+  getConsentTemplates,
+  saveConsentTemplate,
+  updateConsentTemplate,
+  deleteConsentTemplate
+} from '../utils/mongoStorage';
+import { TEMPLATE_PLACEHOLDERS } from '../utils/noteTemplates';
+import { MAX_VALID_FOR_MONTHS, formatValidity } from '../utils/consents';
+import { ConsentTemplate } from '../types';
+
+interface TemplateDraft {
+  title: string;
+  body: string;
+  validForMonths: string; // Empty for no expiry
+}
+
+const EMPTY_DRAFT: TemplateDraft = { title: '', body: '', validForMonths: '12' };
+
+export default function ConsentTemplatesScreen() {
+  const [templates, setTemplates] = useState<ConsentTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingTemplate, setEditingTemplate] = useState<ConsentTemplate | null>(null);
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [draft, setDraft] = useState<TemplateDraft>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const { height: windowHeight } = useWindowDimensions();
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#1E1E1E' : '#F2F2F7',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    primaryColor: '#0A84FF',
+    errorColor: '#FF453A',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    subtitleColor: '#8E8E93',
+    cancelButtonBg: isDarkMode ? '#444444' : '#E5E5EA',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+  };
+
+  const loadTemplates = async () => {
+    try {
+      setLoading(true);
+      setTemplates(await getConsentTemplates());
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const openEditor = (template?: ConsentTemplate) => {
+    setEditingTemplate(template || null);
+    setDraft(template
+      ? {
+        title: template.title,
+        body: template.body,
+        validForMonths: template.validForMonths ? template.validForMonths.toString() : ''
+      }
+      : EMPTY_DRAFT);
+    setEditorVisible(true);
+  };
+
+  const handleSave = async () => {
+    if (!draft.title.trim()) {
+      Alert.alert('Missing Title', 'Please give the consent form a title');
+      return;
+    }
+    if (!draft.body.trim()) {
+      Alert.alert('Missing Text', 'Please enter the text the patient will agree to');
+      return;
+    }
+
+    const months = draft.validForMonths.trim() ? Number(draft.validForMonths) : null;
+    if (months !== null && (!Number.isInteger(months) || months < 1 || months > MAX_VALID_FOR_MONTHS)) {
+      Alert.alert('Invalid Validity', `Enter a whole number of months from 1 to ${MAX_VALID_FOR_MONTHS}, or leave it empty for no expiry`);
+      return;
+    }
+
+    const fields = { title: draft.title.trim(), body: draft.body.trim(), validForMonths: months };
+
+    try {
+      setIsSaving(true);
+      if (editingTemplate) {
+        const updated = await updateConsentTemplate({ ...editingTemplate, ...fields });
+        setTemplates(current => current.map(item => (item.id === updated.id ? updated : item)));
+      } else {
+        const created = await saveConsentTemplate(fields);
+        setTemplates(current => [...current, created].sort((a, b) => a.title.localeCompare(b.title)));
+      }
+      setEditorVisible(false);
+    } catch (error: any) {
+      Alert.alert('Save Failed', error.message || 'Failed to save the consent form. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (template: ConsentTemplate) => {
+    Alert.alert(
+      'Delete Consent Form',
+      `Delete "${template.title}"? Consents already signed are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteConsentTemplate(template.id);
+              setTemplates(current => current.filter(item => item.id !== template.id));
+            } catch (error) {
+              console.error('Error deleting consent template:', error);
+              Alert.alert('Error', 'Failed to delete consent form');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundColor }]}>
+      <StatusBar barStyle={isDarkMode ? 'light-content' : 'dark-content'} />
+
+      <CustomHeader title="Consent Forms" showBackButton={true} />
+
+      {loading ? (
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color={theme.primaryColor} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollViewContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.sectionHeader}>
+            <Text style={[styles.hintText, { color: theme.subtitleColor }]}>
+              Patients sign these on the device from their patient screen.
+            </Text>
+            <TouchableOpacity style={styles.addButton} onPress={() => openEditor()}>
+              <Plus size={18} color={theme.primaryColor} />
+              <Text style={[styles.addButtonText, { color: theme.primaryColor }]}>Add</Text>
+            </TouchableOpacity>
+          </View>
+
+          {templates.length === 0 && (
+            <Text style={[styles.emptyText, { color: theme.placeholderColor }]}>No consent forms yet</Text>
+          )}
+
+          {templates.map(template => (
+            <View
+              key={template.id}
+              style={[styles.card, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }]}
+            >
+              <View style={styles.cardHeader}>
+                <Text style={[styles.templateName, { color: theme.textColor }]}>{template.title}</Text>
+                <TouchableOpacity style={styles.iconButton} onPress={() => openEditor(template)}>
+                  <Edit size={18} color={theme.primaryColor} />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(template)}>
+                  <Trash2 size={18} color={theme.errorColor} />
+                </TouchableOpacity>
+              </View>
+              <Text style={[styles.validityText, { color: theme.subtitleColor }]}>
+                {formatValidity(template.validForMonths)}
+              </Text>
+              <Text style={[styles.previewText, { color: theme.textColor }]} numberOfLines={3}>
+                {template.body}
+              </Text>
+            </View>
+          ))}
+        </ScrollView>
+      )}
+
+      <Modal
+        visible={editorVisible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setEditorVisible(false)}
+      >
+        <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+          <View style={[styles.modalContent, { backgroundColor: theme.cardBackground, maxHeight: windowHeight * 0.9 }]}>
+            <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+              <Text style={[styles.modalTitle, { color: theme.textColor }]}>
+                {editingTemplate ? 'Edit Consent Form' : 'New Consent Form'}
+              </Text>
+
+              <Text style={[styles.label, { color: theme.textColor }]}>Title</Text>
+              <TextInput
+                style={[styles.input, { color: theme.textColor, borderColor: theme.borderColor }]}
+                value={draft.title}
+                onChangeText={title => setDraft(current => ({ ...current, title }))}
+                placeholder="e.g. Consent to assessment and treatment"
+                placeholderTextColor={theme.placeholderColor}
+              />
+
+              <Text style={[styles.label, { color: theme.textColor }]}>Consent Text</Text>
+              <TextInput
+                style={[styles.input, styles.bodyInput, { color: theme.textColor, borderColor: theme.borderColor }]}
+                value={draft.body}
+                onChangeText={body => setDraft(current => ({ ...current, body }))}
+                placeholder="I, {patientName}, consent to..."
+                placeholderTextColor={theme.placeholderColor}
+                multiline={true}
+              />
+
+              <Text style={[styles.label, { color: theme.textColor }]}>Valid For (months)</Text>
+              <TextInput
+                style={[styles.input, { color: theme.textColor, borderColor: theme.borderColor }]}
+                value={draft.validForMonths}
+                onChangeText={validForMonths => setDraft(current => ({ ...current, validForMonths }))}
+                placeholder="Leave empty for no expiry"
+                placeholderTextColor={theme.placeholderColor}
+                keyboardType="number-pad"
+              />
+
+              <Text style={[styles.hintText, { color: theme.subtitleColor }]}>
+                Placeholders: {TEMPLATE_PLACEHOLDERS.map(placeholder => placeholder.key).join(', ')}. The date and time
+                are filled in when the patient signs.
+              </Text>
+
+              <View style={styles.buttonRow}>
+                <TouchableOpacity
+                  style={[styles.button, { backgroundColor: theme.cancelButtonBg }]}
+                  onPress={() => setEditorVisible(false)}
+                  disabled={isSaving}
+                >
+                  <Text style={[styles.buttonText, { color: theme.textColor }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, { backgroundColor: theme.primaryColor }, isSaving ? styles.disabledButton : null]}
+                  onPress={handleSave}
+                  disabled={isSaving}
+                >
+                  {isSaving ? (
+                    <ActivityIndicator size="small" color="white" />
+                  ) : (
+                    <Text style={[styles.buttonText, { color: 'white' }]}>Save</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  scrollViewContent: {
+    paddingBottom: 30,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  hintText: {
+    flex: 1,
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 5,
+  },
+  addButtonText: {
+    fontSize: 16,
+    marginLeft: 4,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 30,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  templateName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  iconButton: {
+    padding: 5,
+    marginLeft: 4,
+  },
+  validityText: {
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  previewText: {
+    fontSize: 14,
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 500,
+    borderRadius: 12,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 5,
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  bodyInput: {
+    minHeight: 160,
+    textAlignVertical: 'top',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    marginTop: 10,
+  },
+  button: {
+    flex: 1,
+    borderRadius: 8,
+    padding: 14,
+    marginHorizontal: 4,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,259 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  useColorScheme,
+  StatusBar,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { Share2 } from 'lucide-react-native';
+import CustomHeader from '../components/CustomHeader';
+import { useAuth } from '../utils/AuthContext';
+import { getPatientById, getTreatmentPlans, getPatientSessions, getOutcomeMeasures } from '../utils/mongoStorage';
+import { shareDischargeLetter } from '../utils/exportUtils';
+import { DischargeLetter, buildDischargeLetter, getPatientDetailsLine } from '../utils/dischargeLetter';
+import { hasClinicDetails } from '../utils/clinic';
+import { Patient } from '../types';
+
+// A draft letter to the referring doctor, filled in from the plan and edited before sharing
+export default function DischargeLetterScreen() {
+  const params = useLocalSearchParams();
+  const patientId = params.patientId as string;
+  const planId = params.planId as string;
+  const router = useRouter();
+  const { user } = useAuth();
+
+  const [patient, setPatient] = useState<Patient | null>(null);
+  const [letter, setLetter] = useState<DischargeLetter | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSharing, setIsSharing] = useState(false);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#1E1E1E' : '#F2F2F7',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    primaryColor: '#0A84FF',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    subtitleColor: '#8E8E93',
+    warningColor: '#FF9500',
+  };
+
+  useEffect(() => {
+    const loadData = async () => {
+      if (!patientId || !planId) return;
+
+      try {
+        const [patientInfo, plans, sessions, outcomeResults] = await Promise.all([
+          getPatientById(patientId),
+          getTreatmentPlans(patientId),
+          getPatientSessions(patientId),
+          getOutcomeMeasures(patientId)
+        ]);
+        const plan = plans.find(item => item.id === planId);
+        if (patientInfo && plan) {
+          setPatient(patientInfo);
+          setLetter(buildDischargeLetter({ patient: patientInfo, plan, sessions, outcomeResults, clinic: user?.clinic }));
+        }
+      } catch (error) {
+        console.error('Error preparing letter:', error);
+        Alert.alert('Error', 'Failed to prepare the letter');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [patientId, planId]);
+
+  const updateLetter = (changes: Partial<DischargeLetter>) => {
+    setLetter(current => (current ? { ...current, ...changes } : current));
+  };
+
+  const updateSection = (index: number, text: string) => {
+    setLetter(current => (current
+      ? { ...current, sections: current.sections.map((section, i) => (i === index ? { ...section, text } : section)) }
+      : current));
+  };
+
+  const handleShare = async () => {
+    if (!patient || !letter) return;
+
+    setIsSharing(true);
+    const success = await shareDischargeLetter(letter, patient.name, getPatientDetailsLine(patient), user?.clinic);
+    setIsSharing(false);
+
+    if (!success) {
+      Alert.alert('Share Failed', 'Failed to create the letter. Please try again.');
+    }
+  };
+
+  const renderField = (label: string, value: string, onChangeText: (text: string) => void, multiline = false, placeholder = '') => (
+    <View key={label} style={styles.formGroup}>
+      <Text style={[styles.label, { color: theme.textColor }]}>{label}</Text>
+      <TextInput
+        style={[
+          styles.input,
+          multiline ? styles.textArea : null,
+          { borderColor: theme.borderColor, color: theme.textColor }
+        ]}
+        value={value}
+        onChangeText={onChangeText}
+        placeholder={placeholder}
+        placeholderTextColor={theme.placeholderColor}
+        multiline={multiline}
+      />
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundColor }]}>
+      <StatusBar barStyle={isDarkMode ? 'light-content' : 'dark-content'} />
+
+      <CustomHeader
+        title={patient ? patient.name : 'Letter'}
+        showBackButton={true}
+        hideProfileDropdown={true}
+      />
+
+      {loading ? (
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color={theme.primaryColor} />
+        </View>
+      ) : !patient || !letter ? (
+        <View style={styles.centerContent}>
+          <Text style={{ color: theme.textColor }}>Treatment plan not found</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollViewContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {!hasClinicDetails(user?.clinic) && (
+            <TouchableOpacity onPress={() => router.push('/profile' as any)}>
+              <Text style={[styles.warningText, { color: theme.warningColor }]}>
+                No clinic letterhead yet. Tap to add your clinic details to your profile.
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          <View style={[styles.card, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }]}>
+            {renderField('To', letter.recipient, recipient => updateLetter({ recipient }), true, 'Referring doctor and address')}
+            {renderField('Subject', letter.subject, subject => updateLetter({ subject }))}
+            <Text style={[styles.hintText, { color: theme.subtitleColor }]}>{getPatientDetailsLine(patient)}</Text>
+            {renderField('Greeting', letter.greeting, greeting => updateLetter({ greeting }))}
+          </View>
+
+          <View style={[styles.card, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }]}>
+            <Text style={[styles.hintText, { color: theme.subtitleColor }]}>
+              Drafted from the plan, session notes and outcome scores. Sections left empty are not included.
+            </Text>
+            {letter.sections.map((section, index) => renderField(
+              section.heading,
+              section.text,
+              text => updateSection(index, text),
+              true
+            ))}
+            {renderField('Closing', letter.closing, closing => updateLetter({ closing }), true)}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.primaryColor }, isSharing ? styles.disabledButton : null]}
+            onPress={handleShare}
+            disabled={isSharing}
+          >
+            {isSharing ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <View style={styles.buttonContent}>
+                <Share2 size={18} color="white" />
+                <Text style={styles.buttonText}>Share Letter</Text>
+              </View>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  scrollViewContent: {
+    paddingBottom: 30,
+  },
+  warningText: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 12,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    marginBottom: 20,
+  },
+  hintText: {
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  formGroup: {
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 5,
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  textArea: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  button: {
+    borderRadius: 8,
+    padding: 15,
+    alignItems: 'center',
+  },
+  buttonContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 16,
+    marginLeft: 8,
+  },
+});
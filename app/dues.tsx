@@ -0,0 +1,177 @@
+import React, { useState, useCallback } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  useColorScheme,
+  StatusBar,
+} from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { ChevronRight } from 'lucide-react-native';
+import CustomHeader from '../components/CustomHeader';
+import { getDues } from '../utils/mongoStorage';
+import { formatMoney } from '../utils/currency';
+import { parseDateKey } from '../utils/calendarUtils';
+import { PatientDue } from '../types';
+
+// Patients who owe money, largest balance first; tap one to record a payment on their screen
+export default function DuesScreen() {
+  const [dues, setDues] = useState<PatientDue[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#1E1E1E' : '#F2F2F7',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    primaryColor: '#0A84FF',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    subtitleColor: '#8E8E93',
+    warningColor: '#FF9500',
+  };
+
+  const loadDues = async () => {
+    try {
+      setLoading(true);
+      setDues(await getDues());
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Payments are recorded on the patient screen, so reload on the way back
+  useFocusEffect(
+    useCallback(() => {
+      loadDues();
+    }, [])
+  );
+
+  const totalDue = dues.reduce((total, due) => total + due.balance, 0);
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundColor }]}>
+      <StatusBar barStyle={isDarkMode ? 'light-content' : 'dark-content'} />
+
+      <CustomHeader title="Dues" showBackButton={true} />
+
+      {loading ? (
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color={theme.primaryColor} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollViewContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={[styles.totalCard, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }]}>
+            <Text style={[styles.totalLabel, { color: theme.subtitleColor }]}>Outstanding</Text>
+            <Text style={[styles.totalAmount, { color: totalDue > 0 ? theme.warningColor : theme.textColor }]}>
+              {formatMoney(totalDue)}
+            </Text>
+            <Text style={[styles.totalLabel, { color: theme.subtitleColor }]}>
+              {dues.length} {dues.length === 1 ? 'patient' : 'patients'}
+            </Text>
+          </View>
+
+          {dues.length === 0 && (
+            <Text style={[styles.emptyText, { color: theme.placeholderColor }]}>Nobody owes anything</Text>
+          )}
+
+          {dues.map(due => (
+            <TouchableOpacity
+              key={due.patientId}
+              style={[styles.card, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }]}
+              onPress={() => router.push({
+                pathname: '/patient-sessions',
+                params: { patientId: due.patientId }
+              })}
+            >
+              <View style={styles.cardDetails}>
+                <Text style={[styles.patientName, { color: theme.textColor }]}>{due.patientName}</Text>
+                <Text style={[styles.detailText, { color: theme.subtitleColor }]}>
+                  {due.lastPaymentDate
+                    ? `Last paid ${parseDateKey(due.lastPaymentDate).toLocaleDateString()}`
+                    : 'No payments yet'}
+                  {due.phone ? ` · ${due.phone}` : ''}
+                </Text>
+              </View>
+              <Text style={[styles.balanceText, { color: theme.warningColor }]}>{formatMoney(due.balance)}</Text>
+              <ChevronRight size={18} color={theme.subtitleColor} />
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  scrollViewContent: {
+    paddingBottom: 30,
+  },
+  totalCard: {
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    marginBottom: 16,
+    alignItems: 'center',
+  },
+  totalLabel: {
+    fontSize: 14,
+  },
+  totalAmount: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    marginVertical: 4,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 30,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  cardDetails: {
+    flex: 1,
+  },
+  patientName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  detailText: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  balanceText: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginHorizontal: 8,
+  },
+});
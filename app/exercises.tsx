@@ -0,0 +1,572 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Modal,
+  Image,
+  useColorScheme,
+  useWindowDimensions,
+  StatusBar,
+} from 'react-native';
+import { Plus, Trash2, Edit, ImagePlus, Dumbbell } from 'lucide-react-native';
+import * as ImagePicker from 'expo-image-picker';
+import CustomHeader from '../components/CustomHeader';
+import { getExercises, saveExercise, updateExercise, deleteExercise } from '../utils/mongoStorage';
+import { FREQUENCY_SUGGESTIONS, formatPrescription, parseDosageInput } from '../utils/exercises';
+import { Exercise } from '../types';
+
+type ExerciseDraft = Omit<Exercise, 'id' | 'userId' | 'createdAt'>;
+
+const EMPTY_DRAFT: ExerciseDraft = {
+  name: '',
+  description: '',
+  sets: null,
+  reps: null,
+  holdSeconds: null,
+  frequency: '',
+  image: '',
+};
+
+const DOSAGE_FIELDS: { key: 'sets' | 'reps' | 'holdSeconds'; label: string }[] = [
+  { key: 'sets', label: 'Sets' },
+  { key: 'reps', label: 'Reps' },
+  { key: 'holdSeconds', label: 'Hold (s)' },
+];
+
+// Pictures are stored inline, so keep them small
+const IMAGE_OPTIONS: ImagePicker.ImagePickerOptions = {
+  mediaTypes: ImagePicker.MediaTypeOptions.Images,
+  allowsEditing: true,
+  quality: 0.5,
+  base64: true,
+  exif: false,
+};
+
+export default function ExerciseLibraryScreen() {
+  const [exercises, setExercises] = useState<Exercise[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingExercise, setEditingExercise] = useState<Exercise | null>(null);
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [draft, setDraft] = useState<ExerciseDraft>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const { height: windowHeight } = useWindowDimensions();
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#1E1E1E' : '#F2F2F7',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    primaryColor: '#0A84FF',
+    errorColor: '#FF453A',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    subtitleColor: '#8E8E93',
+    cancelButtonBg: isDarkMode ? '#444444' : '#E5E5EA',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+    imagePlaceholderBg: isDarkMode ? '#3A3A3C' : '#F2F2F7',
+  };
+
+  const loadExercises = async () => {
+    try {
+      setLoading(true);
+      setExercises(await getExercises());
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadExercises();
+  }, []);
+
+  const openEditor = (exercise?: Exercise) => {
+    setEditingExercise(exercise || null);
+    setDraft(exercise
+      ? {
+          name: exercise.name,
+          description: exercise.description,
+          sets: exercise.sets,
+          reps: exercise.reps,
+          holdSeconds: exercise.holdSeconds,
+          frequency: exercise.frequency,
+          image: exercise.image,
+        }
+      : EMPTY_DRAFT);
+    setEditorVisible(true);
+  };
+
+  const handlePickedImage = (result: ImagePicker.ImagePickerResult) => {
+    const asset = !result.canceled ? result.assets?.[0] : undefined;
+    if (asset?.base64) {
+      setDraft(current => ({ ...current, image: `data:${asset.mimeType || 'image/jpeg'};base64,${asset.base64}` }));
+    }
+  };
+
+  const pickImage = () => {
+    Alert.alert(
+      'Choose Photo Source',
+      'Where would you like to take a photo from?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Camera',
+          onPress: async () => {
+            const { status } = await ImagePicker.requestCameraPermissionsAsync();
+            if (status !== 'granted') {
+              Alert.alert('Permission Denied', 'We need camera permission to take a photo');
+              return;
+            }
+            try {
+              handlePickedImage(await ImagePicker.launchCameraAsync(IMAGE_OPTIONS));
+            } catch (error) {
+              console.error('Error taking exercise photo:', error);
+              Alert.alert('Error', 'Failed to take photo. Please try again.');
+            }
+          },
+        },
+        {
+          text: 'Photo Library',
+          onPress: async () => {
+            const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+            if (status !== 'granted') {
+              Alert.alert('Permission Denied', 'We need camera roll permission to upload an image');
+              return;
+            }
+            try {
+              handlePickedImage(await ImagePicker.launchImageLibraryAsync(IMAGE_OPTIONS));
+            } catch (error) {
+              console.error('Error picking exercise image:', error);
+              Alert.alert('Error', 'Failed to select image. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      Alert.alert('Missing Name', 'Please give the exercise a name');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      if (editingExercise) {
+        const updated = await updateExercise({ ...editingExercise, ...draft });
+        setExercises(current => current.map(item => (item.id === updated.id ? updated : item)));
+      } else {
+        const created = await saveExercise(draft);
+        setExercises(current => [...current, created].sort((a, b) => a.name.localeCompare(b.name)));
+      }
+      setEditorVisible(false);
+    } catch (error: any) {
+      Alert.alert('Save Failed', error.message || 'Failed to save the exercise. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (exercise: Exercise) => {
+    Alert.alert(
+      'Delete Exercise',
+      `Delete "${exercise.name}"? Patients who were already given it keep their copy.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteExercise(exercise.id);
+              setExercises(current => current.filter(item => item.id !== exercise.id));
+            } catch (error) {
+              console.error('Error deleting exercise:', error);
+              Alert.alert('Error', 'Failed to delete exercise');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundColor }]}>
+      <StatusBar barStyle={isDarkMode ? 'light-content' : 'dark-content'} />
+
+      <CustomHeader title="Exercise Library" showBackButton={true} />
+
+      {loading ? (
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color={theme.primaryColor} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollViewContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.sectionHeader}>
+            <Text style={[styles.hintText, { color: theme.subtitleColor }]}>
+              Prescribe exercises from a patient&apos;s page or the session form.
+            </Text>
+            <TouchableOpacity style={styles.addButton} onPress={() => openEditor()}>
+              <Plus size={18} color={theme.primaryColor} />
+              <Text style={[styles.addButtonText, { color: theme.primaryColor }]}>Add</Text>
+            </TouchableOpacity>
+          </View>
+
+          {exercises.length === 0 && (
+            <Text style={[styles.emptyText, { color: theme.placeholderColor }]}>No exercises yet</Text>
+          )}
+
+          {exercises.map(exercise => {
+            const dosage = formatPrescription(exercise);
+
+            return (
+              <View
+                key={exercise.id}
+                style={[styles.card, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }]}
+              >
+                {exercise.image ? (
+                  <Image source={{ uri: exercise.image }} style={styles.thumbnail} />
+                ) : (
+                  <View style={[styles.thumbnail, styles.thumbnailPlaceholder, { backgroundColor: theme.imagePlaceholderBg }]}>
+                    <Dumbbell size={22} color={theme.subtitleColor} />
+                  </View>
+                )}
+                <View style={styles.cardBody}>
+                  <Text style={[styles.exerciseName, { color: theme.textColor }]}>{exercise.name}</Text>
+                  {dosage ? (
+                    <Text style={[styles.dosageText, { color: theme.primaryColor }]}>{dosage}</Text>
+                  ) : null}
+                  {exercise.description ? (
+                    <Text style={[styles.previewText, { color: theme.subtitleColor }]} numberOfLines={2}>
+                      {exercise.description}
+                    </Text>
+                  ) : null}
+                </View>
+                <TouchableOpacity style={styles.iconButton} onPress={() => openEditor(exercise)}>
+                  <Edit size={18} color={theme.primaryColor} />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(exercise)}>
+                  <Trash2 size={18} color={theme.errorColor} />
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+        </ScrollView>
+      )}
+
+      <Modal
+        visible={editorVisible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setEditorVisible(false)}
+      >
+        <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+          <View style={[styles.modalContent, { backgroundColor: theme.cardBackground, maxHeight: windowHeight * 0.9 }]}>
+            <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+              <Text style={[styles.modalTitle, { color: theme.textColor }]}>
+                {editingExercise ? 'Edit Exercise' : 'New Exercise'}
+              </Text>
+
+              <Text style={[styles.label, { color: theme.textColor }]}>Name</Text>
+              <TextInput
+                style={[styles.input, { color: theme.textColor, borderColor: theme.borderColor }]}
+                value={draft.name}
+                onChangeText={name => setDraft(current => ({ ...current, name }))}
+                placeholder="e.g. Straight leg raise"
+                placeholderTextColor={theme.placeholderColor}
+              />
+
+              <Text style={[styles.label, { color: theme.textColor }]}>Instructions</Text>
+              <TextInput
+                style={[styles.input, styles.textArea, { color: theme.textColor, borderColor: theme.borderColor }]}
+                value={draft.description}
+                onChangeText={description => setDraft(current => ({ ...current, description }))}
+                placeholder="How to perform the exercise"
+                placeholderTextColor={theme.placeholderColor}
+                multiline={true}
+              />
+
+              <View style={styles.dosageRow}>
+                {DOSAGE_FIELDS.map(field => (
+                  <View key={field.key} style={styles.dosageField}>
+                    <Text style={[styles.label, { color: theme.textColor }]}>{field.label}</Text>
+                    <TextInput
+                      style={[styles.input, { color: theme.textColor, borderColor: theme.borderColor }]}
+                      value={draft[field.key]?.toString() || ''}
+                      onChangeText={text => setDraft(current => ({ ...current, [field.key]: parseDosageInput(text) }))}
+                      placeholder="-"
+                      placeholderTextColor={theme.placeholderColor}
+                      keyboardType="number-pad"
+                    />
+                  </View>
+                ))}
+              </View>
+
+              <Text style={[styles.label, { color: theme.textColor }]}>Frequency</Text>
+              <TextInput
+                style={[styles.input, { color: theme.textColor, borderColor: theme.borderColor }]}
+                value={draft.frequency}
+                onChangeText={frequency => setDraft(current => ({ ...current, frequency }))}
+                placeholder="e.g. Twice daily"
+                placeholderTextColor={theme.placeholderColor}
+              />
+              <View style={styles.chipRow}>
+                {FREQUENCY_SUGGESTIONS.map(suggestion => {
+                  const isSelected = draft.frequency === suggestion;
+                  return (
+                    <TouchableOpacity
+                      key={suggestion}
+                      style={[
+                        styles.chip,
+                        { borderColor: isSelected ? theme.primaryColor : theme.borderColor },
+                        isSelected && { backgroundColor: theme.primaryColor },
+                      ]}
+                      onPress={() => setDraft(current => ({ ...current, frequency: suggestion }))}
+                    >
+                      <Text style={[styles.chipText, { color: isSelected ? 'white' : theme.textColor }]}>{suggestion}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+
+              <Text style={[styles.label, { color: theme.textColor }]}>Picture</Text>
+              {draft.image ? (
+                <View style={styles.imagePreviewContainer}>
+                  <Image source={{ uri: draft.image }} style={styles.imagePreview} resizeMode="contain" />
+                  <View style={styles.imageActions}>
+                    <TouchableOpacity style={styles.addButton} onPress={pickImage}>
+                      <Text style={[styles.addButtonText, { color: theme.primaryColor }]}>Change</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.addButton} onPress={() => setDraft(current => ({ ...current, image: '' }))}>
+                      <Text style={[styles.addButtonText, { color: theme.errorColor }]}>Remove</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ) : (
+                <TouchableOpacity
+                  style={[styles.imagePicker, { borderColor: theme.borderColor }]}
+                  onPress={pickImage}
+                >
+                  <ImagePlus size={20} color={theme.primaryColor} />
+                  <Text style={[styles.addButtonText, { color: theme.primaryColor }]}>Add Picture</Text>
+                </TouchableOpacity>
+              )}
+
+              <View style={styles.buttonRow}>
+                <TouchableOpacity
+                  style={[styles.button, { backgroundColor: theme.cancelButtonBg }]}
+                  onPress={() => setEditorVisible(false)}
+                  disabled={isSaving}
+                >
+                  <Text style={[styles.buttonText, { color: theme.textColor }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, { backgroundColor: theme.primaryColor }, isSaving ? styles.disabledButton : null]}
+                  onPress={handleSave}
+                  disabled={isSaving}
+                >
+                  {isSaving ? (
+                    <ActivityIndicator size="small" color="white" />
+                  ) : (
+                    <Text style={[styles.buttonText, { color: 'white' }]}>Save</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  scrollViewContent: {
+    paddingBottom: 30,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  hintText: {
+    flex: 1,
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 5,
+  },
+  addButtonText: {
+    fontSize: 16,
+    marginLeft: 4,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 30,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    marginRight: 12,
+  },
+  thumbnailPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cardBody: {
+    flex: 1,
+  },
+  exerciseName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  dosageText: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 5,
+    marginLeft: 4,
+  },
+  previewText: {
+    fontSize: 14,
+    marginTop: 3,
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 500,
+    borderRadius: 12,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 5,
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  textArea: {
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  dosageRow: {
+    flexDirection: 'row',
+    marginHorizontal: -4,
+  },
+  dosageField: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  imagePicker: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+  },
+  imagePreviewContainer: {
+    marginBottom: 12,
+  },
+  imagePreview: {
+    width: '100%',
+    height: 180,
+    borderRadius: 8,
+  },
+  imageActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    marginTop: 10,
+  },
+  button: {
+    flex: 1,
+    borderRadius: 8,
+    padding: 14,
+    marginHorizontal: 4,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,396 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Modal,
+  useColorScheme,
+  useWindowDimensions,
+  StatusBar,
+} from 'react-native';
+import { Plus, Trash2, Edit, ChevronUp, ChevronDown } from 'lucide-react-native';
+import CustomHeader from '../components/CustomHeader';
+import {
+  getNoteTemplates,
+  saveNoteTemplate,
+  updateNoteTemplate,
+  deleteNoteTemplate,
+  reorderNoteTemplates
+} from '../utils/mongoStorage';
+import { SOAP_SECTIONS } from '../utils/clinicalNotes';
+import { TEMPLATE_PLACEHOLDERS } from '../utils/noteTemplates';
+import { NoteTemplate } from '../types';
+
+type TemplateDraft = Pick<NoteTemplate, 'name' | 'subjective' | 'objective' | 'assessment' | 'plan'>;
+
+const EMPTY_DRAFT: TemplateDraft = { name: '', subjective: '', objective: '', assessment: '', plan: '' };
+
+export default function NoteTemplatesScreen() {
+  const [templates, setTemplates] = useState<NoteTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingTemplate, setEditingTemplate] = useState<NoteTemplate | null>(null);
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [draft, setDraft] = useState<TemplateDraft>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const { height: windowHeight } = useWindowDimensions();
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#1E1E1E' : '#F2F2F7',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    primaryColor: '#0A84FF',
+    errorColor: '#FF453A',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    subtitleColor: '#8E8E93',
+    cancelButtonBg: isDarkMode ? '#444444' : '#E5E5EA',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+    disabledColor: isDarkMode ? '#444444' : '#D1D1D6',
+  };
+
+  const loadTemplates = async () => {
+    try {
+      setLoading(true);
+      setTemplates(await getNoteTemplates());
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const openEditor = (template?: NoteTemplate) => {
+    setEditingTemplate(template || null);
+    setDraft(template
+      ? { name: template.name, subjective: template.subjective, objective: template.objective, assessment: template.assessment, plan: template.plan }
+      : EMPTY_DRAFT);
+    setEditorVisible(true);
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      Alert.alert('Missing Name', 'Please give the template a name');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      if (editingTemplate) {
+        const updated = await updateNoteTemplate({ ...editingTemplate, ...draft });
+        setTemplates(current => current.map(item => (item.id === updated.id ? updated : item)));
+      } else {
+        const created = await saveNoteTemplate(draft);
+        setTemplates(current => [...current, created]);
+      }
+      setEditorVisible(false);
+    } catch (error: any) {
+      Alert.alert('Save Failed', error.message || 'Failed to save the template. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (template: NoteTemplate) => {
+    Alert.alert(
+      'Delete Template',
+      `Delete "${template.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteNoteTemplate(template.id);
+              setTemplates(current => current.filter(item => item.id !== template.id));
+            } catch (error) {
+              console.error('Error deleting note template:', error);
+              Alert.alert('Error', 'Failed to delete template');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Swaps a template with its neighbour and saves the new order
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= templates.length) return;
+
+    const reordered = [...templates];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setTemplates(reordered);
+
+    try {
+      setTemplates(await reorderNoteTemplates(reordered.map(item => item.id)));
+    } catch (error) {
+      console.error('Error reordering note templates:', error);
+      Alert.alert('Error', 'Failed to save the new order');
+      loadTemplates();
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundColor }]}>
+      <StatusBar barStyle={isDarkMode ? 'light-content' : 'dark-content'} />
+
+      <CustomHeader title="Note Templates" showBackButton={true} />
+
+      {loading ? (
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color={theme.primaryColor} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollViewContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.sectionHeader}>
+            <Text style={[styles.hintText, { color: theme.subtitleColor }]}>
+              Insert templates into a session&apos;s SOAP notes from the session form.
+            </Text>
+            <TouchableOpacity style={styles.addButton} onPress={() => openEditor()}>
+              <Plus size={18} color={theme.primaryColor} />
+              <Text style={[styles.addButtonText, { color: theme.primaryColor }]}>Add</Text>
+            </TouchableOpacity>
+          </View>
+
+          {templates.length === 0 && (
+            <Text style={[styles.emptyText, { color: theme.placeholderColor }]}>No templates yet</Text>
+          )}
+
+          {templates.map((template, index) => (
+            <View
+              key={template.id}
+              style={[styles.card, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }]}
+            >
+              <View style={styles.cardHeader}>
+                <View style={styles.orderButtons}>
+                  <TouchableOpacity onPress={() => handleMove(index, -1)} disabled={index === 0}>
+                    <ChevronUp size={20} color={index === 0 ? theme.disabledColor : theme.primaryColor} />
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleMove(index, 1)} disabled={index === templates.length - 1}>
+                    <ChevronDown size={20} color={index === templates.length - 1 ? theme.disabledColor : theme.primaryColor} />
+                  </TouchableOpacity>
+                </View>
+                <Text style={[styles.templateName, { color: theme.textColor }]}>{template.name}</Text>
+                <TouchableOpacity style={styles.iconButton} onPress={() => openEditor(template)}>
+                  <Edit size={18} color={theme.primaryColor} />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(template)}>
+                  <Trash2 size={18} color={theme.errorColor} />
+                </TouchableOpacity>
+              </View>
+              {SOAP_SECTIONS.filter(section => template[section.key]).map(section => (
+                <Text key={section.key} style={[styles.previewText, { color: theme.textColor }]} numberOfLines={2}>
+                  <Text style={{ color: theme.subtitleColor }}>{section.label[0]}: </Text>
+                  {template[section.key]}
+                </Text>
+              ))}
+            </View>
+          ))}
+        </ScrollView>
+      )}
+
+      <Modal
+        visible={editorVisible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setEditorVisible(false)}
+      >
+        <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+          <View style={[styles.modalContent, { backgroundColor: theme.cardBackground, maxHeight: windowHeight * 0.9 }]}>
+            <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+              <Text style={[styles.modalTitle, { color: theme.textColor }]}>
+                {editingTemplate ? 'Edit Template' : 'New Template'}
+              </Text>
+
+              <Text style={[styles.label, { color: theme.textColor }]}>Name</Text>
+              <TextInput
+                style={[styles.input, { color: theme.textColor, borderColor: theme.borderColor }]}
+                value={draft.name}
+                onChangeText={name => setDraft(current => ({ ...current, name }))}
+                placeholder="e.g. Post-op ACL week 2"
+                placeholderTextColor={theme.placeholderColor}
+              />
+
+              {SOAP_SECTIONS.map(section => (
+                <View key={section.key}>
+                  <Text style={[styles.label, { color: theme.textColor }]}>{section.label}</Text>
+                  <TextInput
+                    style={[styles.input, styles.textArea, { color: theme.textColor, borderColor: theme.borderColor }]}
+                    value={draft[section.key]}
+                    onChangeText={text => setDraft(current => ({ ...current, [section.key]: text }))}
+                    placeholder={section.placeholder}
+                    placeholderTextColor={theme.placeholderColor}
+                    multiline={true}
+                  />
+                </View>
+              ))}
+
+              <Text style={[styles.hintText, { color: theme.subtitleColor }]}>
+                Placeholders: {TEMPLATE_PLACEHOLDERS.map(placeholder => placeholder.key).join(', ')}
+              </Text>
+
+              <View style={styles.buttonRow}>
+                <TouchableOpacity
+                  style={[styles.button, { backgroundColor: theme.cancelButtonBg }]}
+                  onPress={() => setEditorVisible(false)}
+                  disabled={isSaving}
+                >
+                  <Text style={[styles.buttonText, { color: theme.textColor }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, { backgroundColor: theme.primaryColor }, isSaving ? styles.disabledButton : null]}
+                  onPress={handleSave}
+                  disabled={isSaving}
+                >
+                  {isSaving ? (
+                    <ActivityIndicator size="small" color="white" />
+                  ) : (
+                    <Text style={[styles.buttonText, { color: 'white' }]}>Save</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  scrollViewContent: {
+    paddingBottom: 30,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  hintText: {
+    flex: 1,
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 5,
+  },
+  addButtonText: {
+    fontSize: 16,
+    marginLeft: 4,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 30,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  orderButtons: {
+    marginRight: 8,
+  },
+  templateName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  iconButton: {
+    padding: 5,
+    marginLeft: 4,
+  },
+  previewText: {
+    fontSize: 14,
+    marginTop: 3,
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 500,
+    borderRadius: 12,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 5,
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  textArea: {
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    marginTop: 10,
+  },
+  button: {
+    flex: 1,
+    borderRadius: 8,
+    padding: 14,
+    marginHorizontal: 4,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+});
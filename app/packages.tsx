@@ -0,0 +1,407 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Modal,
+  useColorScheme,
+  useWindowDimensions,
+  StatusBar,
+} from 'react-native';
+import { Plus, Trash2, Edit } from 'lucide-react-native';
+import CustomHeader from '../components/CustomHeader';
+import {
+  getSessionPackages,
+  saveSessionPackage,
+  updateSessionPackage,
+  deleteSessionPackage
+} from '../utils/mongoStorage';
+import { MAX_PACKAGE_SESSIONS, MAX_PACKAGE_VALID_FOR_MONTHS, formatPackageTerms } from '../utils/packages';
+import { formatMoney } from '../utils/currency';
+import { SessionPackage } from '../types';
+
+interface PackageDraft {
+  name: string;
+  sessionCount: string;
+  price: string;
+  validForMonths: string; // Empty for no expiry
+}
+
+const EMPTY_DRAFT: PackageDraft = { name: '', sessionCount: '10', price: '', validForMonths: '3' };
+
+export default function PackagesScreen() {
+  const [packages, setPackages] = useState<SessionPackage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingPackage, setEditingPackage] = useState<SessionPackage | null>(null);
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [draft, setDraft] = useState<PackageDraft>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const { height: windowHeight } = useWindowDimensions();
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#1E1E1E' : '#F2F2F7',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    primaryColor: '#0A84FF',
+    errorColor: '#FF453A',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    subtitleColor: '#8E8E93',
+    cancelButtonBg: isDarkMode ? '#444444' : '#E5E5EA',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+  };
+
+  const loadPackages = async () => {
+    try {
+      setLoading(true);
+      setPackages(await getSessionPackages());
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPackages();
+  }, []);
+
+  const openEditor = (sessionPackage?: SessionPackage) => {
+    setEditingPackage(sessionPackage || null);
+    setDraft(sessionPackage
+      ? {
+        name: sessionPackage.name,
+        sessionCount: sessionPackage.sessionCount.toString(),
+        price: sessionPackage.price.toString(),
+        validForMonths: sessionPackage.validForMonths ? sessionPackage.validForMonths.toString() : ''
+      }
+      : EMPTY_DRAFT);
+    setEditorVisible(true);
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      Alert.alert('Missing Name', 'Please give the package a name');
+      return;
+    }
+
+    const sessionCount = Number(draft.sessionCount);
+    if (!Number.isInteger(sessionCount) || sessionCount < 1 || sessionCount > MAX_PACKAGE_SESSIONS) {
+      Alert.alert('Invalid Sessions', `Enter a whole number of sessions from 1 to ${MAX_PACKAGE_SESSIONS}`);
+      return;
+    }
+
+    const price = Number(draft.price);
+    if (!draft.price.trim() || !Number.isFinite(price) || price < 0) {
+      Alert.alert('Invalid Price', 'Please enter the price of the package');
+      return;
+    }
+
+    const months = draft.validForMonths.trim() ? Number(draft.validForMonths) : null;
+    if (months !== null && (!Number.isInteger(months) || months < 1 || months > MAX_PACKAGE_VALID_FOR_MONTHS)) {
+      Alert.alert('Invalid Validity', `Enter a whole number of months from 1 to ${MAX_PACKAGE_VALID_FOR_MONTHS}, or leave it empty for no expiry`);
+      return;
+    }
+
+    const fields = { name: draft.name.trim(), sessionCount, price, validForMonths: months };
+
+    try {
+      setIsSaving(true);
+      if (editingPackage) {
+        const updated = await updateSessionPackage({ ...editingPackage, ...fields });
+        setPackages(current => current.map(item => (item.id === updated.id ? updated : item)));
+      } else {
+        const created = await saveSessionPackage(fields);
+        setPackages(current => [...current, created].sort((a, b) => a.sessionCount - b.sessionCount));
+      }
+      setEditorVisible(false);
+    } catch (error: any) {
+      Alert.alert('Save Failed', error.message || 'Failed to save the package. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (sessionPackage: SessionPackage) => {
+    Alert.alert(
+      'Delete Package',
+      `Stop offering "${sessionPackage.name}"? Packages already sold to patients are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteSessionPackage(sessionPackage.id);
+              setPackages(current => current.filter(item => item.id !== sessionPackage.id));
+            } catch (error) {
+              console.error('Error deleting package:', error);
+              Alert.alert('Error', 'Failed to delete package');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundColor }]}>
+      <StatusBar barStyle={isDarkMode ? 'light-content' : 'dark-content'} />
+
+      <CustomHeader title="Packages" showBackButton={true} />
+
+      {loading ? (
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color={theme.primaryColor} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollViewContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.sectionHeader}>
+            <Text style={[styles.hintText, { color: theme.subtitleColor }]}>
+              Sell these to patients from their patient screen. Completed sessions are then paid from the package.
+            </Text>
+            <TouchableOpacity style={styles.addButton} onPress={() => openEditor()}>
+              <Plus size={18} color={theme.primaryColor} />
+              <Text style={[styles.addButtonText, { color: theme.primaryColor }]}>Add</Text>
+            </TouchableOpacity>
+          </View>
+
+          {packages.length === 0 && (
+            <Text style={[styles.emptyText, { color: theme.placeholderColor }]}>No packages yet</Text>
+          )}
+
+          {packages.map(sessionPackage => (
+            <View
+              key={sessionPackage.id}
+              style={[styles.card, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }]}
+            >
+              <View style={styles.cardHeader}>
+                <Text style={[styles.packageName, { color: theme.textColor }]}>{sessionPackage.name}</Text>
+                <TouchableOpacity style={styles.iconButton} onPress={() => openEditor(sessionPackage)}>
+                  <Edit size={18} color={theme.primaryColor} />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(sessionPackage)}>
+                  <Trash2 size={18} color={theme.errorColor} />
+                </TouchableOpacity>
+              </View>
+              <Text style={[styles.termsText, { color: theme.subtitleColor }]}>{formatPackageTerms(sessionPackage)}</Text>
+              <Text style={[styles.priceText, { color: theme.textColor }]}>{formatMoney(sessionPackage.price)}</Text>
+            </View>
+          ))}
+        </ScrollView>
+      )}
+
+      <Modal
+        visible={editorVisible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setEditorVisible(false)}
+      >
+        <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+          <View style={[styles.modalContent, { backgroundColor: theme.cardBackground, maxHeight: windowHeight * 0.9 }]}>
+            <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+              <Text style={[styles.modalTitle, { color: theme.textColor }]}>
+                {editingPackage ? 'Edit Package' : 'New Package'}
+              </Text>
+
+              <Text style={[styles.label, { color: theme.textColor }]}>Name</Text>
+              <TextInput
+                style={[styles.input, { color: theme.textColor, borderColor: theme.borderColor }]}
+                value={draft.name}
+                onChangeText={name => setDraft(current => ({ ...current, name }))}
+                placeholder="e.g. 10 session pack"
+                placeholderTextColor={theme.placeholderColor}
+              />
+
+              <Text style={[styles.label, { color: theme.textColor }]}>Sessions</Text>
+              <TextInput
+                style={[styles.input, { color: theme.textColor, borderColor: theme.borderColor }]}
+                value={draft.sessionCount}
+                onChangeText={sessionCount => setDraft(current => ({ ...current, sessionCount }))}
+                placeholder="10"
+                placeholderTextColor={theme.placeholderColor}
+                keyboardType="number-pad"
+              />
+
+              <Text style={[styles.label, { color: theme.textColor }]}>Price</Text>
+              <TextInput
+                style={[styles.input, { color: theme.textColor, borderColor: theme.borderColor }]}
+                value={draft.price}
+                onChangeText={price => setDraft(current => ({ ...current, price }))}
+                placeholder="0.00"
+                placeholderTextColor={theme.placeholderColor}
+                keyboardType="decimal-pad"
+              />
+
+              <Text style={[styles.label, { color: theme.textColor }]}>Valid For (months)</Text>
+              <TextInput
+                style={[styles.input, { color: theme.textColor, borderColor: theme.borderColor }]}
+                value={draft.validForMonths}
+                onChangeText={validForMonths => setDraft(current => ({ ...current, validForMonths }))}
+                placeholder="Leave empty for no expiry"
+                placeholderTextColor={theme.placeholderColor}
+                keyboardType="number-pad"
+              />
+
+              <Text style={[styles.hintText, { color: theme.subtitleColor }]}>
+                Counted from the day the package is sold. Changes only apply to packages sold afterwards.
+              </Text>
+
+              <View style={styles.buttonRow}>
+                <TouchableOpacity
+                  style={[styles.button, { backgroundColor: theme.cancelButtonBg }]}
+                  onPress={() => setEditorVisible(false)}
+                  disabled={isSaving}
+                >
+                  <Text style={[styles.buttonText, { color: theme.textColor }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, { backgroundColor: theme.primaryColor }, isSaving ? styles.disabledButton : null]}
+                  onPress={handleSave}
+                  disabled={isSaving}
+                >
+                  {isSaving ? (
+                    <ActivityIndicator size="small" color="white" />
+                  ) : (
+                    <Text style={[styles.buttonText, { color: 'white' }]}>Save</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  scrollViewContent: {
+    paddingBottom: 30,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  hintText: {
+    flex: 1,
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 5,
+  },
+  addButtonText: {
+    fontSize: 16,
+    marginLeft: 4,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 30,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  packageName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  iconButton: {
+    padding: 5,
+    marginLeft: 4,
+  },
+  termsText: {
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  priceText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 500,
+    borderRadius: 12,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 5,
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    marginTop: 10,
+  },
+  button: {
+    flex: 1,
+    borderRadius: 8,
+    padding: 14,
+    marginHorizontal: 4,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,580 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  useColorScheme,
+  StatusBar,
+} from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { Plus, Trash2, AlertTriangle } from 'lucide-react-native';
+import CustomHeader from '../components/CustomHeader';
+import { getPatientById, updateMedicalHistory } from '../utils/mongoStorage';
+import { searchIcd10Codes, Icd10Code } from '../utils/icd10Codes';
+import { ALLERGY_SEVERITY_OPTIONS, EMPTY_MEDICAL_HISTORY, getAge, getGenderLabel } from '../utils/patientUtils';
+import { Patient, MedicalHistory, Diagnosis, Medication, Allergy } from '../types';
+
+type ListField = 'redFlags' | 'contraindications';
+
+export default function PatientDetailsScreen() {
+  const params = useLocalSearchParams();
+  const patientId = params.patientId as string;
+
+  const [patient, setPatient] = useState<Patient | null>(null);
+  const [history, setHistory] = useState<MedicalHistory>(EMPTY_MEDICAL_HISTORY);
+  const [diagnosisQuery, setDiagnosisQuery] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#1E1E1E' : '#F2F2F7',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    primaryColor: '#0A84FF',
+    errorColor: '#FF453A',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    separatorColor: isDarkMode ? '#333333' : '#EFEFEF',
+    subtitleColor: '#8E8E93',
+  };
+
+  useEffect(() => {
+    const loadPatient = async () => {
+      if (!patientId) return;
+
+      try {
+        const patientInfo = await getPatientById(patientId);
+        if (patientInfo) {
+          setPatient(patientInfo);
+          setHistory({ ...EMPTY_MEDICAL_HISTORY, ...patientInfo.medicalHistory });
+        }
+      } catch (error) {
+        console.error('Error loading patient details:', error);
+        Alert.alert('Error', 'Failed to load patient details');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPatient();
+  }, [patientId]);
+
+  const updateHistory = (changes: Partial<MedicalHistory>) => {
+    setHistory(current => ({ ...current, ...changes }));
+  };
+
+  const updateDiagnosis = (index: number, changes: Partial<Diagnosis>) => {
+    updateHistory({ diagnoses: history.diagnoses.map((item, i) => (i === index ? { ...item, ...changes } : item)) });
+  };
+
+  const updateMedication = (index: number, changes: Partial<Medication>) => {
+    updateHistory({ medications: history.medications.map((item, i) => (i === index ? { ...item, ...changes } : item)) });
+  };
+
+  const updateAllergy = (index: number, changes: Partial<Allergy>) => {
+    updateHistory({ allergies: history.allergies.map((item, i) => (i === index ? { ...item, ...changes } : item)) });
+  };
+
+  const updateListItem = (field: ListField, index: number, value: string) => {
+    updateHistory({ [field]: history[field].map((item, i) => (i === index ? value : item)) });
+  };
+
+  const addDiagnosis = (diagnosis: Diagnosis) => {
+    if (diagnosis.code && history.diagnoses.some(item => item.code === diagnosis.code)) {
+      Alert.alert('Already Added', `${diagnosis.code} is already in the diagnosis list`);
+      return;
+    }
+    updateHistory({ diagnoses: [...history.diagnoses, diagnosis] });
+    setDiagnosisQuery('');
+  };
+
+  const validateForm = (): string | null => {
+    if (history.diagnoses.some(item => !item.description.trim())) {
+      return 'Each diagnosis needs a description';
+    }
+    if (history.medications.some(item => !item.name.trim())) {
+      return 'Each medication needs a name';
+    }
+    if (history.allergies.some(item => !item.substance.trim())) {
+      return 'Each allergy needs a substance';
+    }
+    return null;
+  };
+
+  const handleSave = async () => {
+    const validationError = validateForm();
+    if (validationError) {
+      Alert.alert('Invalid Medical History', validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const updatedPatient = await updateMedicalHistory(patientId, {
+        ...history,
+        redFlags: history.redFlags.map(item => item.trim()).filter(Boolean),
+        contraindications: history.contraindications.map(item => item.trim()).filter(Boolean),
+      });
+      setPatient(updatedPatient);
+      setHistory({ ...EMPTY_MEDICAL_HISTORY, ...updatedPatient.medicalHistory });
+      Alert.alert('Success', 'Medical history updated successfully');
+    } catch (error: any) {
+      Alert.alert('Update Failed', error.message || 'Failed to update medical history. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderSectionHeader = (title: string, onAdd?: () => void) => (
+    <View style={styles.sectionHeader}>
+      <Text style={[styles.sectionTitle, { color: theme.textColor }]}>{title}</Text>
+      {onAdd && (
+        <TouchableOpacity style={styles.addButton} onPress={onAdd}>
+          <Plus size={18} color={theme.primaryColor} />
+          <Text style={[styles.addButtonText, { color: theme.primaryColor }]}>Add</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  const renderTextArea = (value: string, onChangeText: (text: string) => void, placeholder: string) => (
+    <TextInput
+      style={[styles.textInput, styles.textArea, { color: theme.textColor, borderColor: theme.borderColor }]}
+      value={value}
+      onChangeText={onChangeText}
+      placeholder={placeholder}
+      placeholderTextColor={theme.placeholderColor}
+      multiline
+    />
+  );
+
+  const renderRemoveButton = (onPress: () => void) => (
+    <TouchableOpacity style={styles.removeButton} onPress={onPress}>
+      <Trash2 size={18} color={theme.errorColor} />
+    </TouchableOpacity>
+  );
+
+  const renderStringList = (field: ListField, title: string, placeholder: string, emptyText: string) => (
+    <View
+      style={[
+        styles.card,
+        { backgroundColor: theme.cardBackground, borderColor: field === 'redFlags' ? theme.errorColor : theme.borderColor }
+      ]}
+    >
+      {renderSectionHeader(title, () => updateHistory({ [field]: [...history[field], ''] }))}
+      {history[field].length === 0 && (
+        <Text style={[styles.hintText, { color: theme.placeholderColor }]}>{emptyText}</Text>
+      )}
+      {history[field].map((item, index) => (
+        <View key={index} style={[styles.itemRow, styles.listRow]}>
+          <TextInput
+            style={[styles.textInput, { color: theme.textColor, borderColor: theme.borderColor }]}
+            value={item}
+            onChangeText={value => updateListItem(field, index, value)}
+            placeholder={placeholder}
+            placeholderTextColor={theme.placeholderColor}
+          />
+          {renderRemoveButton(() => updateHistory({ [field]: history[field].filter((_, i) => i !== index) }))}
+        </View>
+      ))}
+    </View>
+  );
+
+  const icdResults: Icd10Code[] = searchIcd10Codes(diagnosisQuery);
+
+  const patientSummary = patient
+    ? [
+        patient.dateOfBirth ? `${getAge(patient.dateOfBirth)} yrs` : '',
+        getGenderLabel(patient.gender),
+        patient.contactNumber,
+      ].filter(Boolean).join(' · ')
+    : '';
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundColor }]}>
+      <StatusBar barStyle={isDarkMode ? 'light-content' : 'dark-content'} />
+
+      <CustomHeader
+        title={patient ? patient.name : 'Patient Details'}
+        showBackButton={true}
+        hideProfileDropdown={true}
+      />
+
+      {loading ? (
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color={theme.primaryColor} />
+        </View>
+      ) : !patient ? (
+        <View style={styles.centerContent}>
+          <Text style={{ color: theme.textColor }}>Patient not found</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollViewContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {patientSummary ? (
+            <Text style={[styles.summaryText, { color: theme.subtitleColor }]}>{patientSummary}</Text>
+          ) : null}
+
+          {history.redFlags.some(item => item.trim()) && (
+            <View style={[styles.redFlagBanner, { borderColor: theme.errorColor }]}>
+              <AlertTriangle size={18} color={theme.errorColor} />
+              <Text style={[styles.redFlagText, { color: theme.errorColor }]}>
+                {history.redFlags.filter(item => item.trim()).join(', ')}
+              </Text>
+            </View>
+          )}
+
+          {/* Chief complaint */}
+          <View style={[styles.card, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }]}>
+            {renderSectionHeader('Chief Complaint')}
+            {renderTextArea(history.chiefComplaint, chiefComplaint => updateHistory({ chiefComplaint }), 'Main problem in the patient\'s words')}
+          </View>
+
+          {/* Diagnosis */}
+          <View style={[styles.card, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }]}>
+            {renderSectionHeader('Diagnosis')}
+            <TextInput
+              style={[styles.textInput, styles.searchInput, { color: theme.textColor, borderColor: theme.borderColor }]}
+              value={diagnosisQuery}
+              onChangeText={setDiagnosisQuery}
+              placeholder="Search ICD-10 by code or condition"
+              placeholderTextColor={theme.placeholderColor}
+              autoCorrect={false}
+            />
+            {diagnosisQuery.trim() ? (
+              <View style={[styles.searchResults, { borderColor: theme.borderColor }]}>
+                {icdResults.map(result => (
+                  <TouchableOpacity
+                    key={result.code}
+                    style={[styles.searchResult, { borderBottomColor: theme.separatorColor }]}
+                    onPress={() => addDiagnosis({ code: result.code, description: result.description, notes: '' })}
+                  >
+                    <Text style={[styles.codeText, { color: theme.primaryColor }]}>{result.code}</Text>
+                    <Text style={[styles.resultText, { color: theme.textColor }]}>{result.description}</Text>
+                  </TouchableOpacity>
+                ))}
+                <TouchableOpacity
+                  style={styles.searchResult}
+                  onPress={() => addDiagnosis({ code: '', description: diagnosisQuery.trim(), notes: '' })}
+                >
+                  <Text style={[styles.resultText, { color: theme.primaryColor }]}>
+                    Add &quot;{diagnosisQuery.trim()}&quot; without a code
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            ) : null}
+            {history.diagnoses.length === 0 && (
+              <Text style={[styles.hintText, { color: theme.placeholderColor }]}>No diagnosis recorded</Text>
+            )}
+            {history.diagnoses.map((item, index) => (
+              <View key={`${item.code}-${index}`} style={[styles.listItem, { borderTopColor: theme.separatorColor }]}>
+                <View style={styles.itemRow}>
+                  {item.code ? <Text style={[styles.codeText, { color: theme.primaryColor }]}>{item.code}</Text> : null}
+                  <TextInput
+                    style={[styles.textInput, { color: theme.textColor, borderColor: theme.borderColor }]}
+                    value={item.description}
+                    onChangeText={description => updateDiagnosis(index, { description })}
+                    placeholder="Description"
+                    placeholderTextColor={theme.placeholderColor}
+                  />
+                  {renderRemoveButton(() => updateHistory({ diagnoses: history.diagnoses.filter((_, i) => i !== index) }))}
+                </View>
+                <TextInput
+                  style={[styles.textInput, styles.stackedInput, { color: theme.textColor, borderColor: theme.borderColor }]}
+                  value={item.notes}
+                  onChangeText={notes => updateDiagnosis(index, { notes })}
+                  placeholder="Notes (side, severity, onset)"
+                  placeholderTextColor={theme.placeholderColor}
+                />
+              </View>
+            ))}
+          </View>
+
+          {/* Past history */}
+          <View style={[styles.card, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }]}>
+            {renderSectionHeader('Past Medical History')}
+            {renderTextArea(history.pastMedicalHistory, pastMedicalHistory => updateHistory({ pastMedicalHistory }), 'Conditions, previous injuries')}
+            <Text style={[styles.sectionTitle, styles.subsectionTitle, { color: theme.textColor }]}>Past Surgical History</Text>
+            {renderTextArea(history.pastSurgicalHistory, pastSurgicalHistory => updateHistory({ pastSurgicalHistory }), 'Operations and dates')}
+          </View>
+
+          {/* Medications */}
+          <View style={[styles.card, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }]}>
+            {renderSectionHeader('Medications', () =>
+              updateHistory({ medications: [...history.medications, { name: '', dosage: '', frequency: '' }] })
+            )}
+            {history.medications.length === 0 && (
+              <Text style={[styles.hintText, { color: theme.placeholderColor }]}>No medications</Text>
+            )}
+            {history.medications.map((item, index) => (
+              <View key={index} style={[styles.listItem, { borderTopColor: theme.separatorColor }]}>
+                <View style={styles.itemRow}>
+                  <TextInput
+                    style={[styles.textInput, { color: theme.textColor, borderColor: theme.borderColor }]}
+                    value={item.name}
+                    onChangeText={name => updateMedication(index, { name })}
+                    placeholder="Medication"
+                    placeholderTextColor={theme.placeholderColor}
+                  />
+                  {renderRemoveButton(() => updateHistory({ medications: history.medications.filter((_, i) => i !== index) }))}
+                </View>
+                <View style={[styles.itemRow, styles.stackedInput]}>
+                  <TextInput
+                    style={[styles.textInput, { color: theme.textColor, borderColor: theme.borderColor }]}
+                    value={item.dosage}
+                    onChangeText={dosage => updateMedication(index, { dosage })}
+                    placeholder="Dosage"
+                    placeholderTextColor={theme.placeholderColor}
+                  />
+                  <TextInput
+                    style={[styles.textInput, styles.lastInput, { color: theme.textColor, borderColor: theme.borderColor }]}
+                    value={item.frequency}
+                    onChangeText={frequency => updateMedication(index, { frequency })}
+                    placeholder="Frequency"
+                    placeholderTextColor={theme.placeholderColor}
+                  />
+                </View>
+              </View>
+            ))}
+          </View>
+
+          {/* Allergies */}
+          <View style={[styles.card, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }]}>
+            {renderSectionHeader('Allergies', () =>
+              updateHistory({ allergies: [...history.allergies, { substance: '', reaction: '', severity: null }] })
+            )}
+            {history.allergies.length === 0 && (
+              <Text style={[styles.hintText, { color: theme.placeholderColor }]}>No known allergies</Text>
+            )}
+            {history.allergies.map((item, index) => (
+              <View key={index} style={[styles.listItem, { borderTopColor: theme.separatorColor }]}>
+                <View style={styles.itemRow}>
+                  <TextInput
+                    style={[styles.textInput, { color: theme.textColor, borderColor: theme.borderColor }]}
+                    value={item.substance}
+                    onChangeText={substance => updateAllergy(index, { substance })}
+                    placeholder="Substance"
+                    placeholderTextColor={theme.placeholderColor}
+                  />
+                  <TextInput
+                    style={[styles.textInput, { color: theme.textColor, borderColor: theme.borderColor }]}
+                    value={item.reaction}
+                    onChangeText={reaction => updateAllergy(index, { reaction })}
+                    placeholder="Reaction"
+                    placeholderTextColor={theme.placeholderColor}
+                  />
+                  {renderRemoveButton(() => updateHistory({ allergies: history.allergies.filter((_, i) => i !== index) }))}
+                </View>
+                <View style={styles.chipRow}>
+                  {ALLERGY_SEVERITY_OPTIONS.map(option => {
+                    const selected = item.severity === option.value;
+                    return (
+                      <TouchableOpacity
+                        key={option.value}
+                        style={[
+                          styles.chip,
+                          { borderColor: selected ? theme.primaryColor : theme.borderColor },
+                          selected ? { backgroundColor: theme.primaryColor } : null
+                        ]}
+                        onPress={() => updateAllergy(index, { severity: selected ? null : option.value })}
+                      >
+                        <Text style={[styles.chipText, { color: selected ? 'white' : theme.textColor }]}>{option.label}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            ))}
+          </View>
+
+          {renderStringList('redFlags', 'Red Flags', 'e.g. Night pain, unexplained weight loss', 'No red flags')}
+          {renderStringList('contraindications', 'Contraindications', 'e.g. No ultrasound over metal implant', 'No contraindications')}
+
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.primaryColor }, isSaving ? styles.disabledButton : null]}
+            onPress={handleSave}
+            disabled={isSaving}
+          >
+            {isSaving ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text style={styles.buttonText}>Save Medical History</Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  scrollViewContent: {
+    paddingBottom: 30,
+  },
+  summaryText: {
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  redFlagBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 16,
+  },
+  redFlagText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    marginBottom: 20,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  subsectionTitle: {
+    marginTop: 12,
+  },
+  hintText: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 5,
+  },
+  addButtonText: {
+    fontSize: 16,
+    marginLeft: 4,
+  },
+  listItem: {
+    borderTopWidth: 1,
+    paddingVertical: 10,
+  },
+  listRow: {
+    marginBottom: 8,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  textInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    fontSize: 15,
+    marginRight: 8,
+  },
+  textArea: {
+    minHeight: 70,
+    marginRight: 0,
+    textAlignVertical: 'top',
+  },
+  stackedInput: {
+    marginTop: 8,
+  },
+  lastInput: {
+    marginRight: 0,
+  },
+  searchInput: {
+    flex: 0,
+    marginRight: 0,
+    marginBottom: 8,
+  },
+  searchResults: {
+    borderWidth: 1,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  searchResult: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  codeText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    minWidth: 56,
+    marginRight: 8,
+  },
+  resultText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  removeButton: {
+    padding: 5,
+    marginLeft: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  button: {
+    borderRadius: 8,
+    padding: 15,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
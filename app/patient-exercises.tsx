@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  useColorScheme,
+  StatusBar,
+} from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { Share2 } from 'lucide-react-native';
+import CustomHeader from '../components/CustomHeader';
+import ExerciseListEditor from '../components/ExerciseListEditor';
+import { getPatientById, getExercises, updateHomeExercises } from '../utils/mongoStorage';
+import { shareExerciseHandout } from '../utils/exportUtils';
+import { Patient, Exercise, PrescribedExercise } from '../types';
+
+export default function PatientExercisesScreen() {
+  const params = useLocalSearchParams();
+  const patientId = params.patientId as string;
+
+  const [patient, setPatient] = useState<Patient | null>(null);
+  const [exercises, setExercises] = useState<PrescribedExercise[]>([]);
+  const [library, setLibrary] = useState<Exercise[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#1E1E1E' : '#F2F2F7',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    primaryColor: '#0A84FF',
+    subtitleColor: '#8E8E93',
+  };
+
+  useEffect(() => {
+    const loadData = async () => {
+      if (!patientId) return;
+
+      try {
+        const [patientInfo, libraryExercises] = await Promise.all([
+          getPatientById(patientId),
+          getExercises()
+        ]);
+        if (patientInfo) {
+          setPatient(patientInfo);
+          setExercises(patientInfo.homeExercises || []);
+        }
+        setLibrary(libraryExercises);
+      } catch (error) {
+        console.error('Error loading home exercises:', error);
+        Alert.alert('Error', 'Failed to load home exercises');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [patientId]);
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      const updatedPatient = await updateHomeExercises(patientId, exercises);
+      setPatient(updatedPatient);
+      setExercises(updatedPatient.homeExercises || []);
+      Alert.alert('Success', 'Home exercise program updated successfully');
+    } catch (error: any) {
+      Alert.alert('Update Failed', error.message || 'Failed to update home exercises. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleShare = async () => {
+    if (!patient) return;
+
+    if (exercises.length === 0) {
+      Alert.alert('No Exercises', 'Add exercises to the program before sharing a handout');
+      return;
+    }
+
+    setIsSharing(true);
+    const success = await shareExerciseHandout(patient.name, exercises, library);
+    setIsSharing(false);
+
+    if (!success) {
+      Alert.alert('Share Failed', 'Failed to create the exercise handout. Please try again.');
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundColor }]}>
+      <StatusBar barStyle={isDarkMode ? 'light-content' : 'dark-content'} />
+
+      <CustomHeader
+        title={patient ? patient.name : 'Home Exercises'}
+        showBackButton={true}
+        hideProfileDropdown={true}
+      />
+
+      {loading ? (
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color={theme.primaryColor} />
+        </View>
+      ) : !patient ? (
+        <View style={styles.centerContent}>
+          <Text style={{ color: theme.textColor }}>Patient not found</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollViewContent}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={[styles.card, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }]}>
+            <View style={styles.sectionHeader}>
+              <Text style={[styles.sectionTitle, { color: theme.textColor }]}>Home Exercise Program</Text>
+              <TouchableOpacity style={styles.shareButton} onPress={handleShare} disabled={isSharing}>
+                {isSharing ? (
+                  <ActivityIndicator size="small" color={theme.primaryColor} />
+                ) : (
+                  <>
+                    <Share2 size={18} color={theme.primaryColor} />
+                    <Text style={[styles.shareButtonText, { color: theme.primaryColor }]}>Handout</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            </View>
+            <Text style={[styles.hintText, { color: theme.subtitleColor }]}>
+              Dosage and notes here only apply to this patient.
+            </Text>
+            <ExerciseListEditor value={exercises} onChange={setExercises} />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.primaryColor }, isSaving ? styles.disabledButton : null]}
+            onPress={handleSave}
+            disabled={isSaving}
+          >
+            {isSaving ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text style={styles.buttonText}>Save Home Exercises</Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  scrollViewContent: {
+    paddingBottom: 30,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    marginBottom: 20,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  hintText: {
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  shareButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 5,
+  },
+  shareButtonText: {
+    fontSize: 16,
+    marginLeft: 4,
+  },
+  button: {
+    borderRadius: 8,
+    padding: 15,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
@@ -9,26 +9,59 @@ import {
   useColorScheme,
   ActivityIndicator,
   SafeAreaView,
-  StatusBar,
-  Platform
+  StatusBar
 } from 'react-native';
 import { useFocusEffect } from '@react-navigation/native';
 import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { Session } from '../types';
-import { getPatientSessions, getPatientById } from '../utils/mongoStorage';
+import { Session, Patient, TreatmentPlan, PlanProgress, OutcomeMeasureResult, Invoice, PatientPackage, PatientLedger } from '../types';
+import {
+  getPatientSessions,
+  getPatientById,
+  getTreatmentPlans,
+  getSessionPlanProgress,
+  getOutcomeMeasures,
+  getInvoices,
+  getPatientPackages,
+  getPatientLedger
+} from '../utils/mongoStorage';
 import { exportSessionsToExcel } from '../utils/exportUtils';
+import { isOpenSession } from '../utils/sessionStatus';
+import { getAge, getGenderLabel, getReferralSourceLabel } from '../utils/patientUtils';
+import { parseDateKey } from '../utils/calendarUtils';
+import { formatPrescription } from '../utils/exercises';
+import { getMeasurementHistory } from '../utils/measurements';
 import SessionCard from '../components/SessionCard';
-import { FileDown } from 'lucide-react-native';
+import TreatmentPlanSection from '../components/TreatmentPlanSection';
+import OutcomeMeasureSection from '../components/OutcomeMeasureSection';
+import MeasurementHistoryCard from '../components/MeasurementHistoryCard';
+import ProgressCharts from '../components/ProgressCharts';
+import BodyChartHistory from '../components/BodyChartHistory';
+import AttachmentSection from '../components/AttachmentSection';
+import ConsentSection from '../components/ConsentSection';
+import ServicePriceSection from '../components/ServicePriceSection';
+import PackageSection from '../components/PackageSection';
+import InvoiceSection from '../components/InvoiceSection';
+import LedgerSection from '../components/LedgerSection';
+import { FileDown, Edit } from 'lucide-react-native';
 import CustomHeader from '../components/CustomHeader';
 
 export default function PatientSessionsScreen() {
   const [sessions, setSessions] = useState<Session[]>([]);
   const [loading, setLoading] = useState(true);
   const [showPastSessions, setShowPastSessions] = useState(false);
-  const [patientName, setPatientName] = useState('');
+  const [patient, setPatient] = useState<Patient | null>(null);
+  const [plans, setPlans] = useState<TreatmentPlan[]>([]);
+  const [planProgress, setPlanProgress] = useState<Record<string, PlanProgress>>({});
+  const [outcomeResults, setOutcomeResults] = useState<OutcomeMeasureResult[]>([]);
+  // Every session for the patient, whichever tab is showing; feeds measurements and charts
+  const [patientSessions, setPatientSessions] = useState<Session[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [patientPackages, setPatientPackages] = useState<PatientPackage[]>([]);
+  const [ledger, setLedger] = useState<PatientLedger>({ entries: [], balance: 0 });
   const insets = useSafeAreaInsets();
 
+
   // Get URL params
   const params = useLocalSearchParams();
   const patientId = params.patientId as string;
@@ -47,15 +80,20 @@ export default function PatientSessionsScreen() {
     inactiveColor: isDarkMode ? '#444444' : '#E5E5EA',
     inactiveTextColor: isDarkMode ? '#888888' : '#8E8E93',
     modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+    labelColor: isDarkMode ? '#888888' : '#8E8E93',
+    warningColor: '#FF9500',
+    paidColor: '#34C759',
   };
 
+  const patientName = patient?.name || '';
+
   const loadPatientInfo = async () => {
     if (!patientId) return;
     
     try {
-      const patient = await getPatientById(patientId);
-      if (patient) {
-        setPatientName(patient.name);
+      const patientInfo = await getPatientById(patientId);
+      if (patientInfo) {
+        setPatient(patientInfo);
       }
     } catch (error) {
       console.error('Error loading patient info:', error);
@@ -70,10 +108,11 @@ export default function PatientSessionsScreen() {
       
       // Use the new getPatientSessions function which filters by both patientId and userId
       const allSessions = await getPatientSessions(patientId);
+      setPatientSessions(allSessions);
       
       // Filter based on the selected tab (past or upcoming)
       const filteredByStatus = allSessions.filter(session => 
-        showPastSessions ? session.completed : !session.completed
+        showPastSessions ? !isOpenSession(session) : isOpenSession(session)
       );
       
       // Sort sessions by date and time
@@ -93,9 +132,21 @@ export default function PatientSessionsScreen() {
     }
   };
 
-  useEffect(() => {
-    loadPatientInfo();
-  }, [patientId]);
+  // Plans and their session counts change whenever sessions are booked or completed
+  const loadPlans = async () => {
+    if (!patientId) return;
+
+    const [patientPlans, progress] = await Promise.all([getTreatmentPlans(patientId), getSessionPlanProgress()]);
+    setPlans(patientPlans);
+    setPlanProgress(progress);
+  };
+
+  // Reload on focus so the home exercise program is current after editing it
+  useFocusEffect(
+    useCallback(() => {
+      loadPatientInfo();
+    }, [patientId])
+  );
 
   useFocusEffect(
     useCallback(() => {
@@ -103,6 +154,74 @@ export default function PatientSessionsScreen() {
     }, [patientId, showPastSessions])
   );
 
+  useFocusEffect(
+    useCallback(() => {
+      loadPlans();
+    }, [patientId])
+  );
+
+  const loadOutcomes = async () => {
+    if (!patientId) return;
+    setOutcomeResults(await getOutcomeMeasures(patientId));
+  };
+
+  useEffect(() => {
+    loadOutcomes();
+  }, [patientId]);
+
+  const loadInvoices = async () => {
+    if (!patientId) return;
+    setInvoices(await getInvoices({ patientId }));
+  };
+
+  // Reload on focus so invoices issued while recording a payment show up
+  useFocusEffect(
+    useCallback(() => {
+      loadInvoices();
+    }, [patientId])
+  );
+
+  const loadPackages = async () => {
+    if (!patientId) return;
+    setPatientPackages(await getPatientPackages(patientId));
+  };
+
+  // Balances go down as sessions are completed on the other screens
+  useFocusEffect(
+    useCallback(() => {
+      loadPackages();
+    }, [patientId])
+  );
+
+  const loadLedger = async () => {
+    if (!patientId) return;
+    setLedger(await getPatientLedger(patientId));
+  };
+
+  // Sessions are completed and paid for on the other screens
+  useFocusEffect(
+    useCallback(() => {
+      loadLedger();
+    }, [patientId])
+  );
+
+  // Selling a package can issue an invoice for it as well
+  const handlePackagesChange = () => {
+    loadPackages();
+    loadInvoices();
+    loadLedger();
+  };
+
+  const handleInvoicesChange = () => {
+    loadInvoices();
+    loadSessions();
+  };
+
+  const handleLedgerChange = () => {
+    loadLedger();
+    loadSessions();
+  };
+
   const handleExportSessions = async () => {
     if (!patientId || !patientName) return;
     
@@ -112,8 +231,8 @@ export default function PatientSessionsScreen() {
       // Use the new getPatientSessions function
       const allSessions = await getPatientSessions(patientId);
       
-      // Filter to only include completed sessions for export
-      const pastSessions = allSessions.filter(session => session.completed);
+      // Export every session with an outcome; the Status column tells them apart
+      const pastSessions = allSessions.filter(session => !isOpenSession(session));
       
       if (pastSessions.length === 0) {
         Alert.alert('No Data', 'There are no past sessions to export');
@@ -135,6 +254,203 @@ export default function PatientSessionsScreen() {
     }
   };
 
+  const renderPatientSummary = () => {
+    if (!patient) return null;
+
+    const emergency = patient.emergencyContact;
+    const details = [
+      {
+        label: 'Age',
+        value: patient.dateOfBirth
+          ? `${getAge(patient.dateOfBirth)} (born ${parseDateKey(patient.dateOfBirth).toLocaleDateString()})`
+          : '',
+      },
+      { label: 'Gender', value: getGenderLabel(patient.gender) },
+      { label: 'Contact', value: patient.contactNumber },
+      { label: 'Email', value: patient.email || '' },
+      { label: 'Address', value: patient.address || '' },
+      { label: 'Occupation', value: patient.occupation || '' },
+      {
+        label: 'Emergency',
+        value: emergency?.name
+          ? [emergency.name, emergency.relationship ? `(${emergency.relationship})` : '', emergency.phone].filter(Boolean).join(' ')
+          : '',
+      },
+      { label: 'Referring Doctor', value: patient.referringDoctor || '' },
+      { label: 'Referral Source', value: getReferralSourceLabel(patient.referralSource) },
+    ].filter(detail => detail.value);
+
+    return (
+      <View style={[styles.summaryCard, { backgroundColor: theme.cardBackground }]}>
+        {details.map(detail => (
+          <View key={detail.label} style={styles.summaryRow}>
+            <Text style={[styles.summaryLabel, { color: theme.labelColor }]}>{detail.label}</Text>
+            <Text style={[styles.summaryValue, { color: theme.textColor }]}>{detail.value}</Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+
+  const renderProgress = () => (
+    <View style={styles.plansSection}>
+      <View style={styles.plansHeader}>
+        <Text style={[styles.sectionTitle, { color: theme.textColor }]}>Progress</Text>
+      </View>
+      <ProgressCharts patientName={patientName} sessions={patientSessions} outcomeResults={outcomeResults} />
+    </View>
+  );
+
+  const renderMeasurements = () => {
+    const measurementHistory = getMeasurementHistory(patientSessions);
+
+    return (
+      <View style={styles.plansSection}>
+        <View style={styles.plansHeader}>
+          <Text style={[styles.sectionTitle, { color: theme.textColor }]}>Measurements</Text>
+        </View>
+        {measurementHistory.length === 0 ? (
+          <Text style={[styles.noPlansText, { color: theme.labelColor }]}>
+            No measurements recorded yet. Add range of motion and strength when editing a session.
+          </Text>
+        ) : (
+          measurementHistory.map(history => (
+            <MeasurementHistoryCard key={`${history.joint}-${history.movement}`} history={history} />
+          ))
+        )}
+      </View>
+    );
+  };
+
+  const renderBodyCharts = () => {
+    const chartedSessions = patientSessions.filter(session => session.bodyChart && session.bodyChart.length > 0);
+
+    return (
+      <View style={styles.plansSection}>
+        <View style={styles.plansHeader}>
+          <Text style={[styles.sectionTitle, { color: theme.textColor }]}>Body Charts</Text>
+        </View>
+        {chartedSessions.length === 0 ? (
+          <Text style={[styles.noPlansText, { color: theme.labelColor }]}>
+            No body charts yet. Mark pain locations when editing a session.
+          </Text>
+        ) : (
+          <BodyChartHistory sessions={chartedSessions} />
+        )}
+      </View>
+    );
+  };
+
+
+  const renderHomeExercises = () => {
+    const homeExercises = patient?.homeExercises || [];
+
+    return (
+      <View style={styles.plansSection}>
+        <View style={styles.plansHeader}>
+          <Text style={[styles.sectionTitle, { color: theme.textColor }]}>Home Exercises</Text>
+          <TouchableOpacity
+            style={styles.addPlanButton}
+            onPress={() => router.push({
+              pathname: '/patient-exercises',
+              params: { patientId }
+            })}
+          >
+            <Edit size={16} color={theme.primaryColor} />
+            <Text style={[styles.addPlanText, { color: theme.primaryColor }]}>Edit</Text>
+          </TouchableOpacity>
+        </View>
+        {homeExercises.length === 0 ? (
+          <Text style={[styles.noPlansText, { color: theme.labelColor }]}>No home exercises prescribed</Text>
+        ) : (
+          <View style={[styles.summaryCard, { backgroundColor: theme.cardBackground }]}>
+            {homeExercises.map((exercise, index) => (
+              <View key={`${exercise.name}-${index}`} style={styles.summaryRow}>
+                <Text style={[styles.summaryValue, { color: theme.textColor }]}>{exercise.name}</Text>
+                <Text style={[styles.exerciseDosage, { color: theme.labelColor }]}>{formatPrescription(exercise)}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderListHeader = () => (
+    <>
+      {renderPatientSummary()}
+      {renderProgress()}
+      <TreatmentPlanSection patientId={patientId} plans={plans} onChange={loadPlans} />
+      <OutcomeMeasureSection patientId={patientId} results={outcomeResults} onChange={loadOutcomes} />
+      {renderMeasurements()}
+      {renderBodyCharts()}
+      <AttachmentSection patientId={patientId} />
+      <ConsentSection patientId={patientId} />
+      {patient && <ServicePriceSection patient={patient} onSave={setPatient} />}
+      <PackageSection patientId={patientId} packages={patientPackages} onChange={handlePackagesChange} />
+      <InvoiceSection patientId={patientId} invoices={invoices} sessions={patientSessions} onChange={handleInvoicesChange} />
+      <LedgerSection patientId={patientId} ledger={ledger} sessions={patientSessions} onChange={handleLedgerChange} />
+      {renderHomeExercises()}
+
+      <View style={styles.tabContainer}>
+        <TouchableOpacity 
+          style={[
+            styles.tabButton, 
+            !showPastSessions ? 
+              { backgroundColor: theme.primaryColor } : 
+              { backgroundColor: theme.inactiveColor }
+          ]}
+          onPress={() => setShowPastSessions(false)}
+          activeOpacity={0.7}
+        >
+          <Text 
+            style={[
+              styles.tabButtonText, 
+              { color: !showPastSessions ? 'white' : theme.inactiveTextColor }
+            ]}
+          >
+            Upcoming
+          </Text>
+        </TouchableOpacity>
+        
+        <TouchableOpacity 
+          style={[
+            styles.tabButton, 
+            showPastSessions ? 
+              { backgroundColor: theme.secondaryColor } : 
+              { backgroundColor: theme.inactiveColor }
+          ]}
+          onPress={() => setShowPastSessions(true)}
+          activeOpacity={0.7}
+        >
+          <Text 
+            style={[
+              styles.tabButtonText, 
+              { color: showPastSessions ? 'white' : theme.inactiveTextColor }
+            ]}
+          >
+            Past
+          </Text>
+        </TouchableOpacity>
+      </View>
+      
+      <View style={styles.actionsContainer}>
+        {/* Export button - only show when viewing past sessions */}
+        {showPastSessions && (
+          <TouchableOpacity 
+            style={[styles.exportButton, { backgroundColor: theme.secondaryColor }]}
+            onPress={handleExportSessions}
+            activeOpacity={0.7}
+          >
+            <FileDown size={16} color="white" style={styles.exportIcon} />
+            <Text style={styles.exportButtonText}>Export to Excel</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </>
+  );
+
   return (
     <View style={[styles.container, { backgroundColor: theme.backgroundColor }]}>
       <StatusBar barStyle={isDarkMode ? 'light-content' : 'dark-content'} />
@@ -153,105 +469,50 @@ export default function PatientSessionsScreen() {
         hideProfileDropdown={true}
       />
       
-      {/* Main Content */}
+      {/* Main Content - the summary, plans and tabs scroll with the session list */}
       <View style={styles.contentContainer}>
-        <View style={styles.tabContainer}>
-          <TouchableOpacity 
-            style={[
-              styles.tabButton, 
-              !showPastSessions ? 
-                { backgroundColor: theme.primaryColor } : 
-                { backgroundColor: theme.inactiveColor }
-            ]}
-            onPress={() => setShowPastSessions(false)}
-            activeOpacity={0.7}
-          >
-            <Text 
-              style={[
-                styles.tabButtonText, 
-                { color: !showPastSessions ? 'white' : theme.inactiveTextColor }
-              ]}
-            >
-              Upcoming
-            </Text>
-          </TouchableOpacity>
-          
-          <TouchableOpacity 
-            style={[
-              styles.tabButton, 
-              showPastSessions ? 
-                { backgroundColor: theme.secondaryColor } : 
-                { backgroundColor: theme.inactiveColor }
-            ]}
-            onPress={() => setShowPastSessions(true)}
-            activeOpacity={0.7}
-          >
-            <Text 
-              style={[
-                styles.tabButtonText, 
-                { color: showPastSessions ? 'white' : theme.inactiveTextColor }
-              ]}
-            >
-              Past
-            </Text>
-          </TouchableOpacity>
-        </View>
-        
-        <View style={styles.actionsContainer}>
-          {/* Export button - only show when viewing past sessions */}
-          {showPastSessions && (
-            <TouchableOpacity 
-              style={[styles.exportButton, { backgroundColor: theme.secondaryColor }]}
-              onPress={handleExportSessions}
-              activeOpacity={0.7}
-            >
-              <FileDown size={16} color="white" style={styles.exportIcon} />
-              <Text style={styles.exportButtonText}>Export to Excel</Text>
-            </TouchableOpacity>
-          )}
-        </View>
-
-        {loading ? (
-          <View style={styles.centerContent}>
-            <ActivityIndicator size="large" color={theme.primaryColor} />
-          </View>
-        ) : sessions.length === 0 ? (
-          <View style={styles.centerContent}>
-            <Text style={[styles.noSessionsText, { color: theme.textColor }]}>
-              No {showPastSessions ? 'past' : 'upcoming'} sessions found
-            </Text>
-          </View>
-        ) : (
-          <FlatList
-            data={sessions}
-            keyExtractor={(item) => item.id}
-            renderItem={({ item }) => {
-              // Create a modified session object with disabled action buttons
-              const sessionWithDisabledActions = {
-                ...item,
-                // This will make the SessionCard not render action buttons
-                disableActions: true
-              };
-              
-              return (
-                <SessionCard
-                  session={sessionWithDisabledActions}
-                  onEdit={() => {}}
-                  onDelete={() => {}}
-                  onToggleComplete={() => {}}
-                />
-              );
-            }}
-            contentContainerStyle={styles.listContent}
-            showsVerticalScrollIndicator={true}
-            initialNumToRender={10}
-            maxToRenderPerBatch={10}
-            windowSize={10}
-            removeClippedSubviews={true}
-            scrollEnabled={true}
-            bounces={true}
-          />
-        )}
+        <FlatList
+          data={loading ? [] : sessions}
+          keyExtractor={(item) => item.id}
+          ListHeaderComponent={renderListHeader()}
+          ListEmptyComponent={
+            <View style={styles.centerContent}>
+              {loading ? (
+                <ActivityIndicator size="large" color={theme.primaryColor} />
+              ) : (
+                <Text style={[styles.noSessionsText, { color: theme.textColor }]}>
+                  No {showPastSessions ? 'past' : 'upcoming'} sessions found
+                </Text>
+              )}
+            </View>
+          }
+          renderItem={({ item }) => {
+            // Create a modified session object with disabled action buttons
+            const sessionWithDisabledActions = {
+              ...item,
+              // This will make the SessionCard not render action buttons
+              disableActions: true
+            };
+            
+            return (
+              <SessionCard
+                session={sessionWithDisabledActions}
+                onEdit={() => {}}
+                onDelete={() => {}}
+                onChangeStatus={() => {}}
+                redFlags={patient?.medicalHistory?.redFlags}
+                planProgress={planProgress[item.id]}
+              />
+            );
+          }}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={true}
+          initialNumToRender={10}
+          maxToRenderPerBatch={10}
+          windowSize={10}
+          scrollEnabled={true}
+          bounces={true}
+        />
       </View>
     </View>
   );
@@ -266,6 +527,56 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     paddingTop: 16,
   },
+  summaryCard: {
+    borderRadius: 10,
+    padding: 12,
+    marginHorizontal: 5,
+    marginBottom: 16,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    paddingVertical: 3,
+  },
+  summaryLabel: {
+    width: 120,
+    fontSize: 14,
+  },
+  summaryValue: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  exerciseDosage: {
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  plansSection: {
+    marginBottom: 8,
+  },
+  plansHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginHorizontal: 5,
+    marginBottom: 10,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  addPlanButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  addPlanText: {
+    fontSize: 15,
+    marginLeft: 4,
+  },
+  noPlansText: {
+    fontSize: 14,
+    marginHorizontal: 5,
+    marginBottom: 8,
+  },
   tabContainer: {
     flexDirection: 'row',
     marginBottom: 20,
@@ -285,6 +596,7 @@ const styles = StyleSheet.create({
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
+    paddingVertical: 30,
   },
   noSessionsText: {
     fontSize: 16,
@@ -18,6 +18,19 @@ import * as ImagePicker from 'expo-image-picker';
 import { useAuth } from '../utils/AuthContext';
 import CustomHeader from '../components/CustomHeader';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { ClinicDetails, MoneyFormat } from '../types';
+import { EMPTY_CLINIC_DETAILS, hasClinicDetails } from '../utils/clinic';
+import { CURRENCY_OPTIONS, DEFAULT_MONEY_FORMAT, NUMBER_FORMAT_OPTIONS, formatMoney } from '../utils/currency';
+
+// Letterhead fields printed on discharge summaries and referral letters
+const CLINIC_FIELDS: { key: keyof ClinicDetails; label: string; placeholder: string; multiline?: boolean }[] = [
+  { key: 'name', label: 'Clinic Name', placeholder: 'e.g. Riverside Physiotherapy' },
+  { key: 'practitionerName', label: 'Your Name', placeholder: 'As it should appear on letters' },
+  { key: 'qualifications', label: 'Qualifications', placeholder: 'e.g. DPT, MSc Sports Physiotherapy' },
+  { key: 'address', label: 'Address', placeholder: 'Clinic address', multiline: true },
+  { key: 'phone', label: 'Clinic Phone', placeholder: 'Phone number on letters' },
+  { key: 'email', label: 'Clinic Email', placeholder: 'Email address on letters' },
+];
 
 export default function ProfileScreen() {
   const { user, updateUserProfile, isLoading } = useAuth();
@@ -27,6 +40,8 @@ export default function ProfileScreen() {
   const [email, setEmail] = useState(user?.email || '');
   const [phoneNumber, setPhoneNumber] = useState(user?.phoneNumber || '');
   const [profileImage, setProfileImage] = useState<string | null>(user?.profileImage || null);
+  const [clinic, setClinic] = useState<ClinicDetails>({ ...EMPTY_CLINIC_DETAILS, ...user?.clinic });
+  const [moneyFormat, setMoneyFormat] = useState<MoneyFormat>({ ...DEFAULT_MONEY_FORMAT, ...user?.moneyFormat });
   const [isEditing, setIsEditing] = useState(false);
   const [errors, setErrors] = useState<{ 
     email?: string; 
@@ -88,6 +103,8 @@ export default function ProfileScreen() {
         email,
         phoneNumber,
         profileImage: profileImage || undefined,
+        clinic,
+        moneyFormat,
       });
       setIsEditing(false);
       Alert.alert('Success', 'Profile updated successfully');
@@ -160,6 +177,20 @@ export default function ProfileScreen() {
     }
   };
 
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: isSelected ? theme.primaryColor : theme.borderColor },
+        isSelected ? { backgroundColor: theme.primaryColor } : null
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: isSelected ? 'white' : theme.textColor }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
   if (!user) {
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: theme.backgroundColor }]} edges={['top', 'bottom', 'left', 'right']}>
@@ -264,6 +295,58 @@ export default function ProfileScreen() {
                   {errors.phoneNumber ? <Text style={[styles.errorText, { color: theme.errorColor }]}>{errors.phoneNumber}</Text> : null}
                 </View>
 
+                <Text style={[styles.sectionTitle, { color: theme.textColor }]}>Clinic Letterhead</Text>
+                {CLINIC_FIELDS.map(field => (
+                  <View key={field.key} style={styles.inputContainer}>
+                    <Text style={[styles.label, { color: theme.textColor }]}>{field.label}</Text>
+                    <TextInput
+                      style={[
+                        styles.input,
+                        field.multiline ? styles.textArea : null,
+                        {
+                          backgroundColor: theme.cardBackground,
+                          borderColor: theme.borderColor,
+                          color: theme.textColor
+                        }
+                      ]}
+                      placeholder={field.placeholder}
+                      placeholderTextColor={theme.placeholderColor}
+                      value={clinic[field.key]}
+                      onChangeText={text => setClinic(current => ({ ...current, [field.key]: text }))}
+                      multiline={field.multiline}
+                      autoCapitalize={field.key === 'email' ? 'none' : 'sentences'}
+                      keyboardType={field.key === 'email' ? 'email-address' : field.key === 'phone' ? 'phone-pad' : 'default'}
+                    />
+                  </View>
+                ))}
+
+                <Text style={[styles.sectionTitle, { color: theme.textColor }]}>Currency</Text>
+                <View style={styles.inputContainer}>
+                  <View style={styles.chipRow}>
+                    {CURRENCY_OPTIONS.map(option => renderChip(
+                      option.value,
+                      `${option.value} · ${option.label}`,
+                      option.value === moneyFormat.currency,
+                      () => setMoneyFormat(current => ({ ...current, currency: option.value }))
+                    ))}
+                  </View>
+                </View>
+
+                <View style={styles.inputContainer}>
+                  <Text style={[styles.label, { color: theme.textColor }]}>Number Format</Text>
+                  <View style={styles.chipRow}>
+                    {NUMBER_FORMAT_OPTIONS.map(option => renderChip(
+                      option.value,
+                      option.label,
+                      option.value === moneyFormat.numberFormat,
+                      () => setMoneyFormat(current => ({ ...current, numberFormat: option.value }))
+                    ))}
+                  </View>
+                  <Text style={[styles.hintText, { color: theme.placeholderColor }]}>
+                    Payments and invoices keep the currency they were recorded in
+                  </Text>
+                </View>
+
                 <View style={styles.buttonRow}>
                   <TouchableOpacity
                     style={[styles.button, styles.cancelButton, { borderColor: theme.borderColor }]}
@@ -272,6 +355,8 @@ export default function ProfileScreen() {
                       setEmail(user.email);
                       setPhoneNumber(user.phoneNumber);
                       setProfileImage(user.profileImage || null);
+                      setClinic({ ...EMPTY_CLINIC_DETAILS, ...user.clinic });
+                      setMoneyFormat({ ...DEFAULT_MONEY_FORMAT, ...user.moneyFormat });
                     }}
                     disabled={isLoading}
                   >
@@ -310,6 +395,24 @@ export default function ProfileScreen() {
                   </Text>
                 </View>
 
+                <View style={styles.infoContainer}>
+                  <Text style={[styles.infoLabel, { color: theme.textColor }]}>Clinic Letterhead</Text>
+                  {hasClinicDetails(user.clinic) ? (
+                    CLINIC_FIELDS.filter(field => user.clinic?.[field.key]).map(field => (
+                      <Text key={field.key} style={[styles.infoValue, { color: theme.textColor }]}>{user.clinic?.[field.key]}</Text>
+                    ))
+                  ) : (
+                    <Text style={[styles.infoValue, { color: theme.placeholderColor }]}>Not set up</Text>
+                  )}
+                </View>
+
+                <View style={styles.infoContainer}>
+                  <Text style={[styles.infoLabel, { color: theme.textColor }]}>Currency</Text>
+                  <Text style={[styles.infoValue, { color: theme.textColor }]}>
+                    {user.moneyFormat?.currency || DEFAULT_MONEY_FORMAT.currency} · {formatMoney(100000)}
+                  </Text>
+                </View>
+
                 <TouchableOpacity
                   style={[styles.button, { backgroundColor: theme.primaryColor }]}
                   onPress={() => setIsEditing(true)}
@@ -401,6 +504,16 @@ const styles = StyleSheet.create({
     padding: 12,
     fontSize: 16,
   },
+  textArea: {
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginTop: 8,
+    marginBottom: 12,
+  },
   errorText: {
     fontSize: 14,
     marginTop: 4,
@@ -434,6 +547,25 @@ const styles = StyleSheet.create({
   infoContainer: {
     marginBottom: 16,
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  hintText: {
+    fontSize: 13,
+    marginTop: 4,
+  },
   infoLabel: {
     fontSize: 14,
     marginBottom: 4,
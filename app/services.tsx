@@ -0,0 +1,382 @@
+import React, { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  Modal,
+  useColorScheme,
+  useWindowDimensions,
+  StatusBar,
+} from 'react-native';
+import { Plus, Trash2, Edit } from 'lucide-react-native';
+import CustomHeader from '../components/CustomHeader';
+import {
+  getServices,
+  saveService,
+  updateService,
+  deleteService
+} from '../utils/mongoStorage';
+import { MIN_SERVICE_DURATION, MAX_SERVICE_DURATION, formatServiceTerms } from '../utils/services';
+import { Service } from '../types';
+
+interface ServiceDraft {
+  name: string;
+  duration: string;
+  price: string;
+}
+
+const EMPTY_DRAFT: ServiceDraft = { name: '', duration: '45', price: '' };
+
+export default function ServicesScreen() {
+  const [services, setServices] = useState<Service[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingService, setEditingService] = useState<Service | null>(null);
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [draft, setDraft] = useState<ServiceDraft>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const { height: windowHeight } = useWindowDimensions();
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#1E1E1E' : '#F2F2F7',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    primaryColor: '#0A84FF',
+    errorColor: '#FF453A',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    subtitleColor: '#8E8E93',
+    cancelButtonBg: isDarkMode ? '#444444' : '#E5E5EA',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+  };
+
+  const loadServices = async () => {
+    try {
+      setLoading(true);
+      setServices(await getServices());
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadServices();
+  }, []);
+
+  const openEditor = (service?: Service) => {
+    setEditingService(service || null);
+    setDraft(service
+      ? {
+        name: service.name,
+        duration: service.duration.toString(),
+        price: service.price.toString()
+      }
+      : EMPTY_DRAFT);
+    setEditorVisible(true);
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) {
+      Alert.alert('Missing Name', 'Please give the service a name');
+      return;
+    }
+
+    const duration = Number(draft.duration);
+    if (!Number.isInteger(duration) || duration < MIN_SERVICE_DURATION || duration > MAX_SERVICE_DURATION) {
+      Alert.alert('Invalid Duration', `Enter a whole number of minutes from ${MIN_SERVICE_DURATION} to ${MAX_SERVICE_DURATION}`);
+      return;
+    }
+
+    const price = Number(draft.price);
+    if (!draft.price.trim() || !Number.isFinite(price) || price < 0) {
+      Alert.alert('Invalid Price', 'Please enter the usual price of the service');
+      return;
+    }
+
+    const fields = { name: draft.name.trim(), duration, price };
+
+    try {
+      setIsSaving(true);
+      if (editingService) {
+        const updated = await updateService({ ...editingService, ...fields });
+        setServices(current => current.map(item => (item.id === updated.id ? updated : item)));
+      } else {
+        const created = await saveService(fields);
+        setServices(current => [...current, created].sort((a, b) => a.name.localeCompare(b.name)));
+      }
+      setEditorVisible(false);
+    } catch (error: any) {
+      Alert.alert('Save Failed', error.message || 'Failed to save the service. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (service: Service) => {
+    Alert.alert(
+      'Delete Service',
+      `Stop offering "${service.name}"? Sessions already booked keep it, and prices agreed with patients for it are removed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteService(service.id);
+              setServices(current => current.filter(item => item.id !== service.id));
+            } catch (error) {
+              console.error('Error deleting service:', error);
+              Alert.alert('Error', 'Failed to delete service');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundColor }]}>
+      <StatusBar barStyle={isDarkMode ? 'light-content' : 'dark-content'} />
+
+      <CustomHeader title="Services" showBackButton={true} />
+
+      {loading ? (
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color={theme.primaryColor} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollViewContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.sectionHeader}>
+            <Text style={[styles.hintText, { color: theme.subtitleColor }]}>
+              Pick one when booking a session to fill in its duration and fee. Prices can be changed per patient on their patient screen.
+            </Text>
+            <TouchableOpacity style={styles.addButton} onPress={() => openEditor()}>
+              <Plus size={18} color={theme.primaryColor} />
+              <Text style={[styles.addButtonText, { color: theme.primaryColor }]}>Add</Text>
+            </TouchableOpacity>
+          </View>
+
+          {services.length === 0 && (
+            <Text style={[styles.emptyText, { color: theme.placeholderColor }]}>No services yet</Text>
+          )}
+
+          {services.map(service => (
+            <View
+              key={service.id}
+              style={[styles.card, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }]}
+            >
+              <View style={styles.cardHeader}>
+                <Text style={[styles.serviceName, { color: theme.textColor }]}>{service.name}</Text>
+                <TouchableOpacity style={styles.iconButton} onPress={() => openEditor(service)}>
+                  <Edit size={18} color={theme.primaryColor} />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(service)}>
+                  <Trash2 size={18} color={theme.errorColor} />
+                </TouchableOpacity>
+              </View>
+              <Text style={[styles.termsText, { color: theme.subtitleColor }]}>{formatServiceTerms(service)}</Text>
+            </View>
+          ))}
+        </ScrollView>
+      )}
+
+      <Modal
+        visible={editorVisible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setEditorVisible(false)}
+      >
+        <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+          <View style={[styles.modalContent, { backgroundColor: theme.cardBackground, maxHeight: windowHeight * 0.9 }]}>
+            <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+              <Text style={[styles.modalTitle, { color: theme.textColor }]}>
+                {editingService ? 'Edit Service' : 'New Service'}
+              </Text>
+
+              <Text style={[styles.label, { color: theme.textColor }]}>Name</Text>
+              <TextInput
+                style={[styles.input, { color: theme.textColor, borderColor: theme.borderColor }]}
+                value={draft.name}
+                onChangeText={name => setDraft(current => ({ ...current, name }))}
+                placeholder="e.g. Home visit"
+                placeholderTextColor={theme.placeholderColor}
+              />
+
+              <Text style={[styles.label, { color: theme.textColor }]}>Duration (minutes)</Text>
+              <TextInput
+                style={[styles.input, { color: theme.textColor, borderColor: theme.borderColor }]}
+                value={draft.duration}
+                onChangeText={duration => setDraft(current => ({ ...current, duration }))}
+                placeholder="45"
+                placeholderTextColor={theme.placeholderColor}
+                keyboardType="number-pad"
+              />
+
+              <Text style={[styles.label, { color: theme.textColor }]}>Price</Text>
+              <TextInput
+                style={[styles.input, { color: theme.textColor, borderColor: theme.borderColor }]}
+                value={draft.price}
+                onChangeText={price => setDraft(current => ({ ...current, price }))}
+                placeholder="0.00"
+                placeholderTextColor={theme.placeholderColor}
+                keyboardType="decimal-pad"
+              />
+
+              <Text style={[styles.hintText, { color: theme.subtitleColor }]}>
+                Changes only apply to sessions booked afterwards.
+              </Text>
+
+              <View style={styles.buttonRow}>
+                <TouchableOpacity
+                  style={[styles.button, { backgroundColor: theme.cancelButtonBg }]}
+                  onPress={() => setEditorVisible(false)}
+                  disabled={isSaving}
+                >
+                  <Text style={[styles.buttonText, { color: theme.textColor }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, { backgroundColor: theme.primaryColor }, isSaving ? styles.disabledButton : null]}
+                  onPress={handleSave}
+                  disabled={isSaving}
+                >
+                  {isSaving ? (
+                    <ActivityIndicator size="small" color="white" />
+                  ) : (
+                    <Text style={[styles.buttonText, { color: 'white' }]}>Save</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  scrollViewContent: {
+    paddingBottom: 30,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  hintText: {
+    flex: 1,
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 5,
+  },
+  addButtonText: {
+    fontSize: 16,
+    marginLeft: 4,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 30,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  serviceName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  iconButton: {
+    padding: 5,
+    marginLeft: 4,
+  },
+  termsText: {
+    fontSize: 13,
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 500,
+    borderRadius: 12,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 5,
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    marginTop: 10,
+  },
+  button: {
+    flex: 1,
+    borderRadius: 8,
+    padding: 14,
+    marginHorizontal: 4,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,239 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  useColorScheme,
+  ScrollView,
+  useWindowDimensions
+} from 'react-native';
+import { getPatientSessions, uploadAttachment } from '../utils/mongoStorage';
+import { Attachment, AttachmentCategory, Session } from '../types';
+import { formatDateKey, parseDateKey } from '../utils/calendarUtils';
+import { isOpenSession } from '../utils/sessionStatus';
+import { ATTACHMENT_CATEGORY_OPTIONS, formatFileSize } from '../utils/attachments';
+
+export interface PickedFile {
+  uri: string;
+  fileName: string;
+  mimeType: string;
+  size?: number;
+}
+
+interface AttachmentFormProps {
+  patientId: string;
+  file: PickedFile;
+  initialCategory?: AttachmentCategory;
+  onSave: (attachment: Attachment) => void;
+  onCancel: () => void;
+}
+
+// Recent visits offered for linking the file to a session
+const SESSION_CHOICES = 6;
+
+// Names the picked file, sorts it into a category and uploads it
+export default function AttachmentForm({ patientId, file, initialCategory = 'other', onSave, onCancel }: AttachmentFormProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const { height: windowHeight } = useWindowDimensions();
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#1E1E1E' : '#F2F2F7',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    inputBackground: isDarkMode ? '#333333' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    saveButtonBackground: '#0A84FF',
+    cancelButtonBackground: isDarkMode ? '#444444' : '#E5E5EA',
+    primaryColor: '#0A84FF',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    subtitleColor: '#8E8E93',
+  };
+
+  const [fileName, setFileName] = useState(file.fileName);
+  const [category, setCategory] = useState<AttachmentCategory>(initialCategory);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    const loadSessions = async () => {
+      const today = formatDateKey(new Date());
+      const patientSessions = await getPatientSessions(patientId);
+      setSessions(patientSessions
+        .filter(session => session.date <= today && (session.status === 'completed' || isOpenSession(session)))
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .slice(0, SESSION_CHOICES));
+    };
+
+    loadSessions();
+  }, [patientId]);
+
+  const handleSubmit = async () => {
+    if (!fileName.trim()) {
+      Alert.alert('Missing Name', 'Please enter a name for the file');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      onSave(await uploadAttachment(
+        patientId,
+        { uri: file.uri, fileName: fileName.trim(), mimeType: file.mimeType },
+        { category, sessionId }
+      ));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to upload the file');
+      console.error('Error uploading attachment:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: isSelected ? theme.primaryColor : theme.borderColor },
+        isSelected ? { backgroundColor: theme.primaryColor } : null
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: isSelected ? 'white' : theme.textColor }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundColor, maxHeight: windowHeight * 0.9 }]}>
+      <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <Text style={[styles.title, { color: theme.textColor }]}>Attach File</Text>
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Name</Text>
+          <TextInput
+            style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.borderColor, color: theme.textColor }]}
+            value={fileName}
+            onChangeText={setFileName}
+            placeholder="e.g. Lumbar MRI report"
+            placeholderTextColor={theme.placeholderColor}
+          />
+          {file.size !== undefined && (
+            <Text style={[styles.hintText, { color: theme.subtitleColor }]}>{formatFileSize(file.size)}</Text>
+          )}
+        </View>
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Category</Text>
+          <View style={styles.chipRow}>
+            {ATTACHMENT_CATEGORY_OPTIONS.map(option => renderChip(
+              option.value,
+              option.label,
+              option.value === category,
+              () => setCategory(option.value)
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Session</Text>
+          <View style={styles.chipRow}>
+            {renderChip('none', 'Not linked', sessionId === null, () => setSessionId(null))}
+            {sessions.map(session => renderChip(
+              session.id,
+              parseDateKey(session.date).toLocaleDateString(),
+              session.id === sessionId,
+              () => setSessionId(session.id)
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.cancelButtonBackground }, isSubmitting ? styles.disabledButton : null]}
+            onPress={onCancel}
+            disabled={isSubmitting}
+          >
+            <Text style={[styles.buttonText, { color: theme.textColor }]}>Cancel</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.saveButtonBackground }, isSubmitting ? styles.disabledButton : null]}
+            onPress={handleSubmit}
+            disabled={isSubmitting}
+          >
+            <Text style={[styles.buttonText, { color: 'white' }]}>{isSubmitting ? 'Uploading...' : 'Upload'}</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 10,
+    padding: 20,
+    width: '100%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  formGroup: {
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 5,
+    fontWeight: '500',
+  },
+  hintText: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 10,
+  },
+  button: {
+    borderRadius: 8,
+    padding: 15,
+    flex: 1,
+    marginHorizontal: 5,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
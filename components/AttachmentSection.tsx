@@ -0,0 +1,282 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  Alert,
+  Share,
+  Platform,
+  useColorScheme
+} from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import * as DocumentPicker from 'expo-document-picker';
+import { Paperclip } from 'lucide-react-native';
+import { Attachment, AttachmentCategory } from '../types';
+import { getAttachments, downloadAttachment, deleteAttachment } from '../utils/mongoStorage';
+import { ATTACHMENT_MIME_TYPES, getAttachmentFileIssue } from '../utils/attachments';
+import AttachmentThumbnail from './AttachmentThumbnail';
+import AttachmentForm, { PickedFile } from './AttachmentForm';
+
+interface AttachmentSectionProps {
+  patientId: string;
+}
+
+export default function AttachmentSection({ patientId }: AttachmentSectionProps) {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [pickedFile, setPickedFile] = useState<{ file: PickedFile; category: AttachmentCategory } | null>(null);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    primaryColor: '#0A84FF',
+    labelColor: isDarkMode ? '#888888' : '#8E8E93',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+  };
+
+  const loadAttachments = async () => {
+    if (!patientId) return;
+    setAttachments(await getAttachments(patientId));
+  };
+
+  useEffect(() => {
+    loadAttachments();
+  }, [patientId]);
+
+  const handlePickedFile = (file: PickedFile, category: AttachmentCategory) => {
+    const issue = getAttachmentFileIssue(file.mimeType, file.size);
+    if (issue) {
+      Alert.alert('Cannot Attach File', issue);
+      return;
+    }
+
+    setPickedFile({ file, category });
+  };
+
+  const handlePickedAttachment = (result: ImagePicker.ImagePickerResult, category: AttachmentCategory) => {
+    const asset = !result.canceled ? result.assets?.[0] : undefined;
+    if (!asset) return;
+
+    handlePickedFile({
+      uri: asset.uri,
+      fileName: asset.fileName || `Photo ${new Date().toLocaleDateString()}`,
+      mimeType: asset.mimeType || 'image/jpeg',
+      size: asset.fileSize,
+    }, category);
+  };
+
+  const handlePickedDocument = (result: DocumentPicker.DocumentPickerResult) => {
+    const asset = !result.canceled ? result.assets?.[0] : undefined;
+    if (!asset) return;
+
+    handlePickedFile({
+      uri: asset.uri,
+      fileName: asset.name,
+      mimeType: asset.mimeType || 'application/octet-stream',
+      size: asset.size,
+    }, 'report');
+  };
+
+  // Camera shots are usually posture photos; scans, PDFs and photos of reports and letters come from files or the library
+  const pickAttachment = () => {
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 0.8,
+      exif: false,
+    };
+
+    Alert.alert(
+      'Attach File',
+      'Where would you like to take the file from?',
+      [
+        // Android alerts show at most three buttons; there a tap outside the alert cancels instead
+        ...(Platform.OS === 'ios' ? [{ text: 'Cancel', style: 'cancel' as const }] : []),
+        {
+          text: 'Camera',
+          onPress: async () => {
+            const { status } = await ImagePicker.requestCameraPermissionsAsync();
+            if (status !== 'granted') {
+              Alert.alert('Permission Denied', 'We need camera permission to take a photo');
+              return;
+            }
+            try {
+              handlePickedAttachment(await ImagePicker.launchCameraAsync(options), 'posture-photo');
+            } catch (error) {
+              console.error('Error taking attachment photo:', error);
+              Alert.alert('Error', 'Failed to take photo. Please try again.');
+            }
+          }
+        },
+        {
+          text: 'Photo Library',
+          onPress: async () => {
+            const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+            if (status !== 'granted') {
+              Alert.alert('Permission Denied', 'We need photo library permission to attach a file');
+              return;
+            }
+            try {
+              handlePickedAttachment(await ImagePicker.launchImageLibraryAsync(options), 'other');
+            } catch (error) {
+              console.error('Error choosing attachment:', error);
+              Alert.alert('Error', 'Failed to choose the file. Please try again.');
+            }
+          }
+        },
+        {
+          text: 'Files',
+          onPress: async () => {
+            try {
+              handlePickedDocument(await DocumentPicker.getDocumentAsync({ type: ATTACHMENT_MIME_TYPES }));
+            } catch (error) {
+              console.error('Error choosing attachment document:', error);
+              Alert.alert('Error', 'Failed to choose the file. Please try again.');
+            }
+          }
+        },
+      ],
+      { cancelable: true }
+    );
+  };
+
+  const handleSaveAttachment = (attachment: Attachment) => {
+    setPickedFile(null);
+    setAttachments(current => [attachment, ...current]);
+  };
+
+  const handleOpenAttachment = async (attachment: Attachment) => {
+    try {
+      const localUri = await downloadAttachment(attachment);
+      await Share.share({ title: attachment.fileName, url: localUri });
+    } catch (error) {
+      console.error('Error opening attachment:', error);
+      Alert.alert('Error', 'Failed to open the file. Please try again.');
+    }
+  };
+
+  const handleDeleteAttachment = (attachment: Attachment) => {
+    Alert.alert(
+      'Delete Attachment',
+      `Delete "${attachment.fileName}"? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteAttachment(attachment);
+              loadAttachments();
+            } catch (error) {
+              console.error('Error deleting attachment:', error);
+              Alert.alert('Error', 'Failed to delete the attachment');
+            }
+          }
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: theme.textColor }]}>Attachments</Text>
+        <TouchableOpacity style={styles.actionButton} onPress={pickAttachment}>
+          <Paperclip size={16} color={theme.primaryColor} />
+          <Text style={[styles.actionText, { color: theme.primaryColor }]}>Attach</Text>
+        </TouchableOpacity>
+      </View>
+      {attachments.length === 0 ? (
+        <Text style={[styles.emptyText, { color: theme.labelColor }]}>No reports, scans or photos attached</Text>
+      ) : (
+        <>
+          <ScrollView horizontal={true} showsHorizontalScrollIndicator={false} contentContainerStyle={styles.attachmentList}>
+            {attachments.map(attachment => (
+              <AttachmentThumbnail
+                key={attachment.id}
+                attachment={attachment}
+                onPress={handleOpenAttachment}
+                onLongPress={handleDeleteAttachment}
+              />
+            ))}
+          </ScrollView>
+          <Text style={[styles.hint, { color: theme.labelColor }]}>Tap to open, long press to delete</Text>
+        </>
+      )}
+
+      <Modal
+        visible={pickedFile !== null}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setPickedFile(null)}
+      >
+        <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+          <View style={styles.modalContent}>
+            {pickedFile && (
+              <AttachmentForm
+                patientId={patientId}
+                file={pickedFile.file}
+                initialCategory={pickedFile.category}
+                onSave={handleSaveAttachment}
+                onCancel={() => setPickedFile(null)}
+              />
+            )}
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginHorizontal: 5,
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  actionText: {
+    fontSize: 15,
+    marginLeft: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    marginHorizontal: 5,
+    marginBottom: 8,
+  },
+  attachmentList: {
+    paddingHorizontal: 5,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 6,
+    marginBottom: 8,
+    marginHorizontal: 5,
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 500,
+  },
+});
@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, Image, TouchableOpacity, StyleSheet, useColorScheme } from 'react-native';
+import { FileText } from 'lucide-react-native';
+import { Attachment } from '../types';
+import { getAttachmentSource } from '../utils/mongoStorage';
+import { getAttachmentCategoryLabel, isImageAttachment } from '../utils/attachments';
+
+interface AttachmentThumbnailProps {
+  attachment: Attachment;
+  onPress: (attachment: Attachment) => void;
+  onLongPress: (attachment: Attachment) => void;
+}
+
+const THUMBNAIL_SIZE = 84;
+
+// A photo preview, or a document icon for PDFs, with the file's category
+export default function AttachmentThumbnail({ attachment, onPress, onLongPress }: AttachmentThumbnailProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const [source, setSource] = useState<{ uri: string; headers: Record<string, string> } | null>(null);
+
+  const theme = {
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    labelColor: '#8E8E93',
+    primaryColor: '#0A84FF',
+  };
+
+  // Image requests need the auth header, which is read asynchronously
+  useEffect(() => {
+    if (isImageAttachment(attachment)) {
+      getAttachmentSource(attachment).then(setSource).catch(() => setSource(null));
+    }
+  }, [attachment]);
+
+  return (
+    <TouchableOpacity
+      style={styles.container}
+      onPress={() => onPress(attachment)}
+      onLongPress={() => onLongPress(attachment)}
+    >
+      <View style={[styles.preview, { backgroundColor: theme.cardBackground }]}>
+        {source ? (
+          <Image source={source} style={styles.image} resizeMode="cover" />
+        ) : (
+          <FileText size={32} color={theme.primaryColor} />
+        )}
+      </View>
+      <Text style={[styles.name, { color: theme.textColor }]} numberOfLines={1}>{attachment.fileName}</Text>
+      <Text style={[styles.category, { color: theme.labelColor }]} numberOfLines={1}>
+        {getAttachmentCategoryLabel(attachment.category)}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: THUMBNAIL_SIZE,
+    marginRight: 10,
+  },
+  preview: {
+    width: THUMBNAIL_SIZE,
+    height: THUMBNAIL_SIZE,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    overflow: 'hidden',
+  },
+  image: {
+    width: THUMBNAIL_SIZE,
+    height: THUMBNAIL_SIZE,
+  },
+  name: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginTop: 4,
+  },
+  category: {
+    fontSize: 11,
+  },
+});
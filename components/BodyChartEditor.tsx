@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  useColorScheme,
+  useWindowDimensions
+} from 'react-native';
+import { Trash2 } from 'lucide-react-native';
+import { BodyChartMark, BodyChartView, PainType } from '../types';
+import {
+  BODY_CHART_VIEWS,
+  PAIN_TYPE_OPTIONS,
+  MIN_INTENSITY,
+  MAX_INTENSITY,
+  DEFAULT_INTENSITY,
+  findMarkNear
+} from '../utils/bodyChart';
+import BodyOutline from './BodyOutline';
+
+interface BodyChartEditorProps {
+  value: BodyChartMark[];
+  onChange: (marks: BodyChartMark[]) => void;
+}
+
+const INTENSITIES = Array.from({ length: MAX_INTENSITY - MIN_INTENSITY + 1 }, (_, i) => MIN_INTENSITY + i);
+
+// Space around the two outlines inside the session form
+const CHART_INSET = 110;
+const MAX_OUTLINE_WIDTH = 150;
+
+// Tap the front or back outline to mark a pain location; tap a mark to change or remove it
+export default function BodyChartEditor({ value, onChange }: BodyChartEditorProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const { width: windowWidth } = useWindowDimensions();
+
+  const theme = {
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    primaryColor: '#0A84FF',
+    errorColor: '#FF453A',
+    subtitleColor: '#8E8E93',
+  };
+
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  // Applied to new marks, and remembered from the last mark edited
+  const [painType, setPainType] = useState<PainType>('sharp');
+  const [intensity, setIntensity] = useState(DEFAULT_INTENSITY);
+
+  const outlineWidth = Math.min(MAX_OUTLINE_WIDTH, (windowWidth - CHART_INSET) / 2);
+  const selectedMark = selectedIndex !== null ? value[selectedIndex] : null;
+
+  const handlePressPoint = (view: BodyChartView, x: number, y: number) => {
+    const existing = findMarkNear(value, view, x, y);
+    if (existing !== -1) {
+      setSelectedIndex(existing);
+      return;
+    }
+
+    onChange([...value, { view, x, y, type: painType, intensity }]);
+    setSelectedIndex(value.length);
+  };
+
+  const updateSelected = (changes: Partial<BodyChartMark>) => {
+    if (selectedIndex === null) return;
+    if (changes.type) setPainType(changes.type);
+    if (changes.intensity) setIntensity(changes.intensity);
+    onChange(value.map((mark, i) => (i === selectedIndex ? { ...mark, ...changes } : mark)));
+  };
+
+  const handleRemove = () => {
+    if (selectedIndex === null) return;
+    onChange(value.filter((_, i) => i !== selectedIndex));
+    setSelectedIndex(null);
+  };
+
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void, color = theme.primaryColor) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: isSelected ? color : theme.borderColor },
+        isSelected ? { backgroundColor: color } : null
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: isSelected ? 'white' : theme.textColor }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  // Without a selected mark the chips set the type and intensity of the next one
+  const activeType = selectedMark ? selectedMark.type : painType;
+  const activeIntensity = selectedMark ? selectedMark.intensity : intensity;
+
+  return (
+    <View>
+      <Text style={[styles.hintText, { color: theme.subtitleColor }]}>
+        {selectedMark ? 'Editing the selected mark' : 'Tap the body to mark where it hurts'}
+      </Text>
+
+      <View style={styles.chartRow}>
+        {BODY_CHART_VIEWS.map(view => (
+          <BodyOutline
+            key={view.value}
+            view={view.value}
+            marks={value}
+            width={outlineWidth}
+            selectedMark={selectedMark}
+            onPressPoint={(x, y) => handlePressPoint(view.value, x, y)}
+          />
+        ))}
+      </View>
+
+      <Text style={[styles.fieldLabel, { color: theme.subtitleColor }]}>Type</Text>
+      <View style={styles.chipRow}>
+        {PAIN_TYPE_OPTIONS.map(option => renderChip(
+          option.value,
+          option.label,
+          activeType === option.value,
+          () => (selectedMark ? updateSelected({ type: option.value }) : setPainType(option.value)),
+          option.color
+        ))}
+      </View>
+
+      <Text style={[styles.fieldLabel, { color: theme.subtitleColor }]}>Intensity</Text>
+      <View style={styles.chipRow}>
+        {INTENSITIES.map(level => renderChip(
+          level.toString(),
+          level.toString(),
+          activeIntensity === level,
+          () => (selectedMark ? updateSelected({ intensity: level }) : setIntensity(level))
+        ))}
+      </View>
+
+      {selectedMark && (
+        <View style={styles.actionsRow}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => setSelectedIndex(null)}>
+            <Text style={[styles.actionText, { color: theme.primaryColor }]}>Done</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={handleRemove}>
+            <Trash2 size={16} color={theme.errorColor} />
+            <Text style={[styles.actionText, { color: theme.errorColor }]}>Remove mark</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  hintText: {
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  chartRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: 10,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    marginBottom: 3,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 4,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 5,
+  },
+  actionText: {
+    fontSize: 15,
+    marginLeft: 4,
+  },
+});
@@ -0,0 +1,104 @@
+import React from 'react';
+import { View, Text, ScrollView, StyleSheet, useColorScheme } from 'react-native';
+import { Session } from '../types';
+import { parseDateKey } from '../utils/calendarUtils';
+import { PAIN_TYPE_OPTIONS, summarizeBodyChart } from '../utils/bodyChart';
+import BodyOutline from './BodyOutline';
+
+interface BodyChartHistoryProps {
+  sessions: Session[]; // Sessions with body chart marks
+}
+
+const OUTLINE_WIDTH = 60;
+
+// Body charts from earlier visits side by side, newest first, to follow how pain moves
+export default function BodyChartHistory({ sessions }: BodyChartHistoryProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    labelColor: '#8E8E93',
+  };
+
+  const charted = [...sessions].sort((a, b) => b.date.localeCompare(a.date) || b.time.localeCompare(a.time));
+
+  return (
+    <View>
+      <ScrollView horizontal={true} showsHorizontalScrollIndicator={false} contentContainerStyle={styles.scrollContent}>
+        {charted.map(session => (
+          <View key={session.id} style={[styles.card, { backgroundColor: theme.cardBackground }]}>
+            <Text style={[styles.dateText, { color: theme.textColor }]}>
+              {parseDateKey(session.date).toLocaleDateString()}
+            </Text>
+            <View style={styles.outlines}>
+              <BodyOutline view="front" marks={session.bodyChart || []} width={OUTLINE_WIDTH} />
+              <BodyOutline view="back" marks={session.bodyChart || []} width={OUTLINE_WIDTH} />
+            </View>
+            <Text style={[styles.summaryText, { color: theme.labelColor }]} numberOfLines={2}>
+              {summarizeBodyChart(session.bodyChart)}
+            </Text>
+          </View>
+        ))}
+      </ScrollView>
+
+      <View style={styles.legend}>
+        {PAIN_TYPE_OPTIONS.map(option => (
+          <View key={option.value} style={styles.legendItem}>
+            <View style={[styles.legendDot, { backgroundColor: option.color }]} />
+            <Text style={[styles.legendText, { color: theme.labelColor }]}>{option.label}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  scrollContent: {
+    paddingHorizontal: 5,
+  },
+  card: {
+    borderRadius: 10,
+    padding: 10,
+    marginRight: 10,
+    width: OUTLINE_WIDTH * 2 + 30,
+  },
+  dateText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 6,
+    textAlign: 'center',
+  },
+  outlines: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  summaryText: {
+    fontSize: 12,
+    marginTop: 6,
+    textAlign: 'center',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+    marginHorizontal: 5,
+    marginBottom: 8,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 4,
+  },
+  legendText: {
+    fontSize: 12,
+  },
+});
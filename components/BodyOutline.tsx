@@ -0,0 +1,101 @@
+import React from 'react';
+import { View, Text, Pressable, StyleSheet, useColorScheme, GestureResponderEvent } from 'react-native';
+import Svg, { Path, Circle } from 'react-native-svg';
+import { BodyChartMark, BodyChartView } from '../types';
+import {
+  BODY_OUTLINE_PATH,
+  BODY_OUTLINE_WIDTH,
+  BODY_OUTLINE_HEIGHT,
+  getPainTypeColor
+} from '../utils/bodyChart';
+
+interface BodyOutlineProps {
+  view: BodyChartView;
+  marks: BodyChartMark[]; // Marks for both views; only this view's are drawn
+  width: number;
+  selectedMark?: BodyChartMark | null;
+  // Leave out for a read-only chart
+  onPressPoint?: (x: number, y: number) => void;
+}
+
+// One side of the body chart with its pain marks. Taps are reported as fractions of the
+// chart's width and height.
+export default function BodyOutline({ view, marks, width, selectedMark, onPressPoint }: BodyOutlineProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    outlineFill: isDarkMode ? '#333333' : '#F2F2F7',
+    outlineStroke: isDarkMode ? '#888888' : '#8E8E93',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    labelColor: '#8E8E93',
+  };
+
+  const height = width * (BODY_OUTLINE_HEIGHT / BODY_OUTLINE_WIDTH);
+
+  const handlePress = (event: GestureResponderEvent) => {
+    if (!onPressPoint) return;
+    const { locationX, locationY } = event.nativeEvent;
+    onPressPoint(
+      Math.min(Math.max(locationX / width, 0), 1),
+      Math.min(Math.max(locationY / height, 0), 1)
+    );
+  };
+
+  // The patient faces us on the front view, so their right is on our left
+  const [leftLabel, rightLabel] = view === 'front' ? ['R', 'L'] : ['L', 'R'];
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.viewLabel, { color: theme.textColor }]}>{view === 'front' ? 'Front' : 'Back'}</Text>
+      <Pressable onPress={handlePress} disabled={!onPressPoint} style={{ width, height }}>
+        <Svg
+          width={width}
+          height={height}
+          viewBox={`0 0 ${BODY_OUTLINE_WIDTH} ${BODY_OUTLINE_HEIGHT}`}
+          pointerEvents="none"
+        >
+          <Path d={BODY_OUTLINE_PATH} fill={theme.outlineFill} stroke={theme.outlineStroke} strokeWidth={0.8} />
+          {view === 'back' && (
+            <Path d="M50 34 L50 96" stroke={theme.outlineStroke} strokeWidth={0.5} strokeDasharray="2 2" />
+          )}
+          {marks.filter(mark => mark.view === view).map((mark, index) => (
+            <Circle
+              key={`${mark.x}-${mark.y}-${index}`}
+              cx={mark.x * BODY_OUTLINE_WIDTH}
+              cy={mark.y * BODY_OUTLINE_HEIGHT}
+              r={2 + mark.intensity * 0.35}
+              fill={getPainTypeColor(mark.type)}
+              fillOpacity={0.35 + mark.intensity * 0.05}
+              stroke={mark === selectedMark ? theme.textColor : getPainTypeColor(mark.type)}
+              strokeWidth={mark === selectedMark ? 1.2 : 0.6}
+            />
+          ))}
+        </Svg>
+      </Pressable>
+      <View style={[styles.sideLabels, { width }]}>
+        <Text style={[styles.sideLabel, { color: theme.labelColor }]}>{leftLabel}</Text>
+        <Text style={[styles.sideLabel, { color: theme.labelColor }]}>{rightLabel}</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  viewLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  sideLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 4,
+  },
+  sideLabel: {
+    fontSize: 11,
+  },
+});
@@ -0,0 +1,142 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, useColorScheme } from 'react-native';
+import { Session } from '../types';
+import { formatDateKey } from '../utils/calendarUtils';
+import { SESSION_STATUS_COLORS } from '../utils/sessionStatus';
+
+const MAX_SESSIONS_PER_CELL = 2;
+
+interface CalendarMonthViewProps {
+  days: Date[];
+  month: number;
+  sessions: Session[];
+  onPressDay: (day: Date) => void;
+}
+
+export default function CalendarMonthView({ days, month, sessions, onPressDay }: CalendarMonthViewProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    mutedTextColor: isDarkMode ? '#555555' : '#C7C7CC',
+    labelColor: '#8E8E93',
+    cellBackground: isDarkMode ? '#2A2A2A' : 'white',
+    borderColor: isDarkMode ? '#333333' : '#E5E5EA',
+    todayColor: '#0A84FF',
+  };
+
+  const todayKey = formatDateKey(new Date());
+
+  const sessionsByDate = sessions.reduce((groups: Record<string, Session[]>, session) => {
+    if (!groups[session.date]) {
+      groups[session.date] = [];
+    }
+    groups[session.date].push(session);
+    return groups;
+  }, {});
+
+  const weeks = Array.from({ length: Math.ceil(days.length / 7) }, (_, index) => days.slice(index * 7, index * 7 + 7));
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.weekRow}>
+        {days.slice(0, 7).map(day => (
+          <Text key={day.getDay()} style={[styles.weekdayLabel, { color: theme.labelColor }]}>
+            {day.toLocaleDateString(undefined, { weekday: 'short' })}
+          </Text>
+        ))}
+      </View>
+
+      {weeks.map(week => (
+        <View key={formatDateKey(week[0])} style={[styles.weekRow, styles.weekCells]}>
+          {week.map(day => {
+            const dateKey = formatDateKey(day);
+            const daySessions = (sessionsByDate[dateKey] || []).sort((a, b) => a.time.localeCompare(b.time));
+            const isCurrentMonth = day.getMonth() === month;
+            const isToday = dateKey === todayKey;
+
+            return (
+              <TouchableOpacity
+                key={dateKey}
+                style={[styles.cell, { backgroundColor: theme.cellBackground, borderColor: theme.borderColor }]}
+                onPress={() => onPressDay(day)}
+              >
+                <Text
+                  style={[
+                    styles.dayNumber,
+                    { color: isToday ? theme.todayColor : isCurrentMonth ? theme.textColor : theme.mutedTextColor },
+                    isToday ? styles.todayNumber : null
+                  ]}
+                >
+                  {day.getDate()}
+                </Text>
+                {daySessions.slice(0, MAX_SESSIONS_PER_CELL).map(session => (
+                  <View
+                    key={session.id}
+                    style={[
+                      styles.sessionPill,
+                      { backgroundColor: SESSION_STATUS_COLORS[session.status] }
+                    ]}
+                  >
+                    <Text style={styles.sessionPillText} numberOfLines={1}>
+                      {session.time} {session.patientName}
+                    </Text>
+                  </View>
+                ))}
+                {daySessions.length > MAX_SESSIONS_PER_CELL && (
+                  <Text style={[styles.moreText, { color: theme.labelColor }]}>
+                    +{daySessions.length - MAX_SESSIONS_PER_CELL} more
+                  </Text>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  weekRow: {
+    flexDirection: 'row',
+  },
+  weekCells: {
+    flex: 1,
+  },
+  weekdayLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 12,
+    marginBottom: 5,
+  },
+  cell: {
+    flex: 1,
+    borderWidth: StyleSheet.hairlineWidth,
+    padding: 2,
+    minHeight: 70,
+  },
+  dayNumber: {
+    fontSize: 13,
+    marginBottom: 2,
+  },
+  todayNumber: {
+    fontWeight: 'bold',
+  },
+  sessionPill: {
+    borderRadius: 3,
+    paddingHorizontal: 2,
+    marginBottom: 2,
+  },
+  sessionPillText: {
+    color: 'white',
+    fontSize: 9,
+  },
+  moreText: {
+    fontSize: 9,
+  },
+});
@@ -0,0 +1,323 @@
+import React, { useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  StyleSheet,
+  Animated,
+  useColorScheme,
+  GestureResponderEvent,
+  LayoutChangeEvent
+} from 'react-native';
+import { Gesture, GestureDetector, ScrollView } from 'react-native-gesture-handler';
+import { Session } from '../types';
+import { formatDateKey, parseDateKey, addDays, timeToMinutes, minutesToTime } from '../utils/calendarUtils';
+import { SESSION_STATUS_COLORS, isOpenSession } from '../utils/sessionStatus';
+
+const HOUR_HEIGHT = 60;
+const START_HOUR = 7;
+const END_HOUR = 21;
+const SNAP_MINUTES = 15;
+const GUTTER_WIDTH = 48;
+const DEFAULT_DURATION = 60;
+
+interface CalendarTimeGridProps {
+  days: Date[];
+  sessions: Session[];
+  onPressSlot: (dateTime: Date) => void;
+  onPressSession: (session: Session) => void;
+  onMoveSession: (session: Session, date: string, time: string) => void;
+}
+
+interface PositionedSession {
+  session: Session;
+  top: number;
+  height: number;
+  lane: number;
+  laneCount: number;
+}
+
+const minutesToOffset = (minutes: number): number => {
+  return ((minutes - START_HOUR * 60) / 60) * HOUR_HEIGHT;
+};
+
+// Places overlapping sessions side by side, each cluster of overlaps sharing the column width
+const layoutDaySessions = (sessions: Session[]): PositionedSession[] => {
+  const sorted = [...sessions].sort((a, b) => timeToMinutes(a.time) - timeToMinutes(b.time));
+  const positioned: PositionedSession[] = [];
+  let cluster: PositionedSession[] = [];
+  let laneEnds: number[] = [];
+  let clusterEnd = -1;
+
+  const closeCluster = () => {
+    cluster.forEach(item => { item.laneCount = laneEnds.length; });
+    cluster = [];
+    laneEnds = [];
+  };
+
+  sorted.forEach(session => {
+    const start = timeToMinutes(session.time);
+    const end = start + (session.duration || DEFAULT_DURATION);
+
+    if (start >= clusterEnd) {
+      closeCluster();
+    }
+
+    let lane = laneEnds.findIndex(laneEnd => laneEnd <= start);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(end);
+    } else {
+      laneEnds[lane] = end;
+    }
+    clusterEnd = Math.max(clusterEnd, end);
+
+    const item: PositionedSession = {
+      session,
+      top: Math.max(0, minutesToOffset(start)),
+      height: Math.max(20, ((end - start) / 60) * HOUR_HEIGHT - 2),
+      lane,
+      laneCount: 1,
+    };
+    cluster.push(item);
+    positioned.push(item);
+  });
+
+  closeCluster();
+  return positioned;
+};
+
+interface SessionBlockProps {
+  item: PositionedSession;
+  columnWidth: number;
+  color: string;
+  onPress: (session: Session) => void;
+  onDrop: (session: Session, dx: number, dy: number) => void;
+}
+
+function SessionBlock({ item, columnWidth, color, onPress, onDrop }: SessionBlockProps) {
+  const translate = useRef(new Animated.ValueXY()).current;
+  const [isDragging, setIsDragging] = useState(false);
+  const { session } = item;
+
+  // Long-press then drag to reschedule; sessions that already have an outcome stay where they are
+  const pan = Gesture.Pan()
+    .runOnJS(true)
+    .enabled(isOpenSession(session))
+    .activateAfterLongPress(400)
+    .onStart(() => setIsDragging(true))
+    .onUpdate(event => translate.setValue({ x: event.translationX, y: event.translationY }))
+    .onEnd(event => onDrop(session, event.translationX, event.translationY))
+    .onFinalize(() => {
+      setIsDragging(false);
+      translate.setValue({ x: 0, y: 0 });
+    });
+
+  const tap = Gesture.Tap()
+    .runOnJS(true)
+    .onEnd((_event, success) => {
+      if (success) onPress(session);
+    });
+
+  const laneWidth = (columnWidth - 4) / item.laneCount;
+
+  return (
+    <GestureDetector gesture={Gesture.Exclusive(pan, tap)}>
+      <Animated.View
+        style={[
+          styles.sessionBlock,
+          {
+            top: item.top,
+            height: item.height,
+            left: 2 + item.lane * laneWidth,
+            width: laneWidth - 2,
+            backgroundColor: color,
+            opacity: isDragging ? 0.8 : 1,
+            zIndex: isDragging ? 10 : 1,
+            transform: translate.getTranslateTransform(),
+          }
+        ]}
+      >
+        <Text style={styles.sessionTime} numberOfLines={1}>{session.time}</Text>
+        <Text style={styles.sessionName} numberOfLines={2}>{session.patientName}</Text>
+      </Animated.View>
+    </GestureDetector>
+  );
+}
+
+export default function CalendarTimeGrid({ days, sessions, onPressSlot, onPressSession, onMoveSession }: CalendarTimeGridProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const [gridWidth, setGridWidth] = useState(0);
+
+  const theme = {
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    labelColor: '#8E8E93',
+    gridLineColor: isDarkMode ? '#333333' : '#E5E5EA',
+    columnBackground: isDarkMode ? '#2A2A2A' : 'white',
+    todayColor: '#0A84FF',
+  };
+
+  const hours = Array.from({ length: END_HOUR - START_HOUR }, (_, index) => START_HOUR + index);
+  const columnWidth = days.length > 0 ? (gridWidth - GUTTER_WIDTH) / days.length : 0;
+  const todayKey = formatDateKey(new Date());
+
+  const sessionsByDate = sessions.reduce((groups: Record<string, Session[]>, session) => {
+    if (!groups[session.date]) {
+      groups[session.date] = [];
+    }
+    groups[session.date].push(session);
+    return groups;
+  }, {});
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setGridWidth(event.nativeEvent.layout.width);
+  };
+
+  // Tapping an empty area opens a new session at that time, snapped to the nearest quarter hour
+  const handlePressColumn = (day: Date, event: GestureResponderEvent) => {
+    const minutes = START_HOUR * 60 + (event.nativeEvent.locationY / HOUR_HEIGHT) * 60;
+    const snapped = Math.floor(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+    const dateTime = new Date(day);
+    dateTime.setHours(Math.floor(snapped / 60), snapped % 60, 0, 0);
+    onPressSlot(dateTime);
+  };
+
+  const handleDrop = (session: Session, dx: number, dy: number) => {
+    const dayShift = columnWidth > 0 ? Math.round(dx / columnWidth) : 0;
+    const minuteShift = Math.round(((dy / HOUR_HEIGHT) * 60) / SNAP_MINUTES) * SNAP_MINUTES;
+    if (dayShift === 0 && minuteShift === 0) return;
+
+    const duration = session.duration || DEFAULT_DURATION;
+    const start = Math.min(Math.max(timeToMinutes(session.time) + minuteShift, 0), 24 * 60 - duration);
+    const newDate = formatDateKey(addDays(parseDateKey(session.date), dayShift));
+
+    onMoveSession(session, newDate, minutesToTime(start));
+  };
+
+  return (
+    <View style={styles.container} onLayout={handleLayout}>
+      {days.length > 1 && (
+        <View style={styles.dayHeaderRow}>
+          <View style={{ width: GUTTER_WIDTH }} />
+          {days.map(day => {
+            const isToday = formatDateKey(day) === todayKey;
+            return (
+              <View key={formatDateKey(day)} style={[styles.dayHeader, { width: columnWidth }]}>
+                <Text style={[styles.dayHeaderWeekday, { color: theme.labelColor }]}>
+                  {day.toLocaleDateString(undefined, { weekday: 'short' })}
+                </Text>
+                <Text style={[styles.dayHeaderDate, { color: isToday ? theme.todayColor : theme.textColor }]}>
+                  {day.getDate()}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+      )}
+
+      <ScrollView
+        contentContainerStyle={{ height: hours.length * HOUR_HEIGHT + 10 }}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.gridRow}>
+          <View style={{ width: GUTTER_WIDTH }}>
+            {hours.map(hour => (
+              <Text key={hour} style={[styles.hourLabel, { color: theme.labelColor, top: (hour - START_HOUR) * HOUR_HEIGHT }]}>
+                {minutesToTime(hour * 60)}
+              </Text>
+            ))}
+          </View>
+
+          {gridWidth > 0 && days.map(day => {
+            const dateKey = formatDateKey(day);
+            const positioned = layoutDaySessions(sessionsByDate[dateKey] || []);
+
+            return (
+              <View
+                key={dateKey}
+                style={[
+                  styles.dayColumn,
+                  { width: columnWidth, height: hours.length * HOUR_HEIGHT, borderLeftColor: theme.gridLineColor }
+                ]}
+              >
+                <Pressable style={StyleSheet.absoluteFill} onPress={(event) => handlePressColumn(day, event)}>
+                  {hours.map(hour => (
+                    <View
+                      key={hour}
+                      style={[styles.hourLine, { top: (hour - START_HOUR) * HOUR_HEIGHT, borderTopColor: theme.gridLineColor }]}
+                    />
+                  ))}
+                </Pressable>
+
+                {positioned.map(item => (
+                  <SessionBlock
+                    key={item.session.id}
+                    item={item}
+                    columnWidth={columnWidth}
+                    color={SESSION_STATUS_COLORS[item.session.status]}
+                    onPress={onPressSession}
+                    onDrop={handleDrop}
+                  />
+                ))}
+              </View>
+            );
+          })}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  dayHeaderRow: {
+    flexDirection: 'row',
+    marginBottom: 5,
+  },
+  dayHeader: {
+    alignItems: 'center',
+  },
+  dayHeaderWeekday: {
+    fontSize: 12,
+  },
+  dayHeaderDate: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  gridRow: {
+    flexDirection: 'row',
+  },
+  hourLabel: {
+    position: 'absolute',
+    fontSize: 11,
+    marginTop: -6,
+  },
+  dayColumn: {
+    borderLeftWidth: 1,
+  },
+  hourLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    borderTopWidth: 1,
+  },
+  sessionBlock: {
+    position: 'absolute',
+    borderRadius: 6,
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+    overflow: 'hidden',
+  },
+  sessionTime: {
+    color: 'white',
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
+  sessionName: {
+    color: 'white',
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,154 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  useColorScheme
+} from 'react-native';
+import { ClinicalNotes } from '../types';
+import { BODY_REGION_OPTIONS, MODALITY_OPTIONS, SOAP_SECTIONS, getPainScoreColor } from '../utils/clinicalNotes';
+
+interface ClinicalNotesFormProps {
+  value: ClinicalNotes;
+  onChange: (value: ClinicalNotes) => void;
+}
+
+const PAIN_SCORES = Array.from({ length: 11 }, (_, score) => score);
+
+export default function ClinicalNotesForm({ value, onChange }: ClinicalNotesFormProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    inputBackground: isDarkMode ? '#2A2A2A' : 'white',
+    primaryColor: '#0A84FF',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+  };
+
+  const update = (changes: Partial<ClinicalNotes>) => {
+    onChange({ ...value, ...changes });
+  };
+
+  const toggleOption = <T extends string>(list: T[], option: T): T[] => {
+    return list.includes(option) ? list.filter(item => item !== option) : [...list, option];
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void, key: string | number, color = theme.primaryColor) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: selected ? color : theme.borderColor },
+        selected ? { backgroundColor: color } : null
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: selected ? 'white' : theme.textColor }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      {SOAP_SECTIONS.map(section => (
+        <View key={section.key} style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>{section.label}</Text>
+          <TextInput
+            style={[
+              styles.textArea,
+              { backgroundColor: theme.inputBackground, borderColor: theme.borderColor, color: theme.textColor }
+            ]}
+            value={value[section.key]}
+            onChangeText={text => update({ [section.key]: text })}
+            placeholder={section.placeholder}
+            placeholderTextColor={theme.placeholderColor}
+            multiline={true}
+          />
+        </View>
+      ))}
+
+      <View style={styles.formGroup}>
+        <Text style={[styles.label, { color: theme.textColor }]}>
+          Pain Score (VAS){value.painScore !== null ? `: ${value.painScore}/10` : ''}
+        </Text>
+        <View style={styles.chipRow}>
+          {PAIN_SCORES.map(score =>
+            renderChip(
+              String(score),
+              value.painScore === score,
+              // Tapping the selected score again clears it
+              () => update({ painScore: value.painScore === score ? null : score }),
+              score,
+              getPainScoreColor(score)
+            )
+          )}
+        </View>
+      </View>
+
+      <View style={styles.formGroup}>
+        <Text style={[styles.label, { color: theme.textColor }]}>Body Regions Treated</Text>
+        <View style={styles.chipRow}>
+          {BODY_REGION_OPTIONS.map(option =>
+            renderChip(
+              option.label,
+              value.bodyRegions.includes(option.value),
+              () => update({ bodyRegions: toggleOption(value.bodyRegions, option.value) }),
+              option.value
+            )
+          )}
+        </View>
+      </View>
+
+      <View style={styles.formGroup}>
+        <Text style={[styles.label, { color: theme.textColor }]}>Modalities Used</Text>
+        <View style={styles.chipRow}>
+          {MODALITY_OPTIONS.map(option =>
+            renderChip(
+              option.label,
+              value.modalities.includes(option.value),
+              () => update({ modalities: toggleOption(value.modalities, option.value) }),
+              option.value
+            )
+          )}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  formGroup: {
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 5,
+    fontWeight: '500',
+  },
+  textArea: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+});
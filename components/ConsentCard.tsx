@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, useColorScheme, Platform } from 'react-native';
+import { SvgXml } from 'react-native-svg';
+import { Consent } from '../types';
+import { getConsentStatusText, isConsentValid } from '../utils/consents';
+
+interface ConsentCardProps {
+  consent: Consent;
+  onWithdraw: (consent: Consent) => void;
+}
+
+const SIGNATURE_HEIGHT = 60;
+
+// A signed consent with its signature, and the full text it was signed against on request
+export default function ConsentCard({ consent, onWithdraw }: ConsentCardProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const [showText, setShowText] = useState(false);
+
+  const theme = {
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    labelColor: '#8E8E93',
+    primaryColor: '#0A84FF',
+    successColor: '#34C759',
+    errorColor: '#FF3B30',
+  };
+
+  const isValid = isConsentValid(consent);
+
+  return (
+    <View
+      style={[
+        styles.card,
+        { backgroundColor: theme.cardBackground, borderLeftColor: isValid ? theme.successColor : theme.labelColor }
+      ]}
+    >
+      <Text style={[styles.title, { color: theme.textColor }]}>{consent.title}</Text>
+      <Text style={[styles.subtitle, { color: theme.labelColor }]}>
+        Signed by {consent.signerName} on {new Date(consent.signedAt).toLocaleString()}
+      </Text>
+      <Text style={[styles.statusText, { color: isValid ? theme.successColor : theme.errorColor }]}>
+        {getConsentStatusText(consent)}
+      </Text>
+
+      {/* The signature is drawn in black, so it keeps a white background in dark mode */}
+      <View style={styles.signature}>
+        <SvgXml xml={consent.signature} width="100%" height={SIGNATURE_HEIGHT} />
+      </View>
+
+      {showText && (
+        <Text style={[styles.consentText, { color: theme.textColor }]}>{consent.text}</Text>
+      )}
+
+      <View style={styles.actionsRow}>
+        <TouchableOpacity style={styles.actionButton} onPress={() => setShowText(!showText)}>
+          <Text style={[styles.actionText, { color: theme.primaryColor }]}>{showText ? 'Hide text' : 'Show text'}</Text>
+        </TouchableOpacity>
+        {!consent.withdrawnAt && (
+          <TouchableOpacity style={styles.actionButton} onPress={() => onWithdraw(consent)}>
+            <Text style={[styles.actionText, { color: theme.errorColor }]}>Withdraw</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 10,
+    borderLeftWidth: 5,
+    padding: 12,
+    marginHorizontal: 5,
+    marginBottom: 12,
+    ...Platform.select({
+      web: {
+        boxShadow: '0px 1px 1.41px rgba(0, 0, 0, 0.2)',
+      },
+      default: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.2,
+        shadowRadius: 1.41,
+        elevation: 2,
+      },
+    }),
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+  subtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  statusText: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginTop: 2,
+    marginBottom: 8,
+  },
+  signature: {
+    backgroundColor: 'white',
+    borderRadius: 6,
+    padding: 4,
+  },
+  consentText: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginTop: 8,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  actionButton: {
+    paddingVertical: 5,
+  },
+  actionText: {
+    fontSize: 15,
+  },
+});
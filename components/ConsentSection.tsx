@@ -0,0 +1,125 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert, useColorScheme } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { useRouter } from 'expo-router';
+import { PenLine, AlertTriangle } from 'lucide-react-native';
+import { Consent } from '../types';
+import { getConsents, withdrawConsent } from '../utils/mongoStorage';
+import { getValidConsent } from '../utils/consents';
+import ConsentCard from './ConsentCard';
+
+interface ConsentSectionProps {
+  patientId: string;
+}
+
+export default function ConsentSection({ patientId }: ConsentSectionProps) {
+  const [consents, setConsents] = useState<Consent[]>([]);
+
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    primaryColor: '#0A84FF',
+    warningColor: '#FF9500',
+  };
+
+  const loadConsents = async () => {
+    if (!patientId) return;
+    setConsents(await getConsents(patientId));
+  };
+
+  // Reload on focus so a consent signed on the signing screen shows straight away
+  useFocusEffect(
+    useCallback(() => {
+      loadConsents();
+    }, [patientId])
+  );
+
+  const handleWithdrawConsent = (consent: Consent) => {
+    Alert.alert(
+      'Withdraw Consent',
+      `Record that the patient has withdrawn "${consent.title}"? The signed copy is kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Withdraw',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await withdrawConsent(consent.id);
+              loadConsents();
+            } catch (error) {
+              console.error('Error withdrawing consent:', error);
+              Alert.alert('Error', 'Failed to withdraw the consent');
+            }
+          }
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: theme.textColor }]}>Consent</Text>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => router.push({
+            pathname: '/consent-sign',
+            params: { patientId }
+          })}
+        >
+          <PenLine size={16} color={theme.primaryColor} />
+          <Text style={[styles.actionText, { color: theme.primaryColor }]}>Sign</Text>
+        </TouchableOpacity>
+      </View>
+      {!getValidConsent(consents) && (
+        <View style={styles.warning}>
+          <AlertTriangle size={16} color={theme.warningColor} />
+          <Text style={[styles.warningText, { color: theme.warningColor }]}>No valid consent on file</Text>
+        </View>
+      )}
+      {consents.map(consent => (
+        <ConsentCard key={consent.id} consent={consent} onWithdraw={handleWithdrawConsent} />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginHorizontal: 5,
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  actionText: {
+    fontSize: 15,
+    marginLeft: 4,
+  },
+  warning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 5,
+    marginBottom: 10,
+  },
+  warningText: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginLeft: 6,
+  },
+});
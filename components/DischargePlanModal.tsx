@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  useColorScheme,
+  Platform
+} from 'react-native';
+import { TreatmentPlan, DischargeStatus } from '../types';
+import { DISCHARGE_STATUS_OPTIONS, getGoalCounts } from '../utils/treatmentPlans';
+
+interface DischargePlanModalProps {
+  visible: boolean;
+  plan: TreatmentPlan;
+  onSelect: (status: DischargeStatus, notes: string) => void;
+  onCancel: () => void;
+}
+
+export default function DischargePlanModal({ visible, plan, onSelect, onCancel }: DischargePlanModalProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const [notes, setNotes] = useState('');
+
+  const theme = {
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    subtitleColor: '#8E8E93',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    cancelButtonBg: isDarkMode ? '#444444' : '#E5E5EA',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+  };
+
+  useEffect(() => {
+    if (visible) {
+      setNotes('');
+    }
+  }, [visible]);
+
+  const goalCounts = getGoalCounts(plan);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+        <View style={[styles.modalContent, { backgroundColor: theme.cardBackground }]}>
+          <Text style={[styles.title, { color: theme.textColor }]}>Close Treatment Plan</Text>
+          <Text style={[styles.subtitle, { color: theme.subtitleColor }]}>
+            {plan.completedSessions} of {plan.plannedSessions} sessions completed
+            {plan.goals.length > 0 ? `, ${goalCounts.met} of ${plan.goals.length} goals met` : ''}.
+            {goalCounts.pending > 0 ? ' Goals still in progress will be marked as not met.' : ''}
+          </Text>
+
+          <TextInput
+            style={[styles.notesInput, { color: theme.textColor, borderColor: theme.borderColor }]}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="Discharge notes (optional)"
+            placeholderTextColor={theme.placeholderColor}
+            multiline={true}
+          />
+
+          <ScrollView style={styles.optionList}>
+            {DISCHARGE_STATUS_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.option, { borderColor: theme.borderColor }]}
+                onPress={() => onSelect(option.value, notes.trim())}
+              >
+                <Text style={[styles.optionText, { color: theme.textColor }]}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.cancelButton, { backgroundColor: theme.cancelButtonBg }]}
+            onPress={onCancel}
+          >
+            <Text style={[styles.cancelButtonText, { color: theme.textColor }]}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '90%',
+    borderRadius: 12,
+    padding: 20,
+    ...Platform.select({
+      web: {
+        boxShadow: '0px 2px 3.84px rgba(0, 0, 0, 0.25)',
+      },
+      default: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.25,
+        shadowRadius: 3.84,
+        elevation: 5,
+      },
+    }),
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  notesInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 15,
+    minHeight: 60,
+    textAlignVertical: 'top',
+    marginBottom: 12,
+  },
+  optionList: {
+    flexGrow: 0,
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 14,
+    marginBottom: 10,
+  },
+  optionText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    borderRadius: 8,
+    padding: 14,
+    marginTop: 5,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
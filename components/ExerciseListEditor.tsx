@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  useColorScheme
+} from 'react-native';
+import { Plus, X } from 'lucide-react-native';
+import { Exercise, PrescribedExercise } from '../types';
+import { toPrescription, parseDosageInput } from '../utils/exercises';
+import ExercisePicker from './ExercisePicker';
+
+interface ExerciseListEditorProps {
+  value: PrescribedExercise[];
+  onChange: (exercises: PrescribedExercise[]) => void;
+}
+
+const DOSAGE_FIELDS: { key: 'sets' | 'reps' | 'holdSeconds'; label: string }[] = [
+  { key: 'sets', label: 'Sets' },
+  { key: 'reps', label: 'Reps' },
+  { key: 'holdSeconds', label: 'Hold (s)' },
+];
+
+// Edits a list of prescribed exercises; dosage and notes can be tailored per patient
+export default function ExerciseListEditor({ value, onChange }: ExerciseListEditorProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const [pickerVisible, setPickerVisible] = useState(false);
+
+  const theme = {
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    primaryColor: '#0A84FF',
+    errorColor: '#FF453A',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    subtitleColor: '#8E8E93',
+  };
+
+  const updateItem = (index: number, changes: Partial<PrescribedExercise>) => {
+    onChange(value.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleSelect = (exercise: Exercise) => {
+    onChange([...value, toPrescription(exercise)]);
+    setPickerVisible(false);
+  };
+
+  return (
+    <View>
+      {value.length === 0 && (
+        <Text style={[styles.emptyText, { color: theme.placeholderColor }]}>No exercises prescribed</Text>
+      )}
+
+      {value.map((item, index) => (
+        <View key={`${item.exerciseId || item.name}-${index}`} style={[styles.item, { borderColor: theme.borderColor }]}>
+          <View style={styles.itemHeader}>
+            <Text style={[styles.itemName, { color: theme.textColor }]}>{item.name}</Text>
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => onChange(value.filter((_, i) => i !== index))}
+            >
+              <X size={18} color={theme.errorColor} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.dosageRow}>
+            {DOSAGE_FIELDS.map(field => (
+              <View key={field.key} style={styles.dosageField}>
+                <Text style={[styles.fieldLabel, { color: theme.subtitleColor }]}>{field.label}</Text>
+                <TextInput
+                  style={[styles.input, { color: theme.textColor, borderColor: theme.borderColor }]}
+                  value={item[field.key]?.toString() || ''}
+                  onChangeText={text => updateItem(index, { [field.key]: parseDosageInput(text) })}
+                  placeholder="-"
+                  placeholderTextColor={theme.placeholderColor}
+                  keyboardType="number-pad"
+                />
+              </View>
+            ))}
+          </View>
+
+          <TextInput
+            style={[styles.input, { color: theme.textColor, borderColor: theme.borderColor }]}
+            value={item.frequency}
+            onChangeText={frequency => updateItem(index, { frequency })}
+            placeholder="Frequency, e.g. Twice daily"
+            placeholderTextColor={theme.placeholderColor}
+          />
+          <TextInput
+            style={[styles.input, { color: theme.textColor, borderColor: theme.borderColor }]}
+            value={item.notes}
+            onChangeText={notes => updateItem(index, { notes })}
+            placeholder="Notes for the patient (optional)"
+            placeholderTextColor={theme.placeholderColor}
+            multiline={true}
+          />
+        </View>
+      ))}
+
+      <TouchableOpacity style={styles.addButton} onPress={() => setPickerVisible(true)}>
+        <Plus size={18} color={theme.primaryColor} />
+        <Text style={[styles.addButtonText, { color: theme.primaryColor }]}>Add from library</Text>
+      </TouchableOpacity>
+
+      <ExercisePicker
+        visible={pickerVisible}
+        onSelect={handleSelect}
+        onCancel={() => setPickerVisible(false)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  emptyText: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  item: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 10,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  itemName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  removeButton: {
+    padding: 4,
+  },
+  dosageRow: {
+    flexDirection: 'row',
+    marginHorizontal: -4,
+  },
+  dosageField: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    marginBottom: 3,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 15,
+    marginBottom: 8,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 5,
+  },
+  addButtonText: {
+    fontSize: 16,
+    marginLeft: 4,
+  },
+});
@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  useColorScheme,
+  Platform
+} from 'react-native';
+import { Exercise } from '../types';
+import { getExercises } from '../utils/mongoStorage';
+import { formatPrescription } from '../utils/exercises';
+
+interface ExercisePickerProps {
+  visible: boolean;
+  onSelect: (exercise: Exercise) => void;
+  onCancel: () => void;
+}
+
+export default function ExercisePicker({ visible, onSelect, onCancel }: ExercisePickerProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const [exercises, setExercises] = useState<Exercise[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const theme = {
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    primaryColor: '#0A84FF',
+    subtitleColor: '#8E8E93',
+    cancelButtonBg: isDarkMode ? '#444444' : '#E5E5EA',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+  };
+
+  useEffect(() => {
+    const loadExercises = async () => {
+      setLoading(true);
+      setExercises(await getExercises());
+      setLoading(false);
+    };
+
+    if (visible) {
+      loadExercises();
+    }
+  }, [visible]);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+        <View style={[styles.modalContent, { backgroundColor: theme.cardBackground }]}>
+          <Text style={[styles.title, { color: theme.textColor }]}>Add Exercise</Text>
+
+          {loading ? (
+            <ActivityIndicator size="large" color={theme.primaryColor} style={styles.loader} />
+          ) : exercises.length === 0 ? (
+            <Text style={[styles.emptyText, { color: theme.subtitleColor }]}>
+              No exercises yet. Create them from Exercise Library in the profile menu.
+            </Text>
+          ) : (
+            <ScrollView style={styles.optionList}>
+              {exercises.map(exercise => (
+                <TouchableOpacity
+                  key={exercise.id}
+                  style={[styles.option, { borderColor: theme.borderColor }]}
+                  onPress={() => onSelect(exercise)}
+                >
+                  <Text style={[styles.optionText, { color: theme.textColor }]}>{exercise.name}</Text>
+                  {formatPrescription(exercise) ? (
+                    <Text style={[styles.previewText, { color: theme.subtitleColor }]} numberOfLines={2}>
+                      {formatPrescription(exercise)}
+                    </Text>
+                  ) : null}
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+
+          <TouchableOpacity
+            style={[styles.cancelButton, { backgroundColor: theme.cancelButtonBg }]}
+            onPress={onCancel}
+          >
+            <Text style={[styles.cancelButtonText, { color: theme.textColor }]}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '80%',
+    borderRadius: 12,
+    padding: 20,
+    ...Platform.select({
+      web: {
+        boxShadow: '0px 2px 3.84px rgba(0, 0, 0, 0.25)',
+      },
+      default: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.25,
+        shadowRadius: 3.84,
+        elevation: 5,
+      },
+    }),
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginVertical: 20,
+  },
+  optionList: {
+    flexGrow: 0,
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 14,
+    marginBottom: 10,
+  },
+  optionText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  previewText: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  cancelButton: {
+    borderRadius: 8,
+    padding: 14,
+    marginTop: 5,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,101 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, useColorScheme, Platform } from 'react-native';
+import { Invoice } from '../types';
+import { parseDateKey } from '../utils/calendarUtils';
+import { getInvoiceStatusOption } from '../utils/invoices';
+import { formatMoney } from '../utils/currency';
+
+interface InvoiceCardProps {
+  invoice: Invoice;
+  onPress: (invoice: Invoice) => void;
+}
+
+// Number, dates, total and payment status of one invoice
+export default function InvoiceCard({ invoice, onPress }: InvoiceCardProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    labelColor: '#8E8E93',
+  };
+
+  const status = getInvoiceStatusOption(invoice.status);
+  const itemCount = `${invoice.items.length} item${invoice.items.length === 1 ? '' : 's'}`;
+
+  return (
+    <TouchableOpacity
+      style={[styles.card, { backgroundColor: theme.cardBackground, borderLeftColor: status.color }]}
+      onPress={() => onPress(invoice)}
+    >
+      <View style={styles.headerRow}>
+        <Text style={[styles.number, { color: theme.textColor }]}>{invoice.number}</Text>
+        <Text
+          style={[
+            styles.total,
+            { color: theme.textColor },
+            invoice.status === 'void' ? styles.voidTotal : null
+          ]}
+        >
+          {formatMoney(invoice.total, invoice.currency)}
+        </Text>
+      </View>
+      <View style={styles.headerRow}>
+        <Text style={[styles.subtitle, { color: theme.labelColor }]}>
+          {parseDateKey(invoice.issueDate).toLocaleDateString()} · {itemCount}
+          {invoice.dueDate && invoice.status === 'issued' ? ` · Due ${parseDateKey(invoice.dueDate).toLocaleDateString()}` : ''}
+        </Text>
+        <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 10,
+    borderLeftWidth: 5,
+    padding: 12,
+    marginHorizontal: 5,
+    marginBottom: 10,
+    ...Platform.select({
+      web: {
+        boxShadow: '0px 1px 1.41px rgba(0, 0, 0, 0.2)',
+      },
+      default: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.2,
+        shadowRadius: 1.41,
+        elevation: 2,
+      },
+    }),
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  number: {
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+  total: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  voidTotal: {
+    textDecorationLine: 'line-through',
+  },
+  subtitle: {
+    fontSize: 13,
+    marginTop: 2,
+    flex: 1,
+  },
+  statusText: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,501 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  useColorScheme,
+  ScrollView,
+  useWindowDimensions
+} from 'react-native';
+import { Plus, Trash2 } from 'lucide-react-native';
+import { saveInvoice, updateInvoice } from '../utils/mongoStorage';
+import { Invoice, InvoiceItem, InvoiceItemType, Session } from '../types';
+import { formatDateKey, parseDateKey } from '../utils/calendarUtils';
+import {
+  INVOICE_ITEM_TYPE_OPTIONS,
+  TAX_RATE_OPTIONS,
+  EMPTY_INVOICE_ITEM,
+  buildSessionItem,
+  calculateInvoiceTotals,
+  getTaxBreakdown,
+  isInvoiceable
+} from '../utils/invoices';
+import { formatMoney, getCurrency } from '../utils/currency';
+
+interface InvoiceFormProps {
+  patientId: string;
+  sessions: Session[]; // All of the patient's sessions
+  existingInvoice?: Invoice;
+  onSave: (invoice: Invoice) => void;
+  onCancel: () => void;
+}
+
+// Numbers are edited as text so a half-typed "12." isn't lost
+interface ItemDraft {
+  type: InvoiceItemType;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  taxRate: string;
+  sessionId: string | null;
+}
+
+const DUE_OPTIONS: { days: number | null; label: string }[] = [
+  { days: null, label: 'On receipt' },
+  { days: 7, label: '7 days' },
+  { days: 14, label: '14 days' },
+  { days: 30, label: '30 days' },
+];
+
+const toDraft = (item: InvoiceItem): ItemDraft => ({
+  ...item,
+  quantity: item.quantity.toString(),
+  unitPrice: item.unitPrice ? item.unitPrice.toString() : '',
+  taxRate: item.taxRate.toString(),
+});
+
+const toItem = (draft: ItemDraft): InvoiceItem => ({
+  ...draft,
+  description: draft.description.trim(),
+  quantity: Number(draft.quantity) || 0,
+  unitPrice: Number(draft.unitPrice) || 0,
+  taxRate: Number(draft.taxRate) || 0,
+});
+
+const getDueDays = (issueDate: string, dueDate: string | null): number | null => {
+  if (!dueDate) return null;
+  return Math.round((parseDateKey(dueDate).getTime() - parseDateKey(issueDate).getTime()) / (24 * 60 * 60 * 1000));
+};
+
+// Bills completed sessions and any consumables or packages, with a discount and per-line tax
+export default function InvoiceForm({ patientId, sessions, existingInvoice, onSave, onCancel }: InvoiceFormProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const { height: windowHeight } = useWindowDimensions();
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#1E1E1E' : '#F2F2F7',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    inputBackground: isDarkMode ? '#333333' : 'white',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    saveButtonBackground: '#0A84FF',
+    cancelButtonBackground: isDarkMode ? '#444444' : '#E5E5EA',
+    primaryColor: '#0A84FF',
+    errorColor: '#FF453A',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    subtitleColor: '#8E8E93',
+  };
+
+  const issueDate = existingInvoice?.issueDate || formatDateKey(new Date());
+  // An edited invoice stays in the currency it was issued in
+  const currency = existingInvoice?.currency || getCurrency();
+  const [items, setItems] = useState<ItemDraft[]>((existingInvoice?.items || []).map(toDraft));
+  const [discountPercent, setDiscountPercent] = useState(existingInvoice?.discountPercent ? existingInvoice.discountPercent.toString() : '');
+  const [dueDays, setDueDays] = useState<number | null>(existingInvoice ? getDueDays(issueDate, existingInvoice.dueDate) : null);
+  const [notes, setNotes] = useState(existingInvoice?.notes || '');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Sessions not billed yet, plus the ones already on this invoice
+  const billableSessions = sessions
+    .filter(session => isInvoiceable(session) || (existingInvoice && session.invoiceId === existingInvoice.id))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time));
+
+  const parsedItems = items.map(toItem);
+  const discount = Number(discountPercent) || 0;
+  const totals = calculateInvoiceTotals(parsedItems, discount);
+  const taxBreakdown = getTaxBreakdown(parsedItems, discount);
+
+  const toggleSession = (session: Session) => {
+    if (items.some(item => item.sessionId === session.id)) {
+      setItems(items.filter(item => item.sessionId !== session.id));
+    } else {
+      setItems([...items, toDraft(buildSessionItem(session))]);
+    }
+  };
+
+  const updateItem = (index: number, changes: Partial<ItemDraft>) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleSubmit = async () => {
+    if (items.length === 0) {
+      Alert.alert('No Items', 'Add a session or another item to bill');
+      return;
+    }
+    if (parsedItems.some(item => !item.description)) {
+      Alert.alert('Missing Description', 'Each line item needs a description');
+      return;
+    }
+    if (parsedItems.some(item => item.quantity <= 0)) {
+      Alert.alert('Invalid Quantity', 'Quantities must be greater than zero');
+      return;
+    }
+    if (discount < 0 || discount > 100) {
+      Alert.alert('Invalid Discount', 'Discount must be between 0 and 100%');
+      return;
+    }
+
+    let dueDate: string | null = null;
+    if (dueDays !== null) {
+      const due = parseDateKey(issueDate);
+      due.setDate(due.getDate() + dueDays);
+      dueDate = formatDateKey(due);
+    }
+
+    const invoiceData = { issueDate, dueDate, items: parsedItems, discountPercent: discount, notes: notes.trim() };
+
+    try {
+      setIsSubmitting(true);
+      if (existingInvoice) {
+        onSave(await updateInvoice({ ...existingInvoice, ...invoiceData }));
+      } else {
+        onSave(await saveInvoice({ patientId, ...invoiceData }));
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save the invoice');
+      console.error('Error saving invoice:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: isSelected ? theme.primaryColor : theme.borderColor },
+        isSelected ? { backgroundColor: theme.primaryColor } : null
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: isSelected ? 'white' : theme.textColor }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const inputStyle = [styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.borderColor, color: theme.textColor }];
+
+  const renderTotalRow = (label: string, value: string, isTotal = false) => (
+    <View key={label} style={styles.totalRow}>
+      <Text style={[isTotal ? styles.grandTotalText : styles.totalText, { color: isTotal ? theme.textColor : theme.subtitleColor }]}>
+        {label}
+      </Text>
+      <Text style={[isTotal ? styles.grandTotalText : styles.totalText, { color: theme.textColor }]}>{value}</Text>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundColor, maxHeight: windowHeight * 0.9 }]}>
+      <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <Text style={[styles.title, { color: theme.textColor }]}>
+          {existingInvoice ? `Edit ${existingInvoice.number}` : 'New Invoice'}
+        </Text>
+        <Text style={[styles.hintText, { color: theme.subtitleColor }]}>
+          Issued {parseDateKey(issueDate).toLocaleDateString()}
+          {existingInvoice ? '' : '. The invoice number is assigned when it is saved.'}
+        </Text>
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Sessions</Text>
+          {billableSessions.length === 0 ? (
+            <Text style={[styles.hintText, { color: theme.subtitleColor }]}>No completed sessions waiting to be billed</Text>
+          ) : (
+            <View style={styles.chipRow}>
+              {billableSessions.map(session => renderChip(
+                session.id,
+                parseDateKey(session.date).toLocaleDateString(),
+                items.some(item => item.sessionId === session.id),
+                () => toggleSession(session)
+              ))}
+            </View>
+          )}
+        </View>
+
+        <View style={styles.formGroup}>
+          <View style={styles.sectionHeader}>
+            <Text style={[styles.label, { color: theme.textColor }]}>Items</Text>
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => setItems([...items, toDraft({ ...EMPTY_INVOICE_ITEM, type: 'consumable' })])}
+            >
+              <Plus size={16} color={theme.primaryColor} />
+              <Text style={[styles.addButtonText, { color: theme.primaryColor }]}>Add item</Text>
+            </TouchableOpacity>
+          </View>
+
+          {items.map((item, index) => (
+            <View key={item.sessionId || `item-${index}`} style={[styles.itemCard, { backgroundColor: theme.cardBackground, borderColor: theme.borderColor }]}>
+              <View style={styles.itemHeader}>
+                <View style={[styles.chipRow, styles.itemTypes]}>
+                  {item.sessionId
+                    ? renderChip('session', 'Session', true, () => undefined)
+                    : INVOICE_ITEM_TYPE_OPTIONS.filter(option => option.value !== 'session').map(option => renderChip(
+                      option.value,
+                      option.label,
+                      item.type === option.value,
+                      () => updateItem(index, { type: option.value })
+                    ))}
+                </View>
+                <TouchableOpacity style={styles.iconButton} onPress={() => setItems(items.filter((_, i) => i !== index))}>
+                  <Trash2 size={18} color={theme.errorColor} />
+                </TouchableOpacity>
+              </View>
+
+              <TextInput
+                style={[inputStyle, styles.itemInput]}
+                value={item.description}
+                onChangeText={description => updateItem(index, { description })}
+                placeholder="Description"
+                placeholderTextColor={theme.placeholderColor}
+              />
+
+              <View style={styles.numberRow}>
+                <View style={styles.numberField}>
+                  <Text style={[styles.fieldLabel, { color: theme.subtitleColor }]}>Qty</Text>
+                  <TextInput
+                    style={inputStyle}
+                    value={item.quantity}
+                    onChangeText={quantity => updateItem(index, { quantity })}
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+                <View style={[styles.numberField, styles.priceField]}>
+                  <Text style={[styles.fieldLabel, { color: theme.subtitleColor }]}>Unit price</Text>
+                  <TextInput
+                    style={inputStyle}
+                    value={item.unitPrice}
+                    onChangeText={unitPrice => updateItem(index, { unitPrice })}
+                    placeholder="0.00"
+                    placeholderTextColor={theme.placeholderColor}
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+                <View style={styles.numberField}>
+                  <Text style={[styles.fieldLabel, { color: theme.subtitleColor }]}>Tax %</Text>
+                  <TextInput
+                    style={inputStyle}
+                    value={item.taxRate}
+                    onChangeText={taxRate => updateItem(index, { taxRate })}
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+              </View>
+
+              <View style={styles.chipRow}>
+                {TAX_RATE_OPTIONS.map(rate => renderChip(
+                  rate.toString(),
+                  `${rate}%`,
+                  Number(item.taxRate) === rate,
+                  () => updateItem(index, { taxRate: rate.toString() })
+                ))}
+              </View>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Discount (%)</Text>
+          <TextInput
+            style={inputStyle}
+            value={discountPercent}
+            onChangeText={setDiscountPercent}
+            placeholder="0"
+            placeholderTextColor={theme.placeholderColor}
+            keyboardType="decimal-pad"
+          />
+        </View>
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Payment Due</Text>
+          <View style={styles.chipRow}>
+            {DUE_OPTIONS.map(option => renderChip(
+              option.label,
+              option.label,
+              dueDays === option.days,
+              () => setDueDays(option.days)
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Notes</Text>
+          <TextInput
+            style={[inputStyle, styles.textArea]}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="e.g. Bank details or payment terms"
+            placeholderTextColor={theme.placeholderColor}
+            multiline={true}
+          />
+        </View>
+
+        <View style={[styles.totalsCard, { backgroundColor: theme.cardBackground }]}>
+          {renderTotalRow('Subtotal', formatMoney(totals.subtotal, currency))}
+          {totals.discountTotal > 0 && renderTotalRow(`Discount (${discount}%)`, `-${formatMoney(totals.discountTotal, currency)}`)}
+          {taxBreakdown.map(entry => renderTotalRow(`Tax ${entry.rate}% on ${formatMoney(entry.taxable, currency)}`, formatMoney(entry.tax, currency)))}
+          {renderTotalRow('Total', formatMoney(totals.total, currency), true)}
+        </View>
+
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.cancelButtonBackground }, isSubmitting ? styles.disabledButton : null]}
+            onPress={onCancel}
+            disabled={isSubmitting}
+          >
+            <Text style={[styles.buttonText, { color: theme.textColor }]}>Cancel</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.saveButtonBackground }, isSubmitting ? styles.disabledButton : null]}
+            onPress={handleSubmit}
+            disabled={isSubmitting}
+          >
+            <Text style={[styles.buttonText, { color: 'white' }]}>
+              {isSubmitting ? 'Saving...' : existingInvoice ? 'Update' : 'Issue Invoice'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 10,
+    padding: 20,
+    width: '100%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 4,
+    textAlign: 'center',
+  },
+  hintText: {
+    fontSize: 13,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  formGroup: {
+    marginBottom: 15,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 5,
+    fontWeight: '500',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 5,
+  },
+  addButtonText: {
+    fontSize: 15,
+    marginLeft: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  itemCard: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 10,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  itemTypes: {
+    flex: 1,
+  },
+  iconButton: {
+    padding: 5,
+  },
+  itemInput: {
+    marginBottom: 8,
+  },
+  numberRow: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  numberField: {
+    flex: 1,
+    marginRight: 8,
+  },
+  priceField: {
+    flex: 2,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    marginBottom: 3,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+  },
+  textArea: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  totalsCard: {
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 15,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  totalText: {
+    fontSize: 14,
+  },
+  grandTotalText: {
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 10,
+  },
+  button: {
+    borderRadius: 8,
+    padding: 15,
+    flex: 1,
+    marginHorizontal: 5,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, Alert, useColorScheme } from 'react-native';
+import { Plus } from 'lucide-react-native';
+import { Invoice, InvoiceStatus, Session } from '../types';
+import { updateInvoiceStatus } from '../utils/mongoStorage';
+import { shareInvoice } from '../utils/exportUtils';
+import InvoiceCard from './InvoiceCard';
+import InvoiceForm from './InvoiceForm';
+
+interface InvoiceSectionProps {
+  patientId: string;
+  invoices: Invoice[];
+  sessions: Session[];
+  // Sessions are linked to the invoice that bills them, so the caller reloads both
+  onChange: () => void;
+}
+
+export default function InvoiceSection({ patientId, invoices, sessions, onChange }: InvoiceSectionProps) {
+  const [modalVisible, setModalVisible] = useState(false);
+  const [selectedInvoice, setSelectedInvoice] = useState<Invoice | undefined>(undefined);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    primaryColor: '#0A84FF',
+    labelColor: isDarkMode ? '#888888' : '#8E8E93',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+  };
+
+  const openInvoiceForm = (invoice?: Invoice) => {
+    setSelectedInvoice(invoice);
+    setModalVisible(true);
+  };
+
+  const handleSaveInvoice = () => {
+    setModalVisible(false);
+    setSelectedInvoice(undefined);
+    onChange();
+  };
+
+  const changeInvoiceStatus = async (invoice: Invoice, status: InvoiceStatus) => {
+    try {
+      await updateInvoiceStatus(invoice.id, status);
+      onChange();
+    } catch (error) {
+      console.error('Error updating invoice status:', error);
+      Alert.alert('Error', 'Failed to update the invoice');
+    }
+  };
+
+  const handleShareInvoice = async (invoice: Invoice) => {
+    const success = await shareInvoice(invoice);
+    if (!success) {
+      Alert.alert('Error', 'Failed to share the invoice. Please try again.');
+    }
+  };
+
+  const handleVoidInvoice = (invoice: Invoice) => {
+    Alert.alert(
+      'Void Invoice',
+      `Void ${invoice.number}? Its sessions can then be billed again. Voided invoices are kept for your records.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Void', style: 'destructive', onPress: () => changeInvoiceStatus(invoice, 'void') },
+      ]
+    );
+  };
+
+  // Only unpaid invoices can be edited; a void invoice can still be shared
+  const handleInvoicePress = (invoice: Invoice) => {
+    const actions: { text: string; style?: 'cancel' | 'destructive'; onPress?: () => void }[] = [
+      { text: 'Share', onPress: () => handleShareInvoice(invoice) },
+    ];
+
+    if (invoice.status === 'issued') {
+      actions.push(
+        { text: 'Edit', onPress: () => openInvoiceForm(invoice) },
+        { text: 'Mark Paid', onPress: () => changeInvoiceStatus(invoice, 'paid') },
+        { text: 'Void', style: 'destructive', onPress: () => handleVoidInvoice(invoice) }
+      );
+    } else if (invoice.status === 'paid') {
+      actions.push({ text: 'Mark Unpaid', onPress: () => changeInvoiceStatus(invoice, 'issued') });
+    }
+
+    actions.push({ text: 'Cancel', style: 'cancel' });
+    Alert.alert(invoice.number, undefined, actions);
+  };
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: theme.textColor }]}>Invoices</Text>
+        <TouchableOpacity style={styles.actionButton} onPress={() => openInvoiceForm()}>
+          <Plus size={16} color={theme.primaryColor} />
+          <Text style={[styles.actionText, { color: theme.primaryColor }]}>New</Text>
+        </TouchableOpacity>
+      </View>
+      {invoices.length === 0 ? (
+        <Text style={[styles.emptyText, { color: theme.labelColor }]}>No invoices issued</Text>
+      ) : (
+        invoices.map(invoice => (
+          <InvoiceCard key={invoice.id} invoice={invoice} onPress={handleInvoicePress} />
+        ))
+      )}
+
+      <Modal
+        visible={modalVisible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+          <View style={styles.modalContent}>
+            <InvoiceForm
+              patientId={patientId}
+              sessions={sessions}
+              existingInvoice={selectedInvoice}
+              onSave={handleSaveInvoice}
+              onCancel={() => setModalVisible(false)}
+            />
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginHorizontal: 5,
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  actionText: {
+    fontSize: 15,
+    marginLeft: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    marginHorizontal: 5,
+    marginBottom: 8,
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 500,
+  },
+});
@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, Alert, useColorScheme } from 'react-native';
+import { Plus } from 'lucide-react-native';
+import { PatientLedger, LedgerEntry, Session } from '../types';
+import { deletePayment } from '../utils/mongoStorage';
+import { formatBalance, getPaymentMethodLabel } from '../utils/payments';
+import { formatMoney } from '../utils/currency';
+import { parseDateKey } from '../utils/calendarUtils';
+import PaymentForm from './PaymentForm';
+
+// Ledger entries shown before "Show all"
+const LEDGER_PREVIEW_ROWS = 8;
+
+interface LedgerSectionProps {
+  patientId: string;
+  ledger: PatientLedger;
+  sessions: Session[];
+  // A payment against a session changes what is due on it, so the caller reloads the sessions too
+  onChange: () => void;
+}
+
+// Newest first; the full history is a tap away
+export default function LedgerSection({ patientId, ledger, sessions, onChange }: LedgerSectionProps) {
+  const [showFullLedger, setShowFullLedger] = useState(false);
+  const [modalVisible, setModalVisible] = useState(false);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    primaryColor: '#0A84FF',
+    labelColor: isDarkMode ? '#888888' : '#8E8E93',
+    warningColor: '#FF9500',
+    paidColor: '#34C759',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+  };
+
+  const handleRecordPayment = () => {
+    setModalVisible(false);
+    onChange();
+  };
+
+  const handleDeletePayment = (entry: LedgerEntry) => {
+    if (!entry.paymentId) return;
+    const paymentId = entry.paymentId;
+
+    Alert.alert(
+      `Delete ${entry.description}`,
+      `Delete the ${entry.kind} of ${formatMoney(entry.amount, entry.currency)} recorded on ${parseDateKey(entry.date).toLocaleDateString()}? Use this for one recorded by mistake.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deletePayment(paymentId);
+              onChange();
+            } catch (error) {
+              console.error('Error deleting payment:', error);
+              Alert.alert('Error', 'Failed to delete the payment');
+            }
+          }
+        },
+      ]
+    );
+  };
+
+  const entries = [...ledger.entries].reverse();
+  const shownEntries = showFullLedger ? entries : entries.slice(0, LEDGER_PREVIEW_ROWS);
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: theme.textColor }]}>Payments</Text>
+        <TouchableOpacity style={styles.actionButton} onPress={() => setModalVisible(true)}>
+          <Plus size={16} color={theme.primaryColor} />
+          <Text style={[styles.actionText, { color: theme.primaryColor }]}>Record</Text>
+        </TouchableOpacity>
+      </View>
+      {entries.length === 0 ? (
+        <Text style={[styles.emptyText, { color: theme.labelColor }]}>No charges or payments</Text>
+      ) : (
+        <View style={[styles.card, { backgroundColor: theme.cardBackground }]}>
+          <Text
+            style={[
+              styles.balance,
+              { color: ledger.balance > 0 ? theme.warningColor : theme.textColor }
+            ]}
+          >
+            {formatBalance(ledger.balance)}
+          </Text>
+          {shownEntries.map((entry, index) => (
+            <TouchableOpacity
+              key={entry.paymentId || entry.sessionId || entry.patientPackageId || index}
+              style={styles.row}
+              onLongPress={() => handleDeletePayment(entry)}
+              disabled={!entry.paymentId}
+            >
+              <View style={styles.details}>
+                <Text style={[styles.value, { color: theme.textColor }]}>{entry.description}</Text>
+                <Text style={[styles.meta, { color: theme.labelColor }]}>
+                  {parseDateKey(entry.date).toLocaleDateString()}
+                  {entry.method ? ` · ${getPaymentMethodLabel(entry.method)}` : ''}
+                  {entry.reference ? ` · ${entry.reference}` : ''}
+                </Text>
+              </View>
+              <View style={styles.amounts}>
+                <Text style={[styles.value, { color: entry.kind === 'payment' ? theme.paidColor : theme.textColor }]}>
+                  {entry.kind === 'payment' ? '-' : '+'}{formatMoney(entry.amount, entry.currency)}
+                </Text>
+                <Text style={[styles.meta, { color: theme.labelColor }]}>{formatMoney(entry.balance)}</Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+          {entries.length > LEDGER_PREVIEW_ROWS && (
+            <TouchableOpacity onPress={() => setShowFullLedger(!showFullLedger)}>
+              <Text style={[styles.toggle, { color: theme.primaryColor }]}>
+                {showFullLedger ? 'Show less' : `Show all ${entries.length}`}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+      {ledger.entries.some(entry => entry.paymentId) && (
+        <Text style={[styles.hint, { color: theme.labelColor }]}>Long press a payment or refund to delete it</Text>
+      )}
+
+      <Modal
+        visible={modalVisible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+          <View style={styles.modalContent}>
+            <PaymentForm
+              patientId={patientId}
+              sessions={sessions}
+              onSave={handleRecordPayment}
+              onCancel={() => setModalVisible(false)}
+            />
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginHorizontal: 5,
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  actionText: {
+    fontSize: 15,
+    marginLeft: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    marginHorizontal: 5,
+    marginBottom: 8,
+  },
+  card: {
+    borderRadius: 10,
+    padding: 12,
+    marginHorizontal: 5,
+    marginBottom: 16,
+  },
+  balance: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    paddingVertical: 4,
+  },
+  details: {
+    flex: 1,
+  },
+  amounts: {
+    alignItems: 'flex-end',
+  },
+  value: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  meta: {
+    fontSize: 12,
+    marginTop: 1,
+  },
+  toggle: {
+    fontSize: 14,
+    marginTop: 6,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 6,
+    marginBottom: 8,
+    marginHorizontal: 5,
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 500,
+  },
+});
@@ -0,0 +1,149 @@
+import React, { forwardRef } from 'react';
+import { useColorScheme } from 'react-native';
+import Svg, { Rect, Line, Polyline, Circle, Text as SvgText } from 'react-native-svg';
+import { ChartSeries } from '../utils/progressCharts';
+import { parseDateKey } from '../utils/calendarUtils';
+
+interface LineChartProps {
+  series: ChartSeries[];
+  width: number;
+  height?: number;
+  // The value axis grows to fit the data when these are left out
+  yMin?: number;
+  yMax?: number;
+  yUnit?: string;
+}
+
+const PADDING = { top: 28, right: 14, bottom: 26, left: 40 };
+const TICK_COUNT = 4;
+
+// Rounds up to a tidy axis maximum such as 10, 50 or 200
+const niceCeiling = (value: number): number => {
+  if (value <= 0) return 10;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const step = [1, 2, 5, 10].find(multiple => multiple * magnitude >= value) || 10;
+  return step * magnitude;
+};
+
+const formatAxisDate = (dateKey: string): string =>
+  parseDateKey(dateKey).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+// Plots dated values as lines on a time axis. The chart draws its own background and
+// legend so the ref can be captured with toDataURL and shared as a picture.
+const LineChart = forwardRef<Svg, LineChartProps>(({ series, width, height = 220, yMin, yMax, yUnit = '' }, ref) => {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#2A2A2A' : 'white',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    gridColor: isDarkMode ? '#444444' : '#E5E5EA',
+    labelColor: '#8E8E93',
+  };
+
+  const values = series.flatMap(item => item.points.map(point => point.value));
+  const times = series.flatMap(item => item.points.map(point => parseDateKey(point.date).getTime()));
+
+  const minValue = yMin ?? Math.min(0, ...values);
+  const maxValue = yMax ?? niceCeiling(Math.max(...values));
+  const minTime = Math.min(...times);
+  const maxTime = Math.max(...times);
+
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const toX = (date: string): number => {
+    // A single date sits in the middle of the chart
+    if (maxTime === minTime) return PADDING.left + plotWidth / 2;
+    return PADDING.left + ((parseDateKey(date).getTime() - minTime) / (maxTime - minTime)) * plotWidth;
+  };
+  const toY = (value: number): number =>
+    PADDING.top + plotHeight - ((value - minValue) / (maxValue - minValue || 1)) * plotHeight;
+
+  const ticks = Array.from({ length: TICK_COUNT + 1 }, (_, i) => minValue + ((maxValue - minValue) * i) / TICK_COUNT);
+  const firstDate = series.flatMap(item => item.points).reduce((min, point) => (point.date < min ? point.date : min), '9999-12-31');
+  const lastDate = series.flatMap(item => item.points).reduce((max, point) => (point.date > max ? point.date : max), '0000-01-01');
+
+  // Legend entries are laid out left to right along the top edge
+  let legendX = PADDING.left;
+  const legend = series.map(item => {
+    const x = legendX;
+    legendX += item.label.length * 6.5 + 28;
+    return { item, x };
+  });
+
+  return (
+    <Svg ref={ref} width={width} height={height}>
+      <Rect x={0} y={0} width={width} height={height} fill={theme.backgroundColor} />
+
+      {legend.map(({ item, x }) => (
+        <React.Fragment key={`legend-${item.key}`}>
+          <Line
+            x1={x}
+            y1={12}
+            x2={x + 16}
+            y2={12}
+            stroke={item.color}
+            strokeWidth={2}
+            strokeDasharray={item.dashed ? '4 3' : undefined}
+          />
+          <SvgText x={x + 20} y={16} fontSize={11} fill={theme.textColor}>{item.label}</SvgText>
+        </React.Fragment>
+      ))}
+
+      {ticks.map(tick => (
+        <React.Fragment key={`tick-${tick}`}>
+          <Line
+            x1={PADDING.left}
+            y1={toY(tick)}
+            x2={width - PADDING.right}
+            y2={toY(tick)}
+            stroke={theme.gridColor}
+            strokeWidth={1}
+          />
+          <SvgText x={PADDING.left - 6} y={toY(tick) + 4} fontSize={10} fill={theme.labelColor} textAnchor="end">
+            {`${Math.round(tick)}${yUnit}`}
+          </SvgText>
+        </React.Fragment>
+      ))}
+
+      <SvgText x={PADDING.left} y={height - 8} fontSize={10} fill={theme.labelColor}>
+        {formatAxisDate(firstDate)}
+      </SvgText>
+      {lastDate !== firstDate && (
+        <SvgText x={width - PADDING.right} y={height - 8} fontSize={10} fill={theme.labelColor} textAnchor="end">
+          {formatAxisDate(lastDate)}
+        </SvgText>
+      )}
+
+      {series.map(item => (
+        <React.Fragment key={item.key}>
+          {item.points.length > 1 && (
+            <Polyline
+              points={item.points.map(point => `${toX(point.date)},${toY(point.value)}`).join(' ')}
+              fill="none"
+              stroke={item.color}
+              strokeWidth={2}
+              strokeDasharray={item.dashed ? '6 4' : undefined}
+            />
+          )}
+          {item.points.map((point, index) => (
+            <Circle
+              key={`${item.key}-${point.date}-${index}`}
+              cx={toX(point.date)}
+              cy={toY(point.value)}
+              r={3.5}
+              fill={item.dashed ? theme.backgroundColor : item.color}
+              stroke={item.color}
+              strokeWidth={1.5}
+            />
+          ))}
+        </React.Fragment>
+      ))}
+    </Svg>
+  );
+});
+
+LineChart.displayName = 'LineChart';
+
+export default LineChart;
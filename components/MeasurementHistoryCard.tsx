@@ -0,0 +1,124 @@
+import React from 'react';
+import { View, Text, StyleSheet, useColorScheme, Platform } from 'react-native';
+import { MeasurementSide } from '../types';
+import { parseDateKey } from '../utils/calendarUtils';
+import {
+  MeasurementHistory,
+  MOVEMENT_LABELS,
+  SIDE_OPTIONS,
+  getJointLabel,
+  formatMeasurementValues,
+  getMeasurementChange,
+  formatMeasurementChange
+} from '../utils/measurements';
+
+interface MeasurementHistoryCardProps {
+  history: MeasurementHistory;
+}
+
+// Latest left and right readings for one joint movement, with the change since the
+// previous reading on each side and the difference between sides
+export default function MeasurementHistoryCard({ history }: MeasurementHistoryCardProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    labelColor: '#8E8E93',
+    primaryColor: '#0A84FF',
+  };
+
+  const { left, right } = history.sides;
+  const sideDifference = formatMeasurementChange(getMeasurementChange(left?.latest || null, right?.latest || null));
+
+  const renderSide = (side: MeasurementSide) => {
+    const sideHistory = history.sides[side];
+    if (!sideHistory) return null;
+
+    const change = formatMeasurementChange(getMeasurementChange(sideHistory.previous, sideHistory.latest));
+    return (
+      <View key={side} style={styles.sideColumn}>
+        {side !== 'none' && (
+          <Text style={[styles.sideLabel, { color: theme.labelColor }]}>
+            {SIDE_OPTIONS.find(option => option.value === side)?.label}
+          </Text>
+        )}
+        <Text style={[styles.valueText, { color: theme.textColor }]}>{formatMeasurementValues(sideHistory.latest)}</Text>
+        <Text style={[styles.detailText, { color: theme.labelColor }]}>
+          {parseDateKey(sideHistory.latest.date).toLocaleDateString()}
+        </Text>
+        {sideHistory.previous && (
+          <Text style={[styles.detailText, { color: theme.labelColor }]}>
+            {change ? `${change} since ${parseDateKey(sideHistory.previous.date).toLocaleDateString()}` : 'No comparable earlier reading'}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.cardBackground }]}>
+      <Text style={[styles.title, { color: theme.textColor }]}>
+        {getJointLabel(history.joint)} {MOVEMENT_LABELS[history.movement]}
+      </Text>
+      <View style={styles.sidesRow}>
+        {(['left', 'right', 'none'] as MeasurementSide[]).map(renderSide)}
+      </View>
+      {sideDifference ? (
+        <Text style={[styles.differenceText, { color: theme.primaryColor }]}>Right vs left: {sideDifference}</Text>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 10,
+    padding: 12,
+    marginHorizontal: 5,
+    marginBottom: 12,
+    ...Platform.select({
+      web: {
+        boxShadow: '0px 1px 1.41px rgba(0, 0, 0, 0.2)',
+      },
+      default: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.2,
+        shadowRadius: 1.41,
+        elevation: 2,
+      },
+    }),
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 6,
+  },
+  sidesRow: {
+    flexDirection: 'row',
+  },
+  sideColumn: {
+    flex: 1,
+    paddingRight: 8,
+  },
+  sideLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  valueText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  detailText: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  differenceText: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  useColorScheme
+} from 'react-native';
+import { Plus, X } from 'lucide-react-native';
+import { Joint, Measurement } from '../types';
+import {
+  JOINT_OPTIONS,
+  MOVEMENT_LABELS,
+  SIDE_OPTIONS,
+  STRENGTH_GRADES,
+  EMPTY_MEASUREMENT,
+  getJointMovements,
+  getMeasurementName
+} from '../utils/measurements';
+
+interface MeasurementsFormProps {
+  value: Measurement[];
+  onChange: (measurements: Measurement[]) => void;
+}
+
+const ROM_FIELDS: { key: 'activeRom' | 'passiveRom'; label: string }[] = [
+  { key: 'activeRom', label: 'AROM (°)' },
+  { key: 'passiveRom', label: 'PROM (°)' },
+];
+
+// Whole degrees; a leading minus records hyperextension or an extension lag
+const parseRomInput = (text: string): number | null => {
+  const match = text.trim().match(/^-?\d+/);
+  return match ? parseInt(match[0], 10) : null;
+};
+
+// Edits the range of motion and strength measurements taken at one visit
+export default function MeasurementsForm({ value, onChange }: MeasurementsFormProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  // Raw text of the degree fields, so a lone "-" survives while typing
+  const [romDrafts, setRomDrafts] = useState<Record<string, string>>({});
+
+  const theme = {
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    primaryColor: '#0A84FF',
+    errorColor: '#FF453A',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    subtitleColor: '#8E8E93',
+  };
+
+  const updateItem = (index: number, changes: Partial<Measurement>) => {
+    onChange(value.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  // Keeps the movement when the new joint has it, otherwise picks its first movement
+  const handleJointChange = (index: number, joint: Joint) => {
+    const movements = getJointMovements(joint);
+    const movement = movements.includes(value[index].movement) ? value[index].movement : movements[0];
+    updateItem(index, { joint, movement });
+  };
+
+  const handleRomChange = (index: number, key: 'activeRom' | 'passiveRom', text: string) => {
+    setRomDrafts(current => ({ ...current, [`${index}-${key}`]: text }));
+    updateItem(index, { [key]: parseRomInput(text) });
+  };
+
+  const handleRemove = (index: number) => {
+    setRomDrafts({});
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  // New rows repeat the previous joint and side, which is how measurements are usually taken
+  const handleAdd = () => {
+    const previous = value[value.length - 1];
+    onChange([
+      ...value,
+      previous ? { ...EMPTY_MEASUREMENT, joint: previous.joint, movement: previous.movement, side: previous.side } : EMPTY_MEASUREMENT
+    ]);
+  };
+
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: isSelected ? theme.primaryColor : theme.borderColor },
+        isSelected ? { backgroundColor: theme.primaryColor } : null
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: isSelected ? 'white' : theme.textColor }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      {value.length === 0 && (
+        <Text style={[styles.emptyText, { color: theme.placeholderColor }]}>No measurements recorded</Text>
+      )}
+
+      {value.map((item, index) => (
+        <View key={index} style={[styles.item, { borderColor: theme.borderColor }]}>
+          <View style={styles.itemHeader}>
+            <Text style={[styles.itemName, { color: theme.textColor }]}>{getMeasurementName(item)}</Text>
+            <TouchableOpacity style={styles.removeButton} onPress={() => handleRemove(index)}>
+              <X size={18} color={theme.errorColor} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={[styles.fieldLabel, { color: theme.subtitleColor }]}>Joint</Text>
+          <View style={styles.chipRow}>
+            {JOINT_OPTIONS.map(option => renderChip(
+              option.value,
+              option.label,
+              item.joint === option.value,
+              () => handleJointChange(index, option.value)
+            ))}
+          </View>
+
+          <Text style={[styles.fieldLabel, { color: theme.subtitleColor }]}>Movement</Text>
+          <View style={styles.chipRow}>
+            {getJointMovements(item.joint).map(movement => renderChip(
+              movement,
+              MOVEMENT_LABELS[movement],
+              item.movement === movement,
+              () => updateItem(index, { movement })
+            ))}
+          </View>
+
+          <Text style={[styles.fieldLabel, { color: theme.subtitleColor }]}>Side</Text>
+          <View style={styles.chipRow}>
+            {SIDE_OPTIONS.map(option => renderChip(
+              option.value,
+              option.label,
+              item.side === option.value,
+              () => updateItem(index, { side: option.value })
+            ))}
+          </View>
+
+          <View style={styles.romRow}>
+            {ROM_FIELDS.map(field => (
+              <View key={field.key} style={styles.romField}>
+                <Text style={[styles.fieldLabel, { color: theme.subtitleColor }]}>{field.label}</Text>
+                <TextInput
+                  style={[styles.input, { color: theme.textColor, borderColor: theme.borderColor }]}
+                  value={romDrafts[`${index}-${field.key}`] ?? item[field.key]?.toString() ?? ''}
+                  onChangeText={text => handleRomChange(index, field.key, text)}
+                  placeholder="-"
+                  placeholderTextColor={theme.placeholderColor}
+                  keyboardType="numbers-and-punctuation"
+                />
+              </View>
+            ))}
+          </View>
+
+          <Text style={[styles.fieldLabel, { color: theme.subtitleColor }]}>Strength (MMT)</Text>
+          <View style={styles.chipRow}>
+            {STRENGTH_GRADES.map(grade => renderChip(
+              grade.value.toString(),
+              `${grade.value}/5`,
+              item.strength === grade.value,
+              // Tapping the selected grade again clears it
+              () => updateItem(index, { strength: item.strength === grade.value ? null : grade.value })
+            ))}
+          </View>
+          {item.strength !== null && (
+            <Text style={[styles.hintText, { color: theme.subtitleColor }]}>
+              {STRENGTH_GRADES[item.strength].description}
+            </Text>
+          )}
+        </View>
+      ))}
+
+      <TouchableOpacity style={styles.addButton} onPress={handleAdd}>
+        <Plus size={18} color={theme.primaryColor} />
+        <Text style={[styles.addButtonText, { color: theme.primaryColor }]}>Add measurement</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  emptyText: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  item: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 10,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  itemName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  removeButton: {
+    padding: 4,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    marginBottom: 3,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 4,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  romRow: {
+    flexDirection: 'row',
+    marginHorizontal: -4,
+  },
+  romField: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 15,
+    marginBottom: 8,
+  },
+  hintText: {
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 5,
+  },
+  addButtonText: {
+    fontSize: 16,
+    marginLeft: 4,
+  },
+});
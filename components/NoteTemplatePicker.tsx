@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  useColorScheme,
+  Platform
+} from 'react-native';
+import { NoteTemplate } from '../types';
+import { getNoteTemplates } from '../utils/mongoStorage';
+
+interface NoteTemplatePickerProps {
+  visible: boolean;
+  onSelect: (template: NoteTemplate) => void;
+  onCancel: () => void;
+}
+
+export default function NoteTemplatePicker({ visible, onSelect, onCancel }: NoteTemplatePickerProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const [templates, setTemplates] = useState<NoteTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const theme = {
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    primaryColor: '#0A84FF',
+    subtitleColor: '#8E8E93',
+    cancelButtonBg: isDarkMode ? '#444444' : '#E5E5EA',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+  };
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      setLoading(true);
+      setTemplates(await getNoteTemplates());
+      setLoading(false);
+    };
+
+    if (visible) {
+      loadTemplates();
+    }
+  }, [visible]);
+
+  const getPreview = (template: NoteTemplate): string => {
+    return [template.subjective, template.objective, template.assessment, template.plan]
+      .filter(Boolean)
+      .join(' / ');
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+        <View style={[styles.modalContent, { backgroundColor: theme.cardBackground }]}>
+          <Text style={[styles.title, { color: theme.textColor }]}>Insert Template</Text>
+
+          {loading ? (
+            <ActivityIndicator size="large" color={theme.primaryColor} style={styles.loader} />
+          ) : templates.length === 0 ? (
+            <Text style={[styles.emptyText, { color: theme.subtitleColor }]}>
+              No templates yet. Create them from Note Templates in the profile menu.
+            </Text>
+          ) : (
+            <ScrollView style={styles.optionList}>
+              {templates.map(template => (
+                <TouchableOpacity
+                  key={template.id}
+                  style={[styles.option, { borderColor: theme.borderColor }]}
+                  onPress={() => onSelect(template)}
+                >
+                  <Text style={[styles.optionText, { color: theme.textColor }]}>{template.name}</Text>
+                  <Text style={[styles.previewText, { color: theme.subtitleColor }]} numberOfLines={2}>
+                    {getPreview(template)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+
+          <TouchableOpacity
+            style={[styles.cancelButton, { backgroundColor: theme.cancelButtonBg }]}
+            onPress={onCancel}
+          >
+            <Text style={[styles.cancelButtonText, { color: theme.textColor }]}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '80%',
+    borderRadius: 12,
+    padding: 20,
+    ...Platform.select({
+      web: {
+        boxShadow: '0px 2px 3.84px rgba(0, 0, 0, 0.25)',
+      },
+      default: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.25,
+        shadowRadius: 3.84,
+        elevation: 5,
+      },
+    }),
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  emptyText: {
+    fontSize: 15,
+    textAlign: 'center',
+    marginVertical: 20,
+  },
+  optionList: {
+    flexGrow: 0,
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 14,
+    marginBottom: 10,
+  },
+  optionText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  previewText: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  cancelButton: {
+    borderRadius: 8,
+    padding: 14,
+    marginTop: 5,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,183 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, useColorScheme, Platform } from 'react-native';
+import { Trash2, TrendingUp, TrendingDown } from 'lucide-react-native';
+import { OutcomeMeasureResult } from '../types';
+import { parseDateKey } from '../utils/calendarUtils';
+import {
+  OutcomeMeasureDefinition,
+  formatOutcomeScore,
+  getOutcomeBand,
+  getOutcomeImprovement
+} from '../utils/outcomeMeasures';
+
+interface OutcomeMeasureCardProps {
+  definition: OutcomeMeasureDefinition;
+  results: OutcomeMeasureResult[]; // Oldest first
+  onEdit: (result: OutcomeMeasureResult) => void;
+  onDelete: (result: OutcomeMeasureResult) => void;
+}
+
+// Score timeline for one questionnaire, with the change since the first result
+export default function OutcomeMeasureCard({ definition, results, onEdit, onDelete }: OutcomeMeasureCardProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    labelColor: '#8E8E93',
+    primaryColor: '#0A84FF',
+    successColor: '#34C759',
+    errorColor: '#FF3B30',
+    trackColor: isDarkMode ? '#444444' : '#E5E5EA',
+  };
+
+  const baseline = results[0];
+  const latest = results[results.length - 1];
+  const { improvement, clinicallyImportant } = getOutcomeImprovement(definition.type, baseline.score, latest.score);
+
+  const renderChange = () => {
+    if (results.length < 2) {
+      return <Text style={[styles.changeText, { color: theme.labelColor }]}>Baseline only</Text>;
+    }
+    if (improvement === 0) {
+      return <Text style={[styles.changeText, { color: theme.labelColor }]}>No change since baseline</Text>;
+    }
+
+    const improved = improvement > 0;
+    const color = improved ? theme.successColor : theme.errorColor;
+    const Icon = improved ? TrendingUp : TrendingDown;
+    return (
+      <View style={styles.changeRow}>
+        <Icon size={14} color={color} />
+        <Text style={[styles.changeText, styles.changeValue, { color }]}>
+          {improved ? 'Improved' : 'Worse'} by {Math.abs(improvement)} points
+          {improved && clinicallyImportant ? ' · clinically important' : ''}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.cardBackground, borderLeftColor: getOutcomeBand(definition.type, latest.score).color }]}>
+      <Text style={[styles.title, { color: theme.textColor }]}>{definition.shortName}</Text>
+      <Text style={[styles.subtitle, { color: theme.labelColor }]}>
+        {definition.name} · {definition.higherIsBetter ? 'higher is better' : 'lower is better'}
+      </Text>
+      {renderChange()}
+
+      {results.map(result => {
+        const band = getOutcomeBand(definition.type, result.score);
+        return (
+          <TouchableOpacity key={result.id} style={styles.resultRow} onPress={() => onEdit(result)}>
+            <Text style={[styles.dateText, { color: theme.labelColor }]}>
+              {parseDateKey(result.date).toLocaleDateString()}
+            </Text>
+            <View style={styles.resultBody}>
+              <View style={styles.scoreRow}>
+                <Text style={[styles.scoreText, { color: theme.textColor }]}>
+                  {formatOutcomeScore(definition.type, result.score)}
+                </Text>
+                <Text style={[styles.bandText, { color: band.color }]} numberOfLines={1}>{result.band || band.label}</Text>
+              </View>
+              <View style={[styles.track, { backgroundColor: theme.trackColor }]}>
+                <View
+                  style={[
+                    styles.fill,
+                    { backgroundColor: band.color, width: `${Math.min(result.score / definition.maxScore, 1) * 100}%` }
+                  ]}
+                />
+              </View>
+            </View>
+            <TouchableOpacity style={styles.iconButton} onPress={() => onDelete(result)}>
+              <Trash2 size={16} color={theme.errorColor} />
+            </TouchableOpacity>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 10,
+    borderLeftWidth: 5,
+    padding: 12,
+    marginHorizontal: 5,
+    marginBottom: 12,
+    ...Platform.select({
+      web: {
+        boxShadow: '0px 1px 1.41px rgba(0, 0, 0, 0.2)',
+      },
+      default: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.2,
+        shadowRadius: 1.41,
+        elevation: 2,
+      },
+    }),
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: 'bold',
+  },
+  subtitle: {
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  changeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  changeText: {
+    fontSize: 14,
+    marginBottom: 6,
+  },
+  changeValue: {
+    marginLeft: 4,
+    marginBottom: 0,
+    fontWeight: '600',
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  dateText: {
+    width: 90,
+    fontSize: 13,
+  },
+  resultBody: {
+    flex: 1,
+  },
+  scoreRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    marginBottom: 3,
+  },
+  scoreText: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    marginRight: 8,
+  },
+  bandText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  fill: {
+    height: 6,
+    borderRadius: 3,
+  },
+  iconButton: {
+    padding: 5,
+    marginLeft: 6,
+  },
+});
@@ -0,0 +1,369 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  useColorScheme,
+  ScrollView,
+  useWindowDimensions
+} from 'react-native';
+import { getPatientSessions, saveOutcomeMeasure, updateOutcomeMeasure } from '../utils/mongoStorage';
+import { OutcomeMeasureResult, OutcomeMeasureType, Session } from '../types';
+import { formatDateKey, parseDateKey } from '../utils/calendarUtils';
+import { isOpenSession } from '../utils/sessionStatus';
+import {
+  OUTCOME_MEASURES,
+  OUTCOME_MEASURE_OPTIONS,
+  scoreOutcomeMeasure,
+  formatOutcomeScore,
+  getEmptyResponses
+} from '../utils/outcomeMeasures';
+
+interface OutcomeMeasureFormProps {
+  patientId: string;
+  existingResult?: OutcomeMeasureResult;
+  onSave: (result: OutcomeMeasureResult) => void;
+  onCancel: () => void;
+}
+
+// Recent visits offered for linking the questionnaire to a session
+const SESSION_CHOICES = 6;
+
+export default function OutcomeMeasureForm({ patientId, existingResult, onSave, onCancel }: OutcomeMeasureFormProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const { height: windowHeight } = useWindowDimensions();
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#1E1E1E' : '#F2F2F7',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    inputBackground: isDarkMode ? '#333333' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    saveButtonBackground: '#0A84FF',
+    cancelButtonBackground: isDarkMode ? '#444444' : '#E5E5EA',
+    primaryColor: '#0A84FF',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    subtitleColor: '#8E8E93',
+  };
+
+  const [measure, setMeasure] = useState<OutcomeMeasureType>(existingResult?.measure || 'nprs');
+  const [responses, setResponses] = useState<(number | null)[]>(existingResult?.responses || getEmptyResponses('nprs'));
+  const [sessionId, setSessionId] = useState<string | null>(existingResult?.sessionId || null);
+  const [date, setDate] = useState(existingResult?.date || formatDateKey(new Date()));
+  const [notes, setNotes] = useState(existingResult?.notes || '');
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const definition = OUTCOME_MEASURES[measure];
+  const preview = scoreOutcomeMeasure(measure, responses);
+
+  useEffect(() => {
+    const loadSessions = async () => {
+      const today = formatDateKey(new Date());
+      const patientSessions = await getPatientSessions(patientId);
+      setSessions(patientSessions
+        .filter(session => session.date <= today && (session.status === 'completed' || isOpenSession(session)))
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .slice(0, SESSION_CHOICES));
+    };
+
+    loadSessions();
+  }, [patientId]);
+
+  // Switching questionnaire starts a fresh set of answers
+  const handleMeasureChange = (type: OutcomeMeasureType) => {
+    if (type === measure) return;
+    setMeasure(type);
+    setResponses(getEmptyResponses(type));
+  };
+
+  const handleSessionChange = (session: Session | null) => {
+    setSessionId(session?.id || null);
+    setDate(session ? session.date : formatDateKey(new Date()));
+  };
+
+  const setResponse = (index: number, value: number) => {
+    // Tapping the selected answer again clears it
+    setResponses(current => current.map((item, i) => (i === index ? (item === value ? null : value) : item)));
+  };
+
+  const handleSubmit = async () => {
+    if (!preview) {
+      Alert.alert(
+        'Incomplete Questionnaire',
+        definition.maxMissing === 0
+          ? 'Please answer every item'
+          : `Please answer all but at most ${definition.maxMissing} ${definition.maxMissing === 1 ? 'item' : 'items'}`
+      );
+      return;
+    }
+
+    const resultData = { measure, responses, sessionId, date, notes: notes.trim() };
+
+    try {
+      setIsSubmitting(true);
+
+      if (existingResult) {
+        onSave(await updateOutcomeMeasure({ ...existingResult, ...resultData }));
+      } else {
+        onSave(await saveOutcomeMeasure({ patientId, ...resultData }));
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save the outcome measure');
+      console.error('Error saving outcome measure:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: isSelected ? theme.primaryColor : theme.borderColor },
+        isSelected ? { backgroundColor: theme.primaryColor } : null
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: isSelected ? 'white' : theme.textColor }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundColor, maxHeight: windowHeight * 0.9 }]}>
+      <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <Text style={[styles.title, { color: theme.textColor }]}>
+          {existingResult ? 'Edit Outcome Measure' : 'Record Outcome Measure'}
+        </Text>
+
+        {!existingResult && (
+          <View style={styles.formGroup}>
+            <Text style={[styles.label, { color: theme.textColor }]}>Questionnaire</Text>
+            <View style={styles.chipRow}>
+              {OUTCOME_MEASURE_OPTIONS.map(option => renderChip(
+                option.type,
+                option.shortName,
+                option.type === measure,
+                () => handleMeasureChange(option.type)
+              ))}
+            </View>
+          </View>
+        )}
+
+        <Text style={[styles.measureName, { color: theme.textColor }]}>{definition.name}</Text>
+        <Text style={[styles.hintText, { color: theme.subtitleColor }]}>{definition.instructions}</Text>
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Session</Text>
+          <View style={styles.chipRow}>
+            {renderChip('none', 'Not linked', sessionId === null, () => handleSessionChange(null))}
+            {sessions.map(session => renderChip(
+              session.id,
+              parseDateKey(session.date).toLocaleDateString(),
+              session.id === sessionId,
+              () => handleSessionChange(session)
+            ))}
+          </View>
+          <Text style={[styles.hintText, { color: theme.subtitleColor }]}>
+            Recorded on {parseDateKey(date).toLocaleDateString()}
+          </Text>
+        </View>
+
+        {definition.questions.map((question, index) => (
+          <View key={`${measure}-${index}`} style={[styles.question, { borderColor: theme.borderColor }]}>
+            <Text style={[styles.questionText, { color: theme.textColor }]}>
+              {definition.questions.length > 1 ? `${index + 1}. ` : ''}{question.text}
+            </Text>
+            {definition.scale ? (
+              <View style={styles.chipRow}>
+                {question.options.map((option, optionIndex) => renderChip(
+                  option,
+                  option,
+                  responses[index] === definition.min + optionIndex,
+                  () => setResponse(index, definition.min + optionIndex)
+                ))}
+              </View>
+            ) : (
+              question.options.map((option, optionIndex) => {
+                const value = definition.min + optionIndex;
+                const isSelected = responses[index] === value;
+                return (
+                  <TouchableOpacity
+                    key={option}
+                    style={[
+                      styles.option,
+                      { borderColor: isSelected ? theme.primaryColor : theme.borderColor },
+                      isSelected ? { backgroundColor: theme.primaryColor } : null
+                    ]}
+                    onPress={() => setResponse(index, value)}
+                  >
+                    <Text style={[styles.optionText, { color: isSelected ? 'white' : theme.textColor }]}>{option}</Text>
+                  </TouchableOpacity>
+                );
+              })
+            )}
+          </View>
+        ))}
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Notes</Text>
+          <TextInput
+            style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.borderColor, color: theme.textColor }]}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="Optional"
+            placeholderTextColor={theme.placeholderColor}
+            multiline={true}
+          />
+        </View>
+
+        <View style={[styles.scoreBox, { borderColor: preview ? preview.band.color : theme.borderColor }]}>
+          {preview ? (
+            <>
+              <Text style={[styles.scoreText, { color: preview.band.color }]}>
+                {formatOutcomeScore(measure, preview.score)}
+              </Text>
+              <Text style={[styles.bandText, { color: theme.textColor }]}>{preview.band.label}</Text>
+            </>
+          ) : (
+            <Text style={[styles.hintText, { color: theme.subtitleColor }]}>
+              The score appears once enough items are answered
+            </Text>
+          )}
+        </View>
+
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.cancelButtonBackground }, isSubmitting ? styles.disabledButton : null]}
+            onPress={onCancel}
+            disabled={isSubmitting}
+          >
+            <Text style={[styles.buttonText, { color: theme.textColor }]}>Cancel</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.saveButtonBackground }, isSubmitting ? styles.disabledButton : null]}
+            onPress={handleSubmit}
+            disabled={isSubmitting}
+          >
+            <Text style={[styles.buttonText, { color: 'white' }]}>
+              {isSubmitting ? 'Saving...' : existingResult ? 'Update' : 'Save'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 10,
+    padding: 20,
+    width: '100%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  formGroup: {
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 5,
+    fontWeight: '500',
+  },
+  measureName: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  hintText: {
+    fontSize: 14,
+    marginBottom: 10,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  question: {
+    borderBottomWidth: 1,
+    paddingBottom: 10,
+    marginBottom: 12,
+  },
+  questionText: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginBottom: 6,
+  },
+  optionText: {
+    fontSize: 14,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  scoreBox: {
+    borderWidth: 2,
+    borderRadius: 10,
+    padding: 12,
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  scoreText: {
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  bandText: {
+    fontSize: 15,
+    marginTop: 2,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 10,
+  },
+  button: {
+    borderRadius: 8,
+    padding: 15,
+    flex: 1,
+    marginHorizontal: 5,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, Alert, useColorScheme } from 'react-native';
+import { Plus } from 'lucide-react-native';
+import { OutcomeMeasureResult } from '../types';
+import { deleteOutcomeMeasure } from '../utils/mongoStorage';
+import { OUTCOME_MEASURES, groupOutcomeResults, formatOutcomeScore } from '../utils/outcomeMeasures';
+import { parseDateKey } from '../utils/calendarUtils';
+import OutcomeMeasureCard from './OutcomeMeasureCard';
+import OutcomeMeasureForm from './OutcomeMeasureForm';
+
+interface OutcomeMeasureSectionProps {
+  patientId: string;
+  results: OutcomeMeasureResult[];
+  onChange: () => void;
+}
+
+export default function OutcomeMeasureSection({ patientId, results, onChange }: OutcomeMeasureSectionProps) {
+  const [modalVisible, setModalVisible] = useState(false);
+  const [selectedResult, setSelectedResult] = useState<OutcomeMeasureResult | undefined>(undefined);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    primaryColor: '#0A84FF',
+    labelColor: isDarkMode ? '#888888' : '#8E8E93',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+  };
+
+  const openOutcomeForm = (result?: OutcomeMeasureResult) => {
+    setSelectedResult(result);
+    setModalVisible(true);
+  };
+
+  const handleSaveOutcome = () => {
+    setModalVisible(false);
+    onChange();
+  };
+
+  const handleDeleteOutcome = (result: OutcomeMeasureResult) => {
+    Alert.alert(
+      'Delete Outcome Measure',
+      `Delete the ${OUTCOME_MEASURES[result.measure].shortName} score of ${formatOutcomeScore(result.measure, result.score)} from ${parseDateKey(result.date).toLocaleDateString()}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteOutcomeMeasure(result.id);
+              onChange();
+            } catch (error) {
+              console.error('Error deleting outcome measure:', error);
+              Alert.alert('Error', 'Failed to delete the outcome measure');
+            }
+          }
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: theme.textColor }]}>Outcome Measures</Text>
+        <TouchableOpacity style={styles.actionButton} onPress={() => openOutcomeForm()}>
+          <Plus size={16} color={theme.primaryColor} />
+          <Text style={[styles.actionText, { color: theme.primaryColor }]}>Record</Text>
+        </TouchableOpacity>
+      </View>
+      {results.length === 0 ? (
+        <Text style={[styles.emptyText, { color: theme.labelColor }]}>No outcome measures recorded yet</Text>
+      ) : (
+        groupOutcomeResults(results).map(group => (
+          <OutcomeMeasureCard
+            key={group.definition.type}
+            definition={group.definition}
+            results={group.results}
+            onEdit={openOutcomeForm}
+            onDelete={handleDeleteOutcome}
+          />
+        ))
+      )}
+
+      <Modal
+        visible={modalVisible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+          <View style={styles.modalContent}>
+            <OutcomeMeasureForm
+              patientId={patientId}
+              existingResult={selectedResult}
+              onSave={handleSaveOutcome}
+              onCancel={() => setModalVisible(false)}
+            />
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginHorizontal: 5,
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  actionText: {
+    fontSize: 15,
+    marginLeft: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    marginHorizontal: 5,
+    marginBottom: 8,
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 500,
+  },
+});
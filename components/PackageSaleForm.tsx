@@ -0,0 +1,310 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  Switch,
+  useColorScheme,
+  ScrollView,
+  useWindowDimensions
+} from 'react-native';
+import { getSessionPackages, sellPackage, saveInvoice, updateInvoiceStatus, recordPayment } from '../utils/mongoStorage';
+import { PatientPackage, PaymentMethod, SessionPackage } from '../types';
+import { formatDateKey, parseDateKey } from '../utils/calendarUtils';
+import { formatPackageTerms } from '../utils/packages';
+import { formatMoney } from '../utils/currency';
+import { PAYMENT_METHOD_OPTIONS } from '../utils/payments';
+
+interface PackageSaleFormProps {
+  patientId: string;
+  onSave: (patientPackage: PatientPackage) => void;
+  onCancel: () => void;
+}
+
+// Sells one of the packages on offer to the patient, optionally recording the payment and an invoice for it
+export default function PackageSaleForm({ patientId, onSave, onCancel }: PackageSaleFormProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const { height: windowHeight } = useWindowDimensions();
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#1E1E1E' : '#F2F2F7',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    saveButtonBackground: '#0A84FF',
+    cancelButtonBackground: isDarkMode ? '#444444' : '#E5E5EA',
+    primaryColor: '#0A84FF',
+    subtitleColor: '#8E8E93',
+  };
+
+  const purchaseDate = formatDateKey(new Date());
+  const [packages, setPackages] = useState<SessionPackage[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isPaid, setIsPaid] = useState(true);
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [issueInvoice, setIssueInvoice] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    const loadPackages = async () => {
+      const offered = await getSessionPackages();
+      setPackages(offered);
+      if (offered.length === 1) setSelectedId(offered[0].id);
+    };
+
+    loadPackages();
+  }, []);
+
+  const selectedPackage = packages.find(sessionPackage => sessionPackage.id === selectedId) || null;
+
+  const handleSubmit = async () => {
+    if (!selectedPackage) {
+      Alert.alert('No Package', 'Please choose the package the patient is buying');
+      return;
+    }
+
+    let patientPackage: PatientPackage;
+    try {
+      setIsSubmitting(true);
+      patientPackage = await sellPackage(patientId, selectedPackage.id, purchaseDate);
+    } catch (error: any) {
+      setIsSubmitting(false);
+      Alert.alert('Error', error.message || 'Failed to sell the package');
+      console.error('Error selling package:', error);
+      return;
+    }
+
+    // The package is sold by now, so a payment or invoice failure is reported without undoing the sale
+    if (isPaid && selectedPackage.price > 0) {
+      try {
+        await recordPayment({
+          patientId,
+          sessionId: null,
+          type: 'payment',
+          amount: selectedPackage.price,
+          method,
+          reference: '',
+          date: purchaseDate,
+          notes: `For the ${selectedPackage.name} package`
+        });
+      } catch (error: any) {
+        Alert.alert('Payment Not Recorded', `The package was sold, but recording the payment failed: ${error.message || 'unknown error'}. You can record it from the Payments section.`);
+        console.error('Error recording package payment:', error);
+      }
+    }
+
+    if (issueInvoice) {
+      try {
+        const invoice = await saveInvoice({
+          patientId,
+          issueDate: purchaseDate,
+          dueDate: null,
+          items: [{
+            type: 'package',
+            description: `${selectedPackage.name} (${formatPackageTerms(selectedPackage)})`,
+            quantity: 1,
+            unitPrice: selectedPackage.price,
+            taxRate: 0,
+            sessionId: null
+          }],
+          discountPercent: 0,
+          notes: ''
+        });
+        if (isPaid) {
+          await updateInvoiceStatus(invoice.id, 'paid');
+        }
+      } catch (error: any) {
+        Alert.alert('Invoice Not Issued', `The package was sold, but the invoice failed: ${error.message || 'unknown error'}. You can issue it from the Invoices section.`);
+        console.error('Error invoicing package:', error);
+      }
+    }
+
+    setIsSubmitting(false);
+    onSave(patientPackage);
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundColor, maxHeight: windowHeight * 0.9 }]}>
+      <ScrollView showsVerticalScrollIndicator={false}>
+        <Text style={[styles.title, { color: theme.textColor }]}>Sell Package</Text>
+        <Text style={[styles.hintText, { color: theme.subtitleColor }]}>
+          Sold {parseDateKey(purchaseDate).toLocaleDateString()}. Completed sessions are paid from the package until it runs out or expires.
+        </Text>
+
+        {packages.length === 0 ? (
+          <Text style={[styles.hintText, { color: theme.subtitleColor }]}>
+            No packages set up yet. Add them under Packages in the profile menu.
+          </Text>
+        ) : (
+          packages.map(sessionPackage => {
+            const isSelected = sessionPackage.id === selectedId;
+            return (
+              <TouchableOpacity
+                key={sessionPackage.id}
+                style={[
+                  styles.option,
+                  { backgroundColor: theme.cardBackground, borderColor: isSelected ? theme.primaryColor : theme.borderColor }
+                ]}
+                onPress={() => setSelectedId(sessionPackage.id)}
+              >
+                <View style={styles.optionText}>
+                  <Text style={[styles.optionName, { color: theme.textColor }]}>{sessionPackage.name}</Text>
+                  <Text style={[styles.optionTerms, { color: theme.subtitleColor }]}>{formatPackageTerms(sessionPackage)}</Text>
+                </View>
+                <Text style={[styles.optionPrice, { color: isSelected ? theme.primaryColor : theme.textColor }]}>
+                  {formatMoney(sessionPackage.price)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })
+        )}
+
+        <View style={styles.switchRow}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Paid now</Text>
+          <Switch
+            value={isPaid}
+            onValueChange={setIsPaid}
+            trackColor={{ false: theme.borderColor, true: theme.primaryColor }}
+          />
+        </View>
+
+        {isPaid && (
+          <View style={styles.chipRow}>
+            {PAYMENT_METHOD_OPTIONS.map(option => {
+              const isSelected = option.value === method;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.chip,
+                    { borderColor: isSelected ? theme.primaryColor : theme.borderColor },
+                    isSelected ? { backgroundColor: theme.primaryColor } : null
+                  ]}
+                  onPress={() => setMethod(option.value)}
+                >
+                  <Text style={[styles.chipText, { color: isSelected ? 'white' : theme.textColor }]}>{option.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+
+        <View style={styles.switchRow}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Issue an invoice</Text>
+          <Switch
+            value={issueInvoice}
+            onValueChange={setIssueInvoice}
+            trackColor={{ false: theme.borderColor, true: theme.primaryColor }}
+          />
+        </View>
+
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.cancelButtonBackground }, isSubmitting ? styles.disabledButton : null]}
+            onPress={onCancel}
+            disabled={isSubmitting}
+          >
+            <Text style={[styles.buttonText, { color: theme.textColor }]}>Cancel</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.saveButtonBackground }, isSubmitting ? styles.disabledButton : null]}
+            onPress={handleSubmit}
+            disabled={isSubmitting}
+          >
+            <Text style={[styles.buttonText, { color: 'white' }]}>{isSubmitting ? 'Saving...' : 'Sell'}</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 10,
+    padding: 20,
+    width: '100%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  hintText: {
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 10,
+  },
+  optionText: {
+    flex: 1,
+  },
+  optionName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  optionTerms: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  optionPrice: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginVertical: 10,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 10,
+  },
+  button: {
+    borderRadius: 8,
+    padding: 15,
+    flex: 1,
+    marginHorizontal: 5,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
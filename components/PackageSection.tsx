@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, Alert, useColorScheme } from 'react-native';
+import { Plus } from 'lucide-react-native';
+import { PatientPackage } from '../types';
+import { deletePatientPackage } from '../utils/mongoStorage';
+import { formatPackageBalance, isPackageUsable } from '../utils/packages';
+import PackageSaleForm from './PackageSaleForm';
+
+interface PackageSectionProps {
+  patientId: string;
+  packages: PatientPackage[];
+  onChange: () => void;
+}
+
+export default function PackageSection({ patientId, packages, onChange }: PackageSectionProps) {
+  const [modalVisible, setModalVisible] = useState(false);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    primaryColor: '#0A84FF',
+    labelColor: isDarkMode ? '#888888' : '#8E8E93',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+  };
+
+  const handleSellPackage = () => {
+    setModalVisible(false);
+    onChange();
+  };
+
+  const handleRemovePackage = (patientPackage: PatientPackage) => {
+    if (patientPackage.sessionsUsed > 0) return;
+
+    Alert.alert(
+      'Remove Package',
+      `Remove "${patientPackage.name}"? Use this for a package sold by mistake. Any invoice for it has to be voided separately.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deletePatientPackage(patientPackage.id);
+              onChange();
+            } catch (error) {
+              console.error('Error removing package:', error);
+              Alert.alert('Error', 'Failed to remove the package');
+            }
+          }
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: theme.textColor }]}>Packages</Text>
+        <TouchableOpacity style={styles.actionButton} onPress={() => setModalVisible(true)}>
+          <Plus size={16} color={theme.primaryColor} />
+          <Text style={[styles.actionText, { color: theme.primaryColor }]}>Sell</Text>
+        </TouchableOpacity>
+      </View>
+      {packages.length === 0 ? (
+        <Text style={[styles.emptyText, { color: theme.labelColor }]}>No prepaid packages</Text>
+      ) : (
+        <View style={[styles.card, { backgroundColor: theme.cardBackground }]}>
+          {packages.map(patientPackage => (
+            <TouchableOpacity
+              key={patientPackage.id}
+              style={styles.row}
+              onLongPress={() => handleRemovePackage(patientPackage)}
+              disabled={patientPackage.sessionsUsed > 0}
+            >
+              <Text style={[styles.packageName, { color: theme.textColor }]}>{patientPackage.name}</Text>
+              <Text
+                style={[
+                  styles.balance,
+                  { color: isPackageUsable(patientPackage) ? theme.primaryColor : theme.labelColor }
+                ]}
+              >
+                {formatPackageBalance(patientPackage)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+      {packages.some(patientPackage => patientPackage.sessionsUsed === 0) && (
+        <Text style={[styles.hint, { color: theme.labelColor }]}>Long press an unused package to remove it</Text>
+      )}
+
+      <Modal
+        visible={modalVisible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+          <View style={styles.modalContent}>
+            <PackageSaleForm
+              patientId={patientId}
+              onSave={handleSellPackage}
+              onCancel={() => setModalVisible(false)}
+            />
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginHorizontal: 5,
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  actionText: {
+    fontSize: 15,
+    marginLeft: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    marginHorizontal: 5,
+    marginBottom: 8,
+  },
+  card: {
+    borderRadius: 10,
+    padding: 12,
+    marginHorizontal: 5,
+    marginBottom: 16,
+  },
+  row: {
+    paddingVertical: 4,
+  },
+  packageName: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  balance: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 6,
+    marginBottom: 8,
+    marginHorizontal: 5,
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 500,
+  },
+});
@@ -1,7 +1,9 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, useColorScheme } from 'react-native';
-import { Patient } from '../types';
-import { CreditCard as Edit, Trash2, Calendar } from 'lucide-react-native';
+import { Patient, PatientPackage } from '../types';
+import { CreditCard as Edit, Trash2, Calendar, FileText, AlertTriangle, Package } from 'lucide-react-native';
+import { getAge, getGenderLabel, getReferralSourceLabel } from '../utils/patientUtils';
+import { formatPackageBalance, isPackageUsable } from '../utils/packages';
 
 interface PatientCardProps {
   patient: Patient;
@@ -9,9 +11,11 @@ interface PatientCardProps {
   onDelete: (patientId: string) => void;
   onAddSession: (patientId: string) => void;
   onViewSessions: (patientId: string) => void;
+  onViewDetails: (patientId: string) => void;
+  currentPackage?: PatientPackage | null;
 }
 
-export default function PatientCard({ patient, onEdit, onDelete, onAddSession, onViewSessions }: PatientCardProps) {
+export default function PatientCard({ patient, onEdit, onDelete, onAddSession, onViewSessions, onViewDetails, currentPackage }: PatientCardProps) {
   const colorScheme = useColorScheme();
   const isDarkMode = colorScheme === 'dark';
 
@@ -25,8 +29,25 @@ export default function PatientCard({ patient, onEdit, onDelete, onAddSession, o
     primaryButtonColor: '#0A84FF',
     secondaryButtonColor: '#5856D6',
     iconButtonColor: isDarkMode ? '#FFFFFF' : '#000000',
+    warningColor: '#FF453A',
+    packageColor: '#34C759',
+    packageWarningColor: '#FF9500',
   };
 
+  const redFlags = patient.medicalHistory?.redFlags || [];
+  const packageColor = currentPackage && isPackageUsable(currentPackage) ? theme.packageColor : theme.packageWarningColor;
+
+  const demographics = [
+    patient.dateOfBirth ? `${getAge(patient.dateOfBirth)} yrs` : '',
+    getGenderLabel(patient.gender),
+    patient.occupation || '',
+  ].filter(Boolean).join(' · ');
+
+  const referral = [
+    patient.referringDoctor || '',
+    getReferralSourceLabel(patient.referralSource),
+  ].filter(Boolean).join(' · ');
+
   return (
     <View style={[styles.card, { backgroundColor: theme.cardBackground }]}>
       <View style={styles.header}>
@@ -35,8 +56,17 @@ export default function PatientCard({ patient, onEdit, onDelete, onAddSession, o
           <Text style={[styles.patientId, { color: theme.contactLabelColor }]}>
             ID: {patient.id ? patient.id.substring(0, 8) : 'N/A'}
           </Text>
+          {demographics ? (
+            <Text style={[styles.demographics, { color: theme.contactLabelColor }]}>{demographics}</Text>
+          ) : null}
         </View>
         <View style={styles.actionButtons}>
+          <TouchableOpacity 
+            style={styles.iconButton}
+            onPress={() => onViewDetails(patient.id || '')}
+          >
+            <FileText size={20} color={theme.iconButtonColor} />
+          </TouchableOpacity>
           <TouchableOpacity 
             style={styles.iconButton}
             onPress={() => onEdit(patient)}
@@ -52,9 +82,44 @@ export default function PatientCard({ patient, onEdit, onDelete, onAddSession, o
         </View>
       </View>
       
-      <View style={styles.contactContainer}>
-        <Text style={[styles.contactLabel, { color: theme.contactLabelColor }]}>Contact:</Text>
-        <Text style={[styles.contactNumber, { color: theme.textColor }]}>{patient.contactNumber}</Text>
+      {redFlags.length > 0 && (
+        <View style={styles.redFlagRow}>
+          <AlertTriangle size={14} color={theme.warningColor} />
+          <Text style={[styles.redFlagText, { color: theme.warningColor }]} numberOfLines={2}>
+            {redFlags.join(', ')}
+          </Text>
+        </View>
+      )}
+
+      {/* A used up or expired package stays visible as a prompt to sell the next one */}
+      {currentPackage && (
+        <View style={styles.packageRow}>
+          <Package size={14} color={packageColor} />
+          <Text style={[styles.packageText, { color: packageColor }]} numberOfLines={1}>
+            {currentPackage.name}: {formatPackageBalance(currentPackage)}
+          </Text>
+        </View>
+      )}
+
+      <View style={styles.detailsContainer}>
+        <View style={styles.contactContainer}>
+          <Text style={[styles.contactLabel, { color: theme.contactLabelColor }]}>Contact:</Text>
+          <Text style={[styles.contactNumber, { color: theme.textColor }]}>{patient.contactNumber}</Text>
+        </View>
+
+        {patient.email ? (
+          <View style={styles.contactContainer}>
+            <Text style={[styles.contactLabel, { color: theme.contactLabelColor }]}>Email:</Text>
+            <Text style={[styles.detailValue, { color: theme.textColor }]} numberOfLines={1}>{patient.email}</Text>
+          </View>
+        ) : null}
+
+        {referral ? (
+          <View style={styles.contactContainer}>
+            <Text style={[styles.contactLabel, { color: theme.contactLabelColor }]}>Referred by:</Text>
+            <Text style={[styles.detailValue, { color: theme.textColor }]} numberOfLines={1}>{referral}</Text>
+          </View>
+        ) : null}
       </View>
       
       <View style={styles.buttonContainer}>
@@ -102,16 +167,45 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 2,
   },
+  demographics: {
+    fontSize: 13,
+    marginTop: 2,
+  },
   actionButtons: {
     flexDirection: 'row',
   },
   iconButton: {
     marginLeft: 10,
   },
+  redFlagRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  redFlagText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 5,
+  },
+  packageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  packageText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '500',
+    marginLeft: 5,
+  },
+  detailsContainer: {
+    marginBottom: 11,
+  },
   contactContainer: {
     flexDirection: 'row',
     alignItems: 'center',
-    marginBottom: 15,
+    marginBottom: 4,
   },
   contactLabel: {
     marginRight: 5,
@@ -119,6 +213,9 @@ const styles = StyleSheet.create({
   contactNumber: {
     fontWeight: '500',
   },
+  detailValue: {
+    flex: 1,
+  },
   buttonContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1,7 +1,22 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert, Modal, useColorScheme } from 'react-native';
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  Modal,
+  ScrollView,
+  Platform,
+  useColorScheme,
+  useWindowDimensions
+} from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
 import { savePatient, updatePatient } from '../utils/mongoStorage';
-import { Patient } from '../types';
+import { Patient, Gender, ReferralSource } from '../types';
+import { formatDateKey, parseDateKey } from '../utils/calendarUtils';
+import { GENDER_OPTIONS, REFERRAL_SOURCE_OPTIONS } from '../utils/patientUtils';
 
 interface PatientFormProps {
   existingPatient?: Patient;
@@ -9,9 +24,19 @@ interface PatientFormProps {
   onCancel: () => void;
 }
 
+interface PatientFormErrors {
+  name?: string;
+  contactNumber?: string;
+  email?: string;
+  emergencyContact?: string;
+}
+
+const PHONE_PATTERN = /^\+?[0-9\s-()]{8,15}$/;
+
 export default function PatientForm({ existingPatient, onSave, onCancel }: PatientFormProps) {
   const colorScheme = useColorScheme();
   const isDarkMode = colorScheme === 'dark';
+  const { height: windowHeight } = useWindowDimensions();
 
   const theme = {
     backgroundColor: isDarkMode ? '#1E1E1E' : '#F2F2F7',
@@ -23,114 +48,322 @@ export default function PatientForm({ existingPatient, onSave, onCancel }: Patie
     cancelButtonBackground: isDarkMode ? '#444444' : '#E5E5EA',
     buttonTextColor: 'white',
     errorColor: '#FF453A',
+    primaryColor: '#0A84FF',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+    separatorColor: isDarkMode ? '#333333' : '#EFEFEF',
   };
 
   const [name, setName] = useState(existingPatient?.name || '');
   const [contactNumber, setContactNumber] = useState(existingPatient?.contactNumber || '');
+  const [dateOfBirth, setDateOfBirth] = useState<string | null>(existingPatient?.dateOfBirth || null);
+  const [gender, setGender] = useState<Gender | null>(existingPatient?.gender || null);
+  const [email, setEmail] = useState(existingPatient?.email || '');
+  const [address, setAddress] = useState(existingPatient?.address || '');
+  const [occupation, setOccupation] = useState(existingPatient?.occupation || '');
+  const [emergencyName, setEmergencyName] = useState(existingPatient?.emergencyContact?.name || '');
+  const [emergencyRelationship, setEmergencyRelationship] = useState(existingPatient?.emergencyContact?.relationship || '');
+  const [emergencyPhone, setEmergencyPhone] = useState(existingPatient?.emergencyContact?.phone || '');
+  const [referringDoctor, setReferringDoctor] = useState(existingPatient?.referringDoctor || '');
+  const [referralSource, setReferralSource] = useState<ReferralSource | null>(existingPatient?.referralSource || null);
+  const [showDatePicker, setShowDatePicker] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [errors, setErrors] = useState<{ name?: string; contactNumber?: string }>({});
+  const [errors, setErrors] = useState<PatientFormErrors>({});
 
   const validateForm = (): boolean => {
-    const newErrors: { name?: string; contactNumber?: string } = {};
-    
+    const newErrors: PatientFormErrors = {};
+
     if (!name.trim()) {
       newErrors.name = 'Patient name is required';
     }
-    
+
     if (!contactNumber.trim()) {
       newErrors.contactNumber = 'Contact number is required';
-    } else if (!/^\+?[0-9\s-()]{8,15}$/.test(contactNumber.trim())) {
+    } else if (!PHONE_PATTERN.test(contactNumber.trim())) {
       newErrors.contactNumber = 'Please enter a valid contact number';
     }
-    
+
+    if (email.trim() && !/\S+@\S+\.\S+/.test(email.trim())) {
+      newErrors.email = 'Please enter a valid email address';
+    }
+
+    if (emergencyPhone.trim() && !PHONE_PATTERN.test(emergencyPhone.trim())) {
+      newErrors.emergencyContact = 'Please enter a valid emergency contact number';
+    } else if (emergencyPhone.trim() && !emergencyName.trim()) {
+      newErrors.emergencyContact = 'Emergency contact name is required';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
+  const handleDateChange = (event: any, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowDatePicker(false);
+    }
+
+    if (selectedDate) {
+      setDateOfBirth(formatDateKey(selectedDate));
+    }
+  };
+
   const handleSubmit = async () => {
     if (!validateForm()) {
       return;
     }
-    
+
+    const patientData = {
+      name: name.trim(),
+      contactNumber: contactNumber.trim(),
+      dateOfBirth,
+      gender,
+      email: email.trim(),
+      address: address.trim(),
+      occupation: occupation.trim(),
+      emergencyContact: {
+        name: emergencyName.trim(),
+        relationship: emergencyRelationship.trim(),
+        phone: emergencyPhone.trim(),
+      },
+      referringDoctor: referringDoctor.trim(),
+      referralSource,
+    };
+
     try {
       setIsSubmitting(true);
-      
+
       if (existingPatient) {
         const updatedPatientData: Patient = {
           ...existingPatient,
-          name: name.trim(),
-          contactNumber: contactNumber.trim(),
+          ...patientData,
         };
-        
+
         await updatePatient(updatedPatientData);
         onSave(updatedPatientData);
       } else {
-        const newPatient = await savePatient({
-          name: name.trim(),
-          contactNumber: contactNumber.trim(),
-        });
-        
+        const newPatient = await savePatient(patientData);
+
         onSave(newPatient);
       }
-    } catch (error) {
-      Alert.alert('Error', 'Failed to save patient information');
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save patient information');
       console.error('Error saving patient:', error);
     } finally {
       setIsSubmitting(false);
     }
   };
 
+  const renderInput = (
+    label: string,
+    value: string,
+    onChangeText: (text: string) => void,
+    placeholder: string,
+    options: { error?: string; keyboardType?: 'default' | 'phone-pad' | 'email-address'; multiline?: boolean } = {}
+  ) => (
+    <View style={styles.formGroup}>
+      <Text style={[styles.label, { color: theme.textColor }]}>{label}</Text>
+      <TextInput
+        style={[
+          styles.input,
+          { backgroundColor: theme.inputBackground, borderColor: theme.borderColor, color: theme.textColor },
+          options.multiline ? styles.multilineInput : null,
+          options.error ? styles.inputError : null
+        ]}
+        value={value}
+        onChangeText={onChangeText}
+        placeholder={placeholder}
+        keyboardType={options.keyboardType || 'default'}
+        autoCapitalize={options.keyboardType === 'email-address' ? 'none' : 'sentences'}
+        multiline={options.multiline}
+        placeholderTextColor={theme.placeholderColor}
+      />
+      {options.error ? <Text style={[styles.errorText, { color: theme.errorColor }]}>{options.error}</Text> : null}
+    </View>
+  );
+
+  const renderChips = <T extends string>(
+    options: { value: T; label: string }[],
+    selected: T | null,
+    onSelect: (value: T | null) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map(option => {
+        const isSelected = option.value === selected;
+        return (
+          <TouchableOpacity
+            key={option.value}
+            style={[
+              styles.chip,
+              { borderColor: isSelected ? theme.primaryColor : theme.borderColor },
+              isSelected ? { backgroundColor: theme.primaryColor } : null
+            ]}
+            // Tapping the selected chip again clears the choice
+            onPress={() => onSelect(isSelected ? null : option.value)}
+          >
+            <Text style={[styles.chipText, { color: isSelected ? 'white' : theme.textColor }]}>{option.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const pickerValue = dateOfBirth ? parseDateKey(dateOfBirth) : new Date(1990, 0, 1);
+
   return (
-    <View style={[styles.container, { backgroundColor: theme.backgroundColor }]}>
-      <Text style={[styles.title, { color: theme.textColor }]}>
-        {existingPatient ? 'Edit Patient' : 'Add New Patient'}
-      </Text>
-      
-      <View style={styles.formGroup}>
-        <Text style={[styles.label, { color: theme.textColor }]}>Patient Name</Text>
-        <TextInput
-          style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.borderColor }, errors.name ? styles.inputError : null]}
-          value={name}
-          onChangeText={setName}
-          placeholder="Enter patient name"
-          autoCapitalize="words"
-          placeholderTextColor={isDarkMode ? '#888888' : '#999999'}
-        />
-        {errors.name ? <Text style={[styles.errorText, { color: theme.errorColor }]}>{errors.name}</Text> : null}
-      </View>
-      
-      <View style={styles.formGroup}>
-        <Text style={[styles.label, { color: theme.textColor }]}>Contact Number</Text>
-        <TextInput
-          style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.borderColor }, errors.contactNumber ? styles.inputError : null]}
-          value={contactNumber}
-          onChangeText={setContactNumber}
-          placeholder="Enter contact number"
-          keyboardType="phone-pad"
-          placeholderTextColor={isDarkMode ? '#888888' : '#999999'}
+    <View style={[styles.container, { backgroundColor: theme.backgroundColor, maxHeight: windowHeight * 0.9 }]}>
+      <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <Text style={[styles.title, { color: theme.textColor }]}>
+          {existingPatient ? 'Edit Patient' : 'Add New Patient'}
+        </Text>
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Patient Name</Text>
+          <TextInput
+            style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.borderColor }, errors.name ? styles.inputError : null]}
+            value={name}
+            onChangeText={setName}
+            placeholder="Enter patient name"
+            autoCapitalize="words"
+            placeholderTextColor={theme.placeholderColor}
+          />
+          {errors.name ? <Text style={[styles.errorText, { color: theme.errorColor }]}>{errors.name}</Text> : null}
+        </View>
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Contact Number</Text>
+          <TextInput
+            style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.borderColor }, errors.contactNumber ? styles.inputError : null]}
+            value={contactNumber}
+            onChangeText={setContactNumber}
+            placeholder="Enter contact number"
+            keyboardType="phone-pad"
+            placeholderTextColor={theme.placeholderColor}
+          />
+          {errors.contactNumber ? <Text style={[styles.errorText, { color: theme.errorColor }]}>{errors.contactNumber}</Text> : null}
+        </View>
+
+        <View style={styles.formGroup}>
+          <View style={styles.labelRow}>
+            <Text style={[styles.label, { color: theme.textColor }]}>Date of Birth</Text>
+            {dateOfBirth ? (
+              <TouchableOpacity onPress={() => setDateOfBirth(null)}>
+                <Text style={[styles.clearText, { color: theme.primaryColor }]}>Clear</Text>
+              </TouchableOpacity>
+            ) : null}
+          </View>
+          <TouchableOpacity
+            style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.borderColor }]}
+            onPress={() => setShowDatePicker(true)}
+          >
+            <Text style={{ color: dateOfBirth ? theme.textColor : theme.placeholderColor }}>
+              {dateOfBirth ? parseDateKey(dateOfBirth).toLocaleDateString() : 'Select date of birth'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Gender</Text>
+          {renderChips(GENDER_OPTIONS, gender, setGender)}
+        </View>
+
+        {renderInput('Email', email, setEmail, 'Enter email address', { error: errors.email, keyboardType: 'email-address' })}
+        {renderInput('Address', address, setAddress, 'Enter address', { multiline: true })}
+        {renderInput('Occupation', occupation, setOccupation, 'Enter occupation')}
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Emergency Contact</Text>
+          <TextInput
+            style={[styles.input, styles.stackedInput, { backgroundColor: theme.inputBackground, borderColor: theme.borderColor, color: theme.textColor }]}
+            value={emergencyName}
+            onChangeText={setEmergencyName}
+            placeholder="Name"
+            autoCapitalize="words"
+            placeholderTextColor={theme.placeholderColor}
+          />
+          <TextInput
+            style={[styles.input, styles.stackedInput, { backgroundColor: theme.inputBackground, borderColor: theme.borderColor, color: theme.textColor }]}
+            value={emergencyRelationship}
+            onChangeText={setEmergencyRelationship}
+            placeholder="Relationship"
+            placeholderTextColor={theme.placeholderColor}
+          />
+          <TextInput
+            style={[
+              styles.input,
+              { backgroundColor: theme.inputBackground, borderColor: theme.borderColor, color: theme.textColor },
+              errors.emergencyContact ? styles.inputError : null
+            ]}
+            value={emergencyPhone}
+            onChangeText={setEmergencyPhone}
+            placeholder="Phone number"
+            keyboardType="phone-pad"
+            placeholderTextColor={theme.placeholderColor}
+          />
+          {errors.emergencyContact ? <Text style={[styles.errorText, { color: theme.errorColor }]}>{errors.emergencyContact}</Text> : null}
+        </View>
+
+        {renderInput('Referring Doctor', referringDoctor, setReferringDoctor, 'Enter referring doctor')}
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Referral Source</Text>
+          {renderChips(REFERRAL_SOURCE_OPTIONS, referralSource, setReferralSource)}
+        </View>
+
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.cancelButtonBackground }]}
+            onPress={onCancel}
+            disabled={isSubmitting}
+          >
+            <Text style={[styles.buttonText, { color: theme.buttonTextColor }]}>Cancel</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.saveButtonBackground }, isSubmitting ? styles.disabledButton : null]}
+            onPress={handleSubmit}
+            disabled={isSubmitting}
+          >
+            <Text style={[styles.buttonText, { color: theme.buttonTextColor }]}>
+              {isSubmitting ? 'Saving...' : existingPatient ? 'Update' : 'Save'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+
+      {showDatePicker && Platform.OS === 'ios' && (
+        <Modal transparent={true} animationType="slide" visible={showDatePicker}>
+          <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+            <View style={[styles.datePickerContainer, { backgroundColor: theme.backgroundColor }]}>
+              <View style={[styles.datePickerHeader, { borderBottomColor: theme.separatorColor }]}>
+                <TouchableOpacity onPress={() => setShowDatePicker(false)}>
+                  <Text style={[styles.datePickerDoneText, { color: theme.primaryColor }]}>Done</Text>
+                </TouchableOpacity>
+              </View>
+              <DateTimePicker
+                value={pickerValue}
+                mode="date"
+                display="spinner"
+                onChange={handleDateChange}
+                maximumDate={new Date()}
+                style={styles.datePicker}
+                textColor={theme.textColor}
+                themeVariant={isDarkMode ? 'dark' : 'light'}
+              />
+            </View>
+          </View>
+        </Modal>
+      )}
+
+      {showDatePicker && Platform.OS !== 'ios' && (
+        <DateTimePicker
+          value={pickerValue}
+          mode="date"
+          display="default"
+          onChange={handleDateChange}
+          maximumDate={new Date()}
+          themeVariant={isDarkMode ? 'dark' : 'light'}
         />
-        {errors.contactNumber ? <Text style={[styles.errorText, { color: theme.errorColor }]}>{errors.contactNumber}</Text> : null}
-      </View>
-      
-      <View style={styles.buttonContainer}>
-        <TouchableOpacity
-          style={[styles.button, { backgroundColor: theme.cancelButtonBackground }]}
-          onPress={onCancel}
-          disabled={isSubmitting}
-        >
-          <Text style={[styles.buttonText, { color: theme.buttonTextColor }]}>Cancel</Text>
-        </TouchableOpacity>
-        
-        <TouchableOpacity
-          style={[styles.button, { backgroundColor: theme.saveButtonBackground }, isSubmitting ? styles.disabledButton : null]}
-          onPress={handleSubmit}
-          disabled={isSubmitting}
-        >
-          <Text style={[styles.buttonText, { color: theme.buttonTextColor }]}>
-            {isSubmitting ? 'Saving...' : existingPatient ? 'Update' : 'Save'}
-          </Text>
-        </TouchableOpacity>
-      </View>
+      )}
     </View>
   );
 }
@@ -155,12 +388,28 @@ const styles = StyleSheet.create({
     marginBottom: 5,
     fontWeight: '500',
   },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  clearText: {
+    fontSize: 14,
+    marginBottom: 5,
+  },
   input: {
     borderWidth: 1,
     borderRadius: 8,
     padding: 12,
     fontSize: 16,
   },
+  stackedInput: {
+    marginBottom: 8,
+  },
+  multilineInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
   inputError: {
     borderColor: '#FF3B30',
   },
@@ -168,6 +417,21 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginTop: 5,
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
   buttonContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -190,4 +454,28 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     fontSize: 16,
   },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  datePickerContainer: {
+    borderRadius: 10,
+    width: '100%',
+    position: 'absolute',
+    bottom: 0,
+  },
+  datePickerHeader: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    padding: 15,
+    borderBottomWidth: 1,
+  },
+  datePickerDoneText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  datePicker: {
+    height: 200,
+  },
 });
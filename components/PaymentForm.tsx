@@ -0,0 +1,271 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  useColorScheme,
+  ScrollView,
+  useWindowDimensions
+} from 'react-native';
+import { recordPayment } from '../utils/mongoStorage';
+import { Payment, PaymentMethod, PaymentType, Session } from '../types';
+import { formatDateKey, parseDateKey } from '../utils/calendarUtils';
+import { formatMoney, getCurrency } from '../utils/currency';
+import { MAX_REFERENCE_LENGTH, PAYMENT_METHOD_OPTIONS, PAYMENT_TYPE_OPTIONS, getAmountDue } from '../utils/payments';
+
+interface PaymentFormProps {
+  patientId: string;
+  sessions: Session[]; // The patient's sessions; those with a fee still due can be paid against
+  onSave: (payment: Payment) => void;
+  onCancel: () => void;
+}
+
+// Records a payment or refund for a patient. A payment that isn't against a session counts
+// towards the overall balance, so it also covers advances.
+export default function PaymentForm({ patientId, sessions, onSave, onCancel }: PaymentFormProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const { height: windowHeight } = useWindowDimensions();
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#1E1E1E' : '#F2F2F7',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    inputBackground: isDarkMode ? '#333333' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    saveButtonBackground: '#0A84FF',
+    cancelButtonBackground: isDarkMode ? '#444444' : '#E5E5EA',
+    primaryColor: '#0A84FF',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    subtitleColor: '#8E8E93',
+  };
+
+  const dueSessions = sessions
+    .filter(session => getAmountDue(session) > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const [type, setType] = useState<PaymentType>('payment');
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [reference, setReference] = useState('');
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Choosing a session fills in what is still due on it
+  const handleSelectSession = (session: Session | null) => {
+    setSessionId(session ? session.id : null);
+    if (session) setAmount(getAmountDue(session).toString());
+  };
+
+  const handleSubmit = async () => {
+    const numAmount = parseFloat(amount);
+    if (!amount.trim() || isNaN(numAmount) || numAmount <= 0) {
+      Alert.alert('Invalid Amount', 'Please enter an amount greater than zero');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      onSave(await recordPayment({
+        patientId,
+        sessionId: type === 'payment' ? sessionId : null,
+        type,
+        amount: numAmount,
+        method,
+        reference: reference.trim(),
+        date: formatDateKey(new Date()),
+        notes: notes.trim()
+      }));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to record the payment');
+      console.error('Error recording payment:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: isSelected ? theme.primaryColor : theme.borderColor },
+        isSelected ? { backgroundColor: theme.primaryColor } : null
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: isSelected ? 'white' : theme.textColor }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const inputStyle = [styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.borderColor, color: theme.textColor }];
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundColor, maxHeight: windowHeight * 0.9 }]}>
+      <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <Text style={[styles.title, { color: theme.textColor }]}>Record Payment</Text>
+
+        <View style={styles.formGroup}>
+          <View style={styles.chipRow}>
+            {PAYMENT_TYPE_OPTIONS.map(option => renderChip(
+              option.value,
+              option.label,
+              option.value === type,
+              () => setType(option.value)
+            ))}
+          </View>
+        </View>
+
+        {type === 'payment' && (
+          <View style={styles.formGroup}>
+            <Text style={[styles.label, { color: theme.textColor }]}>Towards</Text>
+            <View style={styles.chipRow}>
+              {renderChip('none', 'Balance / advance', sessionId === null, () => handleSelectSession(null))}
+              {dueSessions.map(session => renderChip(
+                session.id,
+                `${parseDateKey(session.date).toLocaleDateString()} · ${formatMoney(getAmountDue(session))}`,
+                session.id === sessionId,
+                () => handleSelectSession(session)
+              ))}
+            </View>
+          </View>
+        )}
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Amount ({getCurrency()})</Text>
+          <TextInput
+            style={inputStyle}
+            value={amount}
+            onChangeText={setAmount}
+            placeholder="Enter amount"
+            placeholderTextColor={theme.placeholderColor}
+            keyboardType="decimal-pad"
+          />
+        </View>
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Method</Text>
+          <View style={styles.chipRow}>
+            {PAYMENT_METHOD_OPTIONS.map(option => renderChip(
+              option.value,
+              option.label,
+              option.value === method,
+              () => setMethod(option.value)
+            ))}
+          </View>
+          {method !== 'cash' && (
+            <TextInput
+              style={inputStyle}
+              value={reference}
+              onChangeText={setReference}
+              placeholder="Reference (optional)"
+              placeholderTextColor={theme.placeholderColor}
+              maxLength={MAX_REFERENCE_LENGTH}
+            />
+          )}
+        </View>
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Notes</Text>
+          <TextInput
+            style={inputStyle}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder={type === 'refund' ? 'e.g. Unused sessions refunded' : 'Optional'}
+            placeholderTextColor={theme.placeholderColor}
+          />
+          <Text style={[styles.hintText, { color: theme.subtitleColor }]}>
+            Recorded for today, {parseDateKey(formatDateKey(new Date())).toLocaleDateString()}
+          </Text>
+        </View>
+
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.cancelButtonBackground }, isSubmitting ? styles.disabledButton : null]}
+            onPress={onCancel}
+            disabled={isSubmitting}
+          >
+            <Text style={[styles.buttonText, { color: theme.textColor }]}>Cancel</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.saveButtonBackground }, isSubmitting ? styles.disabledButton : null]}
+            onPress={handleSubmit}
+            disabled={isSubmitting}
+          >
+            <Text style={[styles.buttonText, { color: 'white' }]}>{isSubmitting ? 'Saving...' : 'Record'}</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 10,
+    padding: 20,
+    width: '100%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  formGroup: {
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 5,
+    fontWeight: '500',
+  },
+  hintText: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 10,
+  },
+  button: {
+    borderRadius: 8,
+    padding: 15,
+    flex: 1,
+    marginHorizontal: 5,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { 
   View, 
   Text, 
@@ -7,20 +7,39 @@ import {
   StyleSheet, 
   Modal, 
   useColorScheme,
-  Platform
+  Platform,
+  Switch,
+  Alert
 } from 'react-native';
-import { Session } from '../types';
+import { PaymentMethod, Session } from '../types';
+import { completeSession, recordPayment, saveInvoice, updateInvoiceStatus } from '../utils/mongoStorage';
+import { formatDateKey, parseDateKey } from '../utils/calendarUtils';
+import { buildSessionItem } from '../utils/invoices';
+import { formatMoney, getCurrency } from '../utils/currency';
+import { MAX_REFERENCE_LENGTH, PAYMENT_METHOD_OPTIONS, getAmountDue } from '../utils/payments';
 
 interface PaymentModalProps {
   visible: boolean;
   session: Session;
-  onConfirm: (amount: number) => void;
+  onConfirm: () => void;
   onCancel: () => void;
 }
 
+// Completes a session with its fee and records what the patient paid towards it. For a session
+// that is already completed, records a further payment against what is still due.
 export default function PaymentModal({ visible, session, onConfirm, onCancel }: PaymentModalProps) {
-  const [amount, setAmount] = useState(session.amount?.toString() || '');
+  const isCompleting = session.status !== 'completed';
+  const amountDue = getAmountDue(session);
+
+  const [fee, setFee] = useState(session.amount?.toString() || '');
+  const [received, setReceived] = useState(isCompleting ? fee : amountDue.toString());
+  // Until the amount received is edited it follows the fee
+  const [receivedEdited, setReceivedEdited] = useState(!isCompleting);
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [reference, setReference] = useState('');
   const [error, setError] = useState('');
+  const [issueInvoice, setIssueInvoice] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   
   const colorScheme = useColorScheme();
   const isDarkMode = colorScheme === 'dark';
@@ -33,29 +52,96 @@ export default function PaymentModal({ visible, session, onConfirm, onCancel }:
     primaryColor: '#0A84FF',
     errorColor: '#FF453A',
     placeholderColor: isDarkMode ? '#888888' : '#999999',
+    subtitleColor: '#8E8E93',
     modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
   };
 
-  const handleConfirm = () => {
-    // Validate amount
-    if (!amount.trim()) {
-      setError('Please enter an amount');
+  const inputStyle = (hasError: boolean) => [
+    styles.input,
+    {
+      backgroundColor: isDarkMode ? '#333333' : 'white',
+      borderColor: hasError ? theme.errorColor : theme.borderColor,
+      color: theme.textColor
+    }
+  ];
+
+  const handleFeeChange = (value: string) => {
+    setFee(value);
+    if (!receivedEdited) setReceived(value);
+  };
+
+  const handleReceivedChange = (value: string) => {
+    setReceived(value);
+    setReceivedEdited(true);
+  };
+
+  // Bills the session on its own invoice, marked as paid when the fee has been paid in full
+  const issueSessionInvoice = async (sessionFee: number, isPaidInFull: boolean) => {
+    const issueDate = formatDateKey(new Date());
+    const invoice = await saveInvoice({
+      patientId: session.patientId,
+      issueDate,
+      dueDate: null,
+      items: [buildSessionItem({ ...session, amount: sessionFee })],
+      discountPercent: 0,
+      notes: ''
+    });
+    if (isPaidInFull) {
+      await updateInvoiceStatus(invoice.id, 'paid');
+    }
+  };
+
+  const handleConfirm = async () => {
+    const sessionFee = isCompleting ? parseFloat(fee) : session.amount || 0;
+    if (isCompleting && (!fee.trim() || isNaN(sessionFee) || sessionFee < 0)) {
+      setError('Please enter the session fee');
+      return;
+    }
+
+    // Leaving the amount received empty records the fee as due
+    const amountReceived = received.trim() ? parseFloat(received) : 0;
+    if (isNaN(amountReceived) || amountReceived < 0) {
+      setError('Please enter a valid amount received');
+      return;
+    }
+    if (!isCompleting && amountReceived === 0) {
+      setError('Please enter the amount received');
       return;
     }
 
-    const numAmount = parseFloat(amount);
-    if (isNaN(numAmount) || numAmount < 0) {
-      setError('Please enter a valid amount');
+    const payment = amountReceived > 0
+      ? { amount: amountReceived, method, reference: reference.trim(), date: formatDateKey(new Date()) }
+      : null;
+
+    try {
+      setIsSubmitting(true);
+      // The server completes the session and records its payment together
+      if (isCompleting) {
+        await completeSession(session.id, sessionFee, payment);
+      } else if (payment) {
+        await recordPayment({ ...payment, patientId: session.patientId, sessionId: session.id, type: 'payment', notes: '' });
+      }
+    } catch (saveError: any) {
+      setError(saveError.message || 'Failed to save the payment');
+      setIsSubmitting(false);
       return;
     }
 
-    onConfirm(numAmount);
-    setAmount('');
+    // The payment is saved by now, so a failed invoice is reported without asking to pay again
+    if (issueInvoice) {
+      try {
+        await issueSessionInvoice(sessionFee, (session.amountPaid || 0) + amountReceived >= sessionFee);
+      } catch (invoiceError: any) {
+        Alert.alert('Invoice Not Issued', `The payment was saved, but the invoice could not be issued: ${invoiceError.message || 'please try again'}. You can issue it from the patient's page.`);
+      }
+    }
+
+    setIsSubmitting(false);
     setError('');
+    onConfirm();
   };
 
   const handleCancel = () => {
-    setAmount('');
     setError('');
     onCancel();
   };
@@ -69,36 +155,94 @@ export default function PaymentModal({ visible, session, onConfirm, onCancel }:
     >
       <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
         <View style={[styles.modalContent, { backgroundColor: theme.cardBackground }]}>
-          <Text style={[styles.title, { color: theme.textColor }]}>Session Payment</Text>
+          <Text style={[styles.title, { color: theme.textColor }]}>
+            {isCompleting ? 'Session Payment' : 'Record Payment'}
+          </Text>
           
           <Text style={[styles.patientName, { color: theme.textColor }]}>
             Patient: {session.patientName}
           </Text>
           
           <Text style={[styles.sessionDate, { color: theme.textColor }]}>
-            Date: {new Date(session.date).toLocaleDateString()} at {session.time}
+            Date: {parseDateKey(session.date).toLocaleDateString()} at {session.time}
           </Text>
           
+          {isCompleting ? (
+            <View style={styles.inputContainer}>
+              <Text style={[styles.label, { color: theme.textColor }]}>Session Fee ({getCurrency()})</Text>
+              <TextInput
+                style={inputStyle(Boolean(error) && !fee.trim())}
+                value={fee}
+                onChangeText={handleFeeChange}
+                placeholder="Enter fee"
+                placeholderTextColor={theme.placeholderColor}
+                keyboardType="decimal-pad"
+                autoFocus={true}
+              />
+            </View>
+          ) : (
+            <Text style={[styles.dueText, { color: theme.subtitleColor }]}>
+              Fee {formatMoney(session.amount || 0)} · Paid {formatMoney(session.amountPaid || 0)} · Due {formatMoney(amountDue)}
+            </Text>
+          )}
+
           <View style={styles.inputContainer}>
-            <Text style={[styles.label, { color: theme.textColor }]}>Amount Paid ($)</Text>
+            <Text style={[styles.label, { color: theme.textColor }]}>Amount Received ({getCurrency()})</Text>
             <TextInput
-              style={[
-                styles.input, 
-                { 
-                  backgroundColor: isDarkMode ? '#333333' : 'white',
-                  borderColor: error ? theme.errorColor : theme.borderColor,
-                  color: theme.textColor
-                }
-              ]}
-              value={amount}
-              onChangeText={setAmount}
-              placeholder="Enter amount"
+              style={inputStyle(false)}
+              value={received}
+              onChangeText={handleReceivedChange}
+              placeholder={isCompleting ? 'Leave empty if not paid yet' : 'Enter amount'}
               placeholderTextColor={theme.placeholderColor}
               keyboardType="decimal-pad"
-              autoFocus={true}
+              autoFocus={!isCompleting}
             />
-            {error ? <Text style={[styles.errorText, { color: theme.errorColor }]}>{error}</Text> : null}
           </View>
+
+          <View style={styles.chipRow}>
+            {PAYMENT_METHOD_OPTIONS.map(option => {
+              const isSelected = option.value === method;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.chip,
+                    { borderColor: isSelected ? theme.primaryColor : theme.borderColor },
+                    isSelected ? { backgroundColor: theme.primaryColor } : null
+                  ]}
+                  onPress={() => setMethod(option.value)}
+                >
+                  <Text style={[styles.chipText, { color: isSelected ? 'white' : theme.textColor }]}>{option.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {method !== 'cash' && (
+            <View style={styles.inputContainer}>
+              <TextInput
+                style={inputStyle(false)}
+                value={reference}
+                onChangeText={setReference}
+                placeholder="Reference (optional)"
+                placeholderTextColor={theme.placeholderColor}
+                maxLength={MAX_REFERENCE_LENGTH}
+              />
+            </View>
+          )}
+
+          {error ? <Text style={[styles.errorText, { color: theme.errorColor }]}>{error}</Text> : null}
+
+          {!session.invoiceId && (
+            <View style={styles.switchRow}>
+              <Text style={[styles.label, styles.switchLabel, { color: theme.textColor }]}>Issue an invoice</Text>
+              <Switch
+                value={issueInvoice}
+                onValueChange={setIssueInvoice}
+                trackColor={{ false: theme.borderColor, true: theme.primaryColor }}
+              />
+            </View>
+          )}
           
           <View style={styles.buttonContainer}>
             <TouchableOpacity
@@ -109,10 +253,11 @@ export default function PaymentModal({ visible, session, onConfirm, onCancel }:
             </TouchableOpacity>
             
             <TouchableOpacity
-              style={[styles.button, styles.confirmButton, { backgroundColor: theme.primaryColor }]}
+              style={[styles.button, styles.confirmButton, { backgroundColor: theme.primaryColor }, isSubmitting ? styles.disabledButton : null]}
               onPress={handleConfirm}
+              disabled={isSubmitting}
             >
-              <Text style={[styles.buttonText, { color: 'white' }]}>Confirm</Text>
+              <Text style={[styles.buttonText, { color: 'white' }]}>{isSubmitting ? 'Saving...' : 'Confirm'}</Text>
             </TouchableOpacity>
           </View>
         </View>
@@ -161,7 +306,27 @@ const styles = StyleSheet.create({
     marginBottom: 20,
   },
   inputContainer: {
-    marginBottom: 20,
+    marginBottom: 15,
+  },
+  dueText: {
+    fontSize: 15,
+    marginBottom: 15,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 10,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
   },
   label: {
     fontSize: 16,
@@ -175,9 +340,21 @@ const styles = StyleSheet.create({
     fontSize: 16,
   },
   errorText: {
-    marginTop: 5,
+    marginBottom: 10,
     fontSize: 14,
   },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 20,
+  },
+  switchLabel: {
+    marginBottom: 0,
+  },
+  disabledButton: {
+    opacity: 0.7,
+  },
   buttonContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
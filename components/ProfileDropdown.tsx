@@ -12,7 +12,7 @@ import {
   Platform,
 } from 'react-native';
 import { useRouter } from 'expo-router';
-import { User, ChevronDown, LogOut, Settings } from 'lucide-react-native';
+import { User, ChevronDown, LogOut, Settings, Clock, FileText, Dumbbell, ClipboardCheck, Package, Wallet, Stethoscope } from 'lucide-react-native';
 import { useAuth } from '../utils/AuthContext';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
@@ -65,6 +65,41 @@ export default function ProfileDropdown() {
     router.push('/profile' as any);
   };
 
+  const navigateToAvailability = () => {
+    setIsOpen(false);
+    router.push('/availability' as any);
+  };
+
+  const navigateToNoteTemplates = () => {
+    setIsOpen(false);
+    router.push('/note-templates' as any);
+  };
+
+  const navigateToConsentTemplates = () => {
+    setIsOpen(false);
+    router.push('/consent-templates' as any);
+  };
+
+  const navigateToServices = () => {
+    setIsOpen(false);
+    router.push('/services' as any);
+  };
+
+  const navigateToPackages = () => {
+    setIsOpen(false);
+    router.push('/packages' as any);
+  };
+
+  const navigateToDues = () => {
+    setIsOpen(false);
+    router.push('/dues' as any);
+  };
+
+  const navigateToExercises = () => {
+    setIsOpen(false);
+    router.push('/exercises' as any);
+  };
+
   const toggleDropdown = () => {
     setIsOpen(!isOpen);
   };
@@ -162,6 +197,69 @@ export default function ProfileDropdown() {
               <Text style={[styles.menuText, { color: theme.textColor }]}>Profile Settings</Text>
             </TouchableOpacity>
 
+            <TouchableOpacity 
+              style={styles.menuItem} 
+              onPress={navigateToAvailability}
+              activeOpacity={0.7}
+            >
+              <Clock size={20} color={isDarkMode ? 'white' : 'black'} style={styles.menuIcon} />
+              <Text style={[styles.menuText, { color: theme.textColor }]}>Availability</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity 
+              style={styles.menuItem} 
+              onPress={navigateToNoteTemplates}
+              activeOpacity={0.7}
+            >
+              <FileText size={20} color={isDarkMode ? 'white' : 'black'} style={styles.menuIcon} />
+              <Text style={[styles.menuText, { color: theme.textColor }]}>Note Templates</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity 
+              style={styles.menuItem} 
+              onPress={navigateToConsentTemplates}
+              activeOpacity={0.7}
+            >
+              <ClipboardCheck size={20} color={isDarkMode ? 'white' : 'black'} style={styles.menuIcon} />
+              <Text style={[styles.menuText, { color: theme.textColor }]}>Consent Forms</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity 
+              style={styles.menuItem} 
+              onPress={navigateToServices}
+              activeOpacity={0.7}
+            >
+              <Stethoscope size={20} color={isDarkMode ? 'white' : 'black'} style={styles.menuIcon} />
+              <Text style={[styles.menuText, { color: theme.textColor }]}>Services</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity 
+              style={styles.menuItem} 
+              onPress={navigateToPackages}
+              activeOpacity={0.7}
+            >
+              <Package size={20} color={isDarkMode ? 'white' : 'black'} style={styles.menuIcon} />
+              <Text style={[styles.menuText, { color: theme.textColor }]}>Packages</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity 
+              style={styles.menuItem} 
+              onPress={navigateToDues}
+              activeOpacity={0.7}
+            >
+              <Wallet size={20} color={isDarkMode ? 'white' : 'black'} style={styles.menuIcon} />
+              <Text style={[styles.menuText, { color: theme.textColor }]}>Dues</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity 
+              style={styles.menuItem} 
+              onPress={navigateToExercises}
+              activeOpacity={0.7}
+            >
+              <Dumbbell size={20} color={isDarkMode ? 'white' : 'black'} style={styles.menuIcon} />
+              <Text style={[styles.menuText, { color: theme.textColor }]}>Exercise Library</Text>
+            </TouchableOpacity>
+
             <TouchableOpacity 
               style={styles.menuItem} 
               onPress={handleLogout}
@@ -0,0 +1,241 @@
+import React, { useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  Platform,
+  useColorScheme,
+  useWindowDimensions
+} from 'react-native';
+import Svg from 'react-native-svg';
+import { Share2 } from 'lucide-react-native';
+import { OutcomeMeasureResult, OutcomeMeasureType, Session } from '../types';
+import { OUTCOME_MEASURES } from '../utils/outcomeMeasures';
+import { shareChartImage } from '../utils/exportUtils';
+import {
+  ChartSeries,
+  ProgressRange,
+  PROGRESS_RANGE_OPTIONS,
+  filterSeriesByRange,
+  getPainScoreSeries,
+  getOutcomeScoreSeries,
+  getMeasurementChartOptions,
+  getRangeOfMotionSeries,
+  getAttendanceSeries
+} from '../utils/progressCharts';
+import LineChart from './LineChart';
+
+interface ProgressChartsProps {
+  patientName: string;
+  sessions: Session[]; // Every session for the patient
+  outcomeResults: OutcomeMeasureResult[];
+}
+
+type ProgressMetric = 'pain' | 'outcomes' | 'rom' | 'attendance';
+
+const METRIC_OPTIONS: { value: ProgressMetric; label: string }[] = [
+  { value: 'pain', label: 'Pain' },
+  { value: 'outcomes', label: 'Outcomes' },
+  { value: 'rom', label: 'ROM' },
+  { value: 'attendance', label: 'Attendance' },
+];
+
+// Horizontal space taken by the screen padding and the card around the chart
+const CHART_INSET = 66;
+
+// Line charts of the patient's pain, outcome scores, range of motion and attendance
+export default function ProgressCharts({ patientName, sessions, outcomeResults }: ProgressChartsProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const { width: windowWidth } = useWindowDimensions();
+  const chartRef = useRef<Svg>(null);
+
+  const theme = {
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    primaryColor: '#0A84FF',
+    labelColor: '#8E8E93',
+  };
+
+  const [metric, setMetric] = useState<ProgressMetric>('pain');
+  const [range, setRange] = useState<ProgressRange>('3m');
+  const [outcomeType, setOutcomeType] = useState<OutcomeMeasureType | null>(null);
+  const [romKey, setRomKey] = useState<string | null>(null);
+
+  const outcomeSeries = getOutcomeScoreSeries(outcomeResults);
+  const outcomeTypes = Object.keys(outcomeSeries) as OutcomeMeasureType[];
+  const romOptions = getMeasurementChartOptions(sessions);
+
+  // Fall back to the first available choice until the user picks one
+  const selectedOutcome = outcomeType && outcomeSeries[outcomeType] ? outcomeType : outcomeTypes[0];
+  const selectedRom = romOptions.find(option => option.key === romKey) || romOptions[0];
+
+  const getChart = (): { title: string; series: ChartSeries[]; yMin?: number; yMax?: number; yUnit?: string } => {
+    switch (metric) {
+      case 'pain':
+        return { title: 'Pain Score', series: getPainScoreSeries(sessions), yMin: 0, yMax: 10 };
+      case 'outcomes':
+        if (!selectedOutcome) return { title: 'Outcome Scores', series: [] };
+        return {
+          title: `${OUTCOME_MEASURES[selectedOutcome].shortName} Score`,
+          series: [outcomeSeries[selectedOutcome]!],
+          yMin: 0,
+          yMax: OUTCOME_MEASURES[selectedOutcome].maxScore,
+        };
+      case 'rom':
+        if (!selectedRom) return { title: 'Range of Motion', series: [] };
+        return {
+          title: `${selectedRom.label} Range of Motion`,
+          series: getRangeOfMotionSeries(sessions, selectedRom.joint, selectedRom.movement),
+          yUnit: '°',
+        };
+      case 'attendance':
+        return { title: 'Monthly Attendance', series: getAttendanceSeries(sessions), yMin: 0, yMax: 100, yUnit: '%' };
+    }
+  };
+
+  const chart = getChart();
+  const visibleSeries = filterSeriesByRange(chart.series, range);
+
+  const handleShare = () => {
+    if (Platform.OS === 'web' || !chartRef.current) {
+      Alert.alert('Not Available', 'Sharing charts is only available in the mobile app.');
+      return;
+    }
+
+    chartRef.current.toDataURL(async base64 => {
+      const success = await shareChartImage(base64, patientName, chart.title);
+      if (!success) {
+        Alert.alert('Share Failed', 'Failed to share the chart. Please try again.');
+      }
+    });
+  };
+
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: isSelected ? theme.primaryColor : theme.borderColor },
+        isSelected ? { backgroundColor: theme.primaryColor } : null
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: isSelected ? 'white' : theme.textColor }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.card, { backgroundColor: theme.cardBackground }]}>
+      <View style={styles.chipRow}>
+        {METRIC_OPTIONS.map(option => renderChip(option.value, option.label, metric === option.value, () => setMetric(option.value)))}
+      </View>
+
+      {metric === 'outcomes' && outcomeTypes.length > 1 && (
+        <View style={styles.chipRow}>
+          {outcomeTypes.map(type => renderChip(
+            type,
+            OUTCOME_MEASURES[type].shortName,
+            type === selectedOutcome,
+            () => setOutcomeType(type)
+          ))}
+        </View>
+      )}
+
+      {metric === 'rom' && romOptions.length > 1 && (
+        <View style={styles.chipRow}>
+          {romOptions.map(option => renderChip(
+            option.key,
+            option.label,
+            option.key === selectedRom?.key,
+            () => setRomKey(option.key)
+          ))}
+        </View>
+      )}
+
+      <View style={styles.titleRow}>
+        <Text style={[styles.title, { color: theme.textColor }]}>{chart.title}</Text>
+        {visibleSeries.length > 0 && (
+          <TouchableOpacity style={styles.shareButton} onPress={handleShare}>
+            <Share2 size={14} color={theme.primaryColor} />
+            <Text style={[styles.shareText, { color: theme.primaryColor }]}>Share</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {visibleSeries.length > 0 ? (
+        <LineChart
+          ref={chartRef}
+          series={visibleSeries}
+          width={windowWidth - CHART_INSET}
+          yMin={chart.yMin}
+          yMax={chart.yMax}
+          yUnit={chart.yUnit}
+        />
+      ) : (
+        <Text style={[styles.emptyText, { color: theme.labelColor }]}>
+          {chart.series.length > 0 ? 'Nothing recorded in this period' : 'Nothing recorded yet'}
+        </Text>
+      )}
+
+      <View style={[styles.chipRow, styles.rangeRow]}>
+        {PROGRESS_RANGE_OPTIONS.map(option => renderChip(option.value, option.label, range === option.value, () => setRange(option.value)))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 10,
+    padding: 12,
+    marginHorizontal: 5,
+    marginBottom: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  rangeRow: {
+    justifyContent: 'center',
+    marginTop: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 5,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginVertical: 6,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  shareButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 4,
+  },
+  shareText: {
+    fontSize: 14,
+    marginLeft: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 30,
+  },
+});
@@ -0,0 +1,270 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  useColorScheme,
+  Platform
+} from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { RecurrenceFrequency } from '../types';
+
+export interface RecurrenceFormValue {
+  frequency: RecurrenceFrequency | 'none';
+  weekdays: number[];
+  endType: 'count' | 'date';
+  count: string;
+  endDate: Date;
+}
+
+interface RecurrenceFormProps {
+  value: RecurrenceFormValue;
+  onChange: (value: RecurrenceFormValue) => void;
+  minimumDate: Date;
+  error?: string;
+}
+
+const FREQUENCY_OPTIONS: { value: RecurrenceFormValue['frequency']; label: string }[] = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'weekdays', label: 'Specific days' },
+];
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+export default function RecurrenceForm({ value, onChange, minimumDate, error }: RecurrenceFormProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const [showEndDatePicker, setShowEndDatePicker] = useState(false);
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#1E1E1E' : 'white',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    inputBackground: isDarkMode ? '#2A2A2A' : 'white',
+    primaryColor: '#0A84FF',
+    errorColor: '#FF453A',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+    separatorColor: isDarkMode ? '#333333' : '#EFEFEF',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+  };
+
+  const update = (changes: Partial<RecurrenceFormValue>) => {
+    onChange({ ...value, ...changes });
+  };
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = value.weekdays.includes(day)
+      ? value.weekdays.filter(d => d !== day)
+      : [...value.weekdays, day].sort();
+    update({ weekdays });
+  };
+
+  const handleEndDateChange = (event: any, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowEndDatePicker(false);
+    }
+
+    if (selectedDate) {
+      update({ endDate: selectedDate });
+    }
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void, key?: string | number) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        {
+          borderColor: selected ? theme.primaryColor : theme.borderColor,
+          backgroundColor: selected ? theme.primaryColor : theme.inputBackground
+        }
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: selected ? 'white' : theme.textColor }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.formGroup}>
+      <Text style={[styles.label, { color: theme.textColor }]}>Repeat</Text>
+      <View style={styles.chipRow}>
+        {FREQUENCY_OPTIONS.map(option =>
+          renderChip(option.label, value.frequency === option.value, () => update({ frequency: option.value }), option.value)
+        )}
+      </View>
+
+      {value.frequency === 'weekdays' && (
+        <View style={styles.chipRow}>
+          {WEEKDAY_LABELS.map((label, day) =>
+            renderChip(label, value.weekdays.includes(day), () => toggleWeekday(day), day)
+          )}
+        </View>
+      )}
+
+      {value.frequency !== 'none' && (
+        <>
+          <Text style={[styles.subLabel, { color: theme.textColor }]}>Ends</Text>
+          <View style={styles.chipRow}>
+            {renderChip('After', value.endType === 'count', () => update({ endType: 'count' }))}
+            {renderChip('On date', value.endType === 'date', () => update({ endType: 'date' }))}
+          </View>
+
+          {value.endType === 'count' ? (
+            <View style={styles.endRow}>
+              <TextInput
+                style={[
+                  styles.countInput,
+                  {
+                    backgroundColor: theme.inputBackground,
+                    borderColor: error ? theme.errorColor : theme.borderColor,
+                    color: theme.textColor
+                  }
+                ]}
+                value={value.count}
+                onChangeText={count => update({ count })}
+                placeholder="6"
+                placeholderTextColor={theme.placeholderColor}
+                keyboardType="number-pad"
+              />
+              <Text style={{ color: theme.textColor }}>sessions</Text>
+            </View>
+          ) : (
+            <TouchableOpacity
+              style={[
+                styles.dateButton,
+                {
+                  backgroundColor: theme.inputBackground,
+                  borderColor: error ? theme.errorColor : theme.borderColor
+                }
+              ]}
+              onPress={() => setShowEndDatePicker(true)}
+            >
+              <Text style={{ color: theme.textColor }}>{value.endDate.toLocaleDateString()}</Text>
+            </TouchableOpacity>
+          )}
+        </>
+      )}
+
+      {error ? <Text style={[styles.errorText, { color: theme.errorColor }]}>{error}</Text> : null}
+
+      {showEndDatePicker && Platform.OS === 'ios' && (
+        <Modal transparent={true} animationType="slide" visible={showEndDatePicker}>
+          <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+            <View style={[styles.datePickerContainer, { backgroundColor: theme.backgroundColor }]}>
+              <View style={[styles.datePickerHeader, { borderBottomColor: theme.separatorColor }]}>
+                <TouchableOpacity onPress={() => setShowEndDatePicker(false)}>
+                  <Text style={[styles.datePickerDoneText, { color: theme.primaryColor }]}>Done</Text>
+                </TouchableOpacity>
+              </View>
+              <DateTimePicker
+                value={value.endDate}
+                mode="date"
+                display="spinner"
+                onChange={handleEndDateChange}
+                minimumDate={minimumDate}
+                style={styles.datePicker}
+                textColor={theme.textColor}
+                themeVariant={isDarkMode ? 'dark' : 'light'}
+              />
+            </View>
+          </View>
+        </Modal>
+      )}
+
+      {showEndDatePicker && Platform.OS !== 'ios' && (
+        <DateTimePicker
+          value={value.endDate}
+          mode="date"
+          display="default"
+          onChange={handleEndDateChange}
+          minimumDate={minimumDate}
+          themeVariant={isDarkMode ? 'dark' : 'light'}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  formGroup: {
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 5,
+    fontWeight: '500',
+  },
+  subLabel: {
+    fontSize: 14,
+    marginTop: 5,
+    marginBottom: 5,
+    fontWeight: '500',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 5,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  endRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  countInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    width: 70,
+    marginRight: 10,
+  },
+  dateButton: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    marginTop: 5,
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  datePickerContainer: {
+    borderRadius: 10,
+    width: '100%',
+    position: 'absolute',
+    bottom: 0,
+  },
+  datePickerHeader: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    padding: 15,
+    borderBottomWidth: 1,
+  },
+  datePickerDoneText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  datePicker: {
+    height: 200,
+  },
+});
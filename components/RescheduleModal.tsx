@@ -0,0 +1,338 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Alert,
+  ActivityIndicator,
+  useColorScheme,
+  Platform
+} from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { Session, RescheduleInitiator } from '../types';
+import { rescheduleSession, getScheduleConflict } from '../utils/mongoStorage';
+import { scheduleSessionNotification, cancelSessionNotifications } from '../utils/notifications';
+import { formatDateKey, minutesToTime } from '../utils/calendarUtils';
+
+interface RescheduleModalProps {
+  visible: boolean;
+  session: Session;
+  onRescheduled: (session: Session) => void;
+  onCancel: () => void;
+}
+
+const INITIATOR_OPTIONS: { initiatedBy: RescheduleInitiator; label: string }[] = [
+  { initiatedBy: 'patient', label: 'Patient' },
+  { initiatedBy: 'clinic', label: 'Clinic' },
+];
+
+export default function RescheduleModal({ visible, session, onRescheduled, onCancel }: RescheduleModalProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const [dateTime, setDateTime] = useState(new Date(`${session.date}T${session.time}`));
+  const [pickerMode, setPickerMode] = useState<'date' | 'time' | null>(null);
+  const [initiatedBy, setInitiatedBy] = useState<RescheduleInitiator>('patient');
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const theme = {
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    primaryColor: '#0A84FF',
+    subtitleColor: '#8E8E93',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    cancelButtonBg: isDarkMode ? '#444444' : '#E5E5EA',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+    separatorColor: isDarkMode ? '#333333' : '#EFEFEF',
+  };
+
+  useEffect(() => {
+    if (visible) {
+      setDateTime(new Date(`${session.date}T${session.time}`));
+      setInitiatedBy('patient');
+      setReason('');
+    }
+  }, [visible, session.date, session.time]);
+
+  const newDate = formatDateKey(dateTime);
+  const newTime = minutesToTime(dateTime.getHours() * 60 + dateTime.getMinutes());
+  const isUnchanged = newDate === session.date && newTime === session.time;
+
+  const handlePickerChange = (event: any, selected?: Date) => {
+    if (Platform.OS === 'android') {
+      setPickerMode(null);
+    }
+
+    if (selected) {
+      setDateTime(selected);
+    }
+  };
+
+  const submit = async (allowConflicts = false) => {
+    try {
+      setIsSubmitting(true);
+      const updatedSession = await rescheduleSession(session.id, newDate, newTime, initiatedBy, reason.trim(), allowConflicts);
+
+      // Replace the reminder for the old slot with one for the new slot
+      await cancelSessionNotifications(session.id);
+      await scheduleSessionNotification(updatedSession);
+
+      onRescheduled(updatedSession);
+    } catch (error: any) {
+      const conflict = getScheduleConflict(error);
+      if (conflict) {
+        const details = [
+          ...conflict.unavailable.map(item => item.reason),
+          ...conflict.conflicts.map(c => `${c.patientName} at ${c.time}`)
+        ].join('\n');
+        Alert.alert(
+          'Time Not Available',
+          `${conflict.error}:\n${details}`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Reschedule Anyway', onPress: () => submit(true) },
+          ]
+        );
+        return;
+      }
+
+      Alert.alert('Error', error.message || 'Failed to reschedule session');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+        <View style={[styles.modalContent, { backgroundColor: theme.cardBackground }]}>
+          <Text style={[styles.title, { color: theme.textColor }]}>Reschedule Session</Text>
+          <Text style={[styles.subtitle, { color: theme.subtitleColor }]}>
+            {session.patientName} - currently {new Date(`${session.date}T${session.time}`).toLocaleDateString()} at {session.time}
+          </Text>
+
+          <Text style={[styles.label, { color: theme.textColor }]}>New Slot</Text>
+          <View style={styles.row}>
+            <TouchableOpacity
+              style={[styles.pickerButton, { borderColor: theme.borderColor }]}
+              onPress={() => setPickerMode('date')}
+            >
+              <Text style={{ color: theme.textColor }}>{dateTime.toLocaleDateString()}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.pickerButton, { borderColor: theme.borderColor }]}
+              onPress={() => setPickerMode('time')}
+            >
+              <Text style={{ color: theme.textColor }}>{newTime}</Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={[styles.label, { color: theme.textColor }]}>Requested By</Text>
+          <View style={styles.row}>
+            {INITIATOR_OPTIONS.map(option => {
+              const selected = option.initiatedBy === initiatedBy;
+              return (
+                <TouchableOpacity
+                  key={option.initiatedBy}
+                  style={[
+                    styles.chip,
+                    { borderColor: selected ? theme.primaryColor : theme.borderColor },
+                    selected ? { backgroundColor: theme.primaryColor } : null
+                  ]}
+                  onPress={() => setInitiatedBy(option.initiatedBy)}
+                >
+                  <Text style={{ color: selected ? 'white' : theme.textColor }}>{option.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={[styles.label, { color: theme.textColor }]}>Reason</Text>
+          <TextInput
+            style={[styles.reasonInput, { color: theme.textColor, borderColor: theme.borderColor }]}
+            value={reason}
+            onChangeText={setReason}
+            placeholder="Why is the session being moved?"
+            placeholderTextColor={theme.placeholderColor}
+          />
+
+          <View style={styles.row}>
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: theme.cancelButtonBg }]}
+              onPress={onCancel}
+              disabled={isSubmitting}
+            >
+              <Text style={[styles.buttonText, { color: theme.textColor }]}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.button,
+                { backgroundColor: theme.primaryColor },
+                isSubmitting || isUnchanged ? styles.disabledButton : null
+              ]}
+              onPress={() => submit()}
+              disabled={isSubmitting || isUnchanged}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Text style={[styles.buttonText, { color: 'white' }]}>Reschedule</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+
+      {pickerMode && Platform.OS === 'ios' && (
+        <Modal transparent={true} animationType="slide" visible={true}>
+          <View style={[styles.pickerModalContainer, { backgroundColor: theme.modalBg }]}>
+            <View style={[styles.datePickerContainer, { backgroundColor: theme.cardBackground }]}>
+              <View style={[styles.datePickerHeader, { borderBottomColor: theme.separatorColor }]}>
+                <TouchableOpacity onPress={() => setPickerMode(null)}>
+                  <Text style={[styles.datePickerDoneText, { color: theme.primaryColor }]}>Done</Text>
+                </TouchableOpacity>
+              </View>
+              <DateTimePicker
+                value={dateTime}
+                mode={pickerMode}
+                display="spinner"
+                onChange={handlePickerChange}
+                minimumDate={pickerMode === 'date' ? new Date() : undefined}
+                style={styles.datePicker}
+                textColor={theme.textColor}
+                themeVariant={isDarkMode ? 'dark' : 'light'}
+              />
+            </View>
+          </View>
+        </Modal>
+      )}
+
+      {pickerMode && Platform.OS !== 'ios' && (
+        <DateTimePicker
+          value={dateTime}
+          mode={pickerMode}
+          display="default"
+          onChange={handlePickerChange}
+          minimumDate={pickerMode === 'date' ? new Date() : undefined}
+          themeVariant={isDarkMode ? 'dark' : 'light'}
+        />
+      )}
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+    borderRadius: 12,
+    padding: 20,
+    ...Platform.select({
+      web: {
+        boxShadow: '0px 2px 3.84px rgba(0, 0, 0, 0.25)',
+      },
+      default: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.25,
+        shadowRadius: 3.84,
+        elevation: 5,
+      },
+    }),
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 5,
+    fontWeight: '500',
+  },
+  row: {
+    flexDirection: 'row',
+    marginBottom: 15,
+  },
+  pickerButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginRight: 8,
+    alignItems: 'center',
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginRight: 8,
+  },
+  reasonInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 15,
+    marginBottom: 15,
+  },
+  button: {
+    flex: 1,
+    borderRadius: 8,
+    padding: 14,
+    marginHorizontal: 4,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  pickerModalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  datePickerContainer: {
+    borderRadius: 10,
+    width: '100%',
+    position: 'absolute',
+    bottom: 0,
+  },
+  datePickerHeader: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    padding: 15,
+    borderBottomWidth: 1,
+  },
+  datePickerDoneText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  datePicker: {
+    height: 200,
+  },
+});
@@ -0,0 +1,138 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  useColorScheme,
+  Platform
+} from 'react-native';
+import { SeriesScope } from '../types';
+
+interface SeriesScopeModalProps {
+  visible: boolean;
+  action: 'edit' | 'delete';
+  onSelect: (scope: SeriesScope) => void;
+  onCancel: () => void;
+}
+
+const SCOPE_OPTIONS: { scope: SeriesScope; label: string }[] = [
+  { scope: 'single', label: 'This session' },
+  { scope: 'following', label: 'This and following sessions' },
+  { scope: 'series', label: 'Entire series' },
+];
+
+export default function SeriesScopeModal({ visible, action, onSelect, onCancel }: SeriesScopeModalProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    primaryColor: '#0A84FF',
+    errorColor: '#FF453A',
+    subtitleColor: '#8E8E93',
+    cancelButtonBg: isDarkMode ? '#444444' : '#E5E5EA',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+  };
+
+  const optionColor = action === 'delete' ? theme.errorColor : theme.primaryColor;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+        <View style={[styles.modalContent, { backgroundColor: theme.cardBackground }]}>
+          <Text style={[styles.title, { color: theme.textColor }]}>
+            {action === 'delete' ? 'Delete Recurring Session' : 'Edit Recurring Session'}
+          </Text>
+          <Text style={[styles.subtitle, { color: theme.subtitleColor }]}>
+            This session is part of a series. Completed, missed and cancelled sessions are never changed.
+          </Text>
+
+          {SCOPE_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.scope}
+              style={[styles.option, { borderColor: theme.borderColor }]}
+              onPress={() => onSelect(option.scope)}
+            >
+              <Text style={[styles.optionText, { color: optionColor }]}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+
+          <TouchableOpacity
+            style={[styles.cancelButton, { backgroundColor: theme.cancelButtonBg }]}
+            onPress={onCancel}
+          >
+            <Text style={[styles.cancelButtonText, { color: theme.textColor }]}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+    borderRadius: 12,
+    padding: 20,
+    ...Platform.select({
+      web: {
+        boxShadow: '0px 2px 3.84px rgba(0, 0, 0, 0.25)',
+      },
+      default: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.25,
+        shadowRadius: 3.84,
+        elevation: 5,
+      },
+    }),
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 14,
+    marginBottom: 10,
+    alignItems: 'center',
+  },
+  optionText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    borderRadius: 8,
+    padding: 14,
+    marginTop: 5,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
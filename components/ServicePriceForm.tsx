@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  useColorScheme,
+  ScrollView,
+  useWindowDimensions
+} from 'react-native';
+import { updateServicePrices } from '../utils/mongoStorage';
+import { Patient, Service, ServicePrice } from '../types';
+import { formatServiceTerms } from '../utils/services';
+
+interface ServicePriceFormProps {
+  patient: Patient;
+  services: Service[];
+  onSave: (patient: Patient) => void;
+  onCancel: () => void;
+}
+
+// Prices agreed with one patient. A service left empty is charged at its usual price.
+export default function ServicePriceForm({ patient, services, onSave, onCancel }: ServicePriceFormProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const { height: windowHeight } = useWindowDimensions();
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#1E1E1E' : '#F2F2F7',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    inputBackground: isDarkMode ? '#333333' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    saveButtonBackground: '#0A84FF',
+    cancelButtonBackground: isDarkMode ? '#444444' : '#E5E5EA',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    subtitleColor: '#8E8E93',
+  };
+
+  // Entered prices keyed by service ID
+  const [prices, setPrices] = useState<Record<string, string>>(() => Object.fromEntries(
+    (patient.servicePrices || []).map(entry => [entry.serviceId, entry.price.toString()])
+  ));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    const servicePrices: ServicePrice[] = [];
+    for (const service of services) {
+      const value = (prices[service.id] || '').trim();
+      if (!value) continue;
+
+      const price = Number(value);
+      if (!Number.isFinite(price) || price < 0) {
+        Alert.alert('Invalid Price', `Please enter a valid price for ${service.name}`);
+        return;
+      }
+      servicePrices.push({ serviceId: service.id, price });
+    }
+
+    try {
+      setIsSubmitting(true);
+      onSave(await updateServicePrices(patient.id, servicePrices));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save the prices');
+      console.error('Error saving service prices:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundColor, maxHeight: windowHeight * 0.9 }]}>
+      <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <Text style={[styles.title, { color: theme.textColor }]}>Prices for {patient.name}</Text>
+        <Text style={[styles.hintText, { color: theme.subtitleColor }]}>
+          Leave a service empty to charge its usual price. New prices apply to sessions booked afterwards.
+        </Text>
+
+        {services.map(service => (
+          <View key={service.id} style={styles.formGroup}>
+            <Text style={[styles.label, { color: theme.textColor }]}>{service.name}</Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.borderColor, color: theme.textColor }]}
+              value={prices[service.id] || ''}
+              onChangeText={value => setPrices(current => ({ ...current, [service.id]: value }))}
+              placeholder={`Usual: ${formatServiceTerms(service)}`}
+              placeholderTextColor={theme.placeholderColor}
+              keyboardType="decimal-pad"
+            />
+          </View>
+        ))}
+
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.cancelButtonBackground }, isSubmitting ? styles.disabledButton : null]}
+            onPress={onCancel}
+            disabled={isSubmitting}
+          >
+            <Text style={[styles.buttonText, { color: theme.textColor }]}>Cancel</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.saveButtonBackground }, isSubmitting ? styles.disabledButton : null]}
+            onPress={handleSubmit}
+            disabled={isSubmitting}
+          >
+            <Text style={[styles.buttonText, { color: 'white' }]}>{isSubmitting ? 'Saving...' : 'Save'}</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 10,
+    padding: 20,
+    width: '100%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  hintText: {
+    fontSize: 13,
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  formGroup: {
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 5,
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 10,
+  },
+  button: {
+    borderRadius: 8,
+    padding: 15,
+    flex: 1,
+    marginHorizontal: 5,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
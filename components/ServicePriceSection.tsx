@@ -0,0 +1,154 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, useColorScheme } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { Edit } from 'lucide-react-native';
+import { Patient, Service } from '../types';
+import { getServices } from '../utils/mongoStorage';
+import { formatMoney } from '../utils/currency';
+import { getServicePrice } from '../utils/services';
+import ServicePriceForm from './ServicePriceForm';
+
+interface ServicePriceSectionProps {
+  patient: Patient;
+  onSave: (patient: Patient) => void;
+}
+
+// Only services with a price agreed with the patient are listed
+export default function ServicePriceSection({ patient, onSave }: ServicePriceSectionProps) {
+  const [services, setServices] = useState<Service[]>([]);
+  const [modalVisible, setModalVisible] = useState(false);
+
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    primaryColor: '#0A84FF',
+    labelColor: isDarkMode ? '#888888' : '#8E8E93',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+  };
+
+  const loadServices = async () => {
+    setServices(await getServices());
+  };
+
+  // The catalogue is edited on its own screen, so reload on the way back
+  useFocusEffect(
+    useCallback(() => {
+      loadServices();
+    }, [])
+  );
+
+  const handleSave = (updatedPatient: Patient) => {
+    setModalVisible(false);
+    onSave(updatedPatient);
+  };
+
+  if (services.length === 0) return null;
+
+  const agreedServices = services.filter(service =>
+    patient.servicePrices?.some(entry => entry.serviceId === service.id)
+  );
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: theme.textColor }]}>Service Prices</Text>
+        <TouchableOpacity style={styles.actionButton} onPress={() => setModalVisible(true)}>
+          <Edit size={16} color={theme.primaryColor} />
+          <Text style={[styles.actionText, { color: theme.primaryColor }]}>Edit</Text>
+        </TouchableOpacity>
+      </View>
+      {agreedServices.length === 0 ? (
+        <Text style={[styles.emptyText, { color: theme.labelColor }]}>Usual prices</Text>
+      ) : (
+        <View style={[styles.card, { backgroundColor: theme.cardBackground }]}>
+          {agreedServices.map(service => (
+            <View key={service.id} style={styles.row}>
+              <Text style={[styles.serviceName, { color: theme.textColor }]}>{service.name}</Text>
+              <Text style={[styles.price, { color: theme.labelColor }]}>
+                {formatMoney(getServicePrice(service, patient))} · usual {formatMoney(service.price)}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      <Modal
+        visible={modalVisible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+          <View style={styles.modalContent}>
+            <ServicePriceForm
+              patient={patient}
+              services={services}
+              onSave={handleSave}
+              onCancel={() => setModalVisible(false)}
+            />
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginHorizontal: 5,
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  actionText: {
+    fontSize: 15,
+    marginLeft: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    marginHorizontal: 5,
+    marginBottom: 8,
+  },
+  card: {
+    borderRadius: 10,
+    padding: 12,
+    marginHorizontal: 5,
+    marginBottom: 16,
+  },
+  row: {
+    paddingVertical: 4,
+  },
+  serviceName: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  price: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 500,
+  },
+});
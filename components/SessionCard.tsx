@@ -1,19 +1,38 @@
-import React from 'react';
-import { View, Text, TouchableOpacity, StyleSheet, useColorScheme, Platform } from 'react-native';
-import { Session } from '../types';
-import { Calendar, Clock, FileText, CheckCircle, Edit, Trash2, IndianRupee, XCircle } from 'lucide-react-native';
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, useColorScheme, Platform, Alert } from 'react-native';
+import { Session, SeriesScope, SessionStatus, PlanProgress } from '../types';
+import { Clock, ClipboardCheck, CalendarClock, Edit, Trash2, Banknote, Repeat, History, AlertTriangle, ClipboardList, Share2 } from 'lucide-react-native';
+import SeriesScopeModal from './SeriesScopeModal';
+import SessionStatusModal from './SessionStatusModal';
+import RescheduleModal from './RescheduleModal';
+import { SESSION_STATUS_LABELS, SESSION_STATUS_COLORS, isOpenSession } from '../utils/sessionStatus';
+import { SOAP_SECTIONS, hasClinicalNotes, getBodyRegionLabels, getModalityLabels, getPainScoreColor } from '../utils/clinicalNotes';
+import { formatPlanProgress } from '../utils/treatmentPlans';
+import { formatPrescription } from '../utils/exercises';
+import { getMeasurementName, formatMeasurementValues } from '../utils/measurements';
+import { summarizeBodyChart } from '../utils/bodyChart';
+import { shareExerciseHandout } from '../utils/exportUtils';
+import { getExercises } from '../utils/mongoStorage';
+import { formatSessionPayment, getAmountDue } from '../utils/payments';
 
 interface SessionCardProps {
   session: Session & { disableActions?: boolean };
-  onEdit: (session: Session) => void;
-  onDelete: (sessionId: string) => void;
-  onToggleComplete: (session: Session, completed: boolean) => void;
-  isUpcoming?: boolean;
+  onEdit: (session: Session, scope?: SeriesScope) => void;
+  onDelete: (sessionId: string, scope?: SeriesScope) => void;
+  onChangeStatus: (session: Session, status: SessionStatus, reason: string) => void;
+  onRescheduled?: (session: Session) => void;
+  onRecordPayment?: (session: Session) => void; // Leave out to hide the option to pay what is due
+  redFlags?: string[];
+  planProgress?: PlanProgress;
 }
 
-export default function SessionCard({ session, onEdit, onDelete, onToggleComplete, isUpcoming = false }: SessionCardProps) {
+export default function SessionCard({ session, onEdit, onDelete, onChangeStatus, onRescheduled, onRecordPayment, redFlags = [], planProgress }: SessionCardProps) {
   const colorScheme = useColorScheme();
   const isDarkMode = colorScheme === 'dark';
+  const [scopeAction, setScopeAction] = useState<'edit' | 'delete' | null>(null);
+  const [statusModalVisible, setStatusModalVisible] = useState(false);
+  const [rescheduleVisible, setRescheduleVisible] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   const theme = {
     backgroundColor: isDarkMode ? '#2A2A2A' : 'white',
@@ -27,16 +46,72 @@ export default function SessionCard({ session, onEdit, onDelete, onToggleComplet
     dateTimeLabelColor: '#8E8E93',
     notesColor: isDarkMode ? '#FFFFFF' : '#000000',
     amountColor: '#34C759',
+    amountDueColor: '#FF9500',
+    warningColor: '#FF453A',
+    warningBackground: isDarkMode ? '#3A2222' : '#FFF1F0',
   };
 
+  const statusColor = SESSION_STATUS_COLORS[session.status];
+  const amountDue = getAmountDue(session);
+  const amountColor = amountDue > 0 ? theme.amountDueColor : theme.amountColor;
+
   const formatDate = (dateString: string): string => {
     const options: Intl.DateTimeFormatOptions = { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' };
     return new Date(dateString).toLocaleDateString(undefined, options);
   };
 
-  const formatAmount = (amount?: number): string => {
-    if (amount === undefined) return 'Not paid';
-    return amount.toFixed(2);
+  // Sessions that belong to a series ask which occurrences the action applies to
+  const handleEdit = () => {
+    if (session.seriesId) {
+      setScopeAction('edit');
+    } else {
+      onEdit(session);
+    }
+  };
+
+  const handleDelete = () => {
+    if (session.seriesId) {
+      setScopeAction('delete');
+    } else {
+      onDelete(session.id);
+    }
+  };
+
+  const handleStatusSelect = (status: SessionStatus, reason: string) => {
+    setStatusModalVisible(false);
+    onChangeStatus(session, status, reason);
+  };
+
+  const handleRescheduled = (updatedSession: Session) => {
+    setRescheduleVisible(false);
+    onRescheduled?.(updatedSession);
+  };
+
+  const formatSlot = (date: string, time: string): string => {
+    return `${new Date(`${date}T${time}`).toLocaleDateString()} ${time}`;
+  };
+
+  const rescheduleHistory = session.rescheduleHistory || [];
+  const clinicalNotes = session.clinicalNotes;
+  const exercises = session.exercises || [];
+  const measurements = session.measurements || [];
+
+  // The library supplies the pictures for the handout
+  const handleShareExercises = async () => {
+    const success = await shareExerciseHandout(session.patientName, exercises, await getExercises());
+    if (!success) {
+      Alert.alert('Share Failed', 'Failed to create the exercise handout. Please try again.');
+    }
+  };
+
+  const handleScopeSelect = (scope: SeriesScope) => {
+    const action = scopeAction;
+    setScopeAction(null);
+    if (action === 'edit') {
+      onEdit(session, scope);
+    } else if (action === 'delete') {
+      onDelete(session.id, scope);
+    }
   };
 
   return (
@@ -44,44 +119,67 @@ export default function SessionCard({ session, onEdit, onDelete, onToggleComplet
       style={[
         styles.card, 
         { 
-          backgroundColor: session.completed ? theme.completedCardBackground : theme.cardBackground,
-          borderLeftWidth: session.completed ? 5 : 0,
-          borderLeftColor: theme.completedTextColor
+          backgroundColor: session.status === 'completed' ? theme.completedCardBackground : theme.cardBackground,
+          borderLeftWidth: session.status !== 'scheduled' ? 5 : 0,
+          borderLeftColor: statusColor
         }
       ]}
     >
       <View style={styles.header}>
         <Text style={[styles.patientName, { color: theme.textColor }]}>{session.patientName}</Text>
+        {session.seriesId ? (
+          <Repeat size={16} color={theme.dateTimeLabelColor} style={styles.seriesIcon} />
+        ) : null}
         
         {!session.disableActions && (
           <View style={styles.actionButtons}>
-            {(!isUpcoming || session.completed) && (
+            <TouchableOpacity 
+              style={styles.iconButton}
+              onPress={() => setStatusModalVisible(true)}
+            >
+              <ClipboardCheck size={20} color={theme.completedTextColor} />
+            </TouchableOpacity>
+            {onRescheduled && isOpenSession(session) && (
               <TouchableOpacity 
                 style={styles.iconButton}
-                onPress={() => onToggleComplete(session, !session.completed)}
+                onPress={() => setRescheduleVisible(true)}
               >
-                {session.completed ? (
-                  <XCircle size={20} color={theme.editDeleteColor} />
-                ) : (
-                  <CheckCircle size={20} color={theme.completedTextColor} />
-                )}
+                <CalendarClock size={20} color={theme.primaryColor} />
               </TouchableOpacity>
             )}
             <TouchableOpacity 
               style={styles.iconButton}
-              onPress={() => onEdit(session)}
+              onPress={handleEdit}
             >
               <Edit size={20} color={theme.primaryColor} />
             </TouchableOpacity>
             <TouchableOpacity 
               style={styles.iconButton}
-              onPress={() => onDelete(session.id)}
+              onPress={handleDelete}
             >
               <Trash2 size={20} color={theme.editDeleteColor} />
             </TouchableOpacity>
           </View>
         )}
       </View>
+
+      {redFlags.length > 0 && (
+        <View style={[styles.redFlagBanner, { backgroundColor: theme.warningBackground, borderColor: theme.warningColor }]}>
+          <AlertTriangle size={16} color={theme.warningColor} />
+          <Text style={[styles.redFlagText, { color: theme.warningColor }]}>
+            Red flags: {redFlags.join(', ')}
+          </Text>
+        </View>
+      )}
+      
+      {planProgress && (
+        <View style={styles.planRow}>
+          <ClipboardList size={14} color={theme.primaryColor} style={styles.timeIcon} />
+          <Text style={[styles.planText, { color: theme.primaryColor }]} numberOfLines={1}>
+            {formatPlanProgress(planProgress)} · {planProgress.diagnosis}
+          </Text>
+        </View>
+      )}
       
       <View style={styles.dateTimeContainer}>
         <View style={styles.dateTime}>
@@ -91,9 +189,84 @@ export default function SessionCard({ session, onEdit, onDelete, onToggleComplet
         <View style={styles.dateTime}>
           <Clock size={16} color={theme.actionButtonColor} style={styles.timeIcon} />
           <Text style={[styles.dateTimeValue, { color: theme.textColor }]}>{session.time}</Text>
+          {session.duration ? (
+            <Text style={[styles.durationText, { color: theme.dateTimeLabelColor }]}>
+              {session.serviceName ? `${session.duration} min · ${session.serviceName}` : `${session.duration} min`}
+            </Text>
+          ) : null}
         </View>
       </View>
       
+      {clinicalNotes && hasClinicalNotes(clinicalNotes) ? (
+        <View style={styles.notesContainer}>
+          {clinicalNotes.painScore !== null && (
+            <View style={styles.clinicalRow}>
+              <Text style={[styles.notesLabel, { color: theme.dateTimeLabelColor }]}>Pain:</Text>
+              <View style={[styles.painBadge, { backgroundColor: getPainScoreColor(clinicalNotes.painScore) }]}>
+                <Text style={styles.painBadgeText}>{clinicalNotes.painScore}/10</Text>
+              </View>
+            </View>
+          )}
+          {clinicalNotes.bodyRegions.length > 0 && (
+            <Text style={[styles.notes, { color: theme.notesColor }]}>
+              <Text style={{ color: theme.dateTimeLabelColor }}>Regions: </Text>
+              {getBodyRegionLabels(clinicalNotes.bodyRegions)}
+            </Text>
+          )}
+          {clinicalNotes.modalities.length > 0 && (
+            <Text style={[styles.notes, { color: theme.notesColor }]}>
+              <Text style={{ color: theme.dateTimeLabelColor }}>Modalities: </Text>
+              {getModalityLabels(clinicalNotes.modalities)}
+            </Text>
+          )}
+          {SOAP_SECTIONS.filter(section => clinicalNotes[section.key]).map(section => (
+            <Text key={section.key} style={[styles.notes, styles.soapText, { color: theme.notesColor }]}>
+              <Text style={[styles.soapLabel, { color: theme.dateTimeLabelColor }]}>{section.label[0]}: </Text>
+              {clinicalNotes[section.key]}
+            </Text>
+          ))}
+        </View>
+      ) : null}
+
+      {exercises.length > 0 && (
+        <View style={styles.notesContainer}>
+          <View style={styles.exercisesHeader}>
+            <Text style={[styles.notesLabel, { color: theme.dateTimeLabelColor }]}>Exercises:</Text>
+            <TouchableOpacity style={styles.shareButton} onPress={handleShareExercises}>
+              <Share2 size={14} color={theme.primaryColor} style={styles.timeIcon} />
+              <Text style={[styles.shareText, { color: theme.primaryColor }]}>Handout</Text>
+            </TouchableOpacity>
+          </View>
+          {exercises.map((exercise, index) => (
+            <Text key={`${exercise.name}-${index}`} style={[styles.notes, { color: theme.notesColor }]}>
+              {exercise.name}
+              {formatPrescription(exercise) ? (
+                <Text style={{ color: theme.dateTimeLabelColor }}> · {formatPrescription(exercise)}</Text>
+              ) : null}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      {measurements.length > 0 && (
+        <View style={styles.notesContainer}>
+          <Text style={[styles.notesLabel, { color: theme.dateTimeLabelColor }]}>Measurements:</Text>
+          {measurements.map((measurement, index) => (
+            <Text key={`${measurement.joint}-${measurement.movement}-${measurement.side}-${index}`} style={[styles.notes, { color: theme.notesColor }]}>
+              {getMeasurementName(measurement)}
+              <Text style={{ color: theme.dateTimeLabelColor }}> · {formatMeasurementValues(measurement)}</Text>
+            </Text>
+          ))}
+        </View>
+      )}
+
+      {session.bodyChart && session.bodyChart.length > 0 ? (
+        <View style={styles.notesContainer}>
+          <Text style={[styles.notesLabel, { color: theme.dateTimeLabelColor }]}>Body Chart:</Text>
+          <Text style={[styles.notes, { color: theme.notesColor }]}>{summarizeBodyChart(session.bodyChart)}</Text>
+        </View>
+      ) : null}
+
       {session.notes ? (
         <View style={styles.notesContainer}>
           <Text style={[styles.notesLabel, { color: theme.dateTimeLabelColor }]}>Notes:</Text>
@@ -101,20 +274,73 @@ export default function SessionCard({ session, onEdit, onDelete, onToggleComplet
         </View>
       ) : null}
       
-      {session.completed && (
+      {rescheduleHistory.length > 0 && (
+        <View style={styles.historyContainer}>
+          <TouchableOpacity style={styles.historyToggle} onPress={() => setShowHistory(!showHistory)}>
+            <History size={14} color={theme.dateTimeLabelColor} style={styles.timeIcon} />
+            <Text style={[styles.historyToggleText, { color: theme.dateTimeLabelColor }]}>
+              Rescheduled {rescheduleHistory.length} {rescheduleHistory.length === 1 ? 'time' : 'times'}
+            </Text>
+          </TouchableOpacity>
+          {showHistory && rescheduleHistory.map(entry => (
+            <Text key={entry.rescheduledAt} style={[styles.historyEntry, { color: theme.textColor }]}>
+              {formatSlot(entry.fromDate, entry.fromTime)} → {formatSlot(entry.toDate, entry.toTime)}
+              {` (by ${entry.initiatedBy}${entry.reason ? `: ${entry.reason}` : ''})`}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      {session.status !== 'scheduled' && (
         <View style={styles.statusContainer}>
-          <View style={styles.completedBadge}>
-            <Text style={styles.completedText}>Completed</Text>
+          <View style={styles.statusDetails}>
+            <View style={[styles.statusBadge, { backgroundColor: statusColor }]}>
+              <Text style={styles.statusText}>{SESSION_STATUS_LABELS[session.status]}</Text>
+            </View>
+            {session.statusReason ? (
+              <Text style={[styles.statusReason, { color: theme.dateTimeLabelColor }]} numberOfLines={2}>
+                {session.statusReason}
+              </Text>
+            ) : null}
           </View>
           
-          <View style={styles.amountContainer}>
-            <IndianRupee size={16} color={theme.amountColor} style={styles.amountIcon} />
-            <Text style={[styles.amountText, { color: theme.amountColor }]}>
-              {formatAmount(session.amount)}
-            </Text>
-          </View>
+          {session.status === 'completed' && (
+            <TouchableOpacity
+              style={styles.amountContainer}
+              onPress={() => onRecordPayment?.(session)}
+              disabled={!onRecordPayment || amountDue === 0}
+            >
+              <Banknote size={16} color={amountColor} style={styles.amountIcon} />
+              <Text style={[styles.amountText, { color: amountColor }]}>
+                {session.packageId ? 'Prepaid package' : formatSessionPayment(session)}
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
       )}
+
+      {onRescheduled && (
+        <RescheduleModal
+          visible={rescheduleVisible}
+          session={session}
+          onRescheduled={handleRescheduled}
+          onCancel={() => setRescheduleVisible(false)}
+        />
+      )}
+
+      <SessionStatusModal
+        visible={statusModalVisible}
+        session={session}
+        onSelect={handleStatusSelect}
+        onCancel={() => setStatusModalVisible(false)}
+      />
+
+      <SeriesScopeModal
+        visible={scopeAction !== null}
+        action={scopeAction || 'edit'}
+        onSelect={handleScopeSelect}
+        onCancel={() => setScopeAction(null)}
+      />
     </View>
   );
 }
@@ -143,11 +369,39 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 10,
   },
+  redFlagBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    marginBottom: 10,
+  },
+  redFlagText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  planRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  planText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+  },
   patientName: {
     fontSize: 18,
     fontWeight: 'bold',
     flex: 1,
   },
+  seriesIcon: {
+    marginLeft: 6,
+  },
   actionButtons: {
     flexDirection: 'row',
   },
@@ -169,6 +423,10 @@ const styles = StyleSheet.create({
   dateTimeValue: {
     fontWeight: '500',
   },
+  durationText: {
+    marginLeft: 5,
+    fontSize: 13,
+  },
   timeIcon: {
     marginRight: 5,
   },
@@ -182,6 +440,57 @@ const styles = StyleSheet.create({
   notes: {
     fontSize: 14,
   },
+  clinicalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 3,
+  },
+  painBadge: {
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginLeft: 6,
+    marginBottom: 3,
+  },
+  painBadgeText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  soapText: {
+    marginTop: 3,
+  },
+  soapLabel: {
+    fontWeight: 'bold',
+  },
+  exercisesHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  shareButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 2,
+  },
+  shareText: {
+    fontSize: 13,
+  },
+  historyContainer: {
+    marginBottom: 5,
+  },
+  historyToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  historyToggleText: {
+    fontSize: 13,
+  },
+  historyEntry: {
+    fontSize: 13,
+    marginTop: 3,
+    marginLeft: 19,
+  },
   statusContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -191,17 +500,24 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: 'rgba(150, 150, 150, 0.2)',
   },
-  completedBadge: {
-    backgroundColor: '#34C759',
+  statusDetails: {
+    flex: 1,
+    alignItems: 'flex-start',
+  },
+  statusBadge: {
     paddingHorizontal: 8,
     paddingVertical: 3,
     borderRadius: 10,
   },
-  completedText: {
+  statusText: {
     color: 'white',
     fontSize: 12,
     fontWeight: 'bold',
   },
+  statusReason: {
+    fontSize: 13,
+    marginTop: 4,
+  },
   amountContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -9,26 +9,42 @@ import {
   Modal, 
   useColorScheme,
   ScrollView,
-  KeyboardAvoidingView,
-  Platform
+  Platform,
+  useWindowDimensions
 } from 'react-native';
-import { Picker } from '@react-native-picker/picker';
 import DateTimePicker from '@react-native-community/datetimepicker';
-import { saveSession, updateSession, getCurrentUserPatients } from '../utils/mongoStorage';
-import { Session, Patient } from '../types';
-import { scheduleSessionNotification } from '../utils/notifications';
+import { saveSession, saveSessionSeries, updateSession, getCurrentUserPatients, getScheduleConflict, getTreatmentPlans, getConsents, getPatientPackages, getPatientSessions, getServices } from '../utils/mongoStorage';
+import { Session, Patient, SeriesScope, RecurrenceRule, ScheduleConflict, SuggestedSlot, ClinicalNotes, NoteTemplate, TreatmentPlan, PrescribedExercise, Measurement, BodyChartMark, PatientPackage, Service } from '../types';
+import { scheduleSessionNotification, cancelSessionNotifications } from '../utils/notifications';
+import RecurrenceForm, { RecurrenceFormValue } from './RecurrenceForm';
+import ClinicalNotesForm from './ClinicalNotesForm';
+import NoteTemplatePicker from './NoteTemplatePicker';
+import ExerciseListEditor from './ExerciseListEditor';
+import MeasurementsForm from './MeasurementsForm';
+import BodyChartEditor from './BodyChartEditor';
+import { EMPTY_CLINICAL_NOTES, hasClinicalNotes } from '../utils/clinicalNotes';
+import { isMeasurementEmpty, MIN_ROM, MAX_ROM } from '../utils/measurements';
+import { applyNoteTemplate } from '../utils/noteTemplates';
+import { getValidConsent } from '../utils/consents';
+import { getPackageBookingWarning, getUsablePackage } from '../utils/packages';
+import { isOpenSession } from '../utils/sessionStatus';
+import { getServicePrice } from '../utils/services';
+import { getCurrency } from '../utils/currency';
 
 interface SessionFormProps {
   existingSession?: Session;
+  editScope?: SeriesScope; // Which sessions of the existing session's series the edit applies to
   preselectedPatientId?: string;
+  initialDateTime?: Date; // Prefills date and time for new sessions, e.g. from a calendar slot
   onSave: (session: Session) => void;
   onCancel: () => void;
 }
 
-export default function SessionForm({ existingSession, preselectedPatientId, onSave, onCancel }: SessionFormProps) {
+export default function SessionForm({ existingSession, editScope = 'single', preselectedPatientId, initialDateTime, onSave, onCancel }: SessionFormProps) {
   // Get the device color scheme
   const colorScheme = useColorScheme();
   const isDarkMode = colorScheme === 'dark';
+  const { height: windowHeight } = useWindowDimensions();
 
   // Create theme object based on the color scheme
   const theme = {
@@ -42,16 +58,46 @@ export default function SessionForm({ existingSession, preselectedPatientId, onS
     modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
     separatorColor: isDarkMode ? '#333333' : '#EFEFEF',
     placeholderColor: isDarkMode ? '#888888' : '#999999',
+    warningColor: '#FF9500',
   };
 
   const [patients, setPatients] = useState<Patient[]>([]);
   const [patientId, setPatientId] = useState(existingSession?.patientId || preselectedPatientId || '');
-  const [date, setDate] = useState(existingSession ? new Date(existingSession.date) : new Date());
-  const [time, setTime] = useState(existingSession ? new Date(`2000-01-01T${existingSession.time}`) : new Date());
+  const [plans, setPlans] = useState<TreatmentPlan[]>([]);
+  // null until the selected patient's consents have loaded
+  const [hasValidConsent, setHasValidConsent] = useState<boolean | null>(null);
+  // The patient's prepaid packages and their other open sessions, for the package balance warning
+  const [patientPackages, setPatientPackages] = useState<PatientPackage[]>([]);
+  const [bookedCount, setBookedCount] = useState(0);
+  const [services, setServices] = useState<Service[]>([]);
+  const [serviceId, setServiceId] = useState<string | null>(existingSession?.serviceId || null);
+  const [treatmentPlanId, setTreatmentPlanId] = useState<string | null>(existingSession?.treatmentPlanId || null);
+  const [date, setDate] = useState(existingSession ? new Date(existingSession.date) : initialDateTime || new Date());
+  const [time, setTime] = useState(existingSession ? new Date(`2000-01-01T${existingSession.time}`) : initialDateTime || new Date());
   const [notes, setNotes] = useState(existingSession?.notes || '');
+  const [clinicalNotes, setClinicalNotes] = useState<ClinicalNotes>({ ...EMPTY_CLINICAL_NOTES, ...existingSession?.clinicalNotes });
+  const [showClinicalNotes, setShowClinicalNotes] = useState(hasClinicalNotes(existingSession?.clinicalNotes));
+  const [exercises, setExercises] = useState<PrescribedExercise[]>(existingSession?.exercises || []);
+  const [showExercises, setShowExercises] = useState(Boolean(existingSession?.exercises?.length));
+  const [measurements, setMeasurements] = useState<Measurement[]>(existingSession?.measurements || []);
+  const [showMeasurements, setShowMeasurements] = useState(Boolean(existingSession?.measurements?.length));
+  const [bodyChart, setBodyChart] = useState<BodyChartMark[]>(existingSession?.bodyChart || []);
+  const [showBodyChart, setShowBodyChart] = useState(Boolean(existingSession?.bodyChart?.length));
+  const [showTemplatePicker, setShowTemplatePicker] = useState(false);
   const [amount, setAmount] = useState(existingSession?.amount !== undefined ? existingSession.amount.toString() : '');
+  // The fee last filled in from the selected service, to tell it apart from one typed by hand
+  const [servicePrice, setServicePrice] = useState<string | null>(null);
+  const [duration, setDuration] = useState(existingSession?.duration ? existingSession.duration.toString() : '60');
+  const [conflict, setConflict] = useState<ScheduleConflict | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [errors, setErrors] = useState<{ patientId?: string; date?: string; time?: string; amount?: string }>({});
+  const [recurrence, setRecurrence] = useState<RecurrenceFormValue>({
+    frequency: 'none',
+    weekdays: [],
+    endType: 'count',
+    count: '6',
+    endDate: new Date(),
+  });
+  const [errors, setErrors] = useState<{ patientId?: string; date?: string; time?: string; duration?: string; amount?: string; recurrence?: string; measurements?: string }>({});
   
   const [showPatientPicker, setShowPatientPicker] = useState(false);
   const [showDatePicker, setShowDatePicker] = useState(false);
@@ -59,8 +105,15 @@ export default function SessionForm({ existingSession, preselectedPatientId, onS
 
   useEffect(() => {
     loadPatients();
+    loadServices();
   }, []);
 
+  useEffect(() => {
+    loadPlans();
+    loadConsentStatus();
+    loadPackageStatus();
+  }, [patientId]);
+
   const loadPatients = async () => {
     try {
       const patientsList = await getCurrentUserPatients();
@@ -75,12 +128,76 @@ export default function SessionForm({ existingSession, preselectedPatientId, onS
     }
   };
 
+  const loadServices = async () => {
+    setServices(await getServices());
+  };
+
+  // Booking still goes ahead without consent; the form only warns about it
+  const loadConsentStatus = async () => {
+    setHasValidConsent(null);
+    if (!patientId) return;
+
+    const consents = await getConsents(patientId);
+    setHasValidConsent(getValidConsent(consents) !== null);
+  };
+
+  const loadPackageStatus = async () => {
+    setPatientPackages([]);
+    setBookedCount(0);
+    if (!patientId) return;
+
+    const [packages, sessions] = await Promise.all([getPatientPackages(patientId), getPatientSessions(patientId)]);
+    setPatientPackages(packages);
+    setBookedCount(sessions.filter(session => isOpenSession(session) && session.id !== existingSession?.id).length);
+  };
+
+  const loadPlans = async () => {
+    if (!patientId) {
+      setPlans([]);
+      return;
+    }
+
+    // Closed plans can't take new sessions, but an edited session still shows the plan it belongs to
+    const selectablePlans = (await getTreatmentPlans(patientId)).filter(
+      plan => plan.status === 'active' || plan.id === existingSession?.treatmentPlanId
+    );
+    setPlans(selectablePlans);
+    setTreatmentPlanId(current => {
+      if (selectablePlans.some(plan => plan.id === current)) return current;
+      // New sessions go to the patient's only active plan by default
+      return !existingSession && selectablePlans.length === 1 ? selectablePlans[0].id : null;
+    });
+  };
+
   const validateForm = (): boolean => {
-    const newErrors: { patientId?: string; date?: string; time?: string; amount?: string } = {};
+    const newErrors: { patientId?: string; date?: string; time?: string; duration?: string; amount?: string; recurrence?: string; measurements?: string } = {};
     
     if (!patientId) {
       newErrors.patientId = 'Please select a patient';
     }
+
+    const durationMinutes = parseInt(duration, 10);
+    if (isNaN(durationMinutes) || durationMinutes < 5 || durationMinutes > 480) {
+      newErrors.duration = 'Duration must be between 5 and 480 minutes';
+    }
+
+    if (isRecurring) {
+      const count = parseInt(recurrence.count, 10);
+      if (recurrence.frequency === 'weekdays' && recurrence.weekdays.length === 0) {
+        newErrors.recurrence = 'Select at least one day of the week';
+      } else if (recurrence.endType === 'count' && (isNaN(count) || count < 1 || count > 100)) {
+        newErrors.recurrence = 'Number of sessions must be between 1 and 100';
+      } else if (recurrence.endType === 'date' && formatDateForStorage(recurrence.endDate) < formatDateForStorage(date)) {
+        newErrors.recurrence = 'End date must be on or after the session date';
+      }
+    }
+
+    const outOfRange = measurements.some(item =>
+      [item.activeRom, item.passiveRom].some(rom => rom !== null && (rom < MIN_ROM || rom > MAX_ROM))
+    );
+    if (outOfRange) {
+      newErrors.measurements = `Range of motion must be between ${MIN_ROM} and ${MAX_ROM} degrees`;
+    }
     
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -113,6 +230,7 @@ export default function SessionForm({ existingSession, preselectedPatientId, onS
     
     if (selectedDate) {
       setDate(selectedDate);
+      setConflict(null);
     }
   };
 
@@ -123,7 +241,38 @@ export default function SessionForm({ existingSession, preselectedPatientId, onS
     
     if (selectedTime) {
       setTime(selectedTime);
+      setConflict(null);
+    }
+  };
+
+  const isRecurring = !existingSession && recurrence.frequency !== 'none';
+
+  // Warn when this booking uses up (or runs past) the patient's prepaid sessions
+  const packageWarning = !existingSession || isOpenSession(existingSession)
+    ? getPackageBookingWarning(getUsablePackage(patientPackages, formatDateForStorage(date)), bookedCount)
+    : null;
+
+  // SOAP notes describe a single visit; plain notes remain for series and for sessions recorded before SOAP notes
+  const showPlainNotes = isRecurring || Boolean(existingSession?.notes);
+
+  const buildRecurrenceRule = (startDate: string): RecurrenceRule => {
+    const rule: RecurrenceRule = {
+      startDate,
+      frequency: recurrence.frequency as RecurrenceRule['frequency'],
+      endType: recurrence.endType,
+    };
+
+    if (recurrence.frequency === 'weekdays') {
+      rule.weekdays = recurrence.weekdays;
+    }
+
+    if (recurrence.endType === 'count') {
+      rule.count = parseInt(recurrence.count, 10);
+    } else {
+      rule.endDate = formatDateForStorage(recurrence.endDate);
     }
+
+    return rule;
   };
 
   const getPatientNameById = (id: string): string => {
@@ -131,17 +280,79 @@ export default function SessionForm({ existingSession, preselectedPatientId, onS
     return patient ? patient.name : '';
   };
 
-  const handleSubmit = async () => {
+  const handleDurationChange = (value: string) => {
+    setDuration(value);
+    setConflict(null);
+  };
+
+  // Picking a service fills in its duration and the patient's price; both can still be changed
+  const handleSelectService = (service: Service | null) => {
+    setServiceId(service ? service.id : null);
+    if (!service) return;
+
+    handleDurationChange(service.duration.toString());
+    applyServicePrice(service, patients.find(p => p.id === patientId));
+  };
+
+  const applyServicePrice = (service: Service, patient?: Patient) => {
+    const price = getServicePrice(service, patient).toString();
+    setAmount(price);
+    setServicePrice(price);
+  };
+
+  // A fee filled in from the service follows the patient's agreed price; one typed by hand is kept
+  const handleSelectPatient = (patient: Patient) => {
+    setPatientId(patient.id);
+    setShowPatientPicker(false);
+
+    const service = services.find(item => item.id === serviceId);
+    if (service && amount === servicePrice) {
+      applyServicePrice(service, patient);
+    }
+  };
+
+  // The name of the selected service, kept as booked when the service has since been deleted
+  const getServiceName = (): string => {
+    if (!serviceId) return '';
+    return services.find(service => service.id === serviceId)?.name || existingSession?.serviceName || '';
+  };
+
+  const handleSelectTemplate = (template: NoteTemplate) => {
+    setShowTemplatePicker(false);
+    setClinicalNotes(applyNoteTemplate(clinicalNotes, template, {
+      patientName: getPatientNameById(patientId),
+      date: formatDateForStorage(date),
+      time: formatTimeForStorage(time),
+    }));
+    setShowClinicalNotes(true);
+  };
+
+  // Picking a suggested slot moves the session there; the user still confirms with Save
+  const handleSelectSuggestion = (slot: SuggestedSlot) => {
+    const slotDate = new Date(`${slot.date}T${slot.time}`);
+    setDate(slotDate);
+    setTime(slotDate);
+    setConflict(null);
+  };
+
+  const formatConflict = (session: Session): string => {
+    const sessionDate = new Date(`${session.date}T${session.time}`);
+    return `${session.patientName} - ${formatDateForDisplay(sessionDate)} at ${session.time} (${session.duration || 60} min)`;
+  };
+
+  const handleSubmit = async (allowConflicts = false) => {
     if (!validateForm()) {
       return;
     }
     
     try {
       setIsSubmitting(true);
+      setConflict(null);
       
       const patientName = getPatientNameById(patientId);
       const formattedDate = formatDateForStorage(date);
       const formattedTime = formatTimeForStorage(time);
+      const durationMinutes = parseInt(duration, 10);
       
       if (existingSession) {
         const updatedSessionData: Session = {
@@ -150,7 +361,16 @@ export default function SessionForm({ existingSession, preselectedPatientId, onS
           patientName,
           date: formattedDate,
           time: formattedTime,
+          duration: durationMinutes,
           notes,
+          clinicalNotes,
+          exercises,
+          // Rows left without any values are dropped rather than rejected
+          measurements: measurements.filter(item => !isMeasurementEmpty(item)),
+          bodyChart,
+          treatmentPlanId,
+          serviceId,
+          serviceName: getServiceName(),
         };
         
         // Add amount if provided
@@ -160,12 +380,34 @@ export default function SessionForm({ existingSession, preselectedPatientId, onS
           updatedSessionData.amount = undefined;
         }
         
-        await updateSession(updatedSessionData);
+        const updatedSessions = await updateSession(updatedSessionData, editScope, allowConflicts);
         
-        // Schedule notification for the updated session
-        await scheduleSessionNotification(updatedSessionData);
+        // Replace the reminders for the previous slots, including the rest of the series when it moved too
+        await cancelSessionNotifications(updatedSessions.map(item => item.id));
+        await Promise.all(updatedSessions.map(scheduleSessionNotification));
         
         onSave(updatedSessionData);
+      } else if (isRecurring) {
+        const seriesData: Omit<Session, 'id' | 'createdAt' | 'userId' | 'date' | 'status' | 'seriesId'> = {
+          patientId,
+          patientName,
+          time: formattedTime,
+          duration: durationMinutes,
+          notes,
+          treatmentPlanId,
+          serviceId,
+        };
+
+        if (amount.trim()) {
+          seriesData.amount = parseFloat(amount);
+        }
+
+        const newSessions = await saveSessionSeries(seriesData, buildRecurrenceRule(formattedDate), allowConflicts);
+
+        // Schedule reminders for every session in the series
+        await Promise.all(newSessions.map(scheduleSessionNotification));
+
+        onSave(newSessions[0]);
       } else {
         // The saveSession function now handles adding the userId internally
         // We're using Omit<Session, 'id' | 'createdAt' | 'userId'> because userId is added by saveSession
@@ -174,8 +416,15 @@ export default function SessionForm({ existingSession, preselectedPatientId, onS
           patientName,
           date: formattedDate,
           time: formattedTime,
+          duration: durationMinutes,
           notes,
-          completed: false,
+          clinicalNotes,
+          exercises,
+          measurements: measurements.filter(item => !isMeasurementEmpty(item)),
+          bodyChart,
+          status: 'scheduled',
+          treatmentPlanId,
+          serviceId,
         };
         
         // Add amount if provided
@@ -183,7 +432,7 @@ export default function SessionForm({ existingSession, preselectedPatientId, onS
           sessionData.amount = parseFloat(amount);
         }
         
-        const newSession = await saveSession(sessionData);
+        const newSession = await saveSession(sessionData, allowConflicts);
         
         // Schedule notification for the new session
         await scheduleSessionNotification(newSession);
@@ -191,6 +440,13 @@ export default function SessionForm({ existingSession, preselectedPatientId, onS
         onSave(newSession);
       }
     } catch (error) {
+      // Overlaps are shown inline with alternatives instead of a generic alert
+      const scheduleConflict = getScheduleConflict(error);
+      if (scheduleConflict) {
+        setConflict(scheduleConflict);
+        return;
+      }
+
       Alert.alert('Error', 'Failed to save session information');
       console.error('Error saving session:', error);
     } finally {
@@ -300,129 +556,357 @@ export default function SessionForm({ existingSession, preselectedPatientId, onS
   };
 
   return (
-    <View style={[styles.container, { backgroundColor: theme.backgroundColor }]}>
-      <Text style={[styles.title, { color: theme.textColor }]}>
-        {existingSession ? 'Edit Session' : 'Add New Session'}
-      </Text>
+    <View style={[styles.container, { backgroundColor: theme.backgroundColor, maxHeight: windowHeight * 0.9 }]}>
+      <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <Text style={[styles.title, { color: theme.textColor }]}>
+          {existingSession
+            ? editScope === 'single' ? 'Edit Session' : 'Edit Series'
+            : 'Add New Session'}
+        </Text>
       
-      {/* Patient Selector */}
-      <View style={styles.formGroup}>
-        <Text style={[styles.label, { color: theme.textColor }]}>Patient</Text>
-        {patients.length > 0 ? (
+        {/* Patient Selector */}
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Patient</Text>
+          {patients.length > 0 ? (
+            <TouchableOpacity 
+              style={[
+                styles.input, 
+                { 
+                  backgroundColor: theme.inputBackground,
+                  borderColor: errors.patientId ? theme.errorColor : theme.borderColor 
+                }
+              ]}
+              onPress={() => setShowPatientPicker(true)}
+            >
+              <Text style={{ color: theme.textColor }}>
+                {patientId ? getPatientNameById(patientId) : 'Select a patient'}
+              </Text>
+            </TouchableOpacity>
+          ) : (
+            <Text style={[styles.noDataText, { color: theme.errorColor }]}>
+              No patients available. Please add a patient first.
+            </Text>
+          )}
+          {errors.patientId ? <Text style={[styles.errorText, { color: theme.errorColor }]}>{errors.patientId}</Text> : null}
+          {patientId && hasValidConsent === false ? (
+            <Text style={[styles.errorText, { color: theme.warningColor }]}>
+              No valid consent on file. Collect a signed consent from the patient screen.
+            </Text>
+          ) : null}
+          {packageWarning ? (
+            <Text style={[styles.errorText, { color: theme.warningColor }]}>{packageWarning}</Text>
+          ) : null}
+        </View>
+
+        {/* Treatment Plan - only when the patient has one */}
+        {plans.length > 0 && (
+          <View style={styles.formGroup}>
+            <Text style={[styles.label, { color: theme.textColor }]}>Treatment Plan</Text>
+            <View style={styles.chipRow}>
+              {[null, ...plans].map(plan => {
+                const isSelected = (plan?.id || null) === treatmentPlanId;
+                return (
+                  <TouchableOpacity
+                    key={plan?.id || 'none'}
+                    style={[
+                      styles.chip,
+                      { borderColor: isSelected ? theme.primaryColor : theme.borderColor },
+                      isSelected ? { backgroundColor: theme.primaryColor } : null
+                    ]}
+                    onPress={() => setTreatmentPlanId(plan?.id || null)}
+                  >
+                    <Text style={{ color: isSelected ? 'white' : theme.textColor }}>
+                      {plan ? `${plan.diagnosis} (${plan.completedSessions}/${plan.plannedSessions})` : 'None'}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        {/* Service - prefills duration and fee */}
+        {(services.length > 0 || serviceId) && (
+          <View style={styles.formGroup}>
+            <Text style={[styles.label, { color: theme.textColor }]}>Service</Text>
+            <View style={styles.chipRow}>
+              {[null, ...services].map(service => {
+                const isSelected = (service?.id || null) === serviceId;
+                return (
+                  <TouchableOpacity
+                    key={service?.id || 'none'}
+                    style={[
+                      styles.chip,
+                      { borderColor: isSelected ? theme.primaryColor : theme.borderColor },
+                      isSelected ? { backgroundColor: theme.primaryColor } : null
+                    ]}
+                    onPress={() => handleSelectService(service)}
+                  >
+                    <Text style={{ color: isSelected ? 'white' : theme.textColor }}>
+                      {service ? service.name : 'None'}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+              {serviceId && !services.some(service => service.id === serviceId) && (
+                <View style={[styles.chip, { borderColor: theme.primaryColor, backgroundColor: theme.primaryColor }]}>
+                  <Text style={{ color: 'white' }}>{getServiceName()}</Text>
+                </View>
+              )}
+            </View>
+          </View>
+        )}
+      
+        {/* Date Selector */}
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Date</Text>
+          <TouchableOpacity 
+            style={[styles.dateTimeButton, { backgroundColor: theme.inputBackground, borderColor: theme.borderColor }]}
+            onPress={() => setShowDatePicker(true)}
+          >
+            <Text style={{ color: theme.textColor }}>{formatDateForDisplay(date)}</Text>
+          </TouchableOpacity>
+        </View>
+      
+        {/* Time Selector */}
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Time</Text>
           <TouchableOpacity 
+            style={[styles.dateTimeButton, { backgroundColor: theme.inputBackground, borderColor: theme.borderColor }]}
+            onPress={() => setShowTimePicker(true)}
+          >
+            <Text style={{ color: theme.textColor }}>{formatTimeForDisplay(time)}</Text>
+          </TouchableOpacity>
+        </View>
+      
+        {/* Duration Input */}
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Duration (minutes)</Text>
+          <TextInput
             style={[
               styles.input, 
               { 
                 backgroundColor: theme.inputBackground,
-                borderColor: errors.patientId ? theme.errorColor : theme.borderColor 
+                borderColor: errors.duration ? theme.errorColor : theme.borderColor,
+                color: theme.textColor
               }
             ]}
-            onPress={() => setShowPatientPicker(true)}
-          >
-            <Text style={{ color: theme.textColor }}>
-              {patientId ? getPatientNameById(patientId) : 'Select a patient'}
-            </Text>
-          </TouchableOpacity>
-        ) : (
-          <Text style={[styles.noDataText, { color: theme.errorColor }]}>
-            No patients available. Please add a patient first.
-          </Text>
+            value={duration}
+            onChangeText={handleDurationChange}
+            placeholder="60"
+            placeholderTextColor={theme.placeholderColor}
+            keyboardType="number-pad"
+          />
+          {errors.duration ? <Text style={[styles.errorText, { color: theme.errorColor }]}>{errors.duration}</Text> : null}
+        </View>
+        
+        {/* Recurrence - only offered when creating sessions */}
+        {!existingSession && (
+          <RecurrenceForm
+            value={recurrence}
+            onChange={setRecurrence}
+            minimumDate={date}
+            error={errors.recurrence}
+          />
         )}
-        {errors.patientId ? <Text style={[styles.errorText, { color: theme.errorColor }]}>{errors.patientId}</Text> : null}
-      </View>
-      
-      {/* Date Selector */}
-      <View style={styles.formGroup}>
-        <Text style={[styles.label, { color: theme.textColor }]}>Date</Text>
-        <TouchableOpacity 
-          style={[styles.dateTimeButton, { backgroundColor: theme.inputBackground, borderColor: theme.borderColor }]}
-          onPress={() => setShowDatePicker(true)}
-        >
-          <Text style={{ color: theme.textColor }}>{formatDateForDisplay(date)}</Text>
-        </TouchableOpacity>
-      </View>
       
-      {/* Time Selector */}
-      <View style={styles.formGroup}>
-        <Text style={[styles.label, { color: theme.textColor }]}>Time</Text>
-        <TouchableOpacity 
-          style={[styles.dateTimeButton, { backgroundColor: theme.inputBackground, borderColor: theme.borderColor }]}
-          onPress={() => setShowTimePicker(true)}
-        >
-          <Text style={{ color: theme.textColor }}>{formatTimeForDisplay(time)}</Text>
-        </TouchableOpacity>
-      </View>
+        {/* Clinical Notes */}
+        {!isRecurring && (
+          <View style={styles.formGroup}>
+            <View style={styles.sectionToggle}>
+              <Text style={[styles.label, { color: theme.textColor }]}>Clinical Notes (SOAP)</Text>
+              <View style={styles.sectionActions}>
+                <TouchableOpacity onPress={() => setShowTemplatePicker(true)}>
+                  <Text style={[styles.sectionToggleText, { color: theme.primaryColor }]}>Template</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => setShowClinicalNotes(!showClinicalNotes)}>
+                  <Text style={[styles.sectionToggleText, styles.sectionActionSpacing, { color: theme.primaryColor }]}>
+                    {showClinicalNotes ? 'Hide' : 'Show'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+            {showClinicalNotes && <ClinicalNotesForm value={clinicalNotes} onChange={setClinicalNotes} />}
+          </View>
+        )}
+
+        {/* Exercises given at this visit */}
+        {!isRecurring && (
+          <View style={styles.formGroup}>
+            <View style={styles.sectionToggle}>
+              <Text style={[styles.label, { color: theme.textColor }]}>
+                Home Exercises{exercises.length > 0 ? ` (${exercises.length})` : ''}
+              </Text>
+              <TouchableOpacity onPress={() => setShowExercises(!showExercises)}>
+                <Text style={[styles.sectionToggleText, { color: theme.primaryColor }]}>
+                  {showExercises ? 'Hide' : 'Show'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+            {showExercises && <ExerciseListEditor value={exercises} onChange={setExercises} />}
+          </View>
+        )}
+
+        {/* Range of motion and strength taken at this visit */}
+        {!isRecurring && (
+          <View style={styles.formGroup}>
+            <View style={styles.sectionToggle}>
+              <Text style={[styles.label, { color: theme.textColor }]}>
+                Objective Measurements{measurements.length > 0 ? ` (${measurements.length})` : ''}
+              </Text>
+              <TouchableOpacity onPress={() => setShowMeasurements(!showMeasurements)}>
+                <Text style={[styles.sectionToggleText, { color: theme.primaryColor }]}>
+                  {showMeasurements ? 'Hide' : 'Show'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+            {showMeasurements && <MeasurementsForm value={measurements} onChange={setMeasurements} />}
+            {errors.measurements && <Text style={[styles.errorText, { color: theme.errorColor }]}>{errors.measurements}</Text>}
+          </View>
+        )}
+
+        {/* Where the patient reports pain at this visit */}
+        {!isRecurring && (
+          <View style={styles.formGroup}>
+            <View style={styles.sectionToggle}>
+              <Text style={[styles.label, { color: theme.textColor }]}>
+                Body Chart{bodyChart.length > 0 ? ` (${bodyChart.length})` : ''}
+              </Text>
+              <TouchableOpacity onPress={() => setShowBodyChart(!showBodyChart)}>
+                <Text style={[styles.sectionToggleText, { color: theme.primaryColor }]}>
+                  {showBodyChart ? 'Hide' : 'Show'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+            {showBodyChart && <BodyChartEditor value={bodyChart} onChange={setBodyChart} />}
+          </View>
+        )}
       
-      {/* Notes Input */}
-      <View style={styles.formGroup}>
-        <Text style={[styles.label, { color: theme.textColor }]}>Notes</Text>
-        <TextInput
-          style={[
-            styles.textArea, 
-            { 
-              backgroundColor: theme.inputBackground,
-              borderColor: theme.borderColor,
-              color: theme.textColor
-            }
-          ]}
-          value={notes}
-          onChangeText={setNotes}
-          placeholder="Add session notes (optional)"
-          placeholderTextColor={theme.placeholderColor}
-          multiline={true}
-          numberOfLines={4}
-        />
-      </View>
+        {/* Notes Input */}
+        {showPlainNotes && (
+          <View style={styles.formGroup}>
+            <Text style={[styles.label, { color: theme.textColor }]}>{isRecurring ? 'Notes' : 'Notes (legacy)'}</Text>
+            <TextInput
+              style={[
+                styles.textArea, 
+                { 
+                  backgroundColor: theme.inputBackground,
+                  borderColor: theme.borderColor,
+                  color: theme.textColor
+                }
+              ]}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="Add session notes (optional)"
+              placeholderTextColor={theme.placeholderColor}
+              multiline={true}
+              numberOfLines={4}
+            />
+          </View>
+        )}
       
-      {/* Amount Input */}
-      <View style={styles.formGroup}>
-        <Text style={[styles.label, { color: theme.textColor }]}>Amount ($)</Text>
-        <TextInput
-          style={[
-            styles.input, 
-            { 
-              backgroundColor: theme.inputBackground,
-              borderColor: errors.amount ? theme.errorColor : theme.borderColor,
-              color: theme.textColor
-            }
-          ]}
-          value={amount}
-          onChangeText={setAmount}
-          placeholder="Enter amount (optional)"
-          placeholderTextColor={theme.placeholderColor}
-          keyboardType="decimal-pad"
-        />
-        {errors.amount ? <Text style={[styles.errorText, { color: theme.errorColor }]}>{errors.amount}</Text> : null}
-      </View>
+        {/* Fee Input; payments are recorded separately */}
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Fee ({getCurrency()})</Text>
+          <TextInput
+            style={[
+              styles.input, 
+              { 
+                backgroundColor: theme.inputBackground,
+                borderColor: errors.amount ? theme.errorColor : theme.borderColor,
+                color: theme.textColor
+              }
+            ]}
+            value={amount}
+            onChangeText={setAmount}
+            placeholder="Enter fee (optional)"
+            placeholderTextColor={theme.placeholderColor}
+            keyboardType="decimal-pad"
+          />
+          {errors.amount ? <Text style={[styles.errorText, { color: theme.errorColor }]}>{errors.amount}</Text> : null}
+        </View>
       
-      {/* Buttons */}
-      <View style={styles.buttonContainer}>
-        <TouchableOpacity
-          style={[
-            styles.button, 
-            { backgroundColor: theme.cancelButtonBg },
-            isSubmitting ? styles.disabledButton : null
-          ]}
-          onPress={onCancel}
-          disabled={isSubmitting}
-        >
-          <Text style={[styles.cancelButtonText, { color: theme.textColor }]}>Cancel</Text>
-        </TouchableOpacity>
+        {/* Overlap or availability warning with the reasons and the next free slots */}
+        {conflict && (
+          <View style={[styles.conflictContainer, { borderColor: theme.errorColor }]}>
+            <Text style={[styles.conflictTitle, { color: theme.errorColor }]}>{conflict.error}</Text>
+            {conflict.unavailable.slice(0, 3).map(item => (
+              <Text key={item.date} style={[styles.conflictText, { color: theme.textColor }]}>
+                {formatDateForDisplay(new Date(`${item.date}T00:00`))}: {item.reason}
+              </Text>
+            ))}
+            {conflict.unavailable.length > 3 && (
+              <Text style={[styles.conflictText, { color: theme.placeholderColor }]}>
+                and {conflict.unavailable.length - 3} more unavailable dates
+              </Text>
+            )}
+            {conflict.conflicts.slice(0, 3).map(session => (
+              <Text key={session.id} style={[styles.conflictText, { color: theme.textColor }]}>
+                {formatConflict(session)}
+              </Text>
+            ))}
+            {conflict.conflicts.length > 3 && (
+              <Text style={[styles.conflictText, { color: theme.placeholderColor }]}>
+                and {conflict.conflicts.length - 3} more
+              </Text>
+            )}
+            {conflict.suggestions.length > 0 && (
+              <>
+                <Text style={[styles.conflictSubtitle, { color: theme.textColor }]}>Next free slots</Text>
+                <View style={styles.suggestionRow}>
+                  {conflict.suggestions.map(slot => (
+                    <TouchableOpacity
+                      key={`${slot.date}-${slot.time}`}
+                      style={[styles.suggestionChip, { borderColor: theme.primaryColor }]}
+                      onPress={() => handleSelectSuggestion(slot)}
+                    >
+                      <Text style={{ color: theme.primaryColor }}>
+                        {formatDateForDisplay(new Date(`${slot.date}T${slot.time}`))} {slot.time}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+            <TouchableOpacity
+              style={styles.bookAnywayButton}
+              onPress={() => handleSubmit(true)}
+              disabled={isSubmitting}
+            >
+              <Text style={[styles.bookAnywayText, { color: theme.errorColor }]}>Book Anyway</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        
+        {/* Buttons */}
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity
+            style={[
+              styles.button, 
+              { backgroundColor: theme.cancelButtonBg },
+              isSubmitting ? styles.disabledButton : null
+            ]}
+            onPress={onCancel}
+            disabled={isSubmitting}
+          >
+            <Text style={[styles.cancelButtonText, { color: theme.textColor }]}>Cancel</Text>
+          </TouchableOpacity>
         
-        <TouchableOpacity
-          style={[
-            styles.button, 
-            { backgroundColor: theme.primaryColor },
-            isSubmitting ? styles.disabledButton : null
-          ]}
-          onPress={handleSubmit}
-          disabled={isSubmitting || patients.length === 0}
-        >
-          <Text style={styles.saveButtonText}>
-            {isSubmitting ? 'Saving...' : existingSession ? 'Update' : 'Save'}
-          </Text>
-        </TouchableOpacity>
-      </View>
+          <TouchableOpacity
+            style={[
+              styles.button, 
+              { backgroundColor: theme.primaryColor },
+              isSubmitting ? styles.disabledButton : null
+            ]}
+            onPress={() => handleSubmit()}
+            disabled={isSubmitting || patients.length === 0}
+          >
+            <Text style={styles.saveButtonText}>
+              {isSubmitting ? 'Saving...' : existingSession ? 'Update' : isRecurring ? 'Save Series' : 'Save'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
       
       {/* Patient Picker Modal */}
       <Modal
@@ -440,10 +924,7 @@ export default function SessionForm({ existingSession, preselectedPatientId, onS
                 <TouchableOpacity
                   key={patient.id}
                   style={[styles.patientItem, { borderBottomColor: theme.separatorColor }]}
-                  onPress={() => {
-                    setPatientId(patient.id);
-                    setShowPatientPicker(false);
-                  }}
+                  onPress={() => handleSelectPatient(patient)}
                 >
                   <Text style={[
                     styles.patientName,
@@ -465,6 +946,12 @@ export default function SessionForm({ existingSession, preselectedPatientId, onS
         </View>
       </Modal>
       
+      <NoteTemplatePicker
+        visible={showTemplatePicker}
+        onSelect={handleSelectTemplate}
+        onCancel={() => setShowTemplatePicker(false)}
+      />
+      
       {/* Date & Time Pickers */}
       {renderDateTimePicker()}
     </View>
@@ -501,6 +988,21 @@ const styles = StyleSheet.create({
     height: 100,
     textAlignVertical: 'top',
   },
+  sectionToggle: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionToggleText: {
+    fontSize: 15,
+    marginBottom: 5,
+  },
+  sectionActions: {
+    flexDirection: 'row',
+  },
+  sectionActionSpacing: {
+    marginLeft: 16,
+  },
   dateTimeButton: {
     borderWidth: 1,
     borderRadius: 8,
@@ -516,6 +1018,59 @@ const styles = StyleSheet.create({
     marginTop: 5,
     textAlign: 'center',
   },
+  conflictContainer: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 15,
+  },
+  conflictTitle: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    marginBottom: 6,
+  },
+  conflictText: {
+    fontSize: 14,
+    marginBottom: 3,
+  },
+  conflictSubtitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginTop: 8,
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  suggestionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  suggestionChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  bookAnywayButton: {
+    marginTop: 8,
+    alignItems: 'center',
+  },
+  bookAnywayText: {
+    fontSize: 15,
+    fontWeight: 'bold',
+  },
   buttonContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  useColorScheme,
+  Platform
+} from 'react-native';
+import { Session, SessionStatus } from '../types';
+import { SESSION_STATUSES, SESSION_STATUS_LABELS, SESSION_STATUS_COLORS } from '../utils/sessionStatus';
+
+interface SessionStatusModalProps {
+  visible: boolean;
+  session: Session;
+  onSelect: (status: SessionStatus, reason: string) => void;
+  onCancel: () => void;
+}
+
+// Statuses where a short reason is worth recording
+const REASON_STATUSES: SessionStatus[] = ['no-show', 'cancelled-by-patient', 'cancelled-by-clinic'];
+
+export default function SessionStatusModal({ visible, session, onSelect, onCancel }: SessionStatusModalProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const [reason, setReason] = useState('');
+
+  const theme = {
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    subtitleColor: '#8E8E93',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    cancelButtonBg: isDarkMode ? '#444444' : '#E5E5EA',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+  };
+
+  useEffect(() => {
+    if (visible) {
+      setReason('');
+    }
+  }, [visible]);
+
+  const options = SESSION_STATUSES.filter(status => status !== session.status);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+        <View style={[styles.modalContent, { backgroundColor: theme.cardBackground }]}>
+          <Text style={[styles.title, { color: theme.textColor }]}>Update Status</Text>
+          <Text style={[styles.subtitle, { color: theme.subtitleColor }]}>
+            {session.patientName} is currently {SESSION_STATUS_LABELS[session.status].toLowerCase()}
+          </Text>
+
+          <TextInput
+            style={[styles.reasonInput, { color: theme.textColor, borderColor: theme.borderColor }]}
+            value={reason}
+            onChangeText={setReason}
+            placeholder="Reason (for cancellations and no-shows)"
+            placeholderTextColor={theme.placeholderColor}
+          />
+
+          <ScrollView style={styles.optionList}>
+            {options.map(status => (
+              <TouchableOpacity
+                key={status}
+                style={[styles.option, { borderColor: theme.borderColor }]}
+                onPress={() => onSelect(status, REASON_STATUSES.includes(status) ? reason.trim() : '')}
+              >
+                <View style={[styles.statusDot, { backgroundColor: SESSION_STATUS_COLORS[status] }]} />
+                <Text style={[styles.optionText, { color: theme.textColor }]}>{SESSION_STATUS_LABELS[status]}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.cancelButton, { backgroundColor: theme.cancelButtonBg }]}
+            onPress={onCancel}
+          >
+            <Text style={[styles.cancelButtonText, { color: theme.textColor }]}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '90%',
+    borderRadius: 12,
+    padding: 20,
+    ...Platform.select({
+      web: {
+        boxShadow: '0px 2px 3.84px rgba(0, 0, 0, 0.25)',
+      },
+      default: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.25,
+        shadowRadius: 3.84,
+        elevation: 5,
+      },
+    }),
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    marginBottom: 15,
+    textAlign: 'center',
+  },
+  reasonInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 15,
+    marginBottom: 12,
+  },
+  optionList: {
+    flexGrow: 0,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 14,
+    marginBottom: 10,
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 10,
+  },
+  optionText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    borderRadius: 8,
+    padding: 14,
+    marginTop: 5,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,153 @@
+import React, { useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  PanResponder,
+  StyleSheet,
+  useColorScheme,
+  LayoutChangeEvent,
+  GestureResponderEvent
+} from 'react-native';
+import Svg, { Path, Line } from 'react-native-svg';
+import { Eraser } from 'lucide-react-native';
+import { SignatureStroke, buildSignaturePath } from '../utils/consents';
+
+interface SignaturePadProps {
+  value: SignatureStroke[];
+  onChange: (strokes: SignatureStroke[], width: number, height: number) => void;
+  height?: number;
+  // Lets a surrounding ScrollView stop scrolling while the patient signs
+  onSigningChange?: (isSigning: boolean) => void;
+}
+
+// A white pad the patient signs with a finger or stylus. Strokes are kept in pad coordinates.
+export default function SignaturePad({ value, onChange, height = 180, onSigningChange }: SignaturePadProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const [width, setWidth] = useState(0);
+
+  const theme = {
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    guideColor: '#C7C7CC',
+    primaryColor: '#0A84FF',
+    subtitleColor: '#8E8E93',
+  };
+
+  // The responder is created once, so it reads the latest strokes and size through refs
+  const strokesRef = useRef(value);
+  strokesRef.current = value;
+  const sizeRef = useRef({ width, height });
+  sizeRef.current = { width, height };
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const onSigningChangeRef = useRef(onSigningChange);
+  onSigningChangeRef.current = onSigningChange;
+
+  const getPoint = (event: GestureResponderEvent) => ({
+    x: Math.min(Math.max(event.nativeEvent.locationX, 0), sizeRef.current.width),
+    y: Math.min(Math.max(event.nativeEvent.locationY, 0), sizeRef.current.height),
+  });
+
+  const update = (strokes: SignatureStroke[]) => {
+    strokesRef.current = strokes;
+    onChangeRef.current(strokes, sizeRef.current.width, sizeRef.current.height);
+  };
+
+  const endStroke = () => {
+    onSigningChangeRef.current?.(false);
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: event => {
+        onSigningChangeRef.current?.(true);
+        update([...strokesRef.current, [getPoint(event)]]);
+      },
+      onPanResponderMove: event => {
+        const strokes = strokesRef.current;
+        if (strokes.length === 0) return;
+        const current = strokes[strokes.length - 1];
+        update([...strokes.slice(0, -1), [...current, getPoint(event)]]);
+      },
+      onPanResponderRelease: endStroke,
+      onPanResponderTerminate: endStroke,
+    })
+  ).current;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  return (
+    <View>
+      <View
+        style={[styles.pad, { height, borderColor: theme.borderColor }]}
+        onLayout={handleLayout}
+        {...panResponder.panHandlers}
+      >
+        {width > 0 && (
+          <Svg width={width} height={height} pointerEvents="none">
+            <Line
+              x1={16}
+              y1={height - 36}
+              x2={width - 16}
+              y2={height - 36}
+              stroke={theme.guideColor}
+              strokeWidth={1}
+              strokeDasharray="4 4"
+            />
+            <Path
+              d={buildSignaturePath(value)}
+              fill="none"
+              stroke="#000000"
+              strokeWidth={2.5}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          </Svg>
+        )}
+      </View>
+
+      <View style={styles.footer}>
+        <Text style={[styles.hintText, { color: theme.subtitleColor }]}>Sign above the line</Text>
+        <TouchableOpacity style={styles.clearButton} onPress={() => update([])} disabled={value.length === 0}>
+          <Eraser size={16} color={value.length === 0 ? theme.subtitleColor : theme.primaryColor} />
+          <Text style={[styles.clearText, { color: value.length === 0 ? theme.subtitleColor : theme.primaryColor }]}>
+            Clear
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  pad: {
+    borderWidth: 1,
+    borderRadius: 8,
+    backgroundColor: 'white',
+    overflow: 'hidden',
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  hintText: {
+    fontSize: 13,
+  },
+  clearButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 5,
+  },
+  clearText: {
+    fontSize: 15,
+    marginLeft: 4,
+  },
+});
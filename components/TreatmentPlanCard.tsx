@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, useColorScheme, Platform } from 'react-native';
+import { Edit, Trash2, CheckCircle, FileText } from 'lucide-react-native';
+import { TreatmentPlan, DischargeStatus } from '../types';
+import DischargePlanModal from './DischargePlanModal';
+import { formatDateKey, parseDateKey } from '../utils/calendarUtils';
+import {
+  getGoalCounts,
+  getGoalStatusOption,
+  getDischargeStatusLabel,
+  getFrequencyLabel
+} from '../utils/treatmentPlans';
+
+interface TreatmentPlanCardProps {
+  plan: TreatmentPlan;
+  onEdit: (plan: TreatmentPlan) => void;
+  onDelete: (plan: TreatmentPlan) => void;
+  onDischarge: (plan: TreatmentPlan, status: DischargeStatus, notes: string) => void;
+  onCycleGoal: (plan: TreatmentPlan, goalIndex: number) => void;
+  onWriteLetter: (plan: TreatmentPlan) => void;
+}
+
+export default function TreatmentPlanCard({ plan, onEdit, onDelete, onDischarge, onCycleGoal, onWriteLetter }: TreatmentPlanCardProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const [dischargeVisible, setDischargeVisible] = useState(false);
+
+  const theme = {
+    cardBackground: isDarkMode ? '#2A2A2A' : 'white',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    labelColor: '#8E8E93',
+    primaryColor: '#0A84FF',
+    successColor: '#34C759',
+    errorColor: '#FF3B30',
+    trackColor: isDarkMode ? '#444444' : '#E5E5EA',
+    dischargedColor: '#8E8E93',
+  };
+
+  const isActive = plan.status === 'active';
+  const goalCounts = getGoalCounts(plan);
+  const progress = Math.min(plan.completedSessions / plan.plannedSessions, 1);
+  const today = formatDateKey(new Date());
+
+  const handleDischarge = (status: DischargeStatus, notes: string) => {
+    setDischargeVisible(false);
+    onDischarge(plan, status, notes);
+  };
+
+  const details = [
+    getFrequencyLabel(plan.frequencyPerWeek),
+    plan.scheduledSessions > 0 ? `${plan.scheduledSessions} scheduled` : '',
+    plan.goals.length > 0 ? `${goalCounts.met} met, ${goalCounts['not-met']} not met of ${plan.goals.length} goals` : '',
+  ].filter(Boolean);
+
+  return (
+    <View
+      style={[
+        styles.card,
+        {
+          backgroundColor: theme.cardBackground,
+          borderLeftColor: isActive ? theme.primaryColor : theme.dischargedColor
+        }
+      ]}
+    >
+      <View style={styles.header}>
+        <Text style={[styles.diagnosis, { color: theme.textColor }]}>{plan.diagnosis}</Text>
+        <View style={styles.actionButtons}>
+          {isActive && (
+            <TouchableOpacity style={styles.iconButton} onPress={() => setDischargeVisible(true)}>
+              <CheckCircle size={20} color={theme.successColor} />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.iconButton} onPress={() => onWriteLetter(plan)}>
+            <FileText size={20} color={theme.primaryColor} />
+          </TouchableOpacity>
+          {isActive && (
+            <TouchableOpacity style={styles.iconButton} onPress={() => onEdit(plan)}>
+              <Edit size={20} color={theme.primaryColor} />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.iconButton} onPress={() => onDelete(plan)}>
+            <Trash2 size={20} color={theme.errorColor} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <Text style={[styles.progressText, { color: theme.textColor }]}>
+        {plan.completedSessions} of {plan.plannedSessions} sessions completed
+      </Text>
+      <View style={[styles.progressTrack, { backgroundColor: theme.trackColor }]}>
+        <View
+          style={[
+            styles.progressFill,
+            { width: `${progress * 100}%`, backgroundColor: isActive ? theme.primaryColor : theme.dischargedColor }
+          ]}
+        />
+      </View>
+      {details.length > 0 && (
+        <Text style={[styles.detailsText, { color: theme.labelColor }]}>{details.join(' · ')}</Text>
+      )}
+
+      {plan.goals.map((goal, index) => {
+        const statusOption = getGoalStatusOption(goal.status);
+        const isOverdue = goal.status === 'pending' && goal.targetDate !== null && goal.targetDate < today;
+        return (
+          <View key={index} style={styles.goalRow}>
+            <TouchableOpacity
+              style={[styles.goalBadge, { backgroundColor: statusOption.color }]}
+              onPress={() => onCycleGoal(plan, index)}
+              disabled={!isActive}
+            >
+              <Text style={styles.goalBadgeText}>{statusOption.label}</Text>
+            </TouchableOpacity>
+            <View style={styles.goalText}>
+              <Text style={[styles.goalDescription, { color: theme.textColor }]}>{goal.description}</Text>
+              {goal.targetDate ? (
+                <Text style={[styles.goalTarget, { color: isOverdue ? theme.errorColor : theme.labelColor }]}>
+                  Target {parseDateKey(goal.targetDate).toLocaleDateString()}{isOverdue ? ' (overdue)' : ''}
+                </Text>
+              ) : null}
+            </View>
+          </View>
+        );
+      })}
+
+      {!isActive && (
+        <View style={styles.dischargeContainer}>
+          <Text style={[styles.dischargeText, { color: theme.textColor }]}>
+            Discharged{plan.dischargedAt ? ` on ${new Date(plan.dischargedAt).toLocaleDateString()}` : ''}: {getDischargeStatusLabel(plan.dischargeStatus)}
+          </Text>
+          {plan.dischargeNotes ? (
+            <Text style={[styles.detailsText, { color: theme.labelColor }]}>{plan.dischargeNotes}</Text>
+          ) : null}
+        </View>
+      )}
+
+      <DischargePlanModal
+        visible={dischargeVisible}
+        plan={plan}
+        onSelect={handleDischarge}
+        onCancel={() => setDischargeVisible(false)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 10,
+    borderLeftWidth: 5,
+    padding: 12,
+    marginHorizontal: 5,
+    marginBottom: 12,
+    ...Platform.select({
+      web: {
+        boxShadow: '0px 1px 1.41px rgba(0, 0, 0, 0.2)',
+      },
+      default: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.2,
+        shadowRadius: 1.41,
+        elevation: 2,
+      },
+    }),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  diagnosis: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  actionButtons: {
+    flexDirection: 'row',
+  },
+  iconButton: {
+    marginLeft: 10,
+  },
+  progressText: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 6,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+    marginBottom: 6,
+  },
+  progressFill: {
+    height: 6,
+    borderRadius: 3,
+  },
+  detailsText: {
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  goalRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginTop: 6,
+  },
+  goalBadge: {
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginRight: 8,
+    marginTop: 1,
+  },
+  goalBadgeText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  goalText: {
+    flex: 1,
+  },
+  goalDescription: {
+    fontSize: 14,
+  },
+  goalTarget: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  dischargeContainer: {
+    marginTop: 10,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(150, 150, 150, 0.2)',
+  },
+  dischargeText: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 2,
+  },
+});
@@ -0,0 +1,423 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  Modal,
+  useColorScheme,
+  ScrollView,
+  Platform,
+  useWindowDimensions
+} from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { Plus, X } from 'lucide-react-native';
+import { saveTreatmentPlan, updateTreatmentPlan } from '../utils/mongoStorage';
+import { TreatmentPlan, TreatmentGoal } from '../types';
+import { formatDateKey, parseDateKey } from '../utils/calendarUtils';
+import { EMPTY_GOAL } from '../utils/treatmentPlans';
+
+interface TreatmentPlanFormProps {
+  patientId: string;
+  existingPlan?: TreatmentPlan;
+  onSave: (plan: TreatmentPlan) => void;
+  onCancel: () => void;
+}
+
+interface TreatmentPlanFormErrors {
+  diagnosis?: string;
+  plannedSessions?: string;
+  goals?: string;
+}
+
+const FREQUENCY_OPTIONS = [1, 2, 3, 4, 5, 6, 7];
+
+export default function TreatmentPlanForm({ patientId, existingPlan, onSave, onCancel }: TreatmentPlanFormProps) {
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+  const { height: windowHeight } = useWindowDimensions();
+
+  const theme = {
+    backgroundColor: isDarkMode ? '#1E1E1E' : '#F2F2F7',
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    inputBackground: isDarkMode ? '#333333' : 'white',
+    borderColor: isDarkMode ? '#444444' : '#DDDDDD',
+    saveButtonBackground: '#0A84FF',
+    cancelButtonBackground: isDarkMode ? '#444444' : '#E5E5EA',
+    errorColor: '#FF453A',
+    primaryColor: '#0A84FF',
+    placeholderColor: isDarkMode ? '#888888' : '#999999',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+    separatorColor: isDarkMode ? '#333333' : '#EFEFEF',
+  };
+
+  const [diagnosis, setDiagnosis] = useState(existingPlan?.diagnosis || '');
+  const [plannedSessions, setPlannedSessions] = useState(existingPlan ? existingPlan.plannedSessions.toString() : '');
+  const [frequencyPerWeek, setFrequencyPerWeek] = useState<number | null>(existingPlan?.frequencyPerWeek || null);
+  const [goals, setGoals] = useState<TreatmentGoal[]>(existingPlan?.goals || []);
+  // Index of the goal whose target date is being picked
+  const [datePickerGoal, setDatePickerGoal] = useState<number | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errors, setErrors] = useState<TreatmentPlanFormErrors>({});
+
+  const validateForm = (): boolean => {
+    const newErrors: TreatmentPlanFormErrors = {};
+
+    if (!diagnosis.trim()) {
+      newErrors.diagnosis = 'Diagnosis is required';
+    }
+
+    const count = parseInt(plannedSessions, 10);
+    if (isNaN(count) || count < 1 || count > 200) {
+      newErrors.plannedSessions = 'Planned sessions must be between 1 and 200';
+    }
+
+    if (goals.some(goal => !goal.description.trim())) {
+      newErrors.goals = 'Describe each goal or remove it';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const updateGoal = (index: number, changes: Partial<TreatmentGoal>) => {
+    setGoals(current => current.map((goal, goalIndex) => (goalIndex === index ? { ...goal, ...changes } : goal)));
+  };
+
+  const handleDateChange = (event: any, selectedDate?: Date) => {
+    const index = datePickerGoal;
+    if (Platform.OS === 'android') {
+      setDatePickerGoal(null);
+    }
+
+    if (selectedDate && index !== null) {
+      updateGoal(index, { targetDate: formatDateKey(selectedDate) });
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    const planData = {
+      diagnosis: diagnosis.trim(),
+      plannedSessions: parseInt(plannedSessions, 10),
+      frequencyPerWeek,
+      goals: goals.map(goal => ({ ...goal, description: goal.description.trim() })),
+    };
+
+    try {
+      setIsSubmitting(true);
+
+      if (existingPlan) {
+        onSave(await updateTreatmentPlan({ ...existingPlan, ...planData }));
+      } else {
+        onSave(await saveTreatmentPlan({ patientId, ...planData }));
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save the treatment plan');
+      console.error('Error saving treatment plan:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const pickerGoal = datePickerGoal !== null ? goals[datePickerGoal] : null;
+  const pickerValue = pickerGoal?.targetDate ? parseDateKey(pickerGoal.targetDate) : new Date();
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundColor, maxHeight: windowHeight * 0.9 }]}>
+      <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <Text style={[styles.title, { color: theme.textColor }]}>
+          {existingPlan ? 'Edit Treatment Plan' : 'New Treatment Plan'}
+        </Text>
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Diagnosis</Text>
+          <TextInput
+            style={[
+              styles.input,
+              { backgroundColor: theme.inputBackground, borderColor: theme.borderColor, color: theme.textColor },
+              errors.diagnosis ? styles.inputError : null
+            ]}
+            value={diagnosis}
+            onChangeText={setDiagnosis}
+            placeholder="e.g. Right ACL reconstruction"
+            placeholderTextColor={theme.placeholderColor}
+          />
+          {errors.diagnosis ? <Text style={[styles.errorText, { color: theme.errorColor }]}>{errors.diagnosis}</Text> : null}
+        </View>
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Planned Sessions</Text>
+          <TextInput
+            style={[
+              styles.input,
+              { backgroundColor: theme.inputBackground, borderColor: theme.borderColor, color: theme.textColor },
+              errors.plannedSessions ? styles.inputError : null
+            ]}
+            value={plannedSessions}
+            onChangeText={setPlannedSessions}
+            placeholder="e.g. 12"
+            placeholderTextColor={theme.placeholderColor}
+            keyboardType="number-pad"
+          />
+          {errors.plannedSessions ? <Text style={[styles.errorText, { color: theme.errorColor }]}>{errors.plannedSessions}</Text> : null}
+        </View>
+
+        <View style={styles.formGroup}>
+          <Text style={[styles.label, { color: theme.textColor }]}>Sessions per Week</Text>
+          <View style={styles.chipRow}>
+            {FREQUENCY_OPTIONS.map(option => {
+              const isSelected = option === frequencyPerWeek;
+              return (
+                <TouchableOpacity
+                  key={option}
+                  style={[
+                    styles.chip,
+                    { borderColor: isSelected ? theme.primaryColor : theme.borderColor },
+                    isSelected ? { backgroundColor: theme.primaryColor } : null
+                  ]}
+                  // Tapping the selected chip again clears the choice
+                  onPress={() => setFrequencyPerWeek(isSelected ? null : option)}
+                >
+                  <Text style={[styles.chipText, { color: isSelected ? 'white' : theme.textColor }]}>{option}x</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        <View style={styles.formGroup}>
+          <View style={styles.labelRow}>
+            <Text style={[styles.label, { color: theme.textColor }]}>Goals</Text>
+            <TouchableOpacity style={styles.addGoalButton} onPress={() => setGoals([...goals, EMPTY_GOAL])}>
+              <Plus size={16} color={theme.primaryColor} />
+              <Text style={[styles.linkText, { color: theme.primaryColor }]}>Add Goal</Text>
+            </TouchableOpacity>
+          </View>
+          {goals.map((goal, index) => (
+            <View key={index} style={[styles.goalRow, { borderColor: theme.borderColor }]}>
+              <View style={styles.goalFields}>
+                <TextInput
+                  style={[
+                    styles.input,
+                    styles.goalInput,
+                    { backgroundColor: theme.inputBackground, borderColor: theme.borderColor, color: theme.textColor }
+                  ]}
+                  value={goal.description}
+                  onChangeText={description => updateGoal(index, { description })}
+                  placeholder="e.g. Climb stairs without pain"
+                  placeholderTextColor={theme.placeholderColor}
+                />
+                <View style={styles.targetDateRow}>
+                  <TouchableOpacity onPress={() => setDatePickerGoal(index)}>
+                    <Text style={[styles.linkText, { color: goal.targetDate ? theme.textColor : theme.primaryColor }]}>
+                      {goal.targetDate ? `Target: ${parseDateKey(goal.targetDate).toLocaleDateString()}` : 'Set target date'}
+                    </Text>
+                  </TouchableOpacity>
+                  {goal.targetDate ? (
+                    <TouchableOpacity onPress={() => updateGoal(index, { targetDate: null })}>
+                      <Text style={[styles.linkText, styles.clearText, { color: theme.primaryColor }]}>Clear</Text>
+                    </TouchableOpacity>
+                  ) : null}
+                </View>
+              </View>
+              <TouchableOpacity
+                style={styles.removeButton}
+                onPress={() => setGoals(goals.filter((_, goalIndex) => goalIndex !== index))}
+              >
+                <X size={18} color={theme.errorColor} />
+              </TouchableOpacity>
+            </View>
+          ))}
+          {errors.goals ? <Text style={[styles.errorText, { color: theme.errorColor }]}>{errors.goals}</Text> : null}
+        </View>
+
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.cancelButtonBackground }, isSubmitting ? styles.disabledButton : null]}
+            onPress={onCancel}
+            disabled={isSubmitting}
+          >
+            <Text style={[styles.buttonText, { color: theme.textColor }]}>Cancel</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.saveButtonBackground }, isSubmitting ? styles.disabledButton : null]}
+            onPress={handleSubmit}
+            disabled={isSubmitting}
+          >
+            <Text style={[styles.buttonText, { color: 'white' }]}>
+              {isSubmitting ? 'Saving...' : existingPlan ? 'Update' : 'Save'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+
+      {datePickerGoal !== null && Platform.OS === 'ios' && (
+        <Modal transparent={true} animationType="slide" visible={datePickerGoal !== null}>
+          <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+            <View style={[styles.datePickerContainer, { backgroundColor: theme.backgroundColor }]}>
+              <View style={[styles.datePickerHeader, { borderBottomColor: theme.separatorColor }]}>
+                <TouchableOpacity onPress={() => setDatePickerGoal(null)}>
+                  <Text style={[styles.datePickerDoneText, { color: theme.primaryColor }]}>Done</Text>
+                </TouchableOpacity>
+              </View>
+              <DateTimePicker
+                value={pickerValue}
+                mode="date"
+                display="spinner"
+                onChange={handleDateChange}
+                style={styles.datePicker}
+                textColor={theme.textColor}
+                themeVariant={isDarkMode ? 'dark' : 'light'}
+              />
+            </View>
+          </View>
+        </Modal>
+      )}
+
+      {datePickerGoal !== null && Platform.OS !== 'ios' && (
+        <DateTimePicker
+          value={pickerValue}
+          mode="date"
+          display="default"
+          onChange={handleDateChange}
+          themeVariant={isDarkMode ? 'dark' : 'light'}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 10,
+    padding: 20,
+    width: '100%',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  formGroup: {
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 16,
+    marginBottom: 5,
+    fontWeight: '500',
+  },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  linkText: {
+    fontSize: 14,
+  },
+  clearText: {
+    marginLeft: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+  },
+  inputError: {
+    borderColor: '#FF3B30',
+  },
+  errorText: {
+    fontSize: 14,
+    marginTop: 5,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  addGoalButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 5,
+  },
+  goalRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    borderBottomWidth: 1,
+    paddingVertical: 8,
+  },
+  goalFields: {
+    flex: 1,
+  },
+  goalInput: {
+    marginBottom: 6,
+  },
+  targetDateRow: {
+    flexDirection: 'row',
+  },
+  removeButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 10,
+  },
+  button: {
+    borderRadius: 8,
+    padding: 15,
+    flex: 1,
+    marginHorizontal: 5,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  datePickerContainer: {
+    borderRadius: 10,
+    width: '100%',
+    position: 'absolute',
+    bottom: 0,
+  },
+  datePickerHeader: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    padding: 15,
+    borderBottomWidth: 1,
+  },
+  datePickerDoneText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  datePicker: {
+    height: 200,
+  },
+});
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, Alert, useColorScheme } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Plus } from 'lucide-react-native';
+import { TreatmentPlan, DischargeStatus } from '../types';
+import { updateTreatmentPlan, dischargeTreatmentPlan, deleteTreatmentPlan } from '../utils/mongoStorage';
+import { getNextGoalStatus } from '../utils/treatmentPlans';
+import TreatmentPlanCard from './TreatmentPlanCard';
+import TreatmentPlanForm from './TreatmentPlanForm';
+
+interface TreatmentPlanSectionProps {
+  patientId: string;
+  plans: TreatmentPlan[];
+  onChange: () => void;
+}
+
+export default function TreatmentPlanSection({ patientId, plans, onChange }: TreatmentPlanSectionProps) {
+  const [modalVisible, setModalVisible] = useState(false);
+  const [selectedPlan, setSelectedPlan] = useState<TreatmentPlan | undefined>(undefined);
+
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const isDarkMode = colorScheme === 'dark';
+
+  const theme = {
+    textColor: isDarkMode ? '#FFFFFF' : '#000000',
+    primaryColor: '#0A84FF',
+    labelColor: isDarkMode ? '#888888' : '#8E8E93',
+    modalBg: isDarkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(0, 0, 0, 0.5)',
+  };
+
+  const openPlanForm = (plan?: TreatmentPlan) => {
+    setSelectedPlan(plan);
+    setModalVisible(true);
+  };
+
+  const handleSavePlan = () => {
+    setModalVisible(false);
+    onChange();
+  };
+
+  const handleCycleGoal = async (plan: TreatmentPlan, goalIndex: number) => {
+    const goals = plan.goals.map((goal, index) =>
+      index === goalIndex ? { ...goal, status: getNextGoalStatus(goal.status) } : goal
+    );
+
+    try {
+      await updateTreatmentPlan({ ...plan, goals });
+      onChange();
+    } catch (error) {
+      console.error('Error updating goal:', error);
+      Alert.alert('Error', 'Failed to update the goal');
+    }
+  };
+
+  const handleDischargePlan = async (plan: TreatmentPlan, status: DischargeStatus, notes: string) => {
+    try {
+      await dischargeTreatmentPlan(plan.id, status, notes);
+      onChange();
+    } catch (error) {
+      console.error('Error discharging treatment plan:', error);
+      Alert.alert('Error', 'Failed to close the treatment plan');
+    }
+  };
+
+  const handleWriteLetter = (plan: TreatmentPlan) => {
+    router.push({
+      pathname: '/discharge-letter',
+      params: { patientId, planId: plan.id }
+    });
+  };
+
+  const handleDeletePlan = (plan: TreatmentPlan) => {
+    Alert.alert(
+      'Delete Treatment Plan',
+      `Delete the plan for "${plan.diagnosis}"? Its sessions are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteTreatmentPlan(plan.id);
+              onChange();
+            } catch (error) {
+              console.error('Error deleting treatment plan:', error);
+              Alert.alert('Error', 'Failed to delete the treatment plan');
+            }
+          }
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: theme.textColor }]}>Treatment Plans</Text>
+        <TouchableOpacity style={styles.actionButton} onPress={() => openPlanForm()}>
+          <Plus size={16} color={theme.primaryColor} />
+          <Text style={[styles.actionText, { color: theme.primaryColor }]}>New Plan</Text>
+        </TouchableOpacity>
+      </View>
+      {plans.length === 0 ? (
+        <Text style={[styles.emptyText, { color: theme.labelColor }]}>No treatment plans yet</Text>
+      ) : (
+        plans.map(plan => (
+          <TreatmentPlanCard
+            key={plan.id}
+            plan={plan}
+            onEdit={openPlanForm}
+            onDelete={handleDeletePlan}
+            onDischarge={handleDischargePlan}
+            onCycleGoal={handleCycleGoal}
+            onWriteLetter={handleWriteLetter}
+          />
+        ))
+      )}
+
+      <Modal
+        visible={modalVisible}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={[styles.modalContainer, { backgroundColor: theme.modalBg }]}>
+          <View style={styles.modalContent}>
+            <TreatmentPlanForm
+              patientId={patientId}
+              existingPlan={selectedPlan}
+              onSave={handleSavePlan}
+              onCancel={() => setModalVisible(false)}
+            />
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginHorizontal: 5,
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  actionText: {
+    fontSize: 15,
+    marginLeft: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    marginHorizontal: 5,
+    marginBottom: 8,
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    width: '100%',
+    maxWidth: 500,
+  },
+});
@@ -0,0 +1,53 @@
+const mongoose = require('mongoose');
+const { ATTACHMENT_TYPES, ATTACHMENT_CATEGORIES } = require('../utils/attachments');
+
+// A file attached to a patient, such as an X-ray report or posture photo. The file itself
+// is kept by the attachment storage backend under storageKey.
+const attachmentSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  patientId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: true
+  },
+  // The visit it belongs to, if any
+  sessionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Session',
+    default: null
+  },
+  fileName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  mimeType: {
+    type: String,
+    enum: Object.keys(ATTACHMENT_TYPES),
+    required: true
+  },
+  size: {
+    type: Number, // Bytes
+    required: true
+  },
+  category: {
+    type: String,
+    enum: ATTACHMENT_CATEGORIES,
+    default: 'other'
+  },
+  storageKey: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for faster queries
+attachmentSchema.index({ userId: 1, patientId: 1, createdAt: -1 });
+
+module.exports = mongoose.model('Attachment', attachmentSchema);
@@ -0,0 +1,60 @@
+const mongoose = require('mongoose');
+
+// A consent form signed by or for a patient. The text and signature are kept exactly as
+// signed, so later edits to the template don't change what was agreed to.
+const consentSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  patientId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: true
+  },
+  templateId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'ConsentTemplate',
+    default: null
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  text: {
+    type: String,
+    required: true
+  },
+  // SVG image of the drawn signature
+  signature: {
+    type: String,
+    required: true
+  },
+  signerName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  signedAt: {
+    type: Date,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    default: null
+  },
+  // Set when the patient withdraws consent; the record itself is kept
+  withdrawnAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for faster queries
+consentSchema.index({ userId: 1, patientId: 1, signedAt: -1 });
+
+module.exports = mongoose.model('Consent', consentSchema);
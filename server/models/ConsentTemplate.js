@@ -0,0 +1,34 @@
+const mongoose = require('mongoose');
+
+// Informed consent wording the patient reads and signs; placeholders such as
+// {patientName} are filled in on the device
+const consentTemplateSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  body: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  // How long a signature stays valid; null means it doesn't expire
+  validForMonths: {
+    type: Number,
+    default: 12,
+    min: 1
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for faster queries
+consentTemplateSchema.index({ userId: 1, title: 1 });
+
+module.exports = mongoose.model('ConsentTemplate', consentTemplateSchema);
@@ -0,0 +1,56 @@
+const mongoose = require('mongoose');
+
+// An exercise in the user's library, with the default dosage used when it is prescribed
+const exerciseSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  sets: {
+    type: Number,
+    default: null,
+    min: 1,
+    max: 20
+  },
+  reps: {
+    type: Number,
+    default: null,
+    min: 1,
+    max: 100
+  },
+  holdSeconds: {
+    type: Number,
+    default: null,
+    min: 1,
+    max: 600
+  },
+  // How often to do it, e.g. "Twice daily"
+  frequency: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  // Data URI of the illustration, empty when there is none
+  image: {
+    type: String,
+    default: ''
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for faster queries
+exerciseSchema.index({ userId: 1, name: 1 });
+
+module.exports = mongoose.model('Exercise', exerciseSchema);
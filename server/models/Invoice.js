@@ -0,0 +1,103 @@
+const mongoose = require('mongoose');
+const { INVOICE_STATUSES, INVOICE_ITEM_TYPES } = require('../utils/invoices');
+const { CURRENCY_CODES, DEFAULT_CURRENCY } = require('../utils/currency');
+
+const invoiceItemSchema = new mongoose.Schema({
+  type: { type: String, enum: INVOICE_ITEM_TYPES, default: 'other' },
+  description: { type: String, required: true, trim: true },
+  quantity: { type: Number, required: true, min: 0 },
+  unitPrice: { type: Number, required: true, min: 0 },
+  taxRate: { type: Number, default: 0, min: 0, max: 100 }, // Percent
+  sessionId: { type: mongoose.Schema.Types.ObjectId, ref: 'Session', default: null }
+}, { _id: false });
+
+// Clinic details as they were when the invoice was issued
+const invoiceClinicSchema = new mongoose.Schema({
+  name: { type: String, default: '' },
+  practitionerName: { type: String, default: '' },
+  qualifications: { type: String, default: '' },
+  address: { type: String, default: '' },
+  phone: { type: String, default: '' },
+  email: { type: String, default: '' }
+}, { _id: false });
+
+// A bill for a patient; sessions it bills link back to it through invoiceId
+const invoiceSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  patientId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: true
+  },
+  patientName: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  // Per-practitioner running number; never reused, so invoices are voided rather than deleted
+  sequence: {
+    type: Number,
+    required: true
+  },
+  number: {
+    type: String,
+    required: true
+  },
+  issueDate: {
+    type: String, // Format: YYYY-MM-DD
+    required: true
+  },
+  dueDate: {
+    type: String,
+    default: null
+  },
+  items: {
+    type: [invoiceItemSchema],
+    default: []
+  },
+  discountPercent: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: 100
+  },
+  subtotal: { type: Number, required: true },
+  discountTotal: { type: Number, default: 0 },
+  taxTotal: { type: Number, default: 0 },
+  total: { type: Number, required: true },
+  notes: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  clinic: {
+    type: invoiceClinicSchema,
+    default: () => ({})
+  },
+  // The user's currency when the invoice was issued
+  currency: {
+    type: String,
+    enum: CURRENCY_CODES,
+    default: DEFAULT_CURRENCY
+  },
+  status: {
+    type: String,
+    enum: INVOICE_STATUSES,
+    default: 'issued'
+  },
+  paidAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+invoiceSchema.index({ userId: 1, sequence: 1 }, { unique: true });
+invoiceSchema.index({ userId: 1, patientId: 1 });
+
+module.exports = mongoose.model('Invoice', invoiceSchema);
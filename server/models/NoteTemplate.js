@@ -0,0 +1,47 @@
+const mongoose = require('mongoose');
+
+// Reusable SOAP text; placeholders such as {patientName} are filled in on the device
+const noteTemplateSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  subjective: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  objective: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  assessment: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  plan: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  // Position in the template picker, lowest first
+  order: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for faster queries
+noteTemplateSchema.index({ userId: 1, order: 1 });
+
+module.exports = mongoose.model('NoteTemplate', noteTemplateSchema);
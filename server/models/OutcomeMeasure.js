@@ -0,0 +1,57 @@
+const mongoose = require('mongoose');
+const { MEASURE_TYPES } = require('../utils/outcomeMeasures');
+
+// A completed outcome measure questionnaire, scored when it is saved
+const outcomeMeasureSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  patientId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: true
+  },
+  // The visit it was administered at, if any
+  sessionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Session',
+    default: null
+  },
+  measure: {
+    type: String,
+    enum: MEASURE_TYPES,
+    required: true
+  },
+  date: {
+    type: String, // Format: YYYY-MM-DD
+    required: true
+  },
+  // One entry per item; null when the item was skipped
+  responses: {
+    type: [Number],
+    default: []
+  },
+  score: {
+    type: Number,
+    required: true
+  },
+  // Interpretation band for the score, e.g. "Moderate disability"
+  band: {
+    type: String,
+    default: ''
+  },
+  notes: {
+    type: String,
+    default: '',
+    trim: true
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for faster queries
+outcomeMeasureSchema.index({ userId: 1, patientId: 1, date: 1 });
+
+module.exports = mongoose.model('OutcomeMeasure', outcomeMeasureSchema);
@@ -1,4 +1,49 @@
 const mongoose = require('mongoose');
+const { GENDERS, REFERRAL_SOURCES } = require('../utils/patientProfile');
+const { ALLERGY_SEVERITIES } = require('../utils/medicalHistory');
+const prescribedExerciseSchema = require('./prescribedExerciseSchema');
+
+const emergencyContactSchema = new mongoose.Schema({
+  name: { type: String, default: '', trim: true },
+  relationship: { type: String, default: '', trim: true },
+  phone: { type: String, default: '', trim: true }
+}, { _id: false });
+
+const diagnosisSchema = new mongoose.Schema({
+  // ICD-10 code, empty for a free-text diagnosis
+  code: { type: String, default: '', trim: true, uppercase: true },
+  description: { type: String, required: true, trim: true },
+  notes: { type: String, default: '', trim: true }
+}, { _id: false });
+
+const medicationSchema = new mongoose.Schema({
+  name: { type: String, required: true, trim: true },
+  dosage: { type: String, default: '', trim: true },
+  frequency: { type: String, default: '', trim: true }
+}, { _id: false });
+
+// A price agreed with the patient that replaces a service's usual price
+const servicePriceSchema = new mongoose.Schema({
+  serviceId: { type: mongoose.Schema.Types.ObjectId, ref: 'Service', required: true },
+  price: { type: Number, required: true, min: 0 }
+}, { _id: false });
+
+const allergySchema = new mongoose.Schema({
+  substance: { type: String, required: true, trim: true },
+  reaction: { type: String, default: '', trim: true },
+  severity: { type: String, enum: [...ALLERGY_SEVERITIES, null], default: null }
+}, { _id: false });
+
+const medicalHistorySchema = new mongoose.Schema({
+  chiefComplaint: { type: String, default: '', trim: true },
+  diagnoses: { type: [diagnosisSchema], default: [] },
+  pastMedicalHistory: { type: String, default: '', trim: true },
+  pastSurgicalHistory: { type: String, default: '', trim: true },
+  medications: { type: [medicationSchema], default: [] },
+  allergies: { type: [allergySchema], default: [] },
+  redFlags: { type: [String], default: [] },
+  contraindications: { type: [String], default: [] }
+}, { _id: false });
 
 const patientSchema = new mongoose.Schema({
   userId: {
@@ -15,6 +60,59 @@ const patientSchema = new mongoose.Schema({
     type: String,
     required: true,
     trim: true
+  },
+  // 'YYYY-MM-DD', same format as session dates
+  dateOfBirth: {
+    type: String,
+    default: null
+  },
+  gender: {
+    type: String,
+    enum: [...GENDERS, null],
+    default: null
+  },
+  email: {
+    type: String,
+    default: '',
+    trim: true,
+    lowercase: true
+  },
+  address: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  occupation: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  emergencyContact: {
+    type: emergencyContactSchema,
+    default: () => ({})
+  },
+  referringDoctor: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  referralSource: {
+    type: String,
+    enum: [...REFERRAL_SOURCES, null],
+    default: null
+  },
+  medicalHistory: {
+    type: medicalHistorySchema,
+    default: () => ({})
+  },
+  // Current home exercise program
+  homeExercises: {
+    type: [prescribedExerciseSchema],
+    default: []
+  },
+  servicePrices: {
+    type: [servicePriceSchema],
+    default: []
   }
 }, {
   timestamps: true
@@ -0,0 +1,53 @@
+const mongoose = require('mongoose');
+
+// A package sold to a patient. Its name, size and price are copied when it is sold, so
+// editing the package on offer doesn't change what the patient bought. Completed
+// sessions paid for by the package point at it with their packageId.
+const patientPackageSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  patientId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: true
+  },
+  packageId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'SessionPackage',
+    default: null
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  sessionCount: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  price: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  purchaseDate: {
+    type: String, // Format: YYYY-MM-DD
+    required: true
+  },
+  // Last day the package can be used; null means it doesn't expire
+  expiryDate: {
+    type: String, // Format: YYYY-MM-DD
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for faster queries
+patientPackageSchema.index({ userId: 1, patientId: 1, purchaseDate: -1 });
+
+module.exports = mongoose.model('PatientPackage', patientPackageSchema);
@@ -0,0 +1,67 @@
+const mongoose = require('mongoose');
+const { PAYMENT_TYPES, PAYMENT_METHODS } = require('../utils/payments');
+const { CURRENCY_CODES, DEFAULT_CURRENCY } = require('../utils/currency');
+
+// Money received from or refunded to a patient. A payment can be made against a session's
+// fee, or left unlinked as an advance that counts towards the patient's balance.
+const paymentSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  patientId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: true
+  },
+  sessionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Session',
+    default: null
+  },
+  type: {
+    type: String,
+    enum: PAYMENT_TYPES,
+    default: 'payment'
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  // The user's currency when the payment was recorded
+  currency: {
+    type: String,
+    enum: CURRENCY_CODES,
+    default: DEFAULT_CURRENCY
+  },
+  method: {
+    type: String,
+    enum: PAYMENT_METHODS,
+    default: 'cash'
+  },
+  // UPI transaction ID, card slip or bank reference
+  reference: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  date: {
+    type: String, // Format: YYYY-MM-DD
+    required: true
+  },
+  notes: {
+    type: String,
+    default: '',
+    trim: true
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for faster queries
+paymentSchema.index({ userId: 1, patientId: 1, date: 1 });
+paymentSchema.index({ sessionId: 1 });
+
+module.exports = mongoose.model('Payment', paymentSchema);
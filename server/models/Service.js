@@ -0,0 +1,36 @@
+const mongoose = require('mongoose');
+const { MIN_SERVICE_DURATION, MAX_SERVICE_DURATION } = require('../utils/services');
+
+// A kind of session the practice offers, e.g. "Assessment" or "Home visit", with the
+// length and price new sessions start from
+const serviceSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  // Minutes
+  duration: {
+    type: Number,
+    required: true,
+    min: MIN_SERVICE_DURATION,
+    max: MAX_SERVICE_DURATION
+  },
+  price: {
+    type: Number,
+    required: true,
+    min: 0
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for faster queries
+serviceSchema.index({ userId: 1, name: 1 });
+
+module.exports = mongoose.model('Service', serviceSchema);
@@ -1,4 +1,52 @@
 const mongoose = require('mongoose');
+const { DEFAULT_SESSION_DURATION, MIN_SESSION_DURATION, MAX_SESSION_DURATION } = require('../utils/scheduling');
+const { SESSION_STATUSES, RESCHEDULE_INITIATORS } = require('../utils/sessionStatus');
+const { BODY_REGIONS, MODALITIES } = require('../utils/clinicalNotes');
+const { JOINTS, MOVEMENTS, MEASUREMENT_SIDES } = require('../utils/measurements');
+const { BODY_CHART_VIEWS, PAIN_TYPES } = require('../utils/bodyChart');
+const prescribedExerciseSchema = require('./prescribedExerciseSchema');
+
+// One move of a session to a different slot
+const rescheduleEntrySchema = new mongoose.Schema({
+  fromDate: { type: String, required: true },
+  fromTime: { type: String, required: true },
+  toDate: { type: String, required: true },
+  toTime: { type: String, required: true },
+  initiatedBy: { type: String, enum: RESCHEDULE_INITIATORS, required: true },
+  reason: { type: String, default: '', trim: true },
+  rescheduledAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+// Structured SOAP notes for the visit
+const clinicalNotesSchema = new mongoose.Schema({
+  subjective: { type: String, default: '', trim: true },
+  objective: { type: String, default: '', trim: true },
+  assessment: { type: String, default: '', trim: true },
+  plan: { type: String, default: '', trim: true },
+  // Visual analogue scale, 0 (no pain) to 10 (worst pain)
+  painScore: { type: Number, default: null, min: 0, max: 10 },
+  bodyRegions: { type: [{ type: String, enum: BODY_REGIONS }], default: [] },
+  modalities: { type: [{ type: String, enum: MODALITIES }], default: [] }
+}, { _id: false });
+
+// Range of motion in degrees and MMT strength grade for one movement on one side
+const measurementSchema = new mongoose.Schema({
+  joint: { type: String, enum: JOINTS, required: true },
+  movement: { type: String, enum: MOVEMENTS, required: true },
+  side: { type: String, enum: MEASUREMENT_SIDES, default: 'none' },
+  activeRom: { type: Number, default: null },
+  passiveRom: { type: Number, default: null },
+  strength: { type: Number, default: null, min: 0, max: 5 }
+}, { _id: false });
+
+// x and y are fractions of the chart's width and height
+const bodyChartMarkSchema = new mongoose.Schema({
+  view: { type: String, enum: BODY_CHART_VIEWS, required: true },
+  x: { type: Number, required: true, min: 0, max: 1 },
+  y: { type: Number, required: true, min: 0, max: 1 },
+  type: { type: String, enum: PAIN_TYPES, required: true },
+  intensity: { type: Number, required: true, min: 1, max: 10 }
+}, { _id: false });
 
 const sessionSchema = new mongoose.Schema({
   userId: {
@@ -24,19 +72,101 @@ const sessionSchema = new mongoose.Schema({
     type: String,
     required: true
   },
+  // Length of the session in minutes, used for overlap detection
+  duration: {
+    type: Number,
+    default: DEFAULT_SESSION_DURATION,
+    min: MIN_SESSION_DURATION,
+    max: MAX_SESSION_DURATION
+  },
+  // Free-text notes; sessions recorded before SOAP notes keep their notes here
   notes: {
     type: String,
     default: '',
     trim: true
   },
-  completed: {
-    type: Boolean,
-    default: false
+  clinicalNotes: {
+    type: clinicalNotesSchema,
+    default: () => ({})
+  },
+  // Exercises given to the patient at this visit
+  exercises: {
+    type: [prescribedExerciseSchema],
+    default: []
+  },
+  measurements: {
+    type: [measurementSchema],
+    default: []
+  },
+  // Pain locations marked on the body chart
+  bodyChart: {
+    type: [bodyChartMarkSchema],
+    default: []
   },
+  status: {
+    type: String,
+    enum: SESSION_STATUSES,
+    default: 'scheduled'
+  },
+  // Why the session was cancelled, missed or moved
+  statusReason: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  statusChangedAt: {
+    type: Date,
+    default: null
+  },
+  // Service the session was booked as; its name is kept in case the service is renamed or deleted
+  serviceId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Service',
+    default: null
+  },
+  serviceName: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  // The fee charged for the session; what was paid is recorded as payments
   amount: {
     type: Number,
     default: null,
     min: 0
+  },
+  // Total of the payments less refunds made against the session; kept up to date by the payments routes
+  amountPaid: {
+    type: Number,
+    default: 0
+  },
+  // Every earlier slot this session was moved from, oldest first
+  rescheduleHistory: {
+    type: [rescheduleEntrySchema],
+    default: []
+  },
+  // Shared by every session created from the same recurrence rule
+  seriesId: {
+    type: mongoose.Schema.Types.ObjectId,
+    default: null
+  },
+  // Episode of care the session belongs to
+  treatmentPlanId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'TreatmentPlan',
+    default: null
+  },
+  // Invoice billing this session; set by the invoices routes only
+  invoiceId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Invoice',
+    default: null
+  },
+  // Prepaid package that paid for this session; set when the session is completed
+  packageId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PatientPackage',
+    default: null
   }
 }, {
   timestamps: true
@@ -46,7 +176,11 @@ const sessionSchema = new mongoose.Schema({
 sessionSchema.index({ userId: 1 });
 sessionSchema.index({ patientId: 1 });
 sessionSchema.index({ date: 1 });
-sessionSchema.index({ completed: 1 });
-sessionSchema.index({ userId: 1, completed: 1 });
+sessionSchema.index({ status: 1 });
+sessionSchema.index({ userId: 1, status: 1 });
+sessionSchema.index({ seriesId: 1, date: 1 });
+sessionSchema.index({ treatmentPlanId: 1 });
+sessionSchema.index({ packageId: 1 });
+sessionSchema.index({ serviceId: 1 });
 
 module.exports = mongoose.model('Session', sessionSchema);
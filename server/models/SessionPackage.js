@@ -0,0 +1,38 @@
+const mongoose = require('mongoose');
+
+// A prepaid bundle of sessions the practice sells, e.g. "10 sessions"
+const sessionPackageSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  sessionCount: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  price: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  // How long a sold package can be used; null means it doesn't expire
+  validForMonths: {
+    type: Number,
+    default: null,
+    min: 1
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for faster queries
+sessionPackageSchema.index({ userId: 1, name: 1 });
+
+module.exports = mongoose.model('SessionPackage', sessionPackageSchema);
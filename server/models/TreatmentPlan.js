@@ -0,0 +1,70 @@
+const mongoose = require('mongoose');
+const { PLAN_STATUSES, GOAL_STATUSES, DISCHARGE_STATUSES } = require('../utils/treatmentPlans');
+
+const goalSchema = new mongoose.Schema({
+  description: { type: String, required: true, trim: true },
+  targetDate: { type: String, default: null },
+  status: { type: String, enum: GOAL_STATUSES, default: 'pending' }
+}, { _id: false });
+
+// One episode of care for a patient; sessions link to it through treatmentPlanId
+const treatmentPlanSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  patientId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: true
+  },
+  diagnosis: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  goals: {
+    type: [goalSchema],
+    default: []
+  },
+  plannedSessions: {
+    type: Number,
+    required: true,
+    min: 1,
+    max: 200
+  },
+  frequencyPerWeek: {
+    type: Number,
+    default: null,
+    min: 1,
+    max: 7
+  },
+  status: {
+    type: String,
+    enum: PLAN_STATUSES,
+    default: 'active'
+  },
+  // Set when the plan is closed
+  dischargeStatus: {
+    type: String,
+    enum: [...DISCHARGE_STATUSES, null],
+    default: null
+  },
+  dischargeNotes: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  dischargedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for faster queries
+treatmentPlanSchema.index({ userId: 1, patientId: 1 });
+
+module.exports = mongoose.model('TreatmentPlan', treatmentPlanSchema);
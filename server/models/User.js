@@ -1,4 +1,44 @@
 const mongoose = require('mongoose');
+const { CURRENCY_CODES, NUMBER_FORMATS, DEFAULT_CURRENCY, DEFAULT_NUMBER_FORMAT } = require('../utils/currency');
+
+// Weekly opening hours for one weekday (0 = Sunday ... 6 = Saturday)
+const workingHoursSchema = new mongoose.Schema({
+  day: { type: Number, required: true, min: 0, max: 6 },
+  start: { type: String, required: true },
+  end: { type: String, required: true }
+}, { _id: false });
+
+// Recurring break such as lunch; applies every day when day is null
+const breakSchema = new mongoose.Schema({
+  day: { type: Number, default: null, min: 0, max: 6 },
+  start: { type: String, required: true },
+  end: { type: String, required: true },
+  label: { type: String, default: '', trim: true }
+}, { _id: false });
+
+// Whole days that can't be booked, e.g. public holidays or leave
+const blockedPeriodSchema = new mongoose.Schema({
+  startDate: { type: String, required: true },
+  endDate: { type: String, required: true },
+  type: { type: String, enum: ['holiday', 'leave', 'other'], default: 'holiday' },
+  reason: { type: String, default: '', trim: true }
+}, { _id: false });
+
+// Letterhead printed on discharge summaries and referral letters
+const clinicSchema = new mongoose.Schema({
+  name: { type: String, default: '', trim: true },
+  practitionerName: { type: String, default: '', trim: true },
+  qualifications: { type: String, default: '', trim: true },
+  address: { type: String, default: '', trim: true },
+  phone: { type: String, default: '', trim: true },
+  email: { type: String, default: '', trim: true }
+}, { _id: false });
+
+// How money is shown across the app, exports and invoices
+const moneyFormatSchema = new mongoose.Schema({
+  currency: { type: String, enum: CURRENCY_CODES, default: DEFAULT_CURRENCY },
+  numberFormat: { type: String, enum: NUMBER_FORMATS, default: DEFAULT_NUMBER_FORMAT }
+}, { _id: false });
 
 const userSchema = new mongoose.Schema({
   email: {
@@ -20,6 +60,24 @@ const userSchema = new mongoose.Schema({
   profileImage: {
     type: String,
     default: null
+  },
+  availability: {
+    workingHours: { type: [workingHoursSchema], default: [] },
+    breaks: { type: [breakSchema], default: [] },
+    blockedPeriods: { type: [blockedPeriodSchema], default: [] }
+  },
+  clinic: {
+    type: clinicSchema,
+    default: () => ({})
+  },
+  moneyFormat: {
+    type: moneyFormatSchema,
+    default: () => ({})
+  },
+  // Last invoice number issued, incremented atomically by the invoices route
+  invoiceSequence: {
+    type: Number,
+    default: 0
   }
 }, {
   timestamps: true
@@ -0,0 +1,15 @@
+const mongoose = require('mongoose');
+
+// Copy of a library exercise prescribed to a patient or in a session, with its own dosage
+const prescribedExerciseSchema = new mongoose.Schema({
+  exerciseId: { type: mongoose.Schema.Types.ObjectId, ref: 'Exercise', default: null },
+  name: { type: String, required: true, trim: true },
+  description: { type: String, default: '', trim: true },
+  sets: { type: Number, default: null },
+  reps: { type: Number, default: null },
+  holdSeconds: { type: Number, default: null },
+  frequency: { type: String, default: '', trim: true },
+  notes: { type: String, default: '', trim: true }
+}, { _id: false });
+
+module.exports = prescribedExerciseSchema;
@@ -0,0 +1,192 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const jwt = require('jsonwebtoken');
+const Attachment = require('../models/Attachment');
+const Patient = require('../models/Patient');
+const Session = require('../models/Session');
+const { getAttachmentStorage } = require('../services/attachmentStorage');
+const {
+  ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  normalizeAttachment,
+  validateAttachment
+} = require('../utils/attachments');
+// Mounted under /api/patients/:id/attachments
+const router = express.Router({ mergeParams: true });
+
+// Helper function to transform MongoDB document to include id field
+const transformAttachment = (attachment) => {
+  const attachmentObj = attachment.toObject();
+  delete attachmentObj.storageKey;
+  return {
+    ...attachmentObj,
+    id: attachmentObj._id.toString(),
+    _id: attachmentObj._id
+  };
+};
+
+// Middleware to verify JWT token
+const authenticateToken = async (req, res, next) => {
+  try {
+    const token = req.headers.authorization?.split(' ')[1];
+    if (!token) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    req.userId = decoded.userId;
+    next();
+  } catch (error) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+// Loads the patient from the URL, making sure it belongs to the current user
+const loadPatient = async (req, res, next) => {
+  try {
+    const patient = mongoose.Types.ObjectId.isValid(req.params.id)
+      ? await Patient.findOne({ _id: req.params.id, userId: req.userId })
+      : null;
+
+    if (!patient) {
+      return res.status(404).json({ error: 'Patient not found' });
+    }
+
+    req.patient = patient;
+    next();
+  } catch (error) {
+    console.error('Error loading patient for attachments:', error);
+    res.status(500).json({ error: 'Failed to load patient' });
+  }
+};
+
+const findAttachment = (req) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.attachmentId)) return null;
+  return Attachment.findOne({
+    _id: req.params.attachmentId,
+    userId: req.userId,
+    patientId: req.patient._id
+  });
+};
+
+router.use(authenticateToken, loadPatient);
+
+// List the patient's attachments, newest first; pass sessionId for one visit's files
+router.get('/', async (req, res) => {
+  try {
+    const query = { userId: req.userId, patientId: req.patient._id };
+    if (req.query.sessionId) {
+      query.sessionId = req.query.sessionId;
+    }
+
+    const attachments = await Attachment.find(query).sort({ createdAt: -1 });
+    res.json({ attachments: attachments.map(transformAttachment) });
+  } catch (error) {
+    console.error('Error fetching attachments:', error);
+    res.status(500).json({ error: 'Failed to fetch attachments' });
+  }
+});
+
+// Upload a file. The body is the file itself with its Content-Type; the file name,
+// category and optional sessionId come in the query string.
+router.post(
+  '/',
+  express.raw({ type: () => true, limit: MAX_ATTACHMENT_SIZE }),
+  async (req, res) => {
+    try {
+      const fields = normalizeAttachment(req.query, req.headers['content-type']);
+      const validationError = validateAttachment(fields, req.body);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      if (fields.sessionId) {
+        const session = mongoose.Types.ObjectId.isValid(fields.sessionId)
+          ? await Session.findOne({ _id: fields.sessionId, userId: req.userId, patientId: req.patient._id })
+          : null;
+        if (!session) {
+          return res.status(400).json({ error: 'Session not found for this patient' });
+        }
+      }
+
+      const attachmentId = new mongoose.Types.ObjectId();
+      const storageKey = `${req.userId}/${req.patient._id}/${attachmentId}.${ATTACHMENT_TYPES[fields.mimeType]}`;
+      await getAttachmentStorage().save(storageKey, req.body);
+
+      const attachment = new Attachment({
+        _id: attachmentId,
+        userId: req.userId,
+        patientId: req.patient._id,
+        ...fields,
+        size: req.body.length,
+        storageKey
+      });
+
+      try {
+        await attachment.save();
+      } catch (error) {
+        // Don't leave an orphaned file behind
+        await getAttachmentStorage().remove(storageKey);
+        throw error;
+      }
+
+      res.status(201).json({
+        message: 'Attachment uploaded successfully',
+        attachment: transformAttachment(attachment)
+      });
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      res.status(500).json({ error: 'Failed to upload attachment' });
+    }
+  }
+);
+
+// Download the file
+router.get('/:attachmentId/file', async (req, res) => {
+  try {
+    const attachment = await findAttachment(req);
+    if (!attachment) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+
+    const file = await getAttachmentStorage().read(attachment.storageKey);
+    res.set({
+      'Content-Type': attachment.mimeType,
+      'Content-Length': file.length,
+      'Content-Disposition': `inline; filename="${encodeURIComponent(attachment.fileName)}"`,
+      'Cache-Control': 'private, max-age=3600'
+    });
+    res.send(file);
+  } catch (error) {
+    console.error('Error downloading attachment:', error);
+    res.status(500).json({ error: 'Failed to download attachment' });
+  }
+});
+
+// Delete an attachment and its file
+router.delete('/:attachmentId', async (req, res) => {
+  try {
+    const attachment = await findAttachment(req);
+    if (!attachment) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+
+    await getAttachmentStorage().remove(attachment.storageKey);
+    await attachment.deleteOne();
+
+    res.json({ message: 'Attachment deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting attachment:', error);
+    res.status(500).json({ error: 'Failed to delete attachment' });
+  }
+});
+
+// Uploads over the size limit are rejected by express.raw before reaching the route
+router.use((err, req, res, next) => {
+  if (err.type === 'entity.too.large') {
+    return res.status(413).json({ error: `Attachments can be at most ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB` });
+  }
+  next(err);
+});
+
+module.exports = router;
@@ -2,6 +2,8 @@ const express = require('express');
 const bcrypt = require('bcryptjs');
 const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const { normalizeClinicDetails } = require('../utils/clinic');
+const { normalizeMoneyFormat, validateMoneyFormat } = require('../utils/currency');
 const router = express.Router();
 
 // Register new user
@@ -137,7 +139,7 @@ router.put('/profile', async (req, res) => {
     }
 
     const decoded = jwt.verify(token, process.env.JWT_SECRET);
-    const { email, phoneNumber, profileImage } = req.body;
+    const { email, phoneNumber, profileImage, clinic, moneyFormat } = req.body;
 
     const user = await User.findById(decoded.userId);
     if (!user) {
@@ -148,6 +150,15 @@ router.put('/profile', async (req, res) => {
     if (email) user.email = email;
     if (phoneNumber) user.phoneNumber = phoneNumber;
     if (profileImage !== undefined) user.profileImage = profileImage;
+    if (clinic !== undefined) user.clinic = normalizeClinicDetails(clinic);
+    if (moneyFormat !== undefined) {
+      const fields = normalizeMoneyFormat(moneyFormat);
+      const validationError = validateMoneyFormat(fields);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+      user.moneyFormat = fields;
+    }
 
     await user.save();
 
@@ -0,0 +1,118 @@
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const User = require('../models/User');
+const Session = require('../models/Session');
+const { addDays, daysBetween } = require('../utils/recurrence');
+const { DEFAULT_SESSION_DURATION } = require('../utils/scheduling');
+const { listFreeSlots, validateAvailability } = require('../utils/availability');
+const { CANCELLED_STATUSES } = require('../utils/sessionStatus');
+const { DATE_PATTERN } = require('../utils/fields');
+const router = express.Router();
+
+const MAX_RANGE_DAYS = 31;
+
+// Middleware to verify JWT token
+const authenticateToken = async (req, res, next) => {
+  try {
+    const token = req.headers.authorization?.split(' ')[1];
+    if (!token) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    req.userId = decoded.userId;
+    next();
+  } catch (error) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+// Get the current user's availability settings
+router.get('/settings', authenticateToken, async (req, res) => {
+  try {
+    const user = await User.findById(req.userId).select('availability');
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json({ availability: user.availability });
+  } catch (error) {
+    console.error('Error fetching availability settings:', error);
+    res.status(500).json({ error: 'Failed to fetch availability settings' });
+  }
+});
+
+// Replace the current user's availability settings
+router.put('/settings', authenticateToken, async (req, res) => {
+  try {
+    const { workingHours = [], breaks = [], blockedPeriods = [] } = req.body;
+    const availability = { workingHours, breaks, blockedPeriods };
+
+    const validationError = validateAvailability(availability);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const user = await User.findById(req.userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    user.availability = availability;
+    await user.save();
+
+    res.json({
+      message: 'Availability updated successfully',
+      availability: user.availability
+    });
+  } catch (error) {
+    console.error('Error updating availability settings:', error);
+    res.status(500).json({ error: 'Failed to update availability settings' });
+  }
+});
+
+// Get free slots per day for a date range
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const { startDate, endDate } = req.query;
+    const duration = parseInt(req.query.duration, 10) || DEFAULT_SESSION_DURATION;
+
+    if (!DATE_PATTERN.test(startDate || '') || !DATE_PATTERN.test(endDate || '')) {
+      return res.status(400).json({ error: 'Start date and end date are required (YYYY-MM-DD)' });
+    }
+
+    const rangeDays = daysBetween(startDate, endDate) + 1;
+    if (rangeDays < 1 || rangeDays > MAX_RANGE_DAYS) {
+      return res.status(400).json({ error: `Date range must be between 1 and ${MAX_RANGE_DAYS} days` });
+    }
+
+    const user = await User.findById(req.userId).select('availability');
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const sessions = await Session.find({
+      userId: req.userId,
+      date: { $gte: startDate, $lte: endDate },
+      status: { $nin: CANCELLED_STATUSES }
+    });
+
+    const sessionsByDate = sessions.reduce((groups, session) => {
+      if (!groups[session.date]) {
+        groups[session.date] = [];
+      }
+      groups[session.date].push(session);
+      return groups;
+    }, {});
+
+    const dates = Array.from({ length: rangeDays }, (_, index) => addDays(startDate, index));
+
+    res.json({ days: listFreeSlots(user.availability, sessionsByDate, dates, duration) });
+  } catch (error) {
+    console.error('Error fetching availability:', error);
+    res.status(500).json({ error: 'Failed to fetch availability' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,120 @@
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const ConsentTemplate = require('../models/ConsentTemplate');
+const { normalizeConsentTemplate, validateConsentTemplate } = require('../utils/consents');
+const router = express.Router();
+
+// Helper function to transform MongoDB document to include id field
+const transformTemplate = (template) => {
+  const templateObj = template.toObject();
+  return {
+    ...templateObj,
+    id: templateObj._id.toString(),
+    _id: templateObj._id
+  };
+};
+
+// Middleware to verify JWT token
+const authenticateToken = async (req, res, next) => {
+  try {
+    const token = req.headers.authorization?.split(' ')[1];
+    if (!token) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    req.userId = decoded.userId;
+    next();
+  } catch (error) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+// Get all consent templates for the current user
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const templates = await ConsentTemplate.find({ userId: req.userId }).sort({ title: 1 });
+    res.json({ templates: templates.map(transformTemplate) });
+  } catch (error) {
+    console.error('Error fetching consent templates:', error);
+    res.status(500).json({ error: 'Failed to fetch consent templates' });
+  }
+});
+
+// Create a consent template
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const fields = normalizeConsentTemplate(req.body);
+    const validationError = validateConsentTemplate(fields);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const template = new ConsentTemplate({
+      userId: req.userId,
+      ...fields
+    });
+
+    await template.save();
+
+    res.status(201).json({
+      message: 'Consent template created successfully',
+      template: transformTemplate(template)
+    });
+  } catch (error) {
+    console.error('Error creating consent template:', error);
+    res.status(500).json({ error: 'Failed to create consent template' });
+  }
+});
+
+// Update a consent template; consents already signed keep the text they were signed with
+router.put('/:id', authenticateToken, async (req, res) => {
+  try {
+    const fields = normalizeConsentTemplate(req.body);
+    const validationError = validateConsentTemplate(fields);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const template = await ConsentTemplate.findOne({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!template) {
+      return res.status(404).json({ error: 'Consent template not found' });
+    }
+
+    template.set(fields);
+    await template.save();
+
+    res.json({
+      message: 'Consent template updated successfully',
+      template: transformTemplate(template)
+    });
+  } catch (error) {
+    console.error('Error updating consent template:', error);
+    res.status(500).json({ error: 'Failed to update consent template' });
+  }
+});
+
+// Delete a consent template
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    const template = await ConsentTemplate.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!template) {
+      return res.status(404).json({ error: 'Consent template not found' });
+    }
+
+    res.json({ message: 'Consent template deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting consent template:', error);
+    res.status(500).json({ error: 'Failed to delete consent template' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,140 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const jwt = require('jsonwebtoken');
+const Consent = require('../models/Consent');
+const ConsentTemplate = require('../models/ConsentTemplate');
+const Patient = require('../models/Patient');
+const { normalizeConsent, validateConsent, getConsentExpiry } = require('../utils/consents');
+const router = express.Router();
+
+// Helper function to transform MongoDB document to include id field
+const transformConsent = (consent) => {
+  const consentObj = consent.toObject();
+  return {
+    ...consentObj,
+    id: consentObj._id.toString(),
+    _id: consentObj._id
+  };
+};
+
+// Middleware to verify JWT token
+const authenticateToken = async (req, res, next) => {
+  try {
+    const token = req.headers.authorization?.split(' ')[1];
+    if (!token) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    req.userId = decoded.userId;
+    next();
+  } catch (error) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+// Get a patient's signed consents, newest first
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const { patientId } = req.query;
+
+    if (!patientId || !mongoose.Types.ObjectId.isValid(patientId)) {
+      return res.status(400).json({ error: 'Patient ID is required' });
+    }
+
+    const consents = await Consent.find({
+      userId: req.userId,
+      patientId
+    }).sort({ signedAt: -1 });
+
+    res.json({ consents: consents.map(transformConsent) });
+  } catch (error) {
+    console.error('Error fetching consents:', error);
+    res.status(500).json({ error: 'Failed to fetch consents' });
+  }
+});
+
+// Record a signed consent. The signing time and expiry are set here, not by the device.
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const { patientId } = req.body;
+
+    if (!patientId || !mongoose.Types.ObjectId.isValid(patientId)) {
+      return res.status(400).json({ error: 'Patient ID is required' });
+    }
+
+    const fields = normalizeConsent(req.body);
+    const validationError = validateConsent(fields);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    // Verify the patient belongs to the current user
+    const patient = await Patient.findOne({
+      _id: patientId,
+      userId: req.userId
+    });
+
+    if (!patient) {
+      return res.status(404).json({ error: 'Patient not found' });
+    }
+
+    let template = null;
+    if (fields.templateId) {
+      if (!mongoose.Types.ObjectId.isValid(fields.templateId)) {
+        return res.status(400).json({ error: 'Consent template not found' });
+      }
+      template = await ConsentTemplate.findOne({ _id: fields.templateId, userId: req.userId });
+      if (!template) {
+        return res.status(400).json({ error: 'Consent template not found' });
+      }
+    }
+
+    const signedAt = new Date();
+    const consent = new Consent({
+      userId: req.userId,
+      patientId,
+      ...fields,
+      signedAt,
+      expiresAt: getConsentExpiry(signedAt, template ? template.validForMonths : null)
+    });
+
+    await consent.save();
+
+    res.status(201).json({
+      message: 'Consent recorded successfully',
+      consent: transformConsent(consent)
+    });
+  } catch (error) {
+    console.error('Error recording consent:', error);
+    res.status(500).json({ error: 'Failed to record consent' });
+  }
+});
+
+// Record that the patient withdrew their consent
+router.post('/:id/withdraw', authenticateToken, async (req, res) => {
+  try {
+    const consent = mongoose.Types.ObjectId.isValid(req.params.id)
+      ? await Consent.findOne({ _id: req.params.id, userId: req.userId })
+      : null;
+
+    if (!consent) {
+      return res.status(404).json({ error: 'Consent not found' });
+    }
+
+    if (!consent.withdrawnAt) {
+      consent.withdrawnAt = new Date();
+      await consent.save();
+    }
+
+    res.json({
+      message: 'Consent withdrawn successfully',
+      consent: transformConsent(consent)
+    });
+  } catch (error) {
+    console.error('Error withdrawing consent:', error);
+    res.status(500).json({ error: 'Failed to withdraw consent' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,123 @@
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const Exercise = require('../models/Exercise');
+const { normalizeExercise, validateExercise } = require('../utils/exercises');
+const router = express.Router();
+
+// Helper function to transform MongoDB document to include id field
+const transformExercise = (exercise) => {
+  const exerciseObj = exercise.toObject();
+  return {
+    ...exerciseObj,
+    id: exerciseObj._id.toString(),
+    _id: exerciseObj._id
+  };
+};
+
+// Middleware to verify JWT token
+const authenticateToken = async (req, res, next) => {
+  try {
+    const token = req.headers.authorization?.split(' ')[1];
+    if (!token) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    req.userId = decoded.userId;
+    next();
+  } catch (error) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+// Get the current user's exercise library, alphabetically
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const exercises = await Exercise.find({ userId: req.userId })
+      .collation({ locale: 'en' })
+      .sort({ name: 1 });
+
+    res.json({ exercises: exercises.map(transformExercise) });
+  } catch (error) {
+    console.error('Error fetching exercises:', error);
+    res.status(500).json({ error: 'Failed to fetch exercises' });
+  }
+});
+
+// Add an exercise to the library
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const fields = normalizeExercise(req.body);
+    const validationError = validateExercise(fields);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const exercise = new Exercise({
+      userId: req.userId,
+      ...fields
+    });
+
+    await exercise.save();
+
+    res.status(201).json({
+      message: 'Exercise created successfully',
+      exercise: transformExercise(exercise)
+    });
+  } catch (error) {
+    console.error('Error creating exercise:', error);
+    res.status(500).json({ error: 'Failed to create exercise' });
+  }
+});
+
+// Update a library exercise; patients and sessions keep the copy they were prescribed
+router.put('/:id', authenticateToken, async (req, res) => {
+  try {
+    const fields = normalizeExercise(req.body);
+    const validationError = validateExercise(fields);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const exercise = await Exercise.findOne({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!exercise) {
+      return res.status(404).json({ error: 'Exercise not found' });
+    }
+
+    exercise.set(fields);
+    await exercise.save();
+
+    res.json({
+      message: 'Exercise updated successfully',
+      exercise: transformExercise(exercise)
+    });
+  } catch (error) {
+    console.error('Error updating exercise:', error);
+    res.status(500).json({ error: 'Failed to update exercise' });
+  }
+});
+
+// Delete a library exercise
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    const exercise = await Exercise.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!exercise) {
+      return res.status(404).json({ error: 'Exercise not found' });
+    }
+
+    res.json({ message: 'Exercise deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting exercise:', error);
+    res.status(500).json({ error: 'Failed to delete exercise' });
+  }
+});
+
+module.exports = router;
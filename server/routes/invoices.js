@@ -0,0 +1,273 @@
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const mongoose = require('mongoose');
+const Invoice = require('../models/Invoice');
+const Patient = require('../models/Patient');
+const Session = require('../models/Session');
+const User = require('../models/User');
+const {
+  INVOICE_STATUSES,
+  formatInvoiceNumber,
+  normalizeInvoice,
+  validateInvoice,
+  calculateInvoiceTotals
+} = require('../utils/invoices');
+const { getUserCurrency } = require('../utils/currency');
+const router = express.Router();
+
+// Helper function to transform MongoDB document to include id field
+const transformInvoice = (invoice) => {
+  const invoiceObj = invoice.toObject();
+  return {
+    ...invoiceObj,
+    id: invoiceObj._id.toString(),
+    _id: invoiceObj._id
+  };
+};
+
+// Middleware to verify JWT token
+const authenticateToken = async (req, res, next) => {
+  try {
+    const token = req.headers.authorization?.split(' ')[1];
+    if (!token) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    req.userId = decoded.userId;
+    next();
+  } catch (error) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+const getBilledSessionIds = (items) => items.filter(item => item.sessionId).map(item => item.sessionId.toString());
+
+// Returns an error message when a billed session isn't the patient's, was prepaid, or is already on another invoice
+const getSessionIssue = async (userId, patientId, sessionIds, invoiceId = null) => {
+  if (sessionIds.length === 0) return null;
+
+  if (!sessionIds.every(id => mongoose.Types.ObjectId.isValid(id))) {
+    return 'Invalid session ID';
+  }
+
+  const sessions = await Session.find({ _id: { $in: sessionIds }, userId, patientId }).select('invoiceId packageId');
+  if (sessions.length !== sessionIds.length) {
+    return 'Billed sessions must belong to the patient';
+  }
+  if (sessions.some(session => session.packageId)) {
+    return 'A session paid for by a prepaid package can\'t be billed again';
+  }
+
+  const billedElsewhere = sessions.some(session => session.invoiceId && String(session.invoiceId) !== String(invoiceId));
+  return billedElsewhere ? 'A session on this invoice is already billed on another invoice' : null;
+};
+
+// Points billed sessions at the invoice and releases sessions no longer on it
+const linkSessions = async (userId, invoiceId, sessionIds) => {
+  await Session.updateMany(
+    { userId, invoiceId, _id: { $nin: sessionIds } },
+    { $set: { invoiceId: null } }
+  );
+  if (sessionIds.length > 0) {
+    await Session.updateMany(
+      { userId, _id: { $in: sessionIds } },
+      { $set: { invoiceId } }
+    );
+  }
+};
+
+// Get invoices, newest first, optionally for one patient or status
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const { patientId, status } = req.query;
+
+    const query = { userId: req.userId };
+    if (patientId) query.patientId = patientId;
+    if (status !== undefined) {
+      if (!INVOICE_STATUSES.includes(status)) {
+        return res.status(400).json({ error: `Status must be one of: ${INVOICE_STATUSES.join(', ')}` });
+      }
+      query.status = status;
+    }
+
+    const invoices = await Invoice.find(query).sort({ issueDate: -1, sequence: -1 });
+    res.json({ invoices: invoices.map(transformInvoice) });
+  } catch (error) {
+    console.error('Error fetching invoices:', error);
+    res.status(500).json({ error: 'Failed to fetch invoices' });
+  }
+});
+
+// Get a single invoice
+router.get('/:id', authenticateToken, async (req, res) => {
+  try {
+    const invoice = await Invoice.findOne({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!invoice) {
+      return res.status(404).json({ error: 'Invoice not found' });
+    }
+
+    res.json({ invoice: transformInvoice(invoice) });
+  } catch (error) {
+    console.error('Error fetching invoice:', error);
+    res.status(500).json({ error: 'Failed to fetch invoice' });
+  }
+});
+
+// Issue a new invoice with the next number and the current clinic details
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const { patientId } = req.body;
+
+    if (!patientId) {
+      return res.status(400).json({ error: 'Patient ID is required' });
+    }
+
+    const fields = normalizeInvoice(req.body);
+    const validationError = validateInvoice(fields);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    // Verify the patient belongs to the current user
+    const patient = await Patient.findOne({
+      _id: patientId,
+      userId: req.userId
+    });
+
+    if (!patient) {
+      return res.status(404).json({ error: 'Patient not found' });
+    }
+
+    const sessionIds = getBilledSessionIds(fields.items);
+    const sessionIssue = await getSessionIssue(req.userId, patient._id, sessionIds);
+    if (sessionIssue) {
+      return res.status(400).json({ error: sessionIssue });
+    }
+
+    // Taking the number atomically keeps numbers unique when invoices are issued at the same time
+    const user = await User.findByIdAndUpdate(
+      req.userId,
+      { $inc: { invoiceSequence: 1 } },
+      { new: true }
+    );
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const invoice = new Invoice({
+      userId: req.userId,
+      patientId: patient._id,
+      patientName: patient.name,
+      sequence: user.invoiceSequence,
+      number: formatInvoiceNumber(user.invoiceSequence),
+      ...fields,
+      ...calculateInvoiceTotals(fields.items, fields.discountPercent),
+      clinic: user.clinic ? user.clinic.toObject() : {},
+      currency: getUserCurrency(user)
+    });
+
+    await invoice.save();
+    await linkSessions(req.userId, invoice._id, sessionIds);
+
+    res.status(201).json({
+      message: 'Invoice created successfully',
+      invoice: transformInvoice(invoice)
+    });
+  } catch (error) {
+    console.error('Error creating invoice:', error);
+    res.status(500).json({ error: 'Failed to create invoice' });
+  }
+});
+
+// Update an unpaid invoice; the number, patient and clinic details stay as issued
+router.put('/:id', authenticateToken, async (req, res) => {
+  try {
+    const fields = normalizeInvoice(req.body);
+    const validationError = validateInvoice(fields);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const invoice = await Invoice.findOne({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!invoice) {
+      return res.status(404).json({ error: 'Invoice not found' });
+    }
+
+    if (invoice.status !== 'issued') {
+      return res.status(400).json({ error: `A ${invoice.status} invoice can't be edited` });
+    }
+
+    const sessionIds = getBilledSessionIds(fields.items);
+    const sessionIssue = await getSessionIssue(req.userId, invoice.patientId, sessionIds, invoice._id);
+    if (sessionIssue) {
+      return res.status(400).json({ error: sessionIssue });
+    }
+
+    invoice.set({
+      ...fields,
+      ...calculateInvoiceTotals(fields.items, fields.discountPercent)
+    });
+    await invoice.save();
+    await linkSessions(req.userId, invoice._id, sessionIds);
+
+    res.json({
+      message: 'Invoice updated successfully',
+      invoice: transformInvoice(invoice)
+    });
+  } catch (error) {
+    console.error('Error updating invoice:', error);
+    res.status(500).json({ error: 'Failed to update invoice' });
+  }
+});
+
+// Mark an invoice paid or unpaid, or void it. Voiding is final and frees its sessions to be billed again.
+router.put('/:id/status', authenticateToken, async (req, res) => {
+  try {
+    const { status } = req.body;
+
+    if (!INVOICE_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `Status must be one of: ${INVOICE_STATUSES.join(', ')}` });
+    }
+
+    const invoice = await Invoice.findOne({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!invoice) {
+      return res.status(404).json({ error: 'Invoice not found' });
+    }
+
+    if (invoice.status === 'void') {
+      return res.status(400).json({ error: 'A void invoice can\'t be changed' });
+    }
+
+    invoice.status = status;
+    invoice.paidAt = status === 'paid' ? (invoice.paidAt || new Date()) : null;
+    await invoice.save();
+
+    if (status === 'void') {
+      await linkSessions(req.userId, invoice._id, []);
+    }
+
+    res.json({
+      message: 'Invoice status updated successfully',
+      invoice: transformInvoice(invoice)
+    });
+  } catch (error) {
+    console.error('Error updating invoice status:', error);
+    res.status(500).json({ error: 'Failed to update invoice status' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,171 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const jwt = require('jsonwebtoken');
+const NoteTemplate = require('../models/NoteTemplate');
+const router = express.Router();
+
+const TEMPLATE_FIELDS = ['name', 'subjective', 'objective', 'assessment', 'plan'];
+
+// Helper function to transform MongoDB document to include id field
+const transformTemplate = (template) => {
+  const templateObj = template.toObject();
+  return {
+    ...templateObj,
+    id: templateObj._id.toString(),
+    _id: templateObj._id
+  };
+};
+
+// Middleware to verify JWT token
+const authenticateToken = async (req, res, next) => {
+  try {
+    const token = req.headers.authorization?.split(' ')[1];
+    if (!token) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    req.userId = decoded.userId;
+    next();
+  } catch (error) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+// Picks the template fields present in a request body
+const pickTemplateFields = (body) => {
+  return TEMPLATE_FIELDS.reduce((fields, key) => {
+    if (typeof body[key] === 'string') {
+      fields[key] = body[key];
+    }
+    return fields;
+  }, {});
+};
+
+// Get all note templates for the current user, in picker order
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const templates = await NoteTemplate.find({ userId: req.userId })
+      .sort({ order: 1, createdAt: 1 });
+
+    res.json({ templates: templates.map(transformTemplate) });
+  } catch (error) {
+    console.error('Error fetching note templates:', error);
+    res.status(500).json({ error: 'Failed to fetch note templates' });
+  }
+});
+
+// Create a note template at the end of the list
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const fields = pickTemplateFields(req.body);
+
+    if (!fields.name || !fields.name.trim()) {
+      return res.status(400).json({ error: 'Template name is required' });
+    }
+
+    const last = await NoteTemplate.findOne({ userId: req.userId }).sort({ order: -1 });
+
+    const template = new NoteTemplate({
+      userId: req.userId,
+      ...fields,
+      order: last ? last.order + 1 : 0
+    });
+
+    await template.save();
+
+    res.status(201).json({
+      message: 'Note template created successfully',
+      template: transformTemplate(template)
+    });
+  } catch (error) {
+    console.error('Error creating note template:', error);
+    res.status(500).json({ error: 'Failed to create note template' });
+  }
+});
+
+// Reorder templates; ids lists every template of the user in the new order
+router.put('/order', authenticateToken, async (req, res) => {
+  try {
+    const { ids } = req.body;
+
+    if (!Array.isArray(ids) || !ids.every(id => mongoose.Types.ObjectId.isValid(id))) {
+      return res.status(400).json({ error: 'ids must be a list of template IDs' });
+    }
+
+    const count = await NoteTemplate.countDocuments({ userId: req.userId, _id: { $in: ids } });
+    if (count !== ids.length || new Set(ids).size !== ids.length) {
+      return res.status(400).json({ error: 'ids must list each of your templates once' });
+    }
+
+    await NoteTemplate.bulkWrite(ids.map((id, index) => ({
+      updateOne: {
+        filter: { _id: id, userId: req.userId },
+        update: { $set: { order: index } }
+      }
+    })));
+
+    const templates = await NoteTemplate.find({ userId: req.userId })
+      .sort({ order: 1, createdAt: 1 });
+
+    res.json({
+      message: 'Note templates reordered successfully',
+      templates: templates.map(transformTemplate)
+    });
+  } catch (error) {
+    console.error('Error reordering note templates:', error);
+    res.status(500).json({ error: 'Failed to reorder note templates' });
+  }
+});
+
+// Update a note template
+router.put('/:id', authenticateToken, async (req, res) => {
+  try {
+    const fields = pickTemplateFields(req.body);
+
+    if (fields.name !== undefined && !fields.name.trim()) {
+      return res.status(400).json({ error: 'Template name is required' });
+    }
+
+    const template = await NoteTemplate.findOne({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!template) {
+      return res.status(404).json({ error: 'Note template not found' });
+    }
+
+    template.set(fields);
+    await template.save();
+
+    res.json({
+      message: 'Note template updated successfully',
+      template: transformTemplate(template)
+    });
+  } catch (error) {
+    console.error('Error updating note template:', error);
+    res.status(500).json({ error: 'Failed to update note template' });
+  }
+});
+
+// Delete a note template
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    const template = await NoteTemplate.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!template) {
+      return res.status(404).json({ error: 'Note template not found' });
+    }
+
+    res.json({ message: 'Note template deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting note template:', error);
+    res.status(500).json({ error: 'Failed to delete note template' });
+  }
+});
+
+module.exports = router;
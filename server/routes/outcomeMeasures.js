@@ -0,0 +1,181 @@
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const OutcomeMeasure = require('../models/OutcomeMeasure');
+const Patient = require('../models/Patient');
+const Session = require('../models/Session');
+const {
+  normalizeOutcomeMeasure,
+  validateOutcomeMeasure,
+  scoreOutcomeMeasure
+} = require('../utils/outcomeMeasures');
+const router = express.Router();
+
+// Helper function to transform MongoDB document to include id field
+const transformOutcomeMeasure = (result) => {
+  const resultObj = result.toObject();
+  return {
+    ...resultObj,
+    id: resultObj._id.toString(),
+    _id: resultObj._id
+  };
+};
+
+// Middleware to verify JWT token
+const authenticateToken = async (req, res, next) => {
+  try {
+    const token = req.headers.authorization?.split(' ')[1];
+    if (!token) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    req.userId = decoded.userId;
+    next();
+  } catch (error) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+// Returns why a result can't be linked to the session, or null if it can
+const getSessionIssue = async (userId, sessionId, patientId) => {
+  if (!sessionId) return null;
+
+  const session = await Session.findOne({ _id: sessionId, userId });
+  if (!session) {
+    return 'Session not found';
+  }
+  if (session.patientId.toString() !== patientId.toString()) {
+    return 'The session belongs to a different patient';
+  }
+  return null;
+};
+
+// Get a patient's outcome measures in the order they were taken
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const { patientId } = req.query;
+
+    if (!patientId) {
+      return res.status(400).json({ error: 'Patient ID is required' });
+    }
+
+    const results = await OutcomeMeasure.find({
+      userId: req.userId,
+      patientId
+    }).sort({ date: 1, createdAt: 1 });
+
+    res.json({ results: results.map(transformOutcomeMeasure) });
+  } catch (error) {
+    console.error('Error fetching outcome measures:', error);
+    res.status(500).json({ error: 'Failed to fetch outcome measures' });
+  }
+});
+
+// Record a completed questionnaire; the score and band are worked out here
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const { patientId } = req.body;
+
+    if (!patientId) {
+      return res.status(400).json({ error: 'Patient ID is required' });
+    }
+
+    const fields = normalizeOutcomeMeasure(req.body);
+    const validationError = validateOutcomeMeasure(fields);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    // Verify the patient belongs to the current user
+    const patient = await Patient.findOne({
+      _id: patientId,
+      userId: req.userId
+    });
+
+    if (!patient) {
+      return res.status(404).json({ error: 'Patient not found' });
+    }
+
+    const sessionIssue = await getSessionIssue(req.userId, fields.sessionId, patientId);
+    if (sessionIssue) {
+      return res.status(400).json({ error: sessionIssue });
+    }
+
+    const result = new OutcomeMeasure({
+      userId: req.userId,
+      patientId,
+      ...fields,
+      ...scoreOutcomeMeasure(fields.measure, fields.responses)
+    });
+
+    await result.save();
+
+    res.status(201).json({
+      message: 'Outcome measure recorded successfully',
+      result: transformOutcomeMeasure(result)
+    });
+  } catch (error) {
+    console.error('Error creating outcome measure:', error);
+    res.status(500).json({ error: 'Failed to record outcome measure' });
+  }
+});
+
+// Correct the responses, date, session or notes of a recorded questionnaire
+router.put('/:id', authenticateToken, async (req, res) => {
+  try {
+    const fields = normalizeOutcomeMeasure(req.body);
+    const validationError = validateOutcomeMeasure(fields);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const result = await OutcomeMeasure.findOne({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!result) {
+      return res.status(404).json({ error: 'Outcome measure not found' });
+    }
+
+    const sessionIssue = await getSessionIssue(req.userId, fields.sessionId, result.patientId);
+    if (sessionIssue) {
+      return res.status(400).json({ error: sessionIssue });
+    }
+
+    result.set({
+      ...fields,
+      ...scoreOutcomeMeasure(fields.measure, fields.responses)
+    });
+    await result.save();
+
+    res.json({
+      message: 'Outcome measure updated successfully',
+      result: transformOutcomeMeasure(result)
+    });
+  } catch (error) {
+    console.error('Error updating outcome measure:', error);
+    res.status(500).json({ error: 'Failed to update outcome measure' });
+  }
+});
+
+// Delete a recorded questionnaire
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    const result = await OutcomeMeasure.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!result) {
+      return res.status(404).json({ error: 'Outcome measure not found' });
+    }
+
+    res.json({ message: 'Outcome measure deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting outcome measure:', error);
+    res.status(500).json({ error: 'Failed to delete outcome measure' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,147 @@
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const PatientPackage = require('../models/PatientPackage');
+const SessionPackage = require('../models/SessionPackage');
+const Patient = require('../models/Patient');
+const Session = require('../models/Session');
+const { isValidPurchaseDate, getPackageExpiryDate } = require('../utils/packages');
+const router = express.Router();
+
+// Helper function to transform MongoDB document to include id field and the sessions used so far
+const transformPatientPackage = (patientPackage, sessionsUsed = 0) => {
+  const packageObj = patientPackage.toObject();
+  return {
+    ...packageObj,
+    id: packageObj._id.toString(),
+    _id: packageObj._id,
+    sessionsUsed
+  };
+};
+
+// Middleware to verify JWT token
+const authenticateToken = async (req, res, next) => {
+  try {
+    const token = req.headers.authorization?.split(' ')[1];
+    if (!token) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    req.userId = decoded.userId;
+    next();
+  } catch (error) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+// Number of completed sessions paid for by each package
+const countSessionsUsed = async (userId, packageIds) => {
+  const sessions = await Session.find({ userId, packageId: { $in: packageIds } }).select('packageId');
+  const counts = new Map();
+  sessions.forEach(session => {
+    const key = session.packageId.toString();
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return counts;
+};
+
+// Get packages sold, newest first, for one patient or every patient
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const query = { userId: req.userId };
+    if (req.query.patientId) {
+      query.patientId = req.query.patientId;
+    }
+
+    const patientPackages = await PatientPackage.find(query).sort({ purchaseDate: -1, createdAt: -1 });
+    const sessionsUsed = await countSessionsUsed(req.userId, patientPackages.map(patientPackage => patientPackage._id));
+
+    res.json({
+      packages: patientPackages.map(patientPackage => (
+        transformPatientPackage(patientPackage, sessionsUsed.get(patientPackage._id.toString()) || 0)
+      ))
+    });
+  } catch (error) {
+    console.error('Error fetching patient packages:', error);
+    res.status(500).json({ error: 'Failed to fetch patient packages' });
+  }
+});
+
+// Sell a package to a patient; its terms are copied from the package on offer
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const { patientId, packageId, purchaseDate } = req.body;
+
+    if (!patientId || !packageId) {
+      return res.status(400).json({ error: 'Patient ID and package ID are required' });
+    }
+
+    if (!isValidPurchaseDate(purchaseDate)) {
+      return res.status(400).json({ error: 'Purchase date must be in YYYY-MM-DD format' });
+    }
+
+    // Verify the patient belongs to the current user
+    const patient = await Patient.findOne({
+      _id: patientId,
+      userId: req.userId
+    });
+
+    if (!patient) {
+      return res.status(404).json({ error: 'Patient not found' });
+    }
+
+    const sessionPackage = await SessionPackage.findOne({ _id: packageId, userId: req.userId });
+    if (!sessionPackage) {
+      return res.status(400).json({ error: 'Package not found' });
+    }
+
+    const patientPackage = new PatientPackage({
+      userId: req.userId,
+      patientId: patient._id,
+      packageId: sessionPackage._id,
+      name: sessionPackage.name,
+      sessionCount: sessionPackage.sessionCount,
+      price: sessionPackage.price,
+      purchaseDate,
+      expiryDate: getPackageExpiryDate(purchaseDate, sessionPackage.validForMonths)
+    });
+
+    await patientPackage.save();
+
+    res.status(201).json({
+      message: 'Package sold successfully',
+      package: transformPatientPackage(patientPackage)
+    });
+  } catch (error) {
+    console.error('Error selling package:', error);
+    res.status(500).json({ error: 'Failed to sell package' });
+  }
+});
+
+// Remove a package sold by mistake; once a session has used it, it is kept
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    const patientPackage = await PatientPackage.findOne({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!patientPackage) {
+      return res.status(404).json({ error: 'Package not found' });
+    }
+
+    const usedCount = await Session.countDocuments({ userId: req.userId, packageId: patientPackage._id });
+    if (usedCount > 0) {
+      return res.status(400).json({ error: 'A package that has paid for sessions can\'t be removed' });
+    }
+
+    await patientPackage.deleteOne();
+
+    res.json({ message: 'Package removed successfully' });
+  } catch (error) {
+    console.error('Error removing package:', error);
+    res.status(500).json({ error: 'Failed to remove package' });
+  }
+});
+
+module.exports = router;
@@ -1,8 +1,25 @@
 const express = require('express');
 const jwt = require('jsonwebtoken');
+const mongoose = require('mongoose');
 const Patient = require('../models/Patient');
+const TreatmentPlan = require('../models/TreatmentPlan');
+const OutcomeMeasure = require('../models/OutcomeMeasure');
+const Attachment = require('../models/Attachment');
+const Consent = require('../models/Consent');
+const Invoice = require('../models/Invoice');
+const PatientPackage = require('../models/PatientPackage');
+const Payment = require('../models/Payment');
+const Service = require('../models/Service');
+const { getAttachmentStorage } = require('../services/attachmentStorage');
+const { pickProfileFields, validatePatientProfile } = require('../utils/patientProfile');
+const { normalizeMedicalHistory, validateMedicalHistory } = require('../utils/medicalHistory');
+const { normalizePrescription, validatePrescription } = require('../utils/exercises');
+const { normalizeServicePrices, validateServicePrices } = require('../utils/services');
 const router = express.Router();
 
+// Files attached to a patient have their own router, with its own upload limits
+router.use('/:id/attachments', require('./attachments'));
+
 // Helper function to transform MongoDB document to include id field
 const transformPatient = (patient) => {
   const patientObj = patient.toObject();
@@ -44,6 +61,26 @@ router.get('/', authenticateToken, async (req, res) => {
   }
 });
 
+// Get the red flags of every patient that has any, keyed by patient ID
+router.get('/red-flags', authenticateToken, async (req, res) => {
+  try {
+    const patients = await Patient.find({
+      userId: req.userId,
+      'medicalHistory.redFlags.0': { $exists: true }
+    }).select('medicalHistory.redFlags');
+
+    const redFlags = patients.reduce((byPatient, patient) => {
+      byPatient[patient._id.toString()] = patient.medicalHistory.redFlags;
+      return byPatient;
+    }, {});
+
+    res.json({ redFlags });
+  } catch (error) {
+    console.error('Error fetching red flags:', error);
+    res.status(500).json({ error: 'Failed to fetch red flags' });
+  }
+});
+
 // Get patient by ID
 router.get('/:id', authenticateToken, async (req, res) => {
   try {
@@ -72,10 +109,17 @@ router.post('/', authenticateToken, async (req, res) => {
       return res.status(400).json({ error: 'Name and contact number are required' });
     }
 
+    const profile = pickProfileFields(req.body);
+    const validationError = validatePatientProfile(profile);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
     const patient = new Patient({
       userId: req.userId,
       name,
-      contactNumber
+      contactNumber,
+      ...profile
     });
 
     await patient.save();
@@ -95,6 +139,12 @@ router.put('/:id', authenticateToken, async (req, res) => {
   try {
     const { name, contactNumber } = req.body;
 
+    const profile = pickProfileFields(req.body);
+    const validationError = validatePatientProfile(profile);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
     const patient = await Patient.findOne({
       _id: req.params.id,
       userId: req.userId
@@ -106,6 +156,7 @@ router.put('/:id', authenticateToken, async (req, res) => {
 
     if (name) patient.name = name;
     if (contactNumber) patient.contactNumber = contactNumber;
+    patient.set(profile);
 
     await patient.save();
 
@@ -119,10 +170,109 @@ router.put('/:id', authenticateToken, async (req, res) => {
   }
 });
 
+// Replace the medical history of a patient
+router.put('/:id/medical-history', authenticateToken, async (req, res) => {
+  try {
+    const medicalHistory = normalizeMedicalHistory(req.body);
+    const validationError = validateMedicalHistory(medicalHistory);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const patient = await Patient.findOne({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!patient) {
+      return res.status(404).json({ error: 'Patient not found' });
+    }
+
+    patient.medicalHistory = medicalHistory;
+    await patient.save();
+
+    res.json({
+      message: 'Medical history updated successfully',
+      patient: transformPatient(patient)
+    });
+  } catch (error) {
+    console.error('Error updating medical history:', error);
+    res.status(500).json({ error: 'Failed to update medical history' });
+  }
+});
+
+// Replace the patient's home exercise program
+router.put('/:id/exercises', authenticateToken, async (req, res) => {
+  try {
+    const homeExercises = normalizePrescription(req.body.exercises);
+    const validationError = validatePrescription(homeExercises);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const patient = await Patient.findOne({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!patient) {
+      return res.status(404).json({ error: 'Patient not found' });
+    }
+
+    patient.homeExercises = homeExercises;
+    await patient.save();
+
+    res.json({
+      message: 'Home exercise program updated successfully',
+      patient: transformPatient(patient)
+    });
+  } catch (error) {
+    console.error('Error updating home exercises:', error);
+    res.status(500).json({ error: 'Failed to update home exercises' });
+  }
+});
+
+// Replace the prices agreed with the patient; services left out go back to their usual price
+router.put('/:id/service-prices', authenticateToken, async (req, res) => {
+  try {
+    const servicePrices = normalizeServicePrices(req.body.servicePrices);
+    const validationError = validateServicePrices(servicePrices);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const serviceIds = servicePrices.map(entry => entry.serviceId);
+    if (!serviceIds.every(id => mongoose.Types.ObjectId.isValid(id))
+      || await Service.countDocuments({ _id: { $in: serviceIds }, userId: req.userId }) !== serviceIds.length) {
+      return res.status(400).json({ error: 'Service not found' });
+    }
+
+    const patient = await Patient.findOne({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!patient) {
+      return res.status(404).json({ error: 'Patient not found' });
+    }
+
+    patient.servicePrices = servicePrices;
+    await patient.save();
+
+    res.json({
+      message: 'Service prices updated successfully',
+      patient: transformPatient(patient)
+    });
+  } catch (error) {
+    console.error('Error updating service prices:', error);
+    res.status(500).json({ error: 'Failed to update service prices' });
+  }
+});
+
 // Delete patient
 router.delete('/:id', authenticateToken, async (req, res) => {
   try {
-    const patient = await Patient.findOneAndDelete({
+    const patient = await Patient.findOne({
       _id: req.params.id,
       userId: req.userId
     });
@@ -131,6 +281,23 @@ router.delete('/:id', authenticateToken, async (req, res) => {
       return res.status(404).json({ error: 'Patient not found' });
     }
 
+    // Invoice numbers are never reused, so a patient who has been invoiced stays on record
+    const invoiceCount = await Invoice.countDocuments({ userId: req.userId, patientId: patient._id });
+    if (invoiceCount > 0) {
+      return res.status(409).json({ error: 'Patients who have been invoiced cannot be deleted' });
+    }
+
+    await Patient.deleteOne({ _id: patient._id });
+    await TreatmentPlan.deleteMany({ userId: req.userId, patientId: patient._id });
+    await OutcomeMeasure.deleteMany({ userId: req.userId, patientId: patient._id });
+    await Consent.deleteMany({ userId: req.userId, patientId: patient._id });
+    await PatientPackage.deleteMany({ userId: req.userId, patientId: patient._id });
+    await Payment.deleteMany({ userId: req.userId, patientId: patient._id });
+
+    const attachments = await Attachment.find({ userId: req.userId, patientId: patient._id });
+    await Promise.all(attachments.map(attachment => getAttachmentStorage().remove(attachment.storageKey)));
+    await Attachment.deleteMany({ userId: req.userId, patientId: patient._id });
+
     res.json({ message: 'Patient deleted successfully' });
   } catch (error) {
     console.error('Error deleting patient:', error);
@@ -0,0 +1,221 @@
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const mongoose = require('mongoose');
+const Payment = require('../models/Payment');
+const Patient = require('../models/Patient');
+const PatientPackage = require('../models/PatientPackage');
+const Session = require('../models/Session');
+const User = require('../models/User');
+const { normalizePayment, validatePayment, getAmountPaid, buildLedger } = require('../utils/payments');
+const { getUserCurrency } = require('../utils/currency');
+const router = express.Router();
+
+// Helper function to transform MongoDB document to include id field
+const transformPayment = (payment) => {
+  const paymentObj = payment.toObject();
+  return {
+    ...paymentObj,
+    id: paymentObj._id.toString(),
+    _id: paymentObj._id
+  };
+};
+
+// Middleware to verify JWT token
+const authenticateToken = async (req, res, next) => {
+  try {
+    const token = req.headers.authorization?.split(' ')[1];
+    if (!token) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    req.userId = decoded.userId;
+    next();
+  } catch (error) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+// Fields the ledger needs from each source
+const SESSION_LEDGER_FIELDS = 'patientId date time status amount packageId createdAt';
+const PACKAGE_LEDGER_FIELDS = 'patientId name price purchaseDate createdAt';
+
+// Recalculates what has been paid towards a session from its payments
+const refreshAmountPaid = async (userId, sessionId) => {
+  if (!sessionId) return;
+  const payments = await Payment.find({ userId, sessionId }).select('type amount');
+  await Session.updateOne({ _id: sessionId, userId }, { $set: { amountPaid: getAmountPaid(payments) } });
+};
+
+// Groups documents by their patientId
+const groupByPatient = (documents) => {
+  const groups = new Map();
+  documents.forEach(document => {
+    const key = document.patientId.toString();
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(document);
+  });
+  return groups;
+};
+
+// Get payments and refunds, newest first, for one patient or every patient
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const query = { userId: req.userId };
+    if (req.query.patientId) {
+      query.patientId = req.query.patientId;
+    }
+
+    const payments = await Payment.find(query).sort({ date: -1, createdAt: -1 });
+    res.json({ payments: payments.map(transformPayment) });
+  } catch (error) {
+    console.error('Error fetching payments:', error);
+    res.status(500).json({ error: 'Failed to fetch payments' });
+  }
+});
+
+// Get a patient's charges, payments and refunds with the running balance
+router.get('/ledger', authenticateToken, async (req, res) => {
+  try {
+    const { patientId } = req.query;
+
+    if (!patientId || !mongoose.Types.ObjectId.isValid(patientId)) {
+      return res.status(400).json({ error: 'Patient ID is required' });
+    }
+
+    const query = { userId: req.userId, patientId };
+    const [sessions, packages, payments] = await Promise.all([
+      Session.find({ ...query, status: 'completed' }).select(SESSION_LEDGER_FIELDS),
+      PatientPackage.find(query).select(PACKAGE_LEDGER_FIELDS),
+      Payment.find(query)
+    ]);
+
+    res.json(buildLedger({ sessions, packages, payments }));
+  } catch (error) {
+    console.error('Error fetching ledger:', error);
+    res.status(500).json({ error: 'Failed to fetch ledger' });
+  }
+});
+
+// Get every patient who owes money, largest balance first
+router.get('/dues', authenticateToken, async (req, res) => {
+  try {
+    const query = { userId: req.userId };
+    const [patients, sessions, packages, payments] = await Promise.all([
+      Patient.find(query).select('name contactNumber'),
+      Session.find({ ...query, status: 'completed', amount: { $gt: 0 } }).select(SESSION_LEDGER_FIELDS),
+      PatientPackage.find(query).select(PACKAGE_LEDGER_FIELDS),
+      Payment.find(query)
+    ]);
+
+    const sessionsByPatient = groupByPatient(sessions);
+    const packagesByPatient = groupByPatient(packages);
+    const paymentsByPatient = groupByPatient(payments);
+
+    const dues = patients
+      .map(patient => {
+        const key = patient._id.toString();
+        const { entries, balance } = buildLedger({
+          sessions: sessionsByPatient.get(key),
+          packages: packagesByPatient.get(key),
+          payments: paymentsByPatient.get(key)
+        });
+        const lastPayment = [...entries].reverse().find(entry => entry.kind === 'payment');
+        return {
+          patientId: key,
+          patientName: patient.name,
+          phone: patient.contactNumber,
+          balance,
+          lastPaymentDate: lastPayment ? lastPayment.date : null
+        };
+      })
+      .filter(due => due.balance > 0)
+      .sort((a, b) => b.balance - a.balance);
+
+    res.json({ dues });
+  } catch (error) {
+    console.error('Error fetching dues:', error);
+    res.status(500).json({ error: 'Failed to fetch dues' });
+  }
+});
+
+// Record a payment or refund, optionally against one of the patient's sessions
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const { patientId } = req.body;
+
+    if (!patientId) {
+      return res.status(400).json({ error: 'Patient ID is required' });
+    }
+
+    const fields = normalizePayment(req.body);
+    const validationError = validatePayment(fields);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    // Verify the patient belongs to the current user
+    const patient = await Patient.findOne({
+      _id: patientId,
+      userId: req.userId
+    });
+
+    if (!patient) {
+      return res.status(404).json({ error: 'Patient not found' });
+    }
+
+    if (fields.sessionId) {
+      const session = mongoose.Types.ObjectId.isValid(fields.sessionId)
+        ? await Session.findOne({ _id: fields.sessionId, userId: req.userId, patientId: patient._id })
+        : null;
+      if (!session) {
+        return res.status(400).json({ error: 'The session must belong to the patient' });
+      }
+    }
+
+    // Stamped with the currency it was taken in, so it reads the same if the setting changes
+    const user = await User.findById(req.userId).select('moneyFormat');
+
+    const payment = new Payment({
+      userId: req.userId,
+      patientId: patient._id,
+      ...fields,
+      currency: getUserCurrency(user)
+    });
+
+    await payment.save();
+    await refreshAmountPaid(req.userId, payment.sessionId);
+
+    res.status(201).json({
+      message: 'Payment recorded successfully',
+      payment: transformPayment(payment)
+    });
+  } catch (error) {
+    console.error('Error recording payment:', error);
+    res.status(500).json({ error: 'Failed to record payment' });
+  }
+});
+
+// Delete a payment recorded by mistake
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    const payment = await Payment.findOne({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!payment) {
+      return res.status(404).json({ error: 'Payment not found' });
+    }
+
+    await payment.deleteOne();
+    await refreshAmountPaid(req.userId, payment.sessionId);
+
+    res.json({ message: 'Payment deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting payment:', error);
+    res.status(500).json({ error: 'Failed to delete payment' });
+  }
+});
+
+module.exports = router;
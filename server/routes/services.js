@@ -0,0 +1,126 @@
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const Service = require('../models/Service');
+const Patient = require('../models/Patient');
+const { normalizeService, validateService } = require('../utils/services');
+const router = express.Router();
+
+// Helper function to transform MongoDB document to include id field
+const transformService = (service) => {
+  const serviceObj = service.toObject();
+  return {
+    ...serviceObj,
+    id: serviceObj._id.toString(),
+    _id: serviceObj._id
+  };
+};
+
+// Middleware to verify JWT token
+const authenticateToken = async (req, res, next) => {
+  try {
+    const token = req.headers.authorization?.split(' ')[1];
+    if (!token) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    req.userId = decoded.userId;
+    next();
+  } catch (error) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+// Get all services on offer, by name
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const services = await Service.find({ userId: req.userId }).sort({ name: 1 });
+    res.json({ services: services.map(transformService) });
+  } catch (error) {
+    console.error('Error fetching services:', error);
+    res.status(500).json({ error: 'Failed to fetch services' });
+  }
+});
+
+// Create a service
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const fields = normalizeService(req.body);
+    const validationError = validateService(fields);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const service = new Service({
+      userId: req.userId,
+      ...fields
+    });
+
+    await service.save();
+
+    res.status(201).json({
+      message: 'Service created successfully',
+      service: transformService(service)
+    });
+  } catch (error) {
+    console.error('Error creating service:', error);
+    res.status(500).json({ error: 'Failed to create service' });
+  }
+});
+
+// Update a service; sessions already booked keep their own length and fee
+router.put('/:id', authenticateToken, async (req, res) => {
+  try {
+    const fields = normalizeService(req.body);
+    const validationError = validateService(fields);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const service = await Service.findOne({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!service) {
+      return res.status(404).json({ error: 'Service not found' });
+    }
+
+    service.set(fields);
+    await service.save();
+
+    res.json({
+      message: 'Service updated successfully',
+      service: transformService(service)
+    });
+  } catch (error) {
+    console.error('Error updating service:', error);
+    res.status(500).json({ error: 'Failed to update service' });
+  }
+});
+
+// Stop offering a service. Sessions keep its name; prices agreed with patients for it are dropped.
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    const service = await Service.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!service) {
+      return res.status(404).json({ error: 'Service not found' });
+    }
+
+    await Patient.updateMany(
+      { userId: req.userId },
+      { $pull: { servicePrices: { serviceId: service._id } } }
+    );
+
+    res.json({ message: 'Service deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting service:', error);
+    res.status(500).json({ error: 'Failed to delete service' });
+  }
+});
+
+module.exports = router;
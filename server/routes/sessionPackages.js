@@ -0,0 +1,120 @@
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const SessionPackage = require('../models/SessionPackage');
+const { normalizeSessionPackage, validateSessionPackage } = require('../utils/packages');
+const router = express.Router();
+
+// Helper function to transform MongoDB document to include id field
+const transformPackage = (sessionPackage) => {
+  const packageObj = sessionPackage.toObject();
+  return {
+    ...packageObj,
+    id: packageObj._id.toString(),
+    _id: packageObj._id
+  };
+};
+
+// Middleware to verify JWT token
+const authenticateToken = async (req, res, next) => {
+  try {
+    const token = req.headers.authorization?.split(' ')[1];
+    if (!token) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    req.userId = decoded.userId;
+    next();
+  } catch (error) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+// Get all packages on offer, smallest first
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const packages = await SessionPackage.find({ userId: req.userId }).sort({ sessionCount: 1, name: 1 });
+    res.json({ packages: packages.map(transformPackage) });
+  } catch (error) {
+    console.error('Error fetching packages:', error);
+    res.status(500).json({ error: 'Failed to fetch packages' });
+  }
+});
+
+// Create a package
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const fields = normalizeSessionPackage(req.body);
+    const validationError = validateSessionPackage(fields);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const sessionPackage = new SessionPackage({
+      userId: req.userId,
+      ...fields
+    });
+
+    await sessionPackage.save();
+
+    res.status(201).json({
+      message: 'Package created successfully',
+      package: transformPackage(sessionPackage)
+    });
+  } catch (error) {
+    console.error('Error creating package:', error);
+    res.status(500).json({ error: 'Failed to create package' });
+  }
+});
+
+// Update a package; packages already sold keep the terms they were sold with
+router.put('/:id', authenticateToken, async (req, res) => {
+  try {
+    const fields = normalizeSessionPackage(req.body);
+    const validationError = validateSessionPackage(fields);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const sessionPackage = await SessionPackage.findOne({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!sessionPackage) {
+      return res.status(404).json({ error: 'Package not found' });
+    }
+
+    sessionPackage.set(fields);
+    await sessionPackage.save();
+
+    res.json({
+      message: 'Package updated successfully',
+      package: transformPackage(sessionPackage)
+    });
+  } catch (error) {
+    console.error('Error updating package:', error);
+    res.status(500).json({ error: 'Failed to update package' });
+  }
+});
+
+// Stop offering a package; packages already sold are kept
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    const sessionPackage = await SessionPackage.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!sessionPackage) {
+      return res.status(404).json({ error: 'Package not found' });
+    }
+
+    res.json({ message: 'Package deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting package:', error);
+    res.status(500).json({ error: 'Failed to delete package' });
+  }
+});
+
+module.exports = router;
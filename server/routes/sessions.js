@@ -1,7 +1,35 @@
 const express = require('express');
+const mongoose = require('mongoose');
 const jwt = require('jsonwebtoken');
 const Session = require('../models/Session');
 const Patient = require('../models/Patient');
+const User = require('../models/User');
+const TreatmentPlan = require('../models/TreatmentPlan');
+const OutcomeMeasure = require('../models/OutcomeMeasure');
+const Attachment = require('../models/Attachment');
+const PatientPackage = require('../models/PatientPackage');
+const Payment = require('../models/Payment');
+const Service = require('../models/Service');
+const { addDays, daysBetween, validateRecurrence, generateSeriesDates } = require('../utils/recurrence');
+const { DEFAULT_SESSION_DURATION, findConflicts, suggestFreeSlots, validateSessionTiming } = require('../utils/scheduling');
+const { getAvailabilityIssue, getDayWindows } = require('../utils/availability');
+const { normalizeClinicalNotes, validateClinicalNotes } = require('../utils/clinicalNotes');
+const { normalizePrescription, validatePrescription } = require('../utils/exercises');
+const { normalizeMeasurements, validateMeasurements } = require('../utils/measurements');
+const { normalizeBodyChart, validateBodyChart } = require('../utils/bodyChart');
+const { isPackageUsable } = require('../utils/packages');
+const { normalizePayment, validatePayment, getAmountPaid } = require('../utils/payments');
+const { getUserCurrency } = require('../utils/currency');
+const { roundMoney } = require('../utils/fields');
+const {
+  OPEN_STATUSES,
+  CLOSED_STATUSES,
+  CANCELLED_STATUSES,
+  RESCHEDULE_INITIATORS,
+  isValidStatus,
+  parseStatusFilter,
+  applyStatusChange
+} = require('../utils/sessionStatus');
 const router = express.Router();
 
 // Helper function to transform MongoDB document to include id field
@@ -30,15 +58,193 @@ const authenticateToken = async (req, res, next) => {
   }
 };
 
+const SERIES_SCOPES = ['single', 'following', 'series'];
+
+// Builds the query for the other open sessions of a series affected by a scoped edit/delete.
+// Completed, missed and cancelled sessions are left untouched so the treatment history stays intact.
+const buildSeriesQuery = (session, scope, userId) => {
+  const query = {
+    userId,
+    seriesId: session.seriesId,
+    status: { $in: OPEN_STATUSES },
+    _id: { $ne: session._id }
+  };
+
+  if (scope === 'following') {
+    query.date = { $gte: session.date };
+  }
+
+  return query;
+};
+
+const groupByDate = (sessions) => {
+  return sessions.reduce((groups, session) => {
+    if (!groups[session.date]) {
+      groups[session.date] = [];
+    }
+    groups[session.date].push(session);
+    return groups;
+  }, {});
+};
+
+// Checks the requested slot(s) against the user's other sessions and availability. When a
+// single-date booking can't go ahead, the next free slots are suggested so the client can offer alternatives.
+// excludeId is the session (or sessions) being moved, which can't conflict with itself.
+const checkSchedule = async (userId, dates, time, duration, excludeId = null) => {
+  const excludeIds = [].concat(excludeId || []);
+  const query = { userId, date: { $in: dates }, status: { $nin: CANCELLED_STATUSES } };
+  if (excludeIds.length > 0) query._id = { $nin: excludeIds };
+
+  const user = await User.findById(userId).select('availability');
+  const availability = user ? user.availability : null;
+
+  const sessionsByDate = groupByDate(await Session.find(query));
+  const conflicts = dates.flatMap(date => findConflicts(sessionsByDate[date] || [], time, duration));
+  const unavailable = dates
+    .map(date => ({ date, reason: getAvailabilityIssue(availability, date, time, duration) }))
+    .filter(item => item.reason);
+
+  let suggestions = [];
+  if ((conflicts.length > 0 || unavailable.length > 0) && dates.length === 1) {
+    const nearbyQuery = {
+      userId,
+      date: { $gte: dates[0], $lte: addDays(dates[0], 6) },
+      status: { $nin: CANCELLED_STATUSES }
+    };
+    if (excludeIds.length > 0) nearbyQuery._id = { $nin: excludeIds };
+
+    const nearbySessions = groupByDate(await Session.find(nearbyQuery));
+    suggestions = suggestFreeSlots(nearbySessions, dates[0], time, duration, 3, date => getDayWindows(availability, date));
+  }
+
+  return {
+    hasIssues: conflicts.length > 0 || unavailable.length > 0,
+    conflicts: conflicts.map(transformSession),
+    unavailable,
+    suggestions
+  };
+};
+
+// Checks several slots at once, such as every session of a series being moved. The moved
+// sessions keep their spacing, so they are excluded from each other's conflicts.
+const checkSlots = async (userId, slots, excludeIds) => {
+  const groups = new Map();
+  slots.forEach(slot => {
+    const key = `${slot.time}|${slot.duration}`;
+    if (!groups.has(key)) groups.set(key, { time: slot.time, duration: slot.duration, dates: [] });
+    groups.get(key).dates.push(slot.date);
+  });
+
+  const results = await Promise.all(
+    [...groups.values()].map(group => checkSchedule(userId, group.dates, group.time, group.duration, excludeIds))
+  );
+  return {
+    hasIssues: results.some(result => result.hasIssues),
+    conflicts: results.flatMap(result => result.conflicts),
+    unavailable: results.flatMap(result => result.unavailable),
+    // Alternatives only make sense when a single session moves
+    suggestions: slots.length === 1 ? results[0].suggestions : []
+  };
+};
+
+// Checks that sessions of the patient can be linked to the plan; returns an error message or null
+const getTreatmentPlanIssue = async (userId, treatmentPlanId, patientId) => {
+  if (!mongoose.Types.ObjectId.isValid(treatmentPlanId)) {
+    return 'Invalid treatment plan ID';
+  }
+
+  const plan = await TreatmentPlan.findOne({ _id: treatmentPlanId, userId });
+  if (!plan) {
+    return 'Treatment plan not found';
+  }
+  if (plan.patientId.toString() !== String(patientId)) {
+    return 'The treatment plan belongs to a different patient';
+  }
+  if (plan.status !== 'active') {
+    return 'Sessions cannot be added to a closed treatment plan';
+  }
+
+  return null;
+};
+
+// Looks up the service a session is booked as. Returns the session's service fields, or null
+// when the service isn't one of the user's.
+const getServiceFields = async (userId, serviceId) => {
+  if (!serviceId) {
+    return { serviceId: null, serviceName: '' };
+  }
+  if (!mongoose.Types.ObjectId.isValid(serviceId)) {
+    return null;
+  }
+
+  const service = await Service.findOne({ _id: serviceId, userId });
+  return service ? { serviceId: service._id, serviceName: service.name } : null;
+};
+
+// Pays for a completed session from the patient's prepaid packages, using the one that
+// expires first. Sessions that aren't completed give their package session back.
+const applyPackageUse = async (session) => {
+  if (session.status !== 'completed') {
+    session.packageId = null;
+    return;
+  }
+  if (session.packageId || session.invoiceId) return;
+
+  const patientPackages = await PatientPackage.find({ userId: session.userId, patientId: session.patientId })
+    .sort({ purchaseDate: 1 });
+  const byExpiry = [...patientPackages].sort((a, b) => (a.expiryDate || '9999-12-31').localeCompare(b.expiryDate || '9999-12-31'));
+
+  for (const patientPackage of byExpiry) {
+    const sessionsUsed = await Session.countDocuments({ userId: session.userId, packageId: patientPackage._id });
+    if (isPackageUsable(patientPackage, sessionsUsed, session.date)) {
+      session.packageId = patientPackage._id;
+      return;
+    }
+  }
+};
+
+// Moves a session to a new slot, recording the slot it came from. Does nothing when the slot is unchanged.
+const moveSession = (session, date, time, initiatedBy, reason = '') => {
+  if (date === session.date && time === session.time) return;
+
+  session.rescheduleHistory.push({
+    fromDate: session.date,
+    fromTime: session.time,
+    toDate: date,
+    toTime: time,
+    initiatedBy,
+    reason
+  });
+  session.date = date;
+  session.time = time;
+};
+
+const sendConflictResponse = (res, { conflicts, unavailable, suggestions }) => {
+  return res.status(409).json({
+    error: conflicts.length > 0
+      ? 'This time overlaps with another session'
+      : 'This time is outside your availability',
+    conflicts,
+    unavailable,
+    suggestions
+  });
+};
+
 // Get all sessions for the current user
 router.get('/', authenticateToken, async (req, res) => {
   try {
-    const { patientId, startDate, endDate, completed } = req.query;
+    const { patientId, startDate, endDate, status } = req.query;
     
     let query = { userId: req.userId };
     
     if (patientId) query.patientId = patientId;
-    if (completed !== undefined) query.completed = completed === 'true';
+    if (status !== undefined) {
+      const statuses = parseStatusFilter(status);
+      if (!statuses) {
+        return res.status(400).json({ error: 'Unknown session status' });
+      }
+      query.status = { $in: statuses };
+    }
     if (startDate || endDate) {
       query.date = {};
       if (startDate) query.date.$gte = startDate;
@@ -86,12 +292,12 @@ router.get('/patient/:patientId', authenticateToken, async (req, res) => {
   }
 });
 
-// Get past sessions (completed sessions)
+// Get past sessions (completed, missed, cancelled or rescheduled)
 router.get('/past', authenticateToken, async (req, res) => {
   try {
     const sessions = await Session.find({
       userId: req.userId,
-      completed: true
+      status: { $in: CLOSED_STATUSES }
     }).sort({ date: -1, time: -1 });
 
     const transformedSessions = sessions.map(transformSession);
@@ -103,12 +309,12 @@ router.get('/past', authenticateToken, async (req, res) => {
   }
 });
 
-// Get upcoming sessions (incomplete sessions)
+// Get upcoming sessions (scheduled or checked in)
 router.get('/upcoming', authenticateToken, async (req, res) => {
   try {
     const sessions = await Session.find({
       userId: req.userId,
-      completed: false
+      status: { $in: OPEN_STATUSES }
     }).sort({ date: 1, time: 1 });
 
     const transformedSessions = sessions.map(transformSession);
@@ -142,12 +348,45 @@ router.get('/:id', authenticateToken, async (req, res) => {
 // Create new session
 router.post('/', authenticateToken, async (req, res) => {
   try {
-    const { patientId, patientName, date, time, notes, completed, amount } = req.body;
+    const { patientId, patientName, date, time, duration, notes, status, statusReason, amount, treatmentPlanId, serviceId, allowConflicts } = req.body;
 
     if (!patientId || !patientName || !date || !time) {
       return res.status(400).json({ error: 'Patient ID, patient name, date, and time are required' });
     }
 
+    const timingError = validateSessionTiming(time, duration);
+    if (timingError) {
+      return res.status(400).json({ error: timingError });
+    }
+
+    if (status !== undefined && !isValidStatus(status)) {
+      return res.status(400).json({ error: 'Unknown session status' });
+    }
+
+    const clinicalNotes = normalizeClinicalNotes(req.body.clinicalNotes);
+    const clinicalNotesError = validateClinicalNotes(clinicalNotes);
+    if (clinicalNotesError) {
+      return res.status(400).json({ error: clinicalNotesError });
+    }
+
+    const exercises = normalizePrescription(req.body.exercises);
+    const exercisesError = validatePrescription(exercises);
+    if (exercisesError) {
+      return res.status(400).json({ error: exercisesError });
+    }
+
+    const measurements = normalizeMeasurements(req.body.measurements);
+    const measurementsError = validateMeasurements(measurements);
+    if (measurementsError) {
+      return res.status(400).json({ error: measurementsError });
+    }
+
+    const bodyChart = normalizeBodyChart(req.body.bodyChart);
+    const bodyChartError = validateBodyChart(bodyChart);
+    if (bodyChartError) {
+      return res.status(400).json({ error: bodyChartError });
+    }
+
     // Verify the patient belongs to the current user
     const patient = await Patient.findOne({
       _id: patientId,
@@ -158,17 +397,51 @@ router.post('/', authenticateToken, async (req, res) => {
       return res.status(404).json({ error: 'Patient not found' });
     }
 
+    if (treatmentPlanId) {
+      const planIssue = await getTreatmentPlanIssue(req.userId, treatmentPlanId, patientId);
+      if (planIssue) {
+        return res.status(400).json({ error: planIssue });
+      }
+    }
+
+    const serviceFields = await getServiceFields(req.userId, serviceId);
+    if (!serviceFields) {
+      return res.status(400).json({ error: 'Service not found' });
+    }
+
+    const sessionDuration = duration || DEFAULT_SESSION_DURATION;
+    if (!allowConflicts) {
+      const schedule = await checkSchedule(req.userId, [date], time, sessionDuration);
+      if (schedule.hasIssues) {
+        return sendConflictResponse(res, schedule);
+      }
+    }
+
     const session = new Session({
       userId: req.userId,
       patientId,
       patientName,
       date,
       time,
+      duration: sessionDuration,
       notes: notes || '',
-      completed: completed || false,
-      amount: amount || null
+      clinicalNotes,
+      exercises,
+      measurements,
+      bodyChart,
+      status: status || 'scheduled',
+      statusReason: statusReason || '',
+      statusChangedAt: status && status !== 'scheduled' ? new Date() : null,
+      amount: amount || null,
+      treatmentPlanId: treatmentPlanId || null,
+      ...serviceFields
     });
 
+    // A payment entered with the session takes the place of a package
+    if (session.status === 'completed' && amount === undefined) {
+      await applyPackageUse(session);
+    }
+
     await session.save();
 
     res.status(201).json({
@@ -181,10 +454,150 @@ router.post('/', authenticateToken, async (req, res) => {
   }
 });
 
-// Update session
+// Create a recurring series of sessions
+router.post('/series', authenticateToken, async (req, res) => {
+  try {
+    const { patientId, patientName, time, duration, notes, amount, recurrence, treatmentPlanId, serviceId, allowConflicts } = req.body;
+
+    if (!patientId || !patientName || !time) {
+      return res.status(400).json({ error: 'Patient ID, patient name, and time are required' });
+    }
+
+    const timingError = validateSessionTiming(time, duration);
+    if (timingError) {
+      return res.status(400).json({ error: timingError });
+    }
+
+    const recurrenceError = validateRecurrence(recurrence);
+    if (recurrenceError) {
+      return res.status(400).json({ error: recurrenceError });
+    }
+
+    // Verify the patient belongs to the current user
+    const patient = await Patient.findOne({
+      _id: patientId,
+      userId: req.userId
+    });
+
+    if (!patient) {
+      return res.status(404).json({ error: 'Patient not found' });
+    }
+
+    if (treatmentPlanId) {
+      const planIssue = await getTreatmentPlanIssue(req.userId, treatmentPlanId, patientId);
+      if (planIssue) {
+        return res.status(400).json({ error: planIssue });
+      }
+    }
+
+    const serviceFields = await getServiceFields(req.userId, serviceId);
+    if (!serviceFields) {
+      return res.status(400).json({ error: 'Service not found' });
+    }
+
+    const dates = generateSeriesDates(recurrence);
+    if (dates.length === 0) {
+      return res.status(400).json({ error: 'The recurrence rule does not produce any sessions' });
+    }
+
+    const sessionDuration = duration || DEFAULT_SESSION_DURATION;
+    if (!allowConflicts) {
+      const schedule = await checkSchedule(req.userId, dates, time, sessionDuration);
+      if (schedule.hasIssues) {
+        return sendConflictResponse(res, schedule);
+      }
+    }
+
+    const seriesId = new mongoose.Types.ObjectId();
+    const sessions = await Session.insertMany(dates.map(date => ({
+      userId: req.userId,
+      patientId,
+      patientName,
+      date,
+      time,
+      duration: sessionDuration,
+      notes: notes || '',
+      status: 'scheduled',
+      amount: amount || null,
+      treatmentPlanId: treatmentPlanId || null,
+      ...serviceFields,
+      seriesId
+    })));
+
+    res.status(201).json({
+      message: `${sessions.length} sessions created successfully`,
+      seriesId: seriesId.toString(),
+      sessions: sessions.map(transformSession)
+    });
+  } catch (error) {
+    console.error('Error creating session series:', error);
+    res.status(500).json({ error: 'Failed to create session series' });
+  }
+});
+
+// Update session, optionally applying the change to the rest of its series
 router.put('/:id', authenticateToken, async (req, res) => {
   try {
-    const { patientId, patientName, date, time, notes, completed, amount } = req.body;
+    const { patientId, patientName, date, time, duration, notes, status, statusReason, amount, serviceId, allowConflicts } = req.body;
+    let { treatmentPlanId } = req.body;
+    const scope = req.query.scope || 'single';
+    // A new date or time is recorded as a reschedule; edits are made by the clinic unless told otherwise
+    const rescheduleInitiatedBy = req.body.rescheduleInitiatedBy || 'clinic';
+    const rescheduleReason = req.body.rescheduleReason || '';
+
+    if (!SERIES_SCOPES.includes(scope)) {
+      return res.status(400).json({ error: 'Scope must be single, following or series' });
+    }
+
+    if (!RESCHEDULE_INITIATORS.includes(rescheduleInitiatedBy)) {
+      return res.status(400).json({ error: 'Rescheduling must be initiated by the patient or the clinic' });
+    }
+
+    if (status !== undefined && !isValidStatus(status)) {
+      return res.status(400).json({ error: 'Unknown session status' });
+    }
+
+    // An empty time or duration keeps the session's current one
+    const timingError = validateSessionTiming(time || undefined, duration || undefined);
+    if (timingError) {
+      return res.status(400).json({ error: timingError });
+    }
+
+    let clinicalNotes;
+    if (req.body.clinicalNotes !== undefined) {
+      clinicalNotes = normalizeClinicalNotes(req.body.clinicalNotes);
+      const clinicalNotesError = validateClinicalNotes(clinicalNotes);
+      if (clinicalNotesError) {
+        return res.status(400).json({ error: clinicalNotesError });
+      }
+    }
+
+    let exercises;
+    if (req.body.exercises !== undefined) {
+      exercises = normalizePrescription(req.body.exercises);
+      const exercisesError = validatePrescription(exercises);
+      if (exercisesError) {
+        return res.status(400).json({ error: exercisesError });
+      }
+    }
+
+    let measurements;
+    if (req.body.measurements !== undefined) {
+      measurements = normalizeMeasurements(req.body.measurements);
+      const measurementsError = validateMeasurements(measurements);
+      if (measurementsError) {
+        return res.status(400).json({ error: measurementsError });
+      }
+    }
+
+    let bodyChart;
+    if (req.body.bodyChart !== undefined) {
+      bodyChart = normalizeBodyChart(req.body.bodyChart);
+      const bodyChartError = validateBodyChart(bodyChart);
+      if (bodyChartError) {
+        return res.status(400).json({ error: bodyChartError });
+      }
+    }
 
     const session = await Session.findOne({
       _id: req.params.id,
@@ -195,20 +608,106 @@ router.put('/:id', authenticateToken, async (req, res) => {
       return res.status(404).json({ error: 'Session not found' });
     }
 
+    // A plan belongs to one patient, so moving the session to another patient unlinks it
+    const newPatientId = patientId || session.patientId;
+    if (treatmentPlanId === undefined && String(newPatientId) !== session.patientId.toString()) {
+      treatmentPlanId = null;
+    }
+    const planChanged = treatmentPlanId !== undefined && String(treatmentPlanId) !== String(session.treatmentPlanId);
+    if (planChanged && treatmentPlanId) {
+      const planIssue = await getTreatmentPlanIssue(req.userId, treatmentPlanId, newPatientId);
+      if (planIssue) {
+        return res.status(400).json({ error: planIssue });
+      }
+    }
+
+    // Keeping the same service keeps its name as booked, even if the service was since renamed or deleted
+    let serviceFields;
+    if (serviceId !== undefined && String(serviceId || '') !== String(session.serviceId || '')) {
+      serviceFields = await getServiceFields(req.userId, serviceId);
+      if (!serviceFields) {
+        return res.status(400).json({ error: 'Service not found' });
+      }
+    }
+
+    const newDate = date || session.date;
+    const newTime = time || session.time;
+    const newDuration = duration || session.duration || DEFAULT_SESSION_DURATION;
+    const slotChanged = newDate !== session.date || newTime !== session.time || newDuration !== session.duration;
+
+    let seriesSessions = [];
+    if (scope !== 'single' && session.seriesId) {
+      // Moving one occurrence moves the rest of the series by the same number of days
+      const dayShift = date ? daysBetween(session.date, date) : 0;
+      seriesSessions = await Session.find(buildSeriesQuery(session, scope, req.userId));
+
+      seriesSessions.forEach(seriesSession => {
+        if (patientId) seriesSession.patientId = patientId;
+        if (patientName) seriesSession.patientName = patientName;
+        moveSession(
+          seriesSession,
+          dayShift ? addDays(seriesSession.date, dayShift) : seriesSession.date,
+          time || seriesSession.time,
+          rescheduleInitiatedBy,
+          rescheduleReason
+        );
+        if (duration) seriesSession.duration = duration;
+        if (notes !== undefined) seriesSession.notes = notes;
+        if (amount !== undefined) seriesSession.amount = amount;
+        if (treatmentPlanId !== undefined) seriesSession.treatmentPlanId = treatmentPlanId || null;
+        if (serviceFields) seriesSession.set(serviceFields);
+      });
+    }
+
+    // Only re-check the schedule for slots that change, not on notes or payment updates
+    if (!allowConflicts) {
+      const slots = [];
+      if (slotChanged) slots.push({ date: newDate, time: newTime, duration: newDuration });
+      seriesSessions
+        .filter(seriesSession => seriesSession.isModified('date') || seriesSession.isModified('time') || seriesSession.isModified('duration'))
+        .forEach(seriesSession => slots.push({
+          date: seriesSession.date,
+          time: seriesSession.time,
+          duration: seriesSession.duration || DEFAULT_SESSION_DURATION
+        }));
+
+      const movedIds = [session._id, ...seriesSessions.map(seriesSession => seriesSession._id)];
+      const schedule = await checkSlots(req.userId, slots, movedIds);
+      if (schedule.hasIssues) {
+        return sendConflictResponse(res, schedule);
+      }
+    }
+
     // Update fields
     if (patientId) session.patientId = patientId;
     if (patientName) session.patientName = patientName;
-    if (date) session.date = date;
-    if (time) session.time = time;
+    moveSession(session, newDate, newTime, rescheduleInitiatedBy, rescheduleReason);
+    if (duration) session.duration = duration;
     if (notes !== undefined) session.notes = notes;
-    if (completed !== undefined) session.completed = completed;
+    // Clinical notes, exercises, measurements and the body chart describe one visit, so they are never copied to the rest of a series
+    if (clinicalNotes) session.clinicalNotes = clinicalNotes;
+    if (exercises) session.exercises = exercises;
+    if (measurements) session.measurements = measurements;
+    if (bodyChart) session.bodyChart = bodyChart;
+    const previousStatus = session.status;
+    applyStatusChange(session, status, statusReason);
     if (amount !== undefined) session.amount = amount;
+    if (treatmentPlanId !== undefined) session.treatmentPlanId = treatmentPlanId || null;
+    if (serviceFields) session.set(serviceFields);
+    // Completing a session without taking a payment uses a prepaid package if the patient has one
+    if (session.status !== previousStatus && (session.status !== 'completed' || amount === undefined)) {
+      await applyPackageUse(session);
+    }
 
     await session.save();
+    await Promise.all(seriesSessions.map(seriesSession => seriesSession.save()));
 
     res.json({
       message: 'Session updated successfully',
-      session: transformSession(session)
+      session: transformSession(session),
+      // Every session the update changed, starting with this one, so the client can move their reminders
+      sessions: [session, ...seriesSessions].map(transformSession),
+      updatedCount: seriesSessions.length + 1
     });
   } catch (error) {
     console.error('Error updating session:', error);
@@ -216,9 +715,24 @@ router.put('/:id', authenticateToken, async (req, res) => {
   }
 });
 
-// Delete session
-router.delete('/:id', authenticateToken, async (req, res) => {
+// Move a session to a new slot, keeping a record of the slot it came from
+router.post('/:id/reschedule', authenticateToken, async (req, res) => {
   try {
+    const { date, time, initiatedBy, reason, allowConflicts } = req.body;
+
+    if (!date || !time) {
+      return res.status(400).json({ error: 'New date and time are required' });
+    }
+
+    const timingError = validateSessionTiming(time);
+    if (timingError) {
+      return res.status(400).json({ error: timingError });
+    }
+
+    if (!RESCHEDULE_INITIATORS.includes(initiatedBy)) {
+      return res.status(400).json({ error: 'Rescheduling must be initiated by the patient or the clinic' });
+    }
+
     const session = await Session.findOne({
       _id: req.params.id,
       userId: req.userId
@@ -228,9 +742,146 @@ router.delete('/:id', authenticateToken, async (req, res) => {
       return res.status(404).json({ error: 'Session not found' });
     }
 
-    await Session.findByIdAndDelete(req.params.id);
+    if (!OPEN_STATUSES.includes(session.status)) {
+      return res.status(400).json({ error: 'Only scheduled sessions can be rescheduled' });
+    }
+
+    if (date === session.date && time === session.time) {
+      return res.status(400).json({ error: 'Choose a different date or time' });
+    }
+
+    if (!allowConflicts) {
+      const duration = session.duration || DEFAULT_SESSION_DURATION;
+      const schedule = await checkSchedule(req.userId, [date], time, duration, session._id);
+      if (schedule.hasIssues) {
+        return sendConflictResponse(res, schedule);
+      }
+    }
+
+    moveSession(session, date, time, initiatedBy, reason || '');
+    // A patient who had checked in for the old slot hasn't arrived for the new one yet
+    applyStatusChange(session, 'scheduled');
+
+    await session.save();
+
+    res.json({
+      message: 'Session rescheduled successfully',
+      session: transformSession(session)
+    });
+  } catch (error) {
+    console.error('Error rescheduling session:', error);
+    res.status(500).json({ error: 'Failed to reschedule session' });
+  }
+});
+
+// Complete a session with its fee and record what the patient paid towards it in one request,
+// so a session is never left completed without the payment that was taken for it
+router.post('/:id/complete', authenticateToken, async (req, res) => {
+  try {
+    const amount = req.body.amount === null || req.body.amount === undefined || req.body.amount === ''
+      ? NaN
+      : roundMoney(Number(req.body.amount));
+
+    if (!Number.isFinite(amount) || amount < 0) {
+      return res.status(400).json({ error: 'The session fee must be zero or more' });
+    }
+
+    const session = mongoose.Types.ObjectId.isValid(req.params.id)
+      ? await Session.findOne({ _id: req.params.id, userId: req.userId })
+      : null;
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    if (session.status === 'completed') {
+      return res.status(400).json({ error: 'The session is already completed' });
+    }
+
+    let payment = null;
+    if (req.body.payment) {
+      const fields = normalizePayment({ ...req.body.payment, type: 'payment', sessionId: session._id });
+      const validationError = validatePayment(fields);
+      if (validationError) {
+        return res.status(400).json({ error: validationError });
+      }
+
+      // Stamped with the currency it was taken in, so it reads the same if the setting changes
+      const user = await User.findById(req.userId).select('moneyFormat');
+      payment = new Payment({
+        userId: req.userId,
+        patientId: session.patientId,
+        ...fields,
+        currency: getUserCurrency(user)
+      });
+    }
+
+    applyStatusChange(session, 'completed', '');
+    session.amount = amount;
+    // Earlier payments against the session (e.g. an advance) still count
+    const payments = await Payment.find({ userId: req.userId, sessionId: session._id }).select('type amount');
+    session.amountPaid = getAmountPaid(payment ? [...payments, payment] : payments);
+
+    // Both are checked before either is written
+    await session.validate();
+    if (payment) await payment.validate();
+
+    if (payment) await payment.save();
+    await session.save();
+
+    res.json({
+      message: 'Session completed successfully',
+      session: transformSession(session)
+    });
+  } catch (error) {
+    console.error('Error completing session:', error);
+    res.status(500).json({ error: 'Failed to complete session' });
+  }
+});
+
+// Delete session, optionally together with the rest of its series
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    const scope = req.query.scope || 'single';
+
+    if (!SERIES_SCOPES.includes(scope)) {
+      return res.status(400).json({ error: 'Scope must be single, following or series' });
+    }
+
+    const session = await Session.findOne({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!session) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
 
-    res.json({ message: 'Session deleted successfully' });
+    const deletedIds = [session._id];
+    if (scope !== 'single' && session.seriesId) {
+      const seriesSessions = await Session.find(buildSeriesQuery(session, scope, req.userId)).select('_id');
+      deletedIds.push(...seriesSessions.map(item => item._id));
+      await Session.deleteMany({ _id: { $in: deletedIds } });
+    } else {
+      await Session.findByIdAndDelete(req.params.id);
+    }
+    const deletedCount = deletedIds.length;
+
+    // Outcome measures, attachments and payments from a deleted session stay with the patient
+    await OutcomeMeasure.updateMany(
+      { userId: req.userId, sessionId: { $in: deletedIds } },
+      { $set: { sessionId: null } }
+    );
+    await Attachment.updateMany(
+      { userId: req.userId, sessionId: { $in: deletedIds } },
+      { $set: { sessionId: null } }
+    );
+    await Payment.updateMany(
+      { userId: req.userId, sessionId: { $in: deletedIds } },
+      { $set: { sessionId: null } }
+    );
+
+    res.json({ message: 'Session deleted successfully', deletedCount, deletedIds: deletedIds.map(String) });
   } catch (error) {
     console.error('Error deleting session:', error);
     res.status(500).json({ error: 'Failed to delete session' });
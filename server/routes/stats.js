@@ -0,0 +1,156 @@
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const mongoose = require('mongoose');
+const Patient = require('../models/Patient');
+const Session = require('../models/Session');
+const PatientPackage = require('../models/PatientPackage');
+const { addDays } = require('../utils/recurrence');
+const {
+  TOP_SERVICES_LIMIT,
+  validateStatsQuery,
+  getPeriodExpression,
+  fillRevenuePeriods,
+  summarizeStatuses
+} = require('../utils/stats');
+const { roundMoney } = require('../utils/fields');
+const router = express.Router();
+
+// Middleware to verify JWT token
+const authenticateToken = async (req, res, next) => {
+  try {
+    const token = req.headers.authorization?.split(' ')[1];
+    if (!token) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    req.userId = decoded.userId;
+    next();
+  } catch (error) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+const SESSION_FEE = { $ifNull: ['$amount', 0] };
+
+// Completed sessions charged on their own. Sessions taken from a package keep the service's
+// fee but were paid for with the package, which is counted when it is sold (as in the ledger).
+const CHARGED_SESSION = { status: 'completed', packageId: null };
+
+// Practice analytics for a date range, grouped by day, week or month. Everything is worked
+// out by the database so the app doesn't have to download every session.
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const { startDate, endDate } = req.query;
+    const groupBy = req.query.groupBy || 'day';
+
+    const validationError = validateStatsQuery({ startDate, endDate, groupBy });
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    // Aggregation pipelines don't cast, so the user ID has to be an ObjectId
+    const userId = new mongoose.Types.ObjectId(req.userId);
+
+    const [[sessionStats], packageSales, [visitStats], [patientStats]] = await Promise.all([
+      Session.aggregate([
+        { $match: { userId, date: { $gte: startDate, $lte: endDate } } },
+        {
+          $facet: {
+            statuses: [
+              { $group: { _id: '$status', count: { $sum: 1 } } }
+            ],
+            revenue: [
+              { $match: CHARGED_SESSION },
+              {
+                $group: {
+                  _id: getPeriodExpression(groupBy),
+                  sessions: { $sum: 1 },
+                  revenue: { $sum: SESSION_FEE },
+                  collected: { $sum: { $ifNull: ['$amountPaid', 0] } }
+                }
+              }
+            ],
+            topServices: [
+              { $match: { ...CHARGED_SESSION, serviceName: { $nin: [null, ''] } } },
+              { $group: { _id: '$serviceName', sessions: { $sum: 1 }, revenue: { $sum: SESSION_FEE } } },
+              { $sort: { revenue: -1, sessions: -1 } },
+              { $limit: TOP_SERVICES_LIMIT }
+            ]
+          }
+        }
+      ]),
+      PatientPackage.aggregate([
+        { $match: { userId, purchaseDate: { $gte: startDate, $lte: endDate } } },
+        {
+          $group: {
+            _id: getPeriodExpression(groupBy, '$purchaseDate'),
+            sold: { $sum: 1 },
+            revenue: { $sum: '$price' }
+          }
+        }
+      ]),
+      // Patients seen in the range are new when their first completed session falls in it
+      Session.aggregate([
+        { $match: { userId, status: 'completed', date: { $lte: endDate } } },
+        { $group: { _id: '$patientId', firstVisit: { $min: '$date' }, lastVisit: { $max: '$date' } } },
+        { $match: { lastVisit: { $gte: startDate } } },
+        {
+          $group: {
+            _id: null,
+            seen: { $sum: 1 },
+            new: { $sum: { $cond: [{ $gte: ['$firstVisit', startDate] }, 1, 0] } }
+          }
+        }
+      ]),
+      Patient.aggregate([
+        {
+          $match: {
+            userId,
+            createdAt: { $gte: new Date(`${startDate}T00:00:00Z`), $lt: new Date(`${addDays(endDate, 1)}T00:00:00Z`) }
+          }
+        },
+        { $count: 'registered' }
+      ])
+    ]);
+
+    const revenue = fillRevenuePeriods(sessionStats.revenue, packageSales, startDate, endDate, groupBy);
+    const sumPeriods = (field) => roundMoney(revenue.reduce((total, period) => total + period[field], 0));
+    const totalRevenue = sumPeriods('revenue');
+    const seen = visitStats ? visitStats.seen : 0;
+    const newPatients = visitStats ? visitStats.new : 0;
+
+    res.json({
+      stats: {
+        startDate,
+        endDate,
+        groupBy,
+        revenue: {
+          total: totalRevenue,
+          sessionFees: sumPeriods('sessionFees'),
+          packageSales: sumPeriods('packageSales'),
+          collected: sumPeriods('collected'),
+          periods: revenue
+        },
+        sessions: summarizeStatuses(sessionStats.statuses),
+        patients: {
+          seen,
+          new: newPatients,
+          returning: seen - newPatients,
+          registered: patientStats ? patientStats.registered : 0,
+          averageRevenue: seen > 0 ? roundMoney(totalRevenue / seen) : 0
+        },
+        topServices: sessionStats.topServices.map(row => ({
+          serviceName: row._id,
+          sessions: row.sessions,
+          revenue: roundMoney(row.revenue)
+        }))
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching stats:', error);
+    res.status(500).json({ error: 'Failed to fetch stats' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,238 @@
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const TreatmentPlan = require('../models/TreatmentPlan');
+const Patient = require('../models/Patient');
+const Session = require('../models/Session');
+const { OPEN_STATUSES } = require('../utils/sessionStatus');
+const {
+  PLAN_STATUSES,
+  DISCHARGE_STATUSES,
+  normalizeTreatmentPlan,
+  validateTreatmentPlan,
+  numberPlanSessions
+} = require('../utils/treatmentPlans');
+const router = express.Router();
+
+// Helper function to transform MongoDB document to include id field and session counts
+const transformPlan = (plan, sessions = []) => {
+  const planObj = plan.toObject();
+  const planSessions = sessions.filter(session => session.treatmentPlanId.toString() === planObj._id.toString());
+  return {
+    ...planObj,
+    id: planObj._id.toString(),
+    _id: planObj._id,
+    completedSessions: planSessions.filter(session => session.status === 'completed').length,
+    scheduledSessions: planSessions.filter(session => OPEN_STATUSES.includes(session.status)).length
+  };
+};
+
+// Middleware to verify JWT token
+const authenticateToken = async (req, res, next) => {
+  try {
+    const token = req.headers.authorization?.split(' ')[1];
+    if (!token) {
+      return res.status(401).json({ error: 'No token provided' });
+    }
+
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    req.userId = decoded.userId;
+    next();
+  } catch (error) {
+    return res.status(401).json({ error: 'Invalid token' });
+  }
+};
+
+const findPlanSessions = (userId, plans) => {
+  return Session.find({
+    userId,
+    treatmentPlanId: { $in: plans.map(plan => plan._id) }
+  }).select('treatmentPlanId status date time');
+};
+
+// Get treatment plans, newest first, optionally for one patient or status
+router.get('/', authenticateToken, async (req, res) => {
+  try {
+    const { patientId, status } = req.query;
+
+    const query = { userId: req.userId };
+    if (patientId) query.patientId = patientId;
+    if (status !== undefined) {
+      if (!PLAN_STATUSES.includes(status)) {
+        return res.status(400).json({ error: 'Status must be active or discharged' });
+      }
+      query.status = status;
+    }
+
+    const plans = await TreatmentPlan.find(query).sort({ createdAt: -1 });
+    const sessions = await findPlanSessions(req.userId, plans);
+
+    res.json({ plans: plans.map(plan => transformPlan(plan, sessions)) });
+  } catch (error) {
+    console.error('Error fetching treatment plans:', error);
+    res.status(500).json({ error: 'Failed to fetch treatment plans' });
+  }
+});
+
+// "Session N of M" for every session linked to a plan, keyed by session ID
+router.get('/progress', authenticateToken, async (req, res) => {
+  try {
+    const plans = await TreatmentPlan.find({ userId: req.userId }).select('diagnosis plannedSessions');
+    const sessions = await findPlanSessions(req.userId, plans);
+
+    res.json({ progress: numberPlanSessions(plans, sessions) });
+  } catch (error) {
+    console.error('Error fetching treatment plan progress:', error);
+    res.status(500).json({ error: 'Failed to fetch treatment plan progress' });
+  }
+});
+
+// Create a treatment plan for a patient
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const { patientId } = req.body;
+
+    if (!patientId) {
+      return res.status(400).json({ error: 'Patient ID is required' });
+    }
+
+    const fields = normalizeTreatmentPlan(req.body);
+    const validationError = validateTreatmentPlan(fields);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    // Verify the patient belongs to the current user
+    const patient = await Patient.findOne({
+      _id: patientId,
+      userId: req.userId
+    });
+
+    if (!patient) {
+      return res.status(404).json({ error: 'Patient not found' });
+    }
+
+    const plan = new TreatmentPlan({
+      userId: req.userId,
+      patientId,
+      ...fields
+    });
+
+    await plan.save();
+
+    res.status(201).json({
+      message: 'Treatment plan created successfully',
+      plan: transformPlan(plan)
+    });
+  } catch (error) {
+    console.error('Error creating treatment plan:', error);
+    res.status(500).json({ error: 'Failed to create treatment plan' });
+  }
+});
+
+// Update the diagnosis, goals, planned sessions or frequency of a plan
+router.put('/:id', authenticateToken, async (req, res) => {
+  try {
+    const fields = normalizeTreatmentPlan(req.body);
+    const validationError = validateTreatmentPlan(fields);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const plan = await TreatmentPlan.findOne({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!plan) {
+      return res.status(404).json({ error: 'Treatment plan not found' });
+    }
+
+    // The goals and details at discharge are the record of how treatment ended
+    if (plan.status === 'discharged') {
+      return res.status(400).json({ error: 'A discharged treatment plan cannot be changed' });
+    }
+
+    plan.set(fields);
+    await plan.save();
+
+    const sessions = await findPlanSessions(req.userId, [plan]);
+
+    res.json({
+      message: 'Treatment plan updated successfully',
+      plan: transformPlan(plan, sessions)
+    });
+  } catch (error) {
+    console.error('Error updating treatment plan:', error);
+    res.status(500).json({ error: 'Failed to update treatment plan' });
+  }
+});
+
+// Close a plan with a discharge status. Goals still pending at discharge count as not met.
+router.post('/:id/discharge', authenticateToken, async (req, res) => {
+  try {
+    const { dischargeStatus, dischargeNotes } = req.body;
+
+    if (!DISCHARGE_STATUSES.includes(dischargeStatus)) {
+      return res.status(400).json({ error: 'Unknown discharge status' });
+    }
+
+    const plan = await TreatmentPlan.findOne({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!plan) {
+      return res.status(404).json({ error: 'Treatment plan not found' });
+    }
+
+    if (plan.status === 'discharged') {
+      return res.status(400).json({ error: 'This treatment plan is already closed' });
+    }
+
+    plan.goals.forEach(goal => {
+      if (goal.status === 'pending') goal.status = 'not-met';
+    });
+    plan.status = 'discharged';
+    plan.dischargeStatus = dischargeStatus;
+    plan.dischargeNotes = dischargeNotes || '';
+    plan.dischargedAt = new Date();
+
+    await plan.save();
+
+    const sessions = await findPlanSessions(req.userId, [plan]);
+
+    res.json({
+      message: 'Treatment plan closed successfully',
+      plan: transformPlan(plan, sessions)
+    });
+  } catch (error) {
+    console.error('Error discharging treatment plan:', error);
+    res.status(500).json({ error: 'Failed to close treatment plan' });
+  }
+});
+
+// Delete a treatment plan; its sessions are kept but no longer linked to a plan
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    const plan = await TreatmentPlan.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.userId
+    });
+
+    if (!plan) {
+      return res.status(404).json({ error: 'Treatment plan not found' });
+    }
+
+    await Session.updateMany(
+      { userId: req.userId, treatmentPlanId: plan._id },
+      { $set: { treatmentPlanId: null } }
+    );
+
+    res.json({ message: 'Treatment plan deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting treatment plan:', error);
+    res.status(500).json({ error: 'Failed to delete treatment plan' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,58 @@
+// One-off migration for the payments ledger. Before it, a completed session's amount was
+// what the patient paid; it is now the session's fee, so each such session gets a matching
+// cash payment to keep its balance settled.
+// Safe to run more than once: only sessions without any payments are touched.
+//
+// Usage: npm run migrate:payments
+
+const mongoose = require('mongoose');
+const connectDB = require('../config/database');
+const Session = require('../models/Session');
+const Payment = require('../models/Payment');
+const User = require('../models/User');
+const { getUserCurrency } = require('../utils/currency');
+
+const migratePayments = async () => {
+  await connectDB();
+
+  const sessions = await Session.find({ status: 'completed', amount: { $gt: 0 }, packageId: null });
+  const paidSessionIds = new Set(
+    (await Payment.distinct('sessionId', { sessionId: { $in: sessions.map(session => session._id) } }))
+      .map(id => id.toString())
+  );
+
+  const unpaid = sessions.filter(session => !paidSessionIds.has(session._id.toString()));
+
+  // Stamped with each user's currency, like payments recorded in the app
+  const users = await User.find({ _id: { $in: [...new Set(unpaid.map(session => session.userId.toString()))] } })
+    .select('moneyFormat');
+  const currencyByUser = new Map(users.map(user => [user._id.toString(), getUserCurrency(user)]));
+
+  if (unpaid.length > 0) {
+    await Payment.insertMany(unpaid.map(session => ({
+      userId: session.userId,
+      patientId: session.patientId,
+      sessionId: session._id,
+      type: 'payment',
+      amount: session.amount,
+      currency: currencyByUser.get(session.userId.toString()) || getUserCurrency(null),
+      method: 'cash',
+      date: session.date,
+      notes: 'Recorded before the payments ledger'
+    })));
+    await Promise.all(unpaid.map(session => Session.updateOne(
+      { _id: session._id },
+      { $set: { amountPaid: session.amount } }
+    )));
+  }
+
+  console.log(`Recorded payments for ${unpaid.length} sessions`);
+};
+
+migratePayments()
+  .then(() => mongoose.connection.close())
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Payments migration failed:', error);
+    process.exit(1);
+  });
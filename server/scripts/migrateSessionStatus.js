@@ -0,0 +1,54 @@
+// One-off migration from the old `completed` boolean to the session status lifecycle.
+// Safe to run more than once: only sessions that still have a `completed` field are touched.
+//
+// Usage: npm run migrate:session-status
+
+const mongoose = require('mongoose');
+const connectDB = require('../config/database');
+const Session = require('../models/Session');
+
+const migrateSessionStatus = async () => {
+  await connectDB();
+
+  // The `completed` path is no longer in the schema, so go through the raw collection
+  const collection = Session.collection;
+
+  const completedResult = await collection.updateMany(
+    { completed: true },
+    [
+      {
+        $set: {
+          status: 'completed',
+          statusReason: '',
+          statusChangedAt: { $ifNull: ['$updatedAt', '$$NOW'] }
+        }
+      },
+      { $unset: 'completed' }
+    ]
+  );
+
+  const pendingResult = await collection.updateMany(
+    { completed: { $exists: true } },
+    [
+      { $set: { status: 'scheduled', statusReason: '', statusChangedAt: null } },
+      { $unset: 'completed' }
+    ]
+  );
+
+  console.log(`Marked ${completedResult.modifiedCount} sessions as completed`);
+  console.log(`Marked ${pendingResult.modifiedCount} sessions as scheduled`);
+
+  // Drops the old indexes on `completed` and builds the ones defined on `status`
+  const droppedIndexes = await Session.syncIndexes();
+  if (droppedIndexes.length > 0) {
+    console.log(`Dropped indexes: ${droppedIndexes.join(', ')}`);
+  }
+};
+
+migrateSessionStatus()
+  .then(() => mongoose.connection.close())
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Session status migration failed:', error);
+    process.exit(1);
+  });
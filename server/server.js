@@ -10,14 +10,30 @@ connectDB();
 
 // Middleware
 app.use(cors());
-app.use(express.json({ limit: '50mb' }));
-app.use(express.urlencoded({ extended: true, limit: '50mb' }));
+// Exercise pictures are sent inline as data URIs, so that route takes larger bodies.
+// Attachment uploads are raw bodies with their own limit on the upload route.
+app.use('/api/exercises', express.json({ limit: '3mb' }));
+app.use(express.json({ limit: '1mb' }));
+app.use(express.urlencoded({ extended: true, limit: '1mb' }));
 
 // Routes
 app.use('/api/auth', require('./routes/auth'));
 app.use('/api/patients', require('./routes/patients'));
 app.use('/api/sessions', require('./routes/sessions'));
 app.use('/api/otp', require('./routes/otp'));
+app.use('/api/availability', require('./routes/availability'));
+app.use('/api/note-templates', require('./routes/noteTemplates'));
+app.use('/api/treatment-plans', require('./routes/treatmentPlans'));
+app.use('/api/exercises', require('./routes/exercises'));
+app.use('/api/outcome-measures', require('./routes/outcomeMeasures'));
+app.use('/api/consent-templates', require('./routes/consentTemplates'));
+app.use('/api/consents', require('./routes/consents'));
+app.use('/api/invoices', require('./routes/invoices'));
+app.use('/api/packages', require('./routes/sessionPackages'));
+app.use('/api/patient-packages', require('./routes/patientPackages'));
+app.use('/api/payments', require('./routes/payments'));
+app.use('/api/services', require('./routes/services'));
+app.use('/api/stats', require('./routes/stats'));
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
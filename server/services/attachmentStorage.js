@@ -0,0 +1,61 @@
+const fs = require('fs/promises');
+const path = require('path');
+
+// Where attachment files live. The backend is chosen with ATTACHMENT_STORAGE; any object
+// with save, read and remove methods taking a storage key can be registered as another
+// backend, e.g. for S3 in production.
+
+const createLocalDiskBackend = (rootDir) => {
+  // Keys are generated by the server, but never let one escape the storage directory
+  const resolveKey = (key) => {
+    const filePath = path.resolve(rootDir, key);
+    if (!filePath.startsWith(path.resolve(rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    save: async (key, buffer) => {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, buffer);
+    },
+    read: async (key) => fs.readFile(resolveKey(key)),
+    remove: async (key) => {
+      try {
+        await fs.unlink(resolveKey(key));
+      } catch (error) {
+        // Already gone is as good as removed
+        if (error.code !== 'ENOENT') throw error;
+      }
+    }
+  };
+};
+
+const backends = {
+  local: () => createLocalDiskBackend(process.env.ATTACHMENT_DIR || path.join(process.cwd(), 'uploads'))
+};
+
+const registerStorageBackend = (name, createBackend) => {
+  backends[name] = createBackend;
+};
+
+// Created on first use (singleton pattern)
+let storage = null;
+
+const getAttachmentStorage = () => {
+  if (!storage) {
+    const name = process.env.ATTACHMENT_STORAGE || 'local';
+    if (!backends[name]) {
+      throw new Error(`Unknown attachment storage backend: ${name}`);
+    }
+    storage = backends[name]();
+  }
+  return storage;
+};
+
+module.exports = {
+  getAttachmentStorage,
+  registerStorageBackend
+};
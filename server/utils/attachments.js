@@ -0,0 +1,54 @@
+// Limits and metadata for files attached to a patient or session. Files are uploaded as the
+// raw request body, so these limits apply instead of the JSON body limit.
+
+// Accepted content types and the extension each is stored under
+const ATTACHMENT_TYPES = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/heic': 'heic',
+  'image/webp': 'webp'
+};
+
+const ATTACHMENT_CATEGORIES = ['xray', 'mri', 'referral', 'posture-photo', 'report', 'other'];
+
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10 MB
+const MAX_FILE_NAME_LENGTH = 200;
+
+// Strips the charset or other parameters from a Content-Type header
+const getMimeType = (contentType) => (contentType || '').split(';')[0].trim().toLowerCase();
+
+// Normalizes the attachment details sent alongside an upload
+const normalizeAttachment = (query, contentType) => ({
+  fileName: String(query.fileName || '').trim().replace(/[/\\]/g, '_').slice(0, MAX_FILE_NAME_LENGTH),
+  category: query.category || 'other',
+  sessionId: query.sessionId || null,
+  mimeType: getMimeType(contentType)
+});
+
+// Returns an error message for an invalid upload, or null when it can be stored
+const validateAttachment = (fields, body) => {
+  if (!ATTACHMENT_TYPES[fields.mimeType]) {
+    return 'Only PDF, JPEG, PNG, HEIC and WebP files can be attached';
+  }
+  // express.raw leaves an empty object as the body when nothing was sent
+  if (!body || !body.length) {
+    return 'The uploaded file is empty';
+  }
+  if (!fields.fileName) {
+    return 'File name is required';
+  }
+  if (!ATTACHMENT_CATEGORIES.includes(fields.category)) {
+    return `Category must be one of: ${ATTACHMENT_CATEGORIES.join(', ')}`;
+  }
+  return null;
+};
+
+module.exports = {
+  ATTACHMENT_TYPES,
+  ATTACHMENT_CATEGORIES,
+  MAX_ATTACHMENT_SIZE,
+  getMimeType,
+  normalizeAttachment,
+  validateAttachment
+};
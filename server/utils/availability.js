@@ -0,0 +1,165 @@
+// Helpers for a practitioner's availability: weekly working hours, recurring breaks
+// and blocked periods (holidays, leave). A user without working hours configured is
+// treated as always available so existing accounts keep working unchanged.
+
+const { getWeekday } = require('./recurrence');
+const { TIME_PATTERN, DEFAULT_DAY_WINDOWS, timeToMinutes, minutesToTime, findFreeStartTimes } = require('./scheduling');
+const { DATE_PATTERN } = require('./fields');
+
+const BLOCKED_TYPES = ['holiday', 'leave', 'other'];
+const BLOCKED_TYPE_LABELS = { holiday: 'Holiday', leave: 'Leave', other: 'Blocked' };
+
+const hasWorkingHours = (availability) => {
+  return Boolean(availability && availability.workingHours && availability.workingHours.length > 0);
+};
+
+const getBlockedPeriod = (availability, date) => {
+  const periods = (availability && availability.blockedPeriods) || [];
+  return periods.find(period => period.startDate <= date && date <= period.endDate) || null;
+};
+
+const describeBlockedPeriod = (period) => {
+  const label = BLOCKED_TYPE_LABELS[period.type] || BLOCKED_TYPE_LABELS.other;
+  return period.reason ? `${label}: ${period.reason}` : label;
+};
+
+const getDayBreaks = (availability, date) => {
+  const weekday = getWeekday(date);
+  return ((availability && availability.breaks) || [])
+    .filter(breakPeriod => breakPeriod.day === null || breakPeriod.day === undefined || breakPeriod.day === weekday);
+};
+
+const getDayWorkingWindows = (availability, date) => {
+  if (!hasWorkingHours(availability)) {
+    return DEFAULT_DAY_WINDOWS;
+  }
+
+  const weekday = getWeekday(date);
+  return availability.workingHours
+    .filter(hours => hours.day === weekday)
+    .map(hours => ({ start: timeToMinutes(hours.start), end: timeToMinutes(hours.end) }));
+};
+
+// Bookable windows for a date: working hours with breaks cut out, empty on blocked days
+const getDayWindows = (availability, date) => {
+  if (getBlockedPeriod(availability, date)) {
+    return [];
+  }
+
+  const breaks = getDayBreaks(availability, date).map(breakPeriod => ({
+    start: timeToMinutes(breakPeriod.start),
+    end: timeToMinutes(breakPeriod.end)
+  }));
+
+  return getDayWorkingWindows(availability, date).flatMap(window => {
+    let pieces = [window];
+    breaks.forEach(breakWindow => {
+      pieces = pieces.flatMap(piece => {
+        if (breakWindow.end <= piece.start || breakWindow.start >= piece.end) {
+          return [piece];
+        }
+        return [
+          { start: piece.start, end: breakWindow.start },
+          { start: breakWindow.end, end: piece.end }
+        ].filter(part => part.end > part.start);
+      });
+    });
+    return pieces;
+  });
+};
+
+// Returns why a slot can't be booked (blocked day, break, outside hours), or null if it is available
+const getAvailabilityIssue = (availability, date, time, duration) => {
+  const blockedPeriod = getBlockedPeriod(availability, date);
+  if (blockedPeriod) {
+    return describeBlockedPeriod(blockedPeriod);
+  }
+
+  const start = timeToMinutes(time);
+  const end = start + duration;
+
+  const overlappingBreak = getDayBreaks(availability, date).find(breakPeriod =>
+    start < timeToMinutes(breakPeriod.end) && timeToMinutes(breakPeriod.start) < end
+  );
+  if (overlappingBreak) {
+    const label = overlappingBreak.label || 'Break';
+    return `${label} (${overlappingBreak.start} - ${overlappingBreak.end})`;
+  }
+
+  if (hasWorkingHours(availability)) {
+    const windows = getDayWorkingWindows(availability, date);
+    if (windows.length === 0) {
+      return 'Clinic is closed on this day';
+    }
+    if (!windows.some(window => window.start <= start && end <= window.end)) {
+      const hours = windows.map(window => `${minutesToTime(window.start)} - ${minutesToTime(window.end)}`).join(', ');
+      return `Outside working hours (${hours})`;
+    }
+  }
+
+  return null;
+};
+
+// Free start times per day in a date range, taking availability and existing sessions into account
+const listFreeSlots = (availability, sessionsByDate, dates, duration) => {
+  return dates.map(date => {
+    const blockedPeriod = getBlockedPeriod(availability, date);
+    const startTimes = blockedPeriod
+      ? []
+      : findFreeStartTimes(sessionsByDate[date] || [], getDayWindows(availability, date), duration);
+
+    return {
+      date,
+      blocked: blockedPeriod ? describeBlockedPeriod(blockedPeriod) : null,
+      slots: startTimes.map(minutesToTime)
+    };
+  });
+};
+
+// Returns an error message for invalid availability settings, or null when they can be saved
+const validateAvailability = (availability) => {
+  if (!availability || typeof availability !== 'object') {
+    return 'Availability settings are required';
+  }
+
+  const { workingHours = [], breaks = [], blockedPeriods = [] } = availability;
+  if (![workingHours, breaks, blockedPeriods].every(Array.isArray)) {
+    return 'Working hours, breaks and blocked periods must be lists';
+  }
+
+  const isValidRange = (item) => TIME_PATTERN.test(item.start) && TIME_PATTERN.test(item.end) && item.start < item.end;
+  const isValidDay = (day) => Number.isInteger(day) && day >= 0 && day <= 6;
+
+  for (const hours of workingHours) {
+    if (!hours || !isValidDay(hours.day) || !isValidRange(hours)) {
+      return 'Working hours need a weekday and a start time before the end time (HH:MM)';
+    }
+  }
+
+  for (const breakPeriod of breaks) {
+    const hasValidDay = breakPeriod && (breakPeriod.day === null || breakPeriod.day === undefined || isValidDay(breakPeriod.day));
+    if (!hasValidDay || !isValidRange(breakPeriod)) {
+      return 'Breaks need a start time before the end time (HH:MM)';
+    }
+  }
+
+  for (const period of blockedPeriods) {
+    if (!period || !DATE_PATTERN.test(period.startDate) || !DATE_PATTERN.test(period.endDate) || period.endDate < period.startDate) {
+      return 'Blocked periods need a start date on or before the end date';
+    }
+    if (period.type && !BLOCKED_TYPES.includes(period.type)) {
+      return 'Blocked period type must be holiday, leave or other';
+    }
+  }
+
+  return null;
+};
+
+module.exports = {
+  BLOCKED_TYPES,
+  getBlockedPeriod,
+  getDayWindows,
+  getAvailabilityIssue,
+  listFreeSlots,
+  validateAvailability
+};
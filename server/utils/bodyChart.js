@@ -0,0 +1,45 @@
+// Pain locations marked on the front/back body chart of a session. Positions are stored
+// as fractions of the chart's width and height so they don't depend on screen size.
+
+const BODY_CHART_VIEWS = ['front', 'back'];
+const PAIN_TYPES = ['sharp', 'dull', 'radiating', 'numbness'];
+
+const MIN_INTENSITY = 1;
+const MAX_INTENSITY = 10;
+
+// Normalizes the body chart marks from a request body
+const normalizeBodyChart = (list) => (Array.isArray(list) ? list : []).map(item => ({
+  view: item?.view || 'front',
+  x: Number(item?.x),
+  y: Number(item?.y),
+  type: item?.type || '',
+  intensity: Number(item?.intensity)
+}));
+
+const isFraction = (value) => Number.isFinite(value) && value >= 0 && value <= 1;
+
+// Returns an error message for invalid marks, or null when they can be saved
+const validateBodyChart = (list) => {
+  for (const item of list) {
+    if (!BODY_CHART_VIEWS.includes(item.view)) {
+      return 'Body chart marks must be on the front or back view';
+    }
+    if (!isFraction(item.x) || !isFraction(item.y)) {
+      return 'Body chart mark position is outside the chart';
+    }
+    if (!PAIN_TYPES.includes(item.type)) {
+      return `Pain type must be one of: ${PAIN_TYPES.join(', ')}`;
+    }
+    if (!Number.isInteger(item.intensity) || item.intensity < MIN_INTENSITY || item.intensity > MAX_INTENSITY) {
+      return `Intensity must be a whole number from ${MIN_INTENSITY} to ${MAX_INTENSITY}`;
+    }
+  }
+  return null;
+};
+
+module.exports = {
+  BODY_CHART_VIEWS,
+  PAIN_TYPES,
+  normalizeBodyChart,
+  validateBodyChart
+};
@@ -0,0 +1,17 @@
+// Clinic letterhead details kept on the user profile and printed on letters
+
+const CLINIC_FIELDS = ['name', 'practitionerName', 'qualifications', 'address', 'phone', 'email'];
+
+// Normalizes clinic details from a request body; unknown fields are dropped
+const normalizeClinicDetails = (clinic) => {
+  const source = clinic && typeof clinic === 'object' ? clinic : {};
+  return CLINIC_FIELDS.reduce((details, field) => {
+    details[field] = typeof source[field] === 'string' ? source[field].trim() : '';
+    return details;
+  }, {});
+};
+
+module.exports = {
+  CLINIC_FIELDS,
+  normalizeClinicDetails
+};
@@ -0,0 +1,69 @@
+// Structured SOAP notes recorded for a session, alongside the legacy free-text notes.
+
+const { cleanText } = require('./fields');
+
+const BODY_REGIONS = [
+  'head',
+  'neck',
+  'upper-back',
+  'lower-back',
+  'chest',
+  'shoulder',
+  'elbow',
+  'wrist-hand',
+  'hip',
+  'pelvis',
+  'thigh',
+  'knee',
+  'lower-leg',
+  'ankle-foot'
+];
+
+const MODALITIES = [
+  'manual-therapy',
+  'exercise-therapy',
+  'massage',
+  'dry-needling',
+  'taping',
+  'ultrasound',
+  'tens',
+  'ift',
+  'shockwave',
+  'laser',
+  'heat',
+  'cryotherapy',
+  'traction',
+  'education'
+];
+
+// Unique, known values only
+const cleanOptions = (value, options) => (
+  Array.isArray(value) ? [...new Set(value)].filter(item => options.includes(item)) : []
+);
+
+// Normalizes clinical notes from a request body; unknown regions and modalities are dropped
+const normalizeClinicalNotes = (body = {}) => ({
+  subjective: cleanText(body.subjective),
+  objective: cleanText(body.objective),
+  assessment: cleanText(body.assessment),
+  plan: cleanText(body.plan),
+  painScore: body.painScore === '' || body.painScore === undefined ? null : body.painScore,
+  bodyRegions: cleanOptions(body.bodyRegions, BODY_REGIONS),
+  modalities: cleanOptions(body.modalities, MODALITIES)
+});
+
+// Returns an error message for invalid clinical notes, or null when they can be saved
+const validateClinicalNotes = (notes) => {
+  if (notes.painScore !== null && (!Number.isInteger(notes.painScore) || notes.painScore < 0 || notes.painScore > 10)) {
+    return 'Pain score must be a whole number from 0 to 10';
+  }
+
+  return null;
+};
+
+module.exports = {
+  BODY_REGIONS,
+  MODALITIES,
+  normalizeClinicalNotes,
+  validateClinicalNotes
+};
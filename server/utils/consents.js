@@ -0,0 +1,72 @@
+// Consent form templates and the signed consents recorded from them
+
+// A signature is stored as SVG markup; this is generous for a drawn signature
+const MAX_SIGNATURE_LENGTH = 200000;
+const MAX_VALID_FOR_MONTHS = 120;
+
+// Normalizes a consent template from a request body
+const normalizeConsentTemplate = (body) => ({
+  title: typeof body.title === 'string' ? body.title.trim() : '',
+  body: typeof body.body === 'string' ? body.body.trim() : '',
+  validForMonths: body.validForMonths === null || body.validForMonths === undefined || body.validForMonths === ''
+    ? null
+    : Number(body.validForMonths)
+});
+
+// Returns an error message for an invalid template, or null when it can be saved
+const validateConsentTemplate = (fields) => {
+  if (!fields.title) {
+    return 'Consent form title is required';
+  }
+  if (!fields.body) {
+    return 'Consent form text is required';
+  }
+  if (fields.validForMonths !== null
+    && (!Number.isInteger(fields.validForMonths) || fields.validForMonths < 1 || fields.validForMonths > MAX_VALID_FOR_MONTHS)) {
+    return `Validity must be a whole number of months from 1 to ${MAX_VALID_FOR_MONTHS}, or left empty for no expiry`;
+  }
+  return null;
+};
+
+// Normalizes a signed consent from a request body. The text is the template as the
+// patient read it, with placeholders already filled in.
+const normalizeConsent = (body) => ({
+  templateId: body.templateId || null,
+  title: typeof body.title === 'string' ? body.title.trim() : '',
+  text: typeof body.text === 'string' ? body.text.trim() : '',
+  signature: typeof body.signature === 'string' ? body.signature.trim() : '',
+  signerName: typeof body.signerName === 'string' ? body.signerName.trim() : ''
+});
+
+// Returns an error message for an invalid consent, or null when it can be saved
+const validateConsent = (fields) => {
+  if (!fields.title || !fields.text) {
+    return 'Consent title and text are required';
+  }
+  if (!fields.signerName) {
+    return 'Signer name is required';
+  }
+  if (!fields.signature.startsWith('<svg') || !fields.signature.includes('<path')) {
+    return 'A drawn signature is required';
+  }
+  if (fields.signature.length > MAX_SIGNATURE_LENGTH) {
+    return 'Signature is too large';
+  }
+  return null;
+};
+
+// When a consent signed now stops being valid, or null if it never expires
+const getConsentExpiry = (signedAt, validForMonths) => {
+  if (!validForMonths) return null;
+  const expiresAt = new Date(signedAt);
+  expiresAt.setMonth(expiresAt.getMonth() + validForMonths);
+  return expiresAt;
+};
+
+module.exports = {
+  normalizeConsentTemplate,
+  validateConsentTemplate,
+  normalizeConsent,
+  validateConsent,
+  getConsentExpiry
+};
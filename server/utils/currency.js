@@ -0,0 +1,43 @@
+// Currency and number format kept on the user profile. The currency is also stamped on
+// each payment and invoice, so old records keep theirs if the setting changes.
+
+const CURRENCY_CODES = ['INR', 'USD', 'EUR', 'GBP', 'AUD', 'CAD', 'AED', 'SGD'];
+
+// Locales whose digit grouping and decimal separator the user can pick, e.g. 1,00,000.00 for en-IN
+const NUMBER_FORMATS = ['en-IN', 'en-US', 'de-DE', 'fr-FR'];
+
+const DEFAULT_CURRENCY = 'INR';
+const DEFAULT_NUMBER_FORMAT = 'en-IN';
+
+// Normalizes the money format from a request body
+const normalizeMoneyFormat = (moneyFormat) => {
+  const source = moneyFormat && typeof moneyFormat === 'object' ? moneyFormat : {};
+  return {
+    currency: typeof source.currency === 'string' ? source.currency.trim().toUpperCase() : DEFAULT_CURRENCY,
+    numberFormat: typeof source.numberFormat === 'string' ? source.numberFormat.trim() : DEFAULT_NUMBER_FORMAT
+  };
+};
+
+// Returns an error message for an unsupported money format, or null when it can be saved
+const validateMoneyFormat = (fields) => {
+  if (!CURRENCY_CODES.includes(fields.currency)) {
+    return `Currency must be one of ${CURRENCY_CODES.join(', ')}`;
+  }
+  if (!NUMBER_FORMATS.includes(fields.numberFormat)) {
+    return `Number format must be one of ${NUMBER_FORMATS.join(', ')}`;
+  }
+  return null;
+};
+
+// The user's currency, for stamping on new payments and invoices
+const getUserCurrency = (user) => user?.moneyFormat?.currency || DEFAULT_CURRENCY;
+
+module.exports = {
+  CURRENCY_CODES,
+  NUMBER_FORMATS,
+  DEFAULT_CURRENCY,
+  DEFAULT_NUMBER_FORMAT,
+  normalizeMoneyFormat,
+  validateMoneyFormat,
+  getUserCurrency
+};
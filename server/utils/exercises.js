@@ -0,0 +1,82 @@
+// Exercise library entries and the home exercise programs prescribed from them.
+
+const mongoose = require('mongoose');
+const { cleanText, toNumber } = require('./fields');
+
+// Images are stored inline as data URIs so handouts can embed them
+const MAX_IMAGE_LENGTH = 2 * 1024 * 1024;
+
+const normalizeDosage = (body = {}) => ({
+  sets: toNumber(body.sets),
+  reps: toNumber(body.reps),
+  holdSeconds: toNumber(body.holdSeconds),
+  frequency: cleanText(body.frequency)
+});
+
+// Normalizes a library exercise request body
+const normalizeExercise = (body = {}) => ({
+  name: cleanText(body.name),
+  description: cleanText(body.description),
+  ...normalizeDosage(body),
+  image: typeof body.image === 'string' ? body.image : ''
+});
+
+// Normalizes the exercises prescribed to a patient or in a session. The dosage is copied from
+// the library so later library edits don't change what the patient was given.
+const normalizePrescription = (list) => (Array.isArray(list) ? list : []).map(item => ({
+  exerciseId: mongoose.Types.ObjectId.isValid(item?.exerciseId) ? item.exerciseId : null,
+  name: cleanText(item?.name),
+  description: cleanText(item?.description),
+  ...normalizeDosage(item),
+  notes: cleanText(item?.notes)
+}));
+
+const isWholeNumberBetween = (value, min, max) => Number.isInteger(value) && value >= min && value <= max;
+
+// Returns an error message for an invalid dosage, or null
+const validateDosage = (dosage, name) => {
+  if (dosage.sets !== null && !isWholeNumberBetween(dosage.sets, 1, 20)) {
+    return `Sets for ${name} must be between 1 and 20`;
+  }
+  if (dosage.reps !== null && !isWholeNumberBetween(dosage.reps, 1, 100)) {
+    return `Reps for ${name} must be between 1 and 100`;
+  }
+  if (dosage.holdSeconds !== null && !isWholeNumberBetween(dosage.holdSeconds, 1, 600)) {
+    return `Hold for ${name} must be between 1 and 600 seconds`;
+  }
+  return null;
+};
+
+// Returns an error message for an invalid library exercise, or null when it can be saved
+const validateExercise = (exercise) => {
+  if (!exercise.name) {
+    return 'Exercise name is required';
+  }
+
+  if (exercise.image && (!exercise.image.startsWith('data:image/') || exercise.image.length > MAX_IMAGE_LENGTH)) {
+    return 'The exercise image must be a picture under 1.5 MB';
+  }
+
+  return validateDosage(exercise, exercise.name);
+};
+
+// Returns an error message for an invalid prescription, or null when it can be saved
+const validatePrescription = (list) => {
+  for (const item of list) {
+    if (!item.name) {
+      return 'Each prescribed exercise needs a name';
+    }
+    const dosageError = validateDosage(item, item.name);
+    if (dosageError) {
+      return dosageError;
+    }
+  }
+  return null;
+};
+
+module.exports = {
+  normalizeExercise,
+  normalizePrescription,
+  validateExercise,
+  validatePrescription
+};
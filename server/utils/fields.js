@@ -0,0 +1,19 @@
+// Small helpers shared by the request normalizers and validators in this folder
+
+// Dates are stored as 'YYYY-MM-DD' strings
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const cleanText = (value) => (typeof value === 'string' ? value.trim() : '');
+
+// A number from a request body; empty values become the fallback
+const toNumber = (value, fallback = null) => (value === null || value === undefined || value === '' ? fallback : Number(value));
+
+// Money is kept to two decimal places
+const roundMoney = (value) => Math.round(value * 100) / 100;
+
+module.exports = {
+  DATE_PATTERN,
+  cleanText,
+  toNumber,
+  roundMoney
+};
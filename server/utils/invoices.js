@@ -0,0 +1,102 @@
+// Invoices: numbering, line items, discount and tax totals
+
+const { DATE_PATTERN, cleanText, toNumber, roundMoney } = require('./fields');
+
+const INVOICE_STATUSES = ['issued', 'paid', 'void'];
+// What a line bills for; session lines can point at the session they bill
+const INVOICE_ITEM_TYPES = ['session', 'consumable', 'package', 'other'];
+
+const MAX_TAX_RATE = 100;
+
+// e.g. "INV-00042"
+const formatInvoiceNumber = (sequence) => `INV-${String(sequence).padStart(5, '0')}`;
+
+// Normalizes an invoice request body into the fields that can be edited
+const normalizeInvoice = (body = {}) => ({
+  issueDate: cleanText(body.issueDate),
+  dueDate: cleanText(body.dueDate) || null,
+  items: (Array.isArray(body.items) ? body.items : []).map(item => ({
+    type: item?.type || 'other',
+    description: cleanText(item?.description),
+    quantity: toNumber(item?.quantity, 1),
+    unitPrice: toNumber(item?.unitPrice, 0),
+    taxRate: toNumber(item?.taxRate, 0),
+    sessionId: item?.type === 'session' && item?.sessionId ? String(item.sessionId) : null
+  })),
+  discountPercent: toNumber(body.discountPercent, 0),
+  notes: cleanText(body.notes)
+});
+
+// Returns an error message for an invalid invoice, or null when it can be saved
+const validateInvoice = (invoice) => {
+  if (!DATE_PATTERN.test(invoice.issueDate)) {
+    return 'Issue date must be in YYYY-MM-DD format';
+  }
+  if (invoice.dueDate && (!DATE_PATTERN.test(invoice.dueDate) || invoice.dueDate < invoice.issueDate)) {
+    return 'Due date must be in YYYY-MM-DD format and not before the issue date';
+  }
+  if (invoice.items.length === 0) {
+    return 'An invoice needs at least one line item';
+  }
+
+  for (const item of invoice.items) {
+    if (!INVOICE_ITEM_TYPES.includes(item.type)) {
+      return `Item type must be one of: ${INVOICE_ITEM_TYPES.join(', ')}`;
+    }
+    if (!item.description) {
+      return 'Each line item needs a description';
+    }
+    if (!Number.isFinite(item.quantity) || item.quantity <= 0) {
+      return 'Quantities must be greater than zero';
+    }
+    if (!Number.isFinite(item.unitPrice) || item.unitPrice < 0) {
+      return 'Prices cannot be negative';
+    }
+    if (!Number.isFinite(item.taxRate) || item.taxRate < 0 || item.taxRate > MAX_TAX_RATE) {
+      return `Tax rates must be between 0 and ${MAX_TAX_RATE}%`;
+    }
+  }
+
+  const sessionIds = invoice.items.filter(item => item.sessionId).map(item => item.sessionId);
+  if (new Set(sessionIds).size !== sessionIds.length) {
+    return 'A session can only be billed once on an invoice';
+  }
+
+  if (!Number.isFinite(invoice.discountPercent) || invoice.discountPercent < 0 || invoice.discountPercent > 100) {
+    return 'Discount must be between 0 and 100%';
+  }
+
+  return null;
+};
+
+// The discount comes off every line before tax, so each line is taxed on what is actually charged
+const calculateInvoiceTotals = (items, discountPercent) => {
+  const totals = items.reduce((sums, item) => {
+    const lineAmount = item.quantity * item.unitPrice;
+    const discount = lineAmount * (discountPercent / 100);
+    return {
+      subtotal: sums.subtotal + lineAmount,
+      discountTotal: sums.discountTotal + discount,
+      taxTotal: sums.taxTotal + (lineAmount - discount) * (item.taxRate / 100)
+    };
+  }, { subtotal: 0, discountTotal: 0, taxTotal: 0 });
+
+  const subtotal = roundMoney(totals.subtotal);
+  const discountTotal = roundMoney(totals.discountTotal);
+  const taxTotal = roundMoney(totals.taxTotal);
+  return {
+    subtotal,
+    discountTotal,
+    taxTotal,
+    total: roundMoney(subtotal - discountTotal + taxTotal)
+  };
+};
+
+module.exports = {
+  INVOICE_STATUSES,
+  INVOICE_ITEM_TYPES,
+  formatInvoiceNumber,
+  normalizeInvoice,
+  validateInvoice,
+  calculateInvoiceTotals
+};
@@ -0,0 +1,71 @@
+// Objective measurements recorded at a session: range of motion in degrees and manual
+// muscle testing (MMT) strength grades.
+
+const { toNumber } = require('./fields');
+
+// Movements that can be measured at each joint
+const JOINT_MOVEMENTS = {
+  'cervical-spine': ['flexion', 'extension', 'lateral-flexion', 'rotation'],
+  'lumbar-spine': ['flexion', 'extension', 'lateral-flexion', 'rotation'],
+  shoulder: ['flexion', 'extension', 'abduction', 'adduction', 'internal-rotation', 'external-rotation'],
+  elbow: ['flexion', 'extension'],
+  forearm: ['pronation', 'supination'],
+  wrist: ['flexion', 'extension', 'radial-deviation', 'ulnar-deviation'],
+  hip: ['flexion', 'extension', 'abduction', 'adduction', 'internal-rotation', 'external-rotation'],
+  knee: ['flexion', 'extension'],
+  ankle: ['dorsiflexion', 'plantarflexion', 'inversion', 'eversion']
+};
+
+const JOINTS = Object.keys(JOINT_MOVEMENTS);
+const MOVEMENTS = [...new Set(Object.values(JOINT_MOVEMENTS).flat())];
+// Spinal flexion and extension have no side
+const MEASUREMENT_SIDES = ['left', 'right', 'none'];
+
+// Negative values record hyperextension or a lack of full extension
+const MIN_ROM = -30;
+const MAX_ROM = 200;
+
+// Normalizes the measurements list from a request body
+const normalizeMeasurements = (list) => (Array.isArray(list) ? list : []).map(item => ({
+  joint: item?.joint || '',
+  movement: item?.movement || '',
+  side: item?.side || 'none',
+  activeRom: toNumber(item?.activeRom),
+  passiveRom: toNumber(item?.passiveRom),
+  strength: toNumber(item?.strength)
+}));
+
+const isRom = (value) => value === null || (Number.isFinite(value) && value >= MIN_ROM && value <= MAX_ROM);
+
+// Returns an error message for invalid measurements, or null when they can be saved
+const validateMeasurements = (list) => {
+  for (const item of list) {
+    if (!JOINT_MOVEMENTS[item.joint]) {
+      return 'Each measurement needs a known joint';
+    }
+    if (!JOINT_MOVEMENTS[item.joint].includes(item.movement)) {
+      return `Movement "${item.movement}" is not measured at the ${item.joint}`;
+    }
+    if (!MEASUREMENT_SIDES.includes(item.side)) {
+      return 'Side must be left, right or none';
+    }
+    if (!isRom(item.activeRom) || !isRom(item.passiveRom)) {
+      return `Range of motion must be between ${MIN_ROM} and ${MAX_ROM} degrees`;
+    }
+    if (item.strength !== null && (!Number.isInteger(item.strength) || item.strength < 0 || item.strength > 5)) {
+      return 'Strength must be an MMT grade from 0 to 5';
+    }
+    if (item.activeRom === null && item.passiveRom === null && item.strength === null) {
+      return 'Each measurement needs a range of motion or a strength grade';
+    }
+  }
+  return null;
+};
+
+module.exports = {
+  JOINTS,
+  MOVEMENTS,
+  MEASUREMENT_SIDES,
+  normalizeMeasurements,
+  validateMeasurements
+};
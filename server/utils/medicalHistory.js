@@ -0,0 +1,77 @@
+// Medical history of a patient: chief complaint, diagnoses, history, medications,
+// allergies, red flags and contraindications.
+
+const { cleanText } = require('./fields');
+
+const ALLERGY_SEVERITIES = ['mild', 'moderate', 'severe'];
+
+// Letter, two digits, then an optional dotted extension, e.g. M54 or M54.5 or S83.511A
+const ICD10_PATTERN = /^[A-Z][0-9][0-9A-Z](\.[0-9A-Z]{1,4})?$/;
+
+const MAX_TEXT_LENGTH = 2000;
+
+const cleanList = (value) => (Array.isArray(value) ? value : []);
+
+// Normalizes a medical history request body into the shape stored on the patient
+const normalizeMedicalHistory = (body = {}) => ({
+  chiefComplaint: cleanText(body.chiefComplaint),
+  diagnoses: cleanList(body.diagnoses).map(diagnosis => ({
+    code: cleanText(diagnosis?.code).toUpperCase(),
+    description: cleanText(diagnosis?.description),
+    notes: cleanText(diagnosis?.notes)
+  })),
+  pastMedicalHistory: cleanText(body.pastMedicalHistory),
+  pastSurgicalHistory: cleanText(body.pastSurgicalHistory),
+  medications: cleanList(body.medications).map(medication => ({
+    name: cleanText(medication?.name),
+    dosage: cleanText(medication?.dosage),
+    frequency: cleanText(medication?.frequency)
+  })),
+  allergies: cleanList(body.allergies).map(allergy => ({
+    substance: cleanText(allergy?.substance),
+    reaction: cleanText(allergy?.reaction),
+    severity: allergy?.severity || null
+  })),
+  redFlags: cleanList(body.redFlags).map(cleanText).filter(Boolean),
+  contraindications: cleanList(body.contraindications).map(cleanText).filter(Boolean)
+});
+
+// Returns an error message for an invalid medical history, or null when it can be saved
+const validateMedicalHistory = (history) => {
+  const textFields = ['chiefComplaint', 'pastMedicalHistory', 'pastSurgicalHistory'];
+  for (const field of textFields) {
+    if (history[field].length > MAX_TEXT_LENGTH) {
+      return `${field} must be at most ${MAX_TEXT_LENGTH} characters`;
+    }
+  }
+
+  for (const diagnosis of history.diagnoses) {
+    if (!diagnosis.description) {
+      return 'Each diagnosis needs a description';
+    }
+    if (diagnosis.code && !ICD10_PATTERN.test(diagnosis.code)) {
+      return `"${diagnosis.code}" is not a valid ICD-10 code`;
+    }
+  }
+
+  if (history.medications.some(medication => !medication.name)) {
+    return 'Each medication needs a name';
+  }
+
+  for (const allergy of history.allergies) {
+    if (!allergy.substance) {
+      return 'Each allergy needs a substance';
+    }
+    if (allergy.severity && !ALLERGY_SEVERITIES.includes(allergy.severity)) {
+      return 'Allergy severity must be mild, moderate or severe';
+    }
+  }
+
+  return null;
+};
+
+module.exports = {
+  ALLERGY_SEVERITIES,
+  normalizeMedicalHistory,
+  validateMedicalHistory
+};
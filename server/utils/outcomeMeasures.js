@@ -0,0 +1,146 @@
+// Standard outcome measure questionnaires: response ranges, scoring and interpretation bands.
+// Question wording lives in the app (utils/outcomeMeasures.ts); only scoring happens here.
+
+const { DATE_PATTERN, cleanText } = require('./fields');
+
+const roundScore = (value) => Math.round(value * 10) / 10;
+
+const sum = (values) => values.reduce((total, value) => total + value, 0);
+
+// Each measure lists its item count, the range of each response, how many items may be
+// skipped, how answered items become a score and the bands used to interpret it
+const MEASURES = {
+  // Oswestry Disability Index: 10 sections scored 0-5, reported as a percentage
+  odi: {
+    items: 10,
+    min: 0,
+    max: 5,
+    maxMissing: 1,
+    score: (answers) => roundScore(sum(answers) / (answers.length * 5) * 100),
+    bands: [
+      { max: 20, label: 'Minimal disability' },
+      { max: 40, label: 'Moderate disability' },
+      { max: 60, label: 'Severe disability' },
+      { max: 80, label: 'Crippling back pain' },
+      { max: 100, label: 'Bed-bound or exaggerating' }
+    ]
+  },
+  // Neck Disability Index: 10 sections scored 0-5, out of 50; a skipped section is pro-rated
+  ndi: {
+    items: 10,
+    min: 0,
+    max: 5,
+    maxMissing: 1,
+    score: (answers) => roundScore(sum(answers) / answers.length * 10),
+    bands: [
+      { max: 4, label: 'No disability' },
+      { max: 14, label: 'Mild disability' },
+      { max: 24, label: 'Moderate disability' },
+      { max: 34, label: 'Severe disability' },
+      { max: 50, label: 'Complete disability' }
+    ]
+  },
+  // Lower Extremity Functional Scale: 20 activities scored 0-4, out of 80; higher is better
+  lefs: {
+    items: 20,
+    min: 0,
+    max: 4,
+    maxMissing: 0,
+    score: (answers) => sum(answers),
+    bands: [
+      { max: 20, label: 'Severe limitation' },
+      { max: 40, label: 'Moderate limitation' },
+      { max: 60, label: 'Mild limitation' },
+      { max: 80, label: 'Minimal limitation' }
+    ]
+  },
+  // Disabilities of the Arm, Shoulder and Hand: 30 items scored 1-5, converted to 0-100
+  dash: {
+    items: 30,
+    min: 1,
+    max: 5,
+    maxMissing: 3,
+    score: (answers) => roundScore((sum(answers) / answers.length - 1) * 25),
+    bands: [
+      { max: 20, label: 'No or minimal disability' },
+      { max: 40, label: 'Mild disability' },
+      { max: 60, label: 'Moderate disability' },
+      { max: 80, label: 'Severe disability' },
+      { max: 100, label: 'Extreme disability' }
+    ]
+  },
+  // Numeric Pain Rating Scale: a single 0-10 rating
+  nprs: {
+    items: 1,
+    min: 0,
+    max: 10,
+    maxMissing: 0,
+    score: (answers) => answers[0],
+    bands: [
+      { max: 0, label: 'No pain' },
+      { max: 3, label: 'Mild pain' },
+      { max: 6, label: 'Moderate pain' },
+      { max: 10, label: 'Severe pain' }
+    ]
+  }
+};
+
+const MEASURE_TYPES = Object.keys(MEASURES);
+
+// Normalizes an outcome measure request body. Unanswered items are stored as null.
+const normalizeOutcomeMeasure = (body = {}) => ({
+  measure: cleanText(body.measure),
+  date: cleanText(body.date),
+  responses: (Array.isArray(body.responses) ? body.responses : []).map(value => (
+    value === null || value === undefined || value === '' ? null : Number(value)
+  )),
+  sessionId: body.sessionId || null,
+  notes: cleanText(body.notes)
+});
+
+// Returns an error message for an invalid outcome measure, or null when it can be scored
+const validateOutcomeMeasure = (result) => {
+  const definition = MEASURES[result.measure];
+  if (!definition) {
+    return `Measure must be one of ${MEASURE_TYPES.join(', ')}`;
+  }
+
+  if (!DATE_PATTERN.test(result.date)) {
+    return 'Date must be in YYYY-MM-DD format';
+  }
+
+  if (result.responses.length !== definition.items) {
+    return `This questionnaire has ${definition.items} ${definition.items === 1 ? 'item' : 'items'}`;
+  }
+
+  const outOfRange = result.responses.some(value => (
+    value !== null && (!Number.isInteger(value) || value < definition.min || value > definition.max)
+  ));
+  if (outOfRange) {
+    return `Responses must be whole numbers between ${definition.min} and ${definition.max}`;
+  }
+
+  const missing = result.responses.filter(value => value === null).length;
+  if (missing > definition.maxMissing) {
+    return definition.maxMissing === 0
+      ? 'Every item must be answered'
+      : `No more than ${definition.maxMissing} ${definition.maxMissing === 1 ? 'item' : 'items'} can be skipped`;
+  }
+
+  return null;
+};
+
+// Scores validated responses and finds the interpretation band
+const scoreOutcomeMeasure = (measure, responses) => {
+  const definition = MEASURES[measure];
+  const score = definition.score(responses.filter(value => value !== null));
+  const band = definition.bands.find(item => score <= item.max) || definition.bands[definition.bands.length - 1];
+  return { score, band: band.label };
+};
+
+module.exports = {
+  MEASURE_TYPES,
+  normalizeOutcomeMeasure,
+  validateOutcomeMeasure,
+  scoreOutcomeMeasure
+};
@@ -0,0 +1,59 @@
+// Prepaid session packages: the packages on offer and the ones sold to patients
+
+const { DATE_PATTERN, toNumber } = require('./fields');
+
+const MAX_PACKAGE_SESSIONS = 100;
+const MAX_VALID_FOR_MONTHS = 36;
+
+// Normalizes a package on offer from a request body
+const normalizeSessionPackage = (body = {}) => ({
+  name: typeof body.name === 'string' ? body.name.trim() : '',
+  sessionCount: toNumber(body.sessionCount),
+  price: toNumber(body.price),
+  validForMonths: toNumber(body.validForMonths)
+});
+
+// Returns an error message for an invalid package, or null when it can be saved
+const validateSessionPackage = (fields) => {
+  if (!fields.name) {
+    return 'Package name is required';
+  }
+  if (!Number.isInteger(fields.sessionCount) || fields.sessionCount < 1 || fields.sessionCount > MAX_PACKAGE_SESSIONS) {
+    return `Number of sessions must be a whole number from 1 to ${MAX_PACKAGE_SESSIONS}`;
+  }
+  if (!Number.isFinite(fields.price) || fields.price < 0) {
+    return 'Price must be zero or more';
+  }
+  if (fields.validForMonths !== null
+    && (!Number.isInteger(fields.validForMonths) || fields.validForMonths < 1 || fields.validForMonths > MAX_VALID_FOR_MONTHS)) {
+    return `Validity must be a whole number of months from 1 to ${MAX_VALID_FOR_MONTHS}, or left empty for no expiry`;
+  }
+  return null;
+};
+
+const isValidPurchaseDate = (date) => typeof date === 'string' && DATE_PATTERN.test(date) && !Number.isNaN(Date.parse(date));
+
+// Last day a package bought on purchaseDate can be used (YYYY-MM-DD): the same day
+// validForMonths later, or the end of that month when it is shorter. Null if it doesn't expire.
+const getPackageExpiryDate = (purchaseDate, validForMonths) => {
+  if (!validForMonths) return null;
+  const [year, month, day] = purchaseDate.split('-').map(Number);
+  const daysInMonth = new Date(Date.UTC(year, month - 1 + validForMonths + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + validForMonths, Math.min(day, daysInMonth))).toISOString().split('T')[0];
+};
+
+// Whether a sold package can pay for a session on the given date: it had been bought by then,
+// has sessions left and hasn't expired
+const isPackageUsable = (patientPackage, sessionsUsed, date) => {
+  return patientPackage.purchaseDate <= date
+    && sessionsUsed < patientPackage.sessionCount
+    && (!patientPackage.expiryDate || date <= patientPackage.expiryDate);
+};
+
+module.exports = {
+  normalizeSessionPackage,
+  validateSessionPackage,
+  isValidPurchaseDate,
+  getPackageExpiryDate,
+  isPackageUsable
+};
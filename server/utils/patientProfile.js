@@ -0,0 +1,77 @@
+// Demographic fields of a patient record beyond name and contact number, and their validation.
+
+const { DATE_PATTERN } = require('./fields');
+
+const GENDERS = ['male', 'female', 'other', 'prefer-not-to-say'];
+const REFERRAL_SOURCES = ['doctor', 'self', 'insurance', 'website', 'social-media', 'friend-family', 'other'];
+const PROFILE_FIELDS = [
+  'dateOfBirth',
+  'gender',
+  'email',
+  'address',
+  'occupation',
+  'emergencyContact',
+  'referringDoctor',
+  'referralSource'
+];
+
+const EMAIL_PATTERN = /^\S+@\S+\.\S+$/;
+const PHONE_PATTERN = /^\+?[0-9\s\-()]{8,15}$/;
+
+// Fields that are cleared with null rather than an empty string
+const NULLABLE_FIELDS = ['dateOfBirth', 'gender', 'referralSource'];
+
+// Picks the profile fields present in a request body so updates only touch what was sent
+const pickProfileFields = (body) => {
+  return PROFILE_FIELDS.reduce((fields, key) => {
+    if (body[key] !== undefined) {
+      fields[key] = NULLABLE_FIELDS.includes(key) && body[key] === '' ? null : body[key];
+    }
+    return fields;
+  }, {});
+};
+
+// Returns an error message for invalid profile fields, or null when they can be saved
+const validatePatientProfile = (fields) => {
+  const { dateOfBirth, gender, email, emergencyContact, referralSource } = fields;
+
+  if (dateOfBirth) {
+    if (!DATE_PATTERN.test(dateOfBirth) || Number.isNaN(Date.parse(dateOfBirth))) {
+      return 'Date of birth must be a valid date (YYYY-MM-DD)';
+    }
+    if (dateOfBirth > new Date().toISOString().split('T')[0]) {
+      return 'Date of birth cannot be in the future';
+    }
+  }
+
+  if (gender && !GENDERS.includes(gender)) {
+    return 'Gender must be male, female, other or prefer-not-to-say';
+  }
+
+  if (email && !EMAIL_PATTERN.test(email)) {
+    return 'Please enter a valid email address';
+  }
+
+  if (referralSource && !REFERRAL_SOURCES.includes(referralSource)) {
+    return 'Unknown referral source';
+  }
+
+  if (emergencyContact) {
+    const { name, phone } = emergencyContact;
+    if (phone && !PHONE_PATTERN.test(phone)) {
+      return 'Please enter a valid emergency contact number';
+    }
+    if (phone && !name) {
+      return 'Emergency contact name is required';
+    }
+  }
+
+  return null;
+};
+
+module.exports = {
+  GENDERS,
+  REFERRAL_SOURCES,
+  pickProfileFields,
+  validatePatientProfile
+};
@@ -0,0 +1,104 @@
+// Patient ledger: session and package charges, payments and refunds, and the running balance
+
+const { DATE_PATTERN, cleanText, roundMoney } = require('./fields');
+
+const PAYMENT_TYPES = ['payment', 'refund'];
+const PAYMENT_METHODS = ['cash', 'upi', 'card', 'bank-transfer'];
+
+const MAX_REFERENCE_LENGTH = 100;
+
+// Normalizes a payment request body
+const normalizePayment = (body = {}) => ({
+  type: body.type || 'payment',
+  amount: body.amount === null || body.amount === undefined || body.amount === '' ? null : roundMoney(Number(body.amount)),
+  method: body.method || 'cash',
+  reference: cleanText(body.reference),
+  date: cleanText(body.date),
+  notes: cleanText(body.notes),
+  sessionId: body.sessionId ? String(body.sessionId) : null
+});
+
+// Returns an error message for an invalid payment, or null when it can be saved
+const validatePayment = (payment) => {
+  if (!PAYMENT_TYPES.includes(payment.type)) {
+    return `Type must be one of: ${PAYMENT_TYPES.join(', ')}`;
+  }
+  if (!Number.isFinite(payment.amount) || payment.amount <= 0) {
+    return 'Amount must be greater than zero';
+  }
+  if (!PAYMENT_METHODS.includes(payment.method)) {
+    return `Method must be one of: ${PAYMENT_METHODS.join(', ')}`;
+  }
+  if (payment.reference.length > MAX_REFERENCE_LENGTH) {
+    return `Reference must be at most ${MAX_REFERENCE_LENGTH} characters`;
+  }
+  if (!DATE_PATTERN.test(payment.date) || Number.isNaN(Date.parse(payment.date))) {
+    return 'Date must be in YYYY-MM-DD format';
+  }
+  return null;
+};
+
+// What has been paid towards a session: its payments less its refunds
+const getAmountPaid = (payments) => roundMoney(payments.reduce(
+  (total, payment) => total + (payment.type === 'refund' ? -payment.amount : payment.amount),
+  0
+));
+
+// Completed sessions with a fee are charged; sessions paid for by a package were charged with the package
+const isChargedSession = (session) => session.status === 'completed' && session.amount > 0 && !session.packageId;
+
+// Builds a patient's ledger, oldest first, with the balance after each entry.
+// A positive balance is owed by the patient; a negative one is credit (e.g. an advance).
+const buildLedger = ({ sessions = [], packages = [], payments = [] }) => {
+  const entries = [
+    ...sessions.filter(isChargedSession).map(session => ({
+      kind: 'charge',
+      date: session.date,
+      description: `Session at ${session.time}`,
+      amount: session.amount,
+      sessionId: String(session._id),
+      createdAt: session.createdAt
+    })),
+    ...packages.filter(patientPackage => patientPackage.price > 0).map(patientPackage => ({
+      kind: 'charge',
+      date: patientPackage.purchaseDate,
+      description: `Package: ${patientPackage.name}`,
+      amount: patientPackage.price,
+      patientPackageId: String(patientPackage._id),
+      createdAt: patientPackage.createdAt
+    })),
+    ...payments.map(payment => ({
+      kind: payment.type,
+      date: payment.date,
+      description: payment.type === 'refund' ? 'Refund' : 'Payment',
+      amount: payment.amount,
+      currency: payment.currency,
+      method: payment.method,
+      reference: payment.reference,
+      sessionId: payment.sessionId ? String(payment.sessionId) : null,
+      paymentId: String(payment._id),
+      createdAt: payment.createdAt
+    }))
+  ];
+
+  // Same-day entries keep the order they were recorded in
+  entries.sort((a, b) => a.date.localeCompare(b.date) || new Date(a.createdAt) - new Date(b.createdAt));
+
+  let balance = 0;
+  const ledger = entries.map(({ createdAt, ...entry }) => {
+    balance = roundMoney(balance + (entry.kind === 'payment' ? -entry.amount : entry.amount));
+    return { ...entry, balance };
+  });
+
+  return { entries: ledger, balance };
+};
+
+module.exports = {
+  PAYMENT_TYPES,
+  PAYMENT_METHODS,
+  normalizePayment,
+  validatePayment,
+  getAmountPaid,
+  isChargedSession,
+  buildLedger
+};
@@ -0,0 +1,106 @@
+// Helpers for expanding a recurrence rule into concrete session dates.
+// Dates are handled as 'YYYY-MM-DD' strings in UTC so the generated series
+// doesn't drift when the server and the device are in different timezones.
+
+const { DATE_PATTERN } = require('./fields');
+
+const MAX_SERIES_LENGTH = 100;
+const FREQUENCIES = ['daily', 'weekly', 'weekdays'];
+
+const parseDate = (dateString) => new Date(`${dateString}T00:00:00Z`);
+
+const formatDate = (date) => date.toISOString().split('T')[0];
+
+const addDays = (dateString, days) => {
+  const date = parseDate(dateString);
+  date.setUTCDate(date.getUTCDate() + days);
+  return formatDate(date);
+};
+
+// 0 (Sunday) to 6 (Saturday)
+const getWeekday = (dateString) => parseDate(dateString).getUTCDay();
+
+const daysBetween = (fromDate, toDate) => {
+  return Math.round((parseDate(toDate) - parseDate(fromDate)) / (24 * 60 * 60 * 1000));
+};
+
+// Returns an error message for an invalid rule, or null when it can be expanded
+const validateRecurrence = (recurrence) => {
+  if (!recurrence) {
+    return 'Recurrence rule is required';
+  }
+
+  const { startDate, frequency, weekdays, endType, count, endDate } = recurrence;
+
+  if (!startDate || !DATE_PATTERN.test(startDate)) {
+    return 'A valid start date is required';
+  }
+
+  if (!FREQUENCIES.includes(frequency)) {
+    return 'Frequency must be daily, weekly or weekdays';
+  }
+
+  if (frequency === 'weekdays') {
+    if (!Array.isArray(weekdays) || weekdays.length === 0) {
+      return 'Select at least one weekday';
+    }
+    if (weekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      return 'Weekdays must be numbers from 0 (Sunday) to 6 (Saturday)';
+    }
+  }
+
+  if (endType === 'count') {
+    if (!Number.isInteger(count) || count < 1) {
+      return 'Number of sessions must be at least 1';
+    }
+    if (count > MAX_SERIES_LENGTH) {
+      return `A series can have at most ${MAX_SERIES_LENGTH} sessions`;
+    }
+  } else if (endType === 'date') {
+    if (!endDate || !DATE_PATTERN.test(endDate)) {
+      return 'A valid end date is required';
+    }
+    if (endDate < startDate) {
+      return 'End date must be on or after the start date';
+    }
+  } else {
+    return 'Series must end after a number of sessions or on a date';
+  }
+
+  return null;
+};
+
+// Expands a validated rule into the list of dates, capped at MAX_SERIES_LENGTH
+const generateSeriesDates = (recurrence) => {
+  const { startDate, frequency, weekdays, endType, count, endDate } = recurrence;
+  const dates = [];
+  const limit = endType === 'count' ? count : MAX_SERIES_LENGTH;
+  const isWithinEnd = (date) => endType !== 'date' || date <= endDate;
+
+  let current = startDate;
+  while (dates.length < limit && isWithinEnd(current)) {
+    if (frequency === 'daily') {
+      dates.push(current);
+      current = addDays(current, 1);
+    } else if (frequency === 'weekly') {
+      dates.push(current);
+      current = addDays(current, 7);
+    } else {
+      if (weekdays.includes(parseDate(current).getUTCDay())) {
+        dates.push(current);
+      }
+      current = addDays(current, 1);
+    }
+  }
+
+  return dates;
+};
+
+module.exports = {
+  MAX_SERIES_LENGTH,
+  addDays,
+  daysBetween,
+  getWeekday,
+  validateRecurrence,
+  generateSeriesDates
+};
@@ -0,0 +1,114 @@
+// Helpers for detecting overlapping sessions and suggesting free slots.
+// Session times are stored as 'HH:MM' strings, so everything here works in minutes since midnight.
+
+const { addDays } = require('./recurrence');
+
+// Start times are 24-hour 'HH:MM'
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DEFAULT_SESSION_DURATION = 60;
+const MIN_SESSION_DURATION = 5;
+const MAX_SESSION_DURATION = 480;
+const SLOT_STEP_MINUTES = 15;
+const DAY_START_MINUTES = 8 * 60;
+const DAY_END_MINUTES = 20 * 60;
+const SUGGESTION_SEARCH_DAYS = 7;
+
+const timeToMinutes = (time) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const minutesToTime = (totalMinutes) => {
+  const hours = String(Math.floor(totalMinutes / 60)).padStart(2, '0');
+  const minutes = String(totalMinutes % 60).padStart(2, '0');
+  return `${hours}:${minutes}`;
+};
+
+const getDuration = (session) => session.duration || DEFAULT_SESSION_DURATION;
+
+// Returns an error message for an invalid start time or length, or null when the slot can be
+// checked. Either can be left out of a request to keep the current value or the default.
+const validateSessionTiming = (time, duration) => {
+  if (time !== undefined && (typeof time !== 'string' || !TIME_PATTERN.test(time))) {
+    return 'Time must be in HH:MM format';
+  }
+  if (duration !== undefined && duration !== null &&
+    (!Number.isInteger(duration) || duration < MIN_SESSION_DURATION || duration > MAX_SESSION_DURATION)) {
+    return `Duration must be a whole number of minutes between ${MIN_SESSION_DURATION} and ${MAX_SESSION_DURATION}`;
+  }
+  return null;
+};
+
+const rangesOverlap = (startA, durationA, startB, durationB) => {
+  return startA < startB + durationB && startB < startA + durationA;
+};
+
+// Returns the sessions from the list that overlap the given time on the same day
+const findConflicts = (sameDaySessions, time, duration) => {
+  const start = timeToMinutes(time);
+  return sameDaySessions.filter(session =>
+    rangesOverlap(start, duration, timeToMinutes(session.time), getDuration(session))
+  );
+};
+
+// Lists the free start times inside the given windows ({ start, end } in minutes) on one day
+const findFreeStartTimes = (daySessions, windows, duration, fromMinutes = 0) => {
+  const startTimes = [];
+
+  windows.forEach(window => {
+    const firstStart = Math.max(window.start, Math.ceil(fromMinutes / SLOT_STEP_MINUTES) * SLOT_STEP_MINUTES);
+    for (let start = firstStart; start + duration <= window.end; start += SLOT_STEP_MINUTES) {
+      if (findConflicts(daySessions, minutesToTime(start), duration).length === 0) {
+        startTimes.push(start);
+      }
+    }
+  });
+
+  return startTimes;
+};
+
+const DEFAULT_DAY_WINDOWS = [{ start: DAY_START_MINUTES, end: DAY_END_MINUTES }];
+
+// Finds the next free start times after the requested slot, looking ahead up to a week.
+// sessionsByDate maps 'YYYY-MM-DD' to the sessions already booked on that day, and
+// getWindows returns the bookable windows for a date (the practitioner's availability).
+const suggestFreeSlots = (sessionsByDate, date, time, duration, count = 3, getWindows = () => DEFAULT_DAY_WINDOWS) => {
+  const suggestions = [];
+  const requestedStart = timeToMinutes(time);
+
+  for (let dayOffset = 0; dayOffset < SUGGESTION_SEARCH_DAYS && suggestions.length < count; dayOffset++) {
+    const day = addDays(date, dayOffset);
+    const startTimes = findFreeStartTimes(
+      sessionsByDate[day] || [],
+      getWindows(day),
+      duration,
+      dayOffset === 0 ? requestedStart : 0
+    );
+
+    // Space suggestions out so they aren't all back-to-back within the same gap
+    let nextAllowed = 0;
+    startTimes.forEach(start => {
+      if (suggestions.length < count && start >= nextAllowed) {
+        suggestions.push({ date: day, time: minutesToTime(start) });
+        nextAllowed = start + duration;
+      }
+    });
+  }
+
+  return suggestions;
+};
+
+module.exports = {
+  TIME_PATTERN,
+  DEFAULT_SESSION_DURATION,
+  MIN_SESSION_DURATION,
+  MAX_SESSION_DURATION,
+  DEFAULT_DAY_WINDOWS,
+  timeToMinutes,
+  minutesToTime,
+  getDuration,
+  validateSessionTiming,
+  findConflicts,
+  findFreeStartTimes,
+  suggestFreeSlots
+};
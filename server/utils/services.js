@@ -0,0 +1,64 @@
+// Service catalogue: the kinds of session offered, with their default length and price,
+// and the prices agreed with individual patients
+
+const { toNumber } = require('./fields');
+
+// Same limits as a session's duration
+const MIN_SERVICE_DURATION = 5;
+const MAX_SERVICE_DURATION = 480;
+
+// Normalizes a service from a request body
+const normalizeService = (body = {}) => ({
+  name: typeof body.name === 'string' ? body.name.trim() : '',
+  duration: toNumber(body.duration),
+  price: toNumber(body.price)
+});
+
+// Returns an error message for an invalid service, or null when it can be saved
+const validateService = (fields) => {
+  if (!fields.name) {
+    return 'Service name is required';
+  }
+  if (!Number.isInteger(fields.duration) || fields.duration < MIN_SERVICE_DURATION || fields.duration > MAX_SERVICE_DURATION) {
+    return `Duration must be a whole number of minutes from ${MIN_SERVICE_DURATION} to ${MAX_SERVICE_DURATION}`;
+  }
+  if (!Number.isFinite(fields.price) || fields.price < 0) {
+    return 'Price must be zero or more';
+  }
+  return null;
+};
+
+// Normalizes a patient's price overrides; entries without a price are dropped
+const normalizeServicePrices = (prices) => (Array.isArray(prices) ? prices : [])
+  .map(entry => ({
+    serviceId: entry?.serviceId ? String(entry.serviceId) : '',
+    price: toNumber(entry?.price)
+  }))
+  .filter(entry => entry.price !== null);
+
+// Returns an error message for invalid price overrides, or null when they can be saved
+const validateServicePrices = (prices) => {
+  for (const entry of prices) {
+    if (!entry.serviceId) {
+      return 'Each price needs a service';
+    }
+    if (!Number.isFinite(entry.price) || entry.price < 0) {
+      return 'Prices must be zero or more';
+    }
+  }
+
+  const serviceIds = prices.map(entry => entry.serviceId);
+  if (new Set(serviceIds).size !== serviceIds.length) {
+    return 'A service can only have one price per patient';
+  }
+  return null;
+};
+
+module.exports = {
+  MIN_SERVICE_DURATION,
+  MAX_SERVICE_DURATION,
+  normalizeService,
+  validateService,
+  normalizeServicePrices,
+  validateServicePrices
+};
@@ -0,0 +1,47 @@
+// Session lifecycle. Open statuses are still on the schedule; every other status is a final
+// outcome that is kept for the treatment history instead of deleting the session.
+
+const SESSION_STATUSES = [
+  'scheduled',
+  'checked-in',
+  'completed',
+  'no-show',
+  'cancelled-by-patient',
+  'cancelled-by-clinic'
+];
+const OPEN_STATUSES = ['scheduled', 'checked-in'];
+const CLOSED_STATUSES = SESSION_STATUSES.filter(status => !OPEN_STATUSES.includes(status));
+// Statuses that free the time slot for other bookings
+const CANCELLED_STATUSES = ['cancelled-by-patient', 'cancelled-by-clinic'];
+// Who asked for a session to be moved
+const RESCHEDULE_INITIATORS = ['patient', 'clinic'];
+
+const isValidStatus = (status) => SESSION_STATUSES.includes(status);
+
+// Parses a comma separated ?status= filter, returning null when any value is unknown
+const parseStatusFilter = (value) => {
+  const statuses = String(value).split(',').map(status => status.trim()).filter(Boolean);
+  return statuses.length > 0 && statuses.every(isValidStatus) ? statuses : null;
+};
+
+// Moves a session to a new status, stamping when it changed so outcomes can be reported on later
+const applyStatusChange = (session, status, reason) => {
+  if (status !== undefined && status !== session.status) {
+    session.status = status;
+    session.statusChangedAt = new Date();
+    session.statusReason = reason || '';
+  } else if (reason !== undefined) {
+    session.statusReason = reason;
+  }
+};
+
+module.exports = {
+  SESSION_STATUSES,
+  OPEN_STATUSES,
+  CLOSED_STATUSES,
+  CANCELLED_STATUSES,
+  RESCHEDULE_INITIATORS,
+  isValidStatus,
+  parseStatusFilter,
+  applyStatusChange
+};
@@ -0,0 +1,105 @@
+// Practice analytics for the dashboard. The counts and totals come from MongoDB aggregation
+// in the stats route; these helpers shape the query and fill in the gaps.
+const { addDays, daysBetween, getWeekday } = require('./recurrence');
+const { DATE_PATTERN, roundMoney } = require('./fields');
+
+const STATS_GROUPINGS = ['day', 'week', 'month'];
+const MAX_STATS_DAYS = 731;
+const TOP_SERVICES_LIMIT = 5;
+
+// Returns an error message for an invalid stats query, or null when it can be run
+const validateStatsQuery = ({ startDate, endDate, groupBy }) => {
+  if (!DATE_PATTERN.test(startDate || '') || !DATE_PATTERN.test(endDate || '')) {
+    return 'Start date and end date are required (YYYY-MM-DD)';
+  }
+  const rangeDays = daysBetween(startDate, endDate) + 1;
+  if (rangeDays < 1 || rangeDays > MAX_STATS_DAYS) {
+    return `Date range must be between 1 and ${MAX_STATS_DAYS} days`;
+  }
+  if (!STATS_GROUPINGS.includes(groupBy)) {
+    return `Group by must be one of ${STATS_GROUPINGS.join(', ')}`;
+  }
+  return null;
+};
+
+// The period a date falls in: the date itself, the Monday of its week, or its month (YYYY-MM)
+const getPeriod = (date, groupBy) => {
+  if (groupBy === 'month') return date.slice(0, 7);
+  if (groupBy === 'week') return addDays(date, -((getWeekday(date) + 6) % 7));
+  return date;
+};
+
+// The same as getPeriod, as an aggregation expression on a YYYY-MM-DD field such as '$date'
+const getPeriodExpression = (groupBy, field = '$date') => {
+  if (groupBy === 'month') return { $substrCP: [field, 0, 7] };
+  if (groupBy === 'day') return field;
+
+  const day = { $dateFromString: { dateString: field, timezone: 'UTC' } };
+  const monday = { $subtract: [day, { $multiply: [{ $subtract: [{ $isoDayOfWeek: day }, 1] }, 24 * 60 * 60 * 1000] }] };
+  return { $dateToString: { format: '%Y-%m-%d', date: monday, timezone: 'UTC' } };
+};
+
+// Every period in the range, oldest first
+const listPeriods = (startDate, endDate, groupBy) => {
+  const periods = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    const period = getPeriod(date, groupBy);
+    if (periods[periods.length - 1] !== period) periods.push(period);
+  }
+  return periods;
+};
+
+// Percentage with one decimal place
+const toRate = (count, total) => (total > 0 ? Math.round((count / total) * 1000) / 10 : 0);
+
+// Revenue per period from the aggregated session and package sale rows, with zeros for
+// periods without any
+const fillRevenuePeriods = (sessionRows, packageRows, startDate, endDate, groupBy) => {
+  const sessionsByPeriod = new Map(sessionRows.map(row => [row._id, row]));
+  const packagesByPeriod = new Map(packageRows.map(row => [row._id, row]));
+  return listPeriods(startDate, endDate, groupBy).map(period => {
+    const sessionRow = sessionsByPeriod.get(period);
+    const packageRow = packagesByPeriod.get(period);
+    const sessionFees = sessionRow ? roundMoney(sessionRow.revenue) : 0;
+    const packageSales = packageRow ? roundMoney(packageRow.revenue) : 0;
+    return {
+      period,
+      sessions: sessionRow ? sessionRow.sessions : 0,
+      packagesSold: packageRow ? packageRow.sold : 0,
+      sessionFees,
+      packageSales,
+      revenue: roundMoney(sessionFees + packageSales),
+      collected: sessionRow ? roundMoney(sessionRow.collected) : 0
+    };
+  });
+};
+
+// Turns per-status counts into the session summary. Rescheduled sessions were moved to
+// another slot, so they aren't counted as booked.
+const summarizeStatuses = (statusRows) => {
+  const counts = Object.fromEntries(statusRows.map(row => [row._id, row.count]));
+  const count = (...statuses) => statuses.reduce((total, status) => total + (counts[status] || 0), 0);
+
+  const booked = count('scheduled', 'checked-in', 'completed', 'no-show', 'cancelled-by-patient', 'cancelled-by-clinic');
+  const noShow = count('no-show');
+  const cancelled = count('cancelled-by-patient', 'cancelled-by-clinic');
+  return {
+    booked,
+    completed: count('completed'),
+    upcoming: count('scheduled', 'checked-in'),
+    noShow,
+    cancelled,
+    noShowRate: toRate(noShow, booked),
+    cancellationRate: toRate(cancelled, booked)
+  };
+};
+
+module.exports = {
+  STATS_GROUPINGS,
+  MAX_STATS_DAYS,
+  TOP_SERVICES_LIMIT,
+  validateStatsQuery,
+  getPeriodExpression,
+  fillRevenuePeriods,
+  summarizeStatuses
+};
@@ -0,0 +1,89 @@
+// Treatment plans (episodes of care): diagnosis, goals, planned sessions and how the plan ended.
+
+const { DATE_PATTERN, cleanText, toNumber } = require('./fields');
+const { CANCELLED_STATUSES } = require('./sessionStatus');
+
+const PLAN_STATUSES = ['active', 'discharged'];
+const GOAL_STATUSES = ['pending', 'met', 'not-met'];
+// Outcome recorded when a plan is closed
+const DISCHARGE_STATUSES = ['goals-met', 'partially-met', 'not-met', 'self-discharged', 'referred-on'];
+
+// Sessions that never took place don't use up a planned session
+const UNCOUNTED_STATUSES = [...CANCELLED_STATUSES, 'no-show'];
+
+// Normalizes a treatment plan request body into the fields that can be edited
+const normalizeTreatmentPlan = (body = {}) => ({
+  diagnosis: cleanText(body.diagnosis),
+  goals: (Array.isArray(body.goals) ? body.goals : []).map(goal => ({
+    description: cleanText(goal?.description),
+    targetDate: cleanText(goal?.targetDate) || null,
+    status: goal?.status || 'pending'
+  })),
+  plannedSessions: toNumber(body.plannedSessions),
+  frequencyPerWeek: toNumber(body.frequencyPerWeek)
+});
+
+// Returns an error message for an invalid treatment plan, or null when it can be saved
+const validateTreatmentPlan = (plan) => {
+  if (!plan.diagnosis) {
+    return 'Diagnosis is required';
+  }
+
+  if (!Number.isInteger(plan.plannedSessions) || plan.plannedSessions < 1 || plan.plannedSessions > 200) {
+    return 'Planned sessions must be a whole number between 1 and 200';
+  }
+
+  if (plan.frequencyPerWeek !== null && (!Number.isInteger(plan.frequencyPerWeek) || plan.frequencyPerWeek < 1 || plan.frequencyPerWeek > 7)) {
+    return 'Frequency must be between 1 and 7 sessions a week';
+  }
+
+  for (const goal of plan.goals) {
+    if (!goal.description) {
+      return 'Each goal needs a description';
+    }
+    if (goal.targetDate && !DATE_PATTERN.test(goal.targetDate)) {
+      return 'Goal target dates must be in YYYY-MM-DD format';
+    }
+    if (!GOAL_STATUSES.includes(goal.status)) {
+      return 'Goal status must be pending, met or not-met';
+    }
+  }
+
+  return null;
+};
+
+// Numbers the counted sessions of each plan in date order, keyed by session ID
+const numberPlanSessions = (plans, sessions) => {
+  const plansById = new Map(plans.map(plan => [plan._id.toString(), plan]));
+  const counters = {};
+  const progress = {};
+
+  [...sessions]
+    .filter(session => !UNCOUNTED_STATUSES.includes(session.status))
+    .sort((a, b) => `${a.date}T${a.time}`.localeCompare(`${b.date}T${b.time}`))
+    .forEach(session => {
+      const planId = session.treatmentPlanId.toString();
+      const plan = plansById.get(planId);
+      if (!plan) return;
+
+      counters[planId] = (counters[planId] || 0) + 1;
+      progress[session._id.toString()] = {
+        planId,
+        diagnosis: plan.diagnosis,
+        sessionNumber: counters[planId],
+        plannedSessions: plan.plannedSessions
+      };
+    });
+
+  return progress;
+};
+
+module.exports = {
+  PLAN_STATUSES,
+  GOAL_STATUSES,
+  DISCHARGE_STATUSES,
+  UNCOUNTED_STATUSES,
+  normalizeTreatmentPlan,
+  validateTreatmentPlan,
+  numberPlanSessions
+};
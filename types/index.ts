@@ -1,11 +1,490 @@
+export type Gender = 'male' | 'female' | 'other' | 'prefer-not-to-say';
+
+export type ReferralSource = 'doctor' | 'self' | 'insurance' | 'website' | 'social-media' | 'friend-family' | 'other';
+
+export interface EmergencyContact {
+  name: string;
+  relationship: string;
+  phone: string;
+}
+
+export interface Diagnosis {
+  code: string; // ICD-10 code, empty for a free-text diagnosis
+  description: string;
+  notes: string;
+}
+
+export interface Medication {
+  name: string;
+  dosage: string;
+  frequency: string;
+}
+
+export type AllergySeverity = 'mild' | 'moderate' | 'severe';
+
+export interface Allergy {
+  substance: string;
+  reaction: string;
+  severity: AllergySeverity | null;
+}
+
+export interface MedicalHistory {
+  chiefComplaint: string;
+  diagnoses: Diagnosis[];
+  pastMedicalHistory: string;
+  pastSurgicalHistory: string;
+  medications: Medication[];
+  allergies: Allergy[];
+  redFlags: string[];
+  contraindications: string[];
+}
+
 export interface Patient {
   id: string;
   userId: string; // ID of the user who created this patient
   name: string;
   contactNumber: string;
+  dateOfBirth?: string | null; // 'YYYY-MM-DD'
+  gender?: Gender | null;
+  email?: string;
+  address?: string;
+  occupation?: string;
+  emergencyContact?: EmergencyContact;
+  referringDoctor?: string;
+  referralSource?: ReferralSource | null;
+  medicalHistory?: MedicalHistory;
+  homeExercises?: PrescribedExercise[];
+  servicePrices?: ServicePrice[]; // Prices agreed with the patient instead of the usual ones
+  createdAt: string;
+}
+
+export type SessionStatus =
+  | 'scheduled'
+  | 'checked-in'
+  | 'completed'
+  | 'no-show'
+  | 'cancelled-by-patient'
+  | 'cancelled-by-clinic';
+
+export type RescheduleInitiator = 'patient' | 'clinic';
+
+// One move of a session from its previous slot to a new one
+export interface RescheduleEntry {
+  fromDate: string;
+  fromTime: string;
+  toDate: string;
+  toTime: string;
+  initiatedBy: RescheduleInitiator;
+  reason: string;
+  rescheduledAt: string;
+}
+
+export type BodyRegion =
+  | 'head'
+  | 'neck'
+  | 'upper-back'
+  | 'lower-back'
+  | 'chest'
+  | 'shoulder'
+  | 'elbow'
+  | 'wrist-hand'
+  | 'hip'
+  | 'pelvis'
+  | 'thigh'
+  | 'knee'
+  | 'lower-leg'
+  | 'ankle-foot';
+
+export type Modality =
+  | 'manual-therapy'
+  | 'exercise-therapy'
+  | 'massage'
+  | 'dry-needling'
+  | 'taping'
+  | 'ultrasound'
+  | 'tens'
+  | 'ift'
+  | 'shockwave'
+  | 'laser'
+  | 'heat'
+  | 'cryotherapy'
+  | 'traction'
+  | 'education';
+
+// Structured SOAP notes for one visit
+export interface ClinicalNotes {
+  subjective: string;
+  objective: string;
+  assessment: string;
+  plan: string;
+  painScore: number | null; // 0-10 VAS
+  bodyRegions: BodyRegion[];
+  modalities: Modality[];
+}
+
+// Reusable SOAP text with placeholders such as {patientName} and {date}
+export interface NoteTemplate {
+  id: string;
+  userId: string;
+  name: string;
+  subjective: string;
+  objective: string;
+  assessment: string;
+  plan: string;
+  order: number;
   createdAt: string;
 }
 
+export type Joint =
+  | 'cervical-spine'
+  | 'lumbar-spine'
+  | 'shoulder'
+  | 'elbow'
+  | 'forearm'
+  | 'wrist'
+  | 'hip'
+  | 'knee'
+  | 'ankle';
+
+export type JointMovement =
+  | 'flexion'
+  | 'extension'
+  | 'lateral-flexion'
+  | 'rotation'
+  | 'abduction'
+  | 'adduction'
+  | 'internal-rotation'
+  | 'external-rotation'
+  | 'pronation'
+  | 'supination'
+  | 'radial-deviation'
+  | 'ulnar-deviation'
+  | 'dorsiflexion'
+  | 'plantarflexion'
+  | 'inversion'
+  | 'eversion';
+
+export type MeasurementSide = 'left' | 'right' | 'none';
+
+// Range of motion in degrees and MMT strength grade for one movement on one side
+export interface Measurement {
+  joint: Joint;
+  movement: JointMovement;
+  side: MeasurementSide;
+  activeRom: number | null;
+  passiveRom: number | null;
+  strength: number | null; // MMT grade 0-5
+}
+
+export type BodyChartView = 'front' | 'back';
+
+export type PainType = 'sharp' | 'dull' | 'radiating' | 'numbness';
+
+// A pain location tapped on the body chart; x and y are fractions of the chart's size
+export interface BodyChartMark {
+  view: BodyChartView;
+  x: number;
+  y: number;
+  type: PainType;
+  intensity: number; // 1-10
+}
+
+export type OutcomeMeasureType = 'odi' | 'ndi' | 'lefs' | 'dash' | 'nprs';
+
+// A completed outcome measure questionnaire, scored by the server
+export interface OutcomeMeasureResult {
+  id: string;
+  userId: string;
+  patientId: string;
+  sessionId: string | null;
+  measure: OutcomeMeasureType;
+  date: string; // Format: YYYY-MM-DD
+  responses: (number | null)[]; // One per item; null when skipped
+  score: number;
+  band: string; // e.g. "Moderate disability"
+  notes: string;
+  createdAt: string;
+}
+
+export type AttachmentCategory = 'xray' | 'mri' | 'referral' | 'posture-photo' | 'report' | 'other';
+
+// A file stored on the server for a patient; download it through the attachment endpoints
+export interface Attachment {
+  id: string;
+  userId: string;
+  patientId: string;
+  sessionId: string | null;
+  fileName: string;
+  mimeType: string;
+  size: number; // Bytes
+  category: AttachmentCategory;
+  createdAt: string;
+}
+
+export type InvoiceStatus = 'issued' | 'paid' | 'void';
+
+export type InvoiceItemType = 'session' | 'consumable' | 'package' | 'other';
+
+export interface InvoiceItem {
+  type: InvoiceItemType;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  taxRate: number; // Percent
+  sessionId: string | null; // The session a session line bills
+}
+
+// A numbered bill for a patient; totals are calculated by the server
+export interface Invoice {
+  id: string;
+  userId: string;
+  patientId: string;
+  patientName: string;
+  sequence: number;
+  number: string; // e.g. "INV-00042"
+  issueDate: string; // Format: YYYY-MM-DD
+  dueDate: string | null;
+  items: InvoiceItem[];
+  discountPercent: number;
+  subtotal: number;
+  discountTotal: number;
+  taxTotal: number;
+  total: number;
+  notes: string;
+  clinic: ClinicDetails; // As it was when the invoice was issued
+  currency: string; // As it was when the invoice was issued
+  status: InvoiceStatus;
+  paidAt: string | null;
+  createdAt: string;
+}
+
+// A kind of session the user offers, e.g. "Assessment" or "Home visit"
+export interface Service {
+  id: string;
+  userId: string;
+  name: string;
+  duration: number; // Minutes
+  price: number;
+  createdAt: string;
+}
+
+// A price agreed with one patient for a service
+export interface ServicePrice {
+  serviceId: string;
+  price: number;
+}
+
+// A prepaid bundle of sessions the user sells, e.g. "10 sessions"
+export interface SessionPackage {
+  id: string;
+  userId: string;
+  name: string;
+  sessionCount: number;
+  price: number;
+  validForMonths: number | null; // null when sold packages never expire
+  createdAt: string;
+}
+
+// A package sold to a patient, with the terms it was sold on
+export interface PatientPackage {
+  id: string;
+  userId: string;
+  patientId: string;
+  packageId: string | null;
+  name: string;
+  sessionCount: number;
+  price: number;
+  purchaseDate: string; // Format: YYYY-MM-DD
+  expiryDate: string | null; // Last day it can be used
+  sessionsUsed: number; // Completed sessions paid for by the package
+  createdAt: string;
+}
+
+export type PaymentType = 'payment' | 'refund';
+
+export type PaymentMethod = 'cash' | 'upi' | 'card' | 'bank-transfer';
+
+// Money received from or refunded to a patient, optionally against one session's fee
+export interface Payment {
+  id: string;
+  userId: string;
+  patientId: string;
+  sessionId: string | null; // null for advances and payments towards the overall balance
+  type: PaymentType;
+  amount: number;
+  currency: string; // Set by the server from the user's currency when recorded
+  method: PaymentMethod;
+  reference: string; // UPI transaction ID, card slip or bank reference
+  date: string; // Format: YYYY-MM-DD
+  notes: string;
+  createdAt: string;
+}
+
+export type LedgerEntryKind = 'charge' | PaymentType;
+
+// One line of a patient's ledger, as built by the server
+export interface LedgerEntry {
+  kind: LedgerEntryKind;
+  date: string; // Format: YYYY-MM-DD
+  description: string;
+  amount: number;
+  balance: number; // Running balance after this entry; positive when the patient owes money
+  sessionId?: string | null;
+  patientPackageId?: string;
+  paymentId?: string;
+  currency?: string; // Payments and refunds only
+  method?: PaymentMethod;
+  reference?: string;
+}
+
+// Charges, payments and refunds oldest first, with the balance the patient owes (negative for credit)
+export interface PatientLedger {
+  entries: LedgerEntry[];
+  balance: number;
+}
+
+// A patient who owes money, for the Dues screen
+export interface PatientDue {
+  patientId: string;
+  patientName: string;
+  phone: string;
+  balance: number;
+  lastPaymentDate: string | null;
+}
+
+// Practice analytics from /api/stats
+export type StatsGrouping = 'day' | 'week' | 'month';
+
+export interface RevenuePeriod {
+  period: string; // YYYY-MM-DD for days and weeks (the Monday), YYYY-MM for months
+  sessions: number; // Completed sessions charged on their own, not from a package
+  packagesSold: number;
+  sessionFees: number;
+  packageSales: number;
+  revenue: number; // Session fees plus package sales
+  collected: number; // Paid towards the session fees
+}
+
+export interface PracticeStats {
+  startDate: string;
+  endDate: string;
+  groupBy: StatsGrouping;
+  revenue: {
+    total: number;
+    sessionFees: number;
+    packageSales: number;
+    collected: number;
+    periods: RevenuePeriod[]; // Oldest first, including periods without sessions
+  };
+  sessions: {
+    booked: number; // Rescheduled sessions are left out; they were moved to another slot
+    completed: number;
+    upcoming: number;
+    noShow: number;
+    cancelled: number;
+    noShowRate: number; // Percent of booked sessions
+    cancellationRate: number;
+  };
+  patients: {
+    seen: number; // Patients with a completed session in the range
+    new: number; // Seen for the first time in the range
+    returning: number;
+    registered: number; // Patient records added in the range
+    averageRevenue: number; // Per patient seen
+  };
+  topServices: { serviceName: string; sessions: number; revenue: number }[];
+}
+
+// A consent form the user can ask patients to sign
+export interface ConsentTemplate {
+  id: string;
+  userId: string;
+  title: string;
+  body: string; // May contain placeholders such as {patientName}
+  validForMonths: number | null; // null when a signature never expires
+  createdAt: string;
+}
+
+// A consent signed by a patient, keeping the exact text they agreed to
+export interface Consent {
+  id: string;
+  userId: string;
+  patientId: string;
+  templateId: string | null;
+  title: string;
+  text: string;
+  signature: string; // SVG markup of the drawn signature
+  signerName: string;
+  signedAt: string;
+  expiresAt: string | null;
+  withdrawnAt: string | null;
+  createdAt: string;
+}
+
+// An exercise in the user's library, with the default dosage used when it is prescribed
+export interface Exercise {
+  id: string;
+  userId: string;
+  name: string;
+  description: string;
+  sets: number | null;
+  reps: number | null;
+  holdSeconds: number | null;
+  frequency: string; // e.g. "Twice daily"
+  image: string; // Data URI, empty when there is no picture
+  createdAt: string;
+}
+
+// Copy of a library exercise given to a patient, with its own dosage
+export interface PrescribedExercise {
+  exerciseId: string | null;
+  name: string;
+  description: string;
+  sets: number | null;
+  reps: number | null;
+  holdSeconds: number | null;
+  frequency: string;
+  notes: string;
+}
+
+export type GoalStatus = 'pending' | 'met' | 'not-met';
+
+export interface TreatmentGoal {
+  description: string;
+  targetDate: string | null; // 'YYYY-MM-DD'
+  status: GoalStatus;
+}
+
+export type TreatmentPlanStatus = 'active' | 'discharged';
+
+export type DischargeStatus = 'goals-met' | 'partially-met' | 'not-met' | 'self-discharged' | 'referred-on';
+
+// An episode of care; sessions link to it through treatmentPlanId
+export interface TreatmentPlan {
+  id: string;
+  userId: string;
+  patientId: string;
+  diagnosis: string;
+  goals: TreatmentGoal[];
+  plannedSessions: number;
+  frequencyPerWeek: number | null;
+  status: TreatmentPlanStatus;
+  dischargeStatus: DischargeStatus | null;
+  dischargeNotes: string;
+  dischargedAt: string | null;
+  completedSessions: number; // Computed by the server
+  scheduledSessions: number; // Open sessions still on the schedule, computed by the server
+  createdAt: string;
+}
+
+// Where a session falls in its treatment plan, e.g. session 5 of 12
+export interface PlanProgress {
+  planId: string;
+  diagnosis: string;
+  sessionNumber: number;
+  plannedSessions: number;
+}
+
 export interface Session {
   id: string;
   userId: string; // ID of the user who created this session
@@ -13,24 +492,129 @@ export interface Session {
   patientName: string;
   date: string;
   time: string;
-  notes: string;
-  completed: boolean;
-  amount?: number;
+  duration?: number; // Length in minutes, defaults to 60 on the server
+  notes: string; // Free text; the only notes on sessions recorded before SOAP notes
+  clinicalNotes?: ClinicalNotes;
+  exercises?: PrescribedExercise[]; // Given to the patient at this visit
+  measurements?: Measurement[];
+  bodyChart?: BodyChartMark[];
+  status: SessionStatus;
+  statusReason?: string; // Why the session was cancelled, missed or moved
+  statusChangedAt?: string;
+  serviceId?: string | null; // The service the session was booked as
+  serviceName?: string; // Kept as booked, even if the service is renamed or deleted
+  amount?: number; // The fee charged for the session
+  amountPaid?: number; // Payments less refunds made against the session; kept by the server
+  rescheduleHistory?: RescheduleEntry[]; // Earlier slots, oldest first
+  seriesId?: string; // Set when the session was created as part of a recurring series
+  treatmentPlanId?: string | null;
+  invoiceId?: string | null; // Set by the server when the session is billed
+  packageId?: string | null; // Prepaid package that paid for the session; set by the server on completion
   createdAt: string;
 }
 
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'weekdays';
+
+export interface RecurrenceRule {
+  startDate: string;
+  frequency: RecurrenceFrequency;
+  weekdays?: number[]; // 0 (Sunday) to 6 (Saturday), used with the 'weekdays' frequency
+  endType: 'count' | 'date';
+  count?: number;
+  endDate?: string;
+}
+
+// Which sessions of a series an edit or delete applies to
+export type SeriesScope = 'single' | 'following' | 'series';
+
+export interface SuggestedSlot {
+  date: string;
+  time: string;
+}
+
+export interface UnavailableDate {
+  date: string;
+  reason: string;
+}
+
+// Body of the 409 response returned when a session overlaps existing bookings
+// or falls outside the practitioner's availability
+export interface ScheduleConflict {
+  error: string;
+  conflicts: Session[];
+  unavailable: UnavailableDate[];
+  suggestions: SuggestedSlot[];
+}
+
+export type BlockedPeriodType = 'holiday' | 'leave' | 'other';
+
+// day: 0 (Sunday) to 6 (Saturday)
+export interface WorkingHours {
+  day: number;
+  start: string;
+  end: string;
+}
+
+// A break without a day applies to every working day
+export interface BreakPeriod {
+  day: number | null;
+  start: string;
+  end: string;
+  label: string;
+}
+
+export interface BlockedPeriod {
+  startDate: string;
+  endDate: string;
+  type: BlockedPeriodType;
+  reason: string;
+}
+
+export interface Availability {
+  workingHours: WorkingHours[];
+  breaks: BreakPeriod[];
+  blockedPeriods: BlockedPeriod[];
+}
+
+// Free start times for a single day, as returned by /api/availability
+export interface AvailabilityDay {
+  date: string;
+  blocked: string | null;
+  slots: string[];
+}
+
 export interface SessionFilter {
   patientId?: string;
   startDate?: string;
   endDate?: string;
+  status?: SessionStatus[];
   userId?: string; // Added to filter by user
 }
 
+// How money is shown across the app, exports and invoices
+export interface MoneyFormat {
+  currency: string; // ISO 4217 code, e.g. "INR"
+  numberFormat: string; // Locale for digit grouping, e.g. "en-IN" for 1,00,000.00
+}
+
+// Letterhead printed on discharge summaries and referral letters
+export interface ClinicDetails {
+  name: string;
+  practitionerName: string;
+  qualifications: string;
+  address: string;
+  phone: string;
+  email: string;
+}
+
 export interface User {
   id: string;
   email: string;
   phoneNumber: string;
   password: string; // Note: This will be hashed in a real app
   profileImage?: string; // Base64 encoded image or image URI
+  availability?: Availability;
+  clinic?: ClinicDetails;
+  moneyFormat?: MoneyFormat;
   createdAt: string;
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
 import { User } from '../types';
 import { getCurrentUser, loginUser, logoutUser, registerUser, updateUser, resetPassword as resetUserPassword } from './mongoAuth';
+import { setMoneyFormat } from './currency';
 
 interface AuthContextType {
   user: Omit<User, 'password'> | null;
@@ -18,12 +19,18 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [user, setUser] = useState<Omit<User, 'password'> | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
+  // Money is formatted in the signed-in user's currency, including outside components
+  const applyUser = (nextUser: Omit<User, 'password'> | null) => {
+    setMoneyFormat(nextUser?.moneyFormat);
+    setUser(nextUser);
+  };
+
   useEffect(() => {
     // Check if user is logged in on app start
     const checkUser = async () => {
       try {
         const currentUser = await getCurrentUser();
-        setUser(currentUser);
+        applyUser(currentUser);
       } catch (error) {
         console.error('Error checking user:', error);
       } finally {
@@ -38,7 +45,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     try {
       setIsLoading(true);
       const response = await loginUser(email, password);
-      setUser(response.user);
+      applyUser(response.user);
     } catch (error) {
       console.error('Login error:', error);
       throw error;
@@ -51,7 +58,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     try {
       setIsLoading(true);
       await logoutUser();
-      setUser(null);
+      applyUser(null);
     } catch (error) {
       console.error('Logout error:', error);
       throw error;
@@ -64,7 +71,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     try {
       setIsLoading(true);
       const response = await registerUser(userData);
-      setUser(response.user);
+      applyUser(response.user);
     } catch (error) {
       console.error('Registration error:', error);
       throw error;
@@ -86,7 +93,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       };
       
       const updatedUser = await updateUser(updatedUserData);
-      setUser(updatedUser);
+      applyUser(updatedUser);
     } catch (error) {
       console.error('Update user error:', error);
       throw error;
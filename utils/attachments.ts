@@ -0,0 +1,40 @@
+// Labels and limits for patient attachments. Mirrors server/utils/attachments.js.
+import { Attachment, AttachmentCategory } from '../types';
+
+export const ATTACHMENT_CATEGORY_OPTIONS: { value: AttachmentCategory; label: string }[] = [
+  { value: 'xray', label: 'X-ray' },
+  { value: 'mri', label: 'MRI' },
+  { value: 'referral', label: 'Referral Letter' },
+  { value: 'posture-photo', label: 'Posture Photo' },
+  { value: 'report', label: 'Report' },
+  { value: 'other', label: 'Other' },
+];
+
+export const ATTACHMENT_MIME_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/heic', 'image/webp'];
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10 MB
+
+export const getAttachmentCategoryLabel = (category: AttachmentCategory): string =>
+  ATTACHMENT_CATEGORY_OPTIONS.find(option => option.value === category)?.label || category;
+
+export const isImageAttachment = (attachment: Pick<Attachment, 'mimeType'>): boolean =>
+  attachment.mimeType.startsWith('image/');
+
+// e.g. "850 KB" or "2.4 MB"
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Returns why a file can't be attached, or null if it can
+export const getAttachmentFileIssue = (mimeType: string, size?: number): string | null => {
+  if (!ATTACHMENT_MIME_TYPES.includes(mimeType)) {
+    return 'Only PDF, JPEG, PNG, HEIC and WebP files can be attached';
+  }
+  if (size !== undefined && size > MAX_ATTACHMENT_SIZE) {
+    return `Attachments can be at most ${formatFileSize(MAX_ATTACHMENT_SIZE)}`;
+  }
+  return null;
+};
@@ -0,0 +1,57 @@
+// Labels, colours and the outline drawing for the body chart. Mirrors server/utils/bodyChart.js.
+import { BodyChartMark, BodyChartView, PainType } from '../types';
+
+export const BODY_CHART_VIEWS: { value: BodyChartView; label: string }[] = [
+  { value: 'front', label: 'Front' },
+  { value: 'back', label: 'Back' },
+];
+
+export const PAIN_TYPE_OPTIONS: { value: PainType; label: string; color: string }[] = [
+  { value: 'sharp', label: 'Sharp', color: '#FF3B30' },
+  { value: 'dull', label: 'Dull', color: '#FF9500' },
+  { value: 'radiating', label: 'Radiating', color: '#AF52DE' },
+  { value: 'numbness', label: 'Numbness', color: '#0A84FF' },
+];
+
+export const MIN_INTENSITY = 1;
+export const MAX_INTENSITY = 10;
+export const DEFAULT_INTENSITY = 5;
+
+export const getPainTypeColor = (type: PainType): string =>
+  PAIN_TYPE_OPTIONS.find(option => option.value === type)?.color || '#8E8E93';
+
+export const getPainTypeLabel = (type: PainType): string =>
+  PAIN_TYPE_OPTIONS.find(option => option.value === type)?.label || type;
+
+// The outline is drawn in a 100 x 200 box; marks are stored as fractions of it
+export const BODY_OUTLINE_WIDTH = 100;
+export const BODY_OUTLINE_HEIGHT = 200;
+
+export const BODY_OUTLINE_PATH = [
+  // Head and neck
+  'M50 4 C57 4 61 9 61 16 C61 23 57 28 50 28 C43 28 39 23 39 16 C39 9 43 4 50 4 Z',
+  'M46 28 L54 28 L55 34 L45 34 Z',
+  // Torso
+  'M45 34 L55 34 L68 38 L67 64 L64 96 L36 96 L33 64 L32 38 Z',
+  // Arms
+  'M32 38 L25 42 L20 70 L15 100 L21 102 L27 74 L33 56 Z',
+  'M68 38 L75 42 L80 70 L85 100 L79 102 L73 74 L67 56 Z',
+  // Legs
+  'M36 96 L49 96 L48 140 L47 190 L39 190 L38 140 Z',
+  'M51 96 L64 96 L62 140 L61 190 L53 190 L52 140 Z',
+].join(' ');
+
+// How close a tap has to be to an existing mark to select it instead of adding one,
+// as a fraction of the width (the chart is twice as tall as it is wide)
+const HIT_DISTANCE = 0.08;
+
+export const findMarkNear = (marks: BodyChartMark[], view: BodyChartView, x: number, y: number): number =>
+  marks.findIndex(mark => mark.view === view && Math.hypot(mark.x - x, (mark.y - y) * 2) < HIT_DISTANCE);
+
+// e.g. "2 sharp, 1 numbness"
+export const summarizeBodyChart = (marks: BodyChartMark[] = []): string =>
+  PAIN_TYPE_OPTIONS
+    .map(option => ({ option, count: marks.filter(mark => mark.type === option.value).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ option, count }) => `${count} ${option.label.toLowerCase()}`)
+    .join(', ');
@@ -0,0 +1,80 @@
+// Date helpers for the calendar views. Session dates are stored as 'YYYY-MM-DD'
+// and times as 'HH:MM' in the practitioner's local time, so everything here works on local dates.
+
+export type CalendarMode = 'day' | 'week' | 'month';
+
+export const formatDateKey = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+export const parseDateKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+export const addMonths = (date: Date, months: number): Date => {
+  return new Date(date.getFullYear(), date.getMonth() + months, 1);
+};
+
+// Weeks start on Monday
+export const startOfWeek = (date: Date): Date => {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const offset = (result.getDay() + 6) % 7;
+  return addDays(result, -offset);
+};
+
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const minutesToTime = (totalMinutes: number): string => {
+  const hours = String(Math.floor(totalMinutes / 60)).padStart(2, '0');
+  const minutes = String(totalMinutes % 60).padStart(2, '0');
+  return `${hours}:${minutes}`;
+};
+
+// Returns the days shown for a mode, e.g. the 7 days of the week or the 6x7 month grid
+export const getVisibleDays = (mode: CalendarMode, anchor: Date): Date[] => {
+  if (mode === 'day') {
+    return [new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate())];
+  }
+
+  if (mode === 'week') {
+    const start = startOfWeek(anchor);
+    return Array.from({ length: 7 }, (_, index) => addDays(start, index));
+  }
+
+  const gridStart = startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1));
+  return Array.from({ length: 42 }, (_, index) => addDays(gridStart, index));
+};
+
+export const shiftAnchor = (mode: CalendarMode, anchor: Date, direction: 1 | -1): Date => {
+  if (mode === 'day') return addDays(anchor, direction);
+  if (mode === 'week') return addDays(anchor, 7 * direction);
+  return addMonths(anchor, direction);
+};
+
+export const getRangeTitle = (mode: CalendarMode, anchor: Date): string => {
+  if (mode === 'day') {
+    return anchor.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' });
+  }
+
+  if (mode === 'week') {
+    const start = startOfWeek(anchor);
+    const end = addDays(start, 6);
+    const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' };
+    return `${start.toLocaleDateString(undefined, options)} - ${end.toLocaleDateString(undefined, options)}`;
+  }
+
+  return anchor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+};
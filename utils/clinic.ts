@@ -0,0 +1,13 @@
+// Clinic letterhead details. Mirrors server/utils/clinic.js.
+import { ClinicDetails } from '../types';
+
+export const EMPTY_CLINIC_DETAILS: ClinicDetails = {
+  name: '',
+  practitionerName: '',
+  qualifications: '',
+  address: '',
+  phone: '',
+  email: '',
+};
+
+export const hasClinicDetails = (clinic?: ClinicDetails): boolean => Boolean(clinic && (clinic.name || clinic.practitionerName));
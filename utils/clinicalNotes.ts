@@ -0,0 +1,76 @@
+// Labels and helpers for structured SOAP notes
+import { BodyRegion, ClinicalNotes, Modality } from '../types';
+
+export const BODY_REGION_OPTIONS: { value: BodyRegion; label: string }[] = [
+  { value: 'head', label: 'Head' },
+  { value: 'neck', label: 'Neck' },
+  { value: 'upper-back', label: 'Upper Back' },
+  { value: 'lower-back', label: 'Lower Back' },
+  { value: 'chest', label: 'Chest' },
+  { value: 'shoulder', label: 'Shoulder' },
+  { value: 'elbow', label: 'Elbow' },
+  { value: 'wrist-hand', label: 'Wrist / Hand' },
+  { value: 'hip', label: 'Hip' },
+  { value: 'pelvis', label: 'Pelvis' },
+  { value: 'thigh', label: 'Thigh' },
+  { value: 'knee', label: 'Knee' },
+  { value: 'lower-leg', label: 'Lower Leg' },
+  { value: 'ankle-foot', label: 'Ankle / Foot' },
+];
+
+export const MODALITY_OPTIONS: { value: Modality; label: string }[] = [
+  { value: 'manual-therapy', label: 'Manual Therapy' },
+  { value: 'exercise-therapy', label: 'Exercise Therapy' },
+  { value: 'massage', label: 'Massage' },
+  { value: 'dry-needling', label: 'Dry Needling' },
+  { value: 'taping', label: 'Taping' },
+  { value: 'ultrasound', label: 'Ultrasound' },
+  { value: 'tens', label: 'TENS' },
+  { value: 'ift', label: 'IFT' },
+  { value: 'shockwave', label: 'Shockwave' },
+  { value: 'laser', label: 'Laser' },
+  { value: 'heat', label: 'Heat' },
+  { value: 'cryotherapy', label: 'Cryotherapy' },
+  { value: 'traction', label: 'Traction' },
+  { value: 'education', label: 'Education' },
+];
+
+export const SOAP_SECTIONS: { key: 'subjective' | 'objective' | 'assessment' | 'plan'; label: string; placeholder: string }[] = [
+  { key: 'subjective', label: 'Subjective', placeholder: 'What the patient reports' },
+  { key: 'objective', label: 'Objective', placeholder: 'Findings, tests and measurements' },
+  { key: 'assessment', label: 'Assessment', placeholder: 'Clinical impression and progress' },
+  { key: 'plan', label: 'Plan', placeholder: 'Treatment plan and next steps' },
+];
+
+export const EMPTY_CLINICAL_NOTES: ClinicalNotes = {
+  subjective: '',
+  objective: '',
+  assessment: '',
+  plan: '',
+  painScore: null,
+  bodyRegions: [],
+  modalities: [],
+};
+
+export const hasClinicalNotes = (notes?: ClinicalNotes): boolean => {
+  if (!notes) return false;
+  return Boolean(
+    notes.subjective || notes.objective || notes.assessment || notes.plan ||
+    notes.painScore !== null || notes.bodyRegions.length > 0 || notes.modalities.length > 0
+  );
+};
+
+export const getBodyRegionLabels = (regions: BodyRegion[] = []): string => {
+  return regions.map(region => BODY_REGION_OPTIONS.find(option => option.value === region)?.label || region).join(', ');
+};
+
+export const getModalityLabels = (modalities: Modality[] = []): string => {
+  return modalities.map(modality => MODALITY_OPTIONS.find(option => option.value === modality)?.label || modality).join(', ');
+};
+
+// Green for mild, orange for moderate and red for severe pain
+export const getPainScoreColor = (score: number): string => {
+  if (score <= 3) return '#34C759';
+  if (score <= 6) return '#FF9F0A';
+  return '#FF453A';
+};
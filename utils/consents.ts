@@ -0,0 +1,74 @@
+// Consent validity and signature helpers. Mirrors server/utils/consents.js.
+import { Consent, ConsentTemplate } from '../types';
+import { fillTemplatePlaceholders } from './noteTemplates';
+import { formatDateKey } from './calendarUtils';
+
+export interface SignaturePoint {
+  x: number;
+  y: number;
+}
+
+// One pen-down to pen-up line of a signature
+export type SignatureStroke = SignaturePoint[];
+
+export const MAX_VALID_FOR_MONTHS = 120;
+
+// Signed, not withdrawn, and not past its expiry
+export const isConsentValid = (consent: Consent, now: Date = new Date()): boolean => {
+  if (consent.withdrawnAt) return false;
+  return !consent.expiresAt || new Date(consent.expiresAt) > now;
+};
+
+// The most recently signed consent still in force, if any
+export const getValidConsent = (consents: Consent[], now: Date = new Date()): Consent | null => {
+  return [...consents]
+    .sort((a, b) => b.signedAt.localeCompare(a.signedAt))
+    .find(consent => isConsentValid(consent, now)) || null;
+};
+
+// e.g. "Valid until 3/14/2027", "Expired 1/2/2026" or "Withdrawn 5/6/2026"
+export const getConsentStatusText = (consent: Consent, now: Date = new Date()): string => {
+  if (consent.withdrawnAt) {
+    return `Withdrawn ${new Date(consent.withdrawnAt).toLocaleDateString()}`;
+  }
+  if (!consent.expiresAt) {
+    return 'No expiry';
+  }
+  const expiresAt = new Date(consent.expiresAt);
+  return `${expiresAt > now ? 'Valid until' : 'Expired'} ${expiresAt.toLocaleDateString()}`;
+};
+
+export const formatValidity = (validForMonths: number | null): string => {
+  if (!validForMonths) return 'Does not expire';
+  return validForMonths === 1 ? 'Valid for 1 month' : `Valid for ${validForMonths} months`;
+};
+
+// The consent text as the patient will read and sign it
+export const fillConsentText = (template: ConsentTemplate, patientName: string, signedAt: Date = new Date()): string => {
+  return fillTemplatePlaceholders(template.body, {
+    patientName,
+    date: formatDateKey(signedAt),
+    time: signedAt.toTimeString().slice(0, 5),
+  });
+};
+
+export const hasSignature = (strokes: SignatureStroke[]): boolean => strokes.some(stroke => stroke.length > 1);
+
+// SVG path data for the drawn strokes, rounded to keep the stored markup small
+export const buildSignaturePath = (strokes: SignatureStroke[]): string => {
+  return strokes
+    .filter(stroke => stroke.length > 1)
+    .map(stroke => stroke
+      .map((point, index) => `${index === 0 ? 'M' : 'L'}${Math.round(point.x)} ${Math.round(point.y)}`)
+      .join(' '))
+    .join(' ');
+};
+
+// Standalone SVG markup stored with the consent as the signature image
+export const buildSignatureSvg = (strokes: SignatureStroke[], width: number, height: number): string => {
+  const w = Math.round(width);
+  const h = Math.round(height);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">`
+    + `<path d="${buildSignaturePath(strokes)}" fill="none" stroke="#000000" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"/>`
+    + '</svg>';
+};
@@ -0,0 +1,47 @@
+// Currency and number format preferences, and the one place money is formatted.
+// Mirrors server/utils/currency.js.
+import { MoneyFormat } from '../types';
+
+export const CURRENCY_OPTIONS: { value: string; label: string }[] = [
+  { value: 'INR', label: 'Indian rupee' },
+  { value: 'USD', label: 'US dollar' },
+  { value: 'EUR', label: 'Euro' },
+  { value: 'GBP', label: 'British pound' },
+  { value: 'AUD', label: 'Australian dollar' },
+  { value: 'CAD', label: 'Canadian dollar' },
+  { value: 'AED', label: 'UAE dirham' },
+  { value: 'SGD', label: 'Singapore dollar' },
+];
+
+// Digit grouping and decimal separator, shown as an example
+export const NUMBER_FORMAT_OPTIONS: { value: string; label: string }[] = [
+  { value: 'en-IN', label: '1,00,000.00' },
+  { value: 'en-US', label: '100,000.00' },
+  { value: 'de-DE', label: '100.000,00' },
+  { value: 'fr-FR', label: '100 000,00' },
+];
+
+export const DEFAULT_MONEY_FORMAT: MoneyFormat = { currency: 'INR', numberFormat: 'en-IN' };
+
+// The signed-in user's format; kept here so plain functions such as exports can format money too
+let currentMoneyFormat: MoneyFormat = DEFAULT_MONEY_FORMAT;
+
+// Called by the auth context whenever the signed-in user changes
+export const setMoneyFormat = (moneyFormat?: MoneyFormat | null) => {
+  currentMoneyFormat = { ...DEFAULT_MONEY_FORMAT, ...moneyFormat };
+};
+
+export const getCurrency = (): string => currentMoneyFormat.currency;
+
+// Money is kept to two decimal places
+export const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+// e.g. "₹1,200.00". Pass the currency stored with a payment or invoice to show it as it was taken.
+export const formatMoney = (amount: number, currency: string = currentMoneyFormat.currency): string => {
+  try {
+    return new Intl.NumberFormat(currentMoneyFormat.numberFormat, { style: 'currency', currency }).format(amount);
+  } catch {
+    // Engines without full Intl support still get a readable amount
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+};
@@ -0,0 +1,181 @@
+// Builds the editable draft of a discharge summary or referral letter for a treatment plan
+import { ClinicDetails, OutcomeMeasureResult, Patient, Session, TreatmentPlan } from '../types';
+import { formatDateKey, parseDateKey } from './calendarUtils';
+import { getModalityLabels } from './clinicalNotes';
+import { formatPrescription } from './exercises';
+import { formatOutcomeScore, getOutcomeBand, getOutcomeImprovement, groupOutcomeResults } from './outcomeMeasures';
+import { getAge, getGenderLabel } from './patientUtils';
+import { getDischargeStatusLabel, getFrequencyLabel, getGoalStatusOption } from './treatmentPlans';
+
+export interface LetterSection {
+  heading: string;
+  text: string; // Sections left empty are not printed
+}
+
+export interface DischargeLetter {
+  recipient: string;
+  subject: string;
+  greeting: string;
+  sections: LetterSection[];
+  closing: string;
+}
+
+const formatDate = (dateKey: string): string => parseDateKey(dateKey).toLocaleDateString();
+
+// Demographics printed under the subject line, e.g. "DOB 3/4/1980 (45), Female · 0300 1234567"
+export const getPatientDetailsLine = (patient: Patient): string => {
+  return [
+    patient.dateOfBirth ? `DOB ${formatDate(patient.dateOfBirth)} (${getAge(patient.dateOfBirth)})` : '',
+    patient.gender ? getGenderLabel(patient.gender) : '',
+    patient.contactNumber,
+  ].filter(Boolean).join(' · ');
+};
+
+const describeDiagnosis = (patient: Patient, plan: TreatmentPlan): string => {
+  const diagnoses = (patient.medicalHistory?.diagnoses || [])
+    .map(diagnosis => [diagnosis.code, diagnosis.description].filter(Boolean).join(' '))
+    .filter(text => text && text !== plan.diagnosis);
+
+  return [plan.diagnosis, ...diagnoses.map(text => `Also: ${text}`)].join('\n');
+};
+
+const describeTreatment = (plan: TreatmentPlan, planSessions: Session[]): string => {
+  const lines: string[] = [];
+
+  if (planSessions.length > 0) {
+    const first = formatDate(planSessions[0].date);
+    const last = formatDate(planSessions[planSessions.length - 1].date);
+    const frequency = getFrequencyLabel(plan.frequencyPerWeek);
+    lines.push(
+      `Seen for ${planSessions.length} of ${plan.plannedSessions} planned sessions`
+      + (planSessions.length > 1 ? ` between ${first} and ${last}` : ` on ${first}`)
+      + (frequency ? `, ${frequency}.` : '.')
+    );
+  } else {
+    lines.push(`No sessions completed yet of ${plan.plannedSessions} planned.`);
+  }
+
+  const modalities = Array.from(new Set(planSessions.flatMap(session => session.clinicalNotes?.modalities || [])));
+  if (modalities.length > 0) {
+    lines.push(`Treatment included ${getModalityLabels(modalities).toLowerCase()}.`);
+  }
+
+  if (plan.goals.length > 0) {
+    lines.push('Goals:');
+    plan.goals.forEach(goal => lines.push(`- ${goal.description}: ${getGoalStatusOption(goal.status).label}`));
+  }
+
+  return lines.join('\n');
+};
+
+// The first assessment and the latest clinical impression from the SOAP notes
+const describeFindings = (planSessions: Session[]): string => {
+  const withNotes = planSessions.filter(session => session.clinicalNotes);
+  if (withNotes.length === 0) return '';
+
+  const lines: string[] = [];
+  const first = withNotes[0];
+  const initial = [first.clinicalNotes?.subjective, first.clinicalNotes?.objective].filter(Boolean).join(' ');
+  if (initial) {
+    lines.push(`On initial assessment (${formatDate(first.date)}): ${initial}`);
+  }
+
+  const last = withNotes[withNotes.length - 1];
+  if (last !== first || !initial) {
+    const latest = [
+      last.clinicalNotes?.assessment,
+      last.clinicalNotes?.painScore !== null && last.clinicalNotes?.painScore !== undefined
+        ? `Pain ${last.clinicalNotes.painScore}/10.`
+        : '',
+    ].filter(Boolean).join(' ');
+    if (latest) {
+      lines.push(`At the last session (${formatDate(last.date)}): ${latest}`);
+    }
+  }
+
+  return lines.join('\n\n');
+};
+
+// Baseline and latest score for each questionnaire completed during the plan
+const describeOutcomes = (results: OutcomeMeasureResult[]): string => {
+  return groupOutcomeResults(results).map(({ definition, results: measureResults }) => {
+    const baseline = measureResults[0];
+    const latest = measureResults[measureResults.length - 1];
+    const describe = (result: OutcomeMeasureResult) =>
+      `${formatOutcomeScore(definition.type, result.score)} (${result.band || getOutcomeBand(definition.type, result.score).label}) on ${formatDate(result.date)}`;
+
+    if (measureResults.length === 1) {
+      return `${definition.shortName}: ${describe(baseline)}`;
+    }
+
+    const { improvement, clinicallyImportant } = getOutcomeImprovement(definition.type, baseline.score, latest.score);
+    const change = improvement === 0
+      ? 'no change'
+      : `${improvement > 0 ? 'improved' : 'worse'} by ${Math.abs(improvement)} points${improvement > 0 && clinicallyImportant ? ', a clinically important change' : ''}`;
+    return `${definition.shortName}: ${describe(baseline)} to ${describe(latest)}, ${change}`;
+  }).join('\n');
+};
+
+const describeDischarge = (plan: TreatmentPlan): string => {
+  if (plan.status !== 'discharged') {
+    return 'Treatment is ongoing.';
+  }
+
+  const dischargedOn = plan.dischargedAt ? ` on ${new Date(plan.dischargedAt).toLocaleDateString()}` : '';
+  return [`Discharged${dischargedOn}: ${getDischargeStatusLabel(plan.dischargeStatus)}.`, plan.dischargeNotes]
+    .filter(Boolean)
+    .join('\n');
+};
+
+const describeRecommendations = (patient: Patient): string => {
+  const exercises = patient.homeExercises || [];
+  if (exercises.length === 0) return '';
+
+  return [
+    'Continue the home exercise program:',
+    ...exercises.map(exercise => {
+      const dosage = formatPrescription(exercise);
+      return `- ${exercise.name}${dosage ? ` (${dosage})` : ''}`;
+    }),
+  ].join('\n');
+};
+
+interface DischargeLetterSource {
+  patient: Patient;
+  plan: TreatmentPlan;
+  sessions: Session[]; // All of the patient's sessions
+  outcomeResults: OutcomeMeasureResult[];
+  clinic?: ClinicDetails;
+}
+
+export const buildDischargeLetter = ({ patient, plan, sessions, outcomeResults, clinic }: DischargeLetterSource): DischargeLetter => {
+  const planSessions = sessions
+    .filter(session => session.treatmentPlanId === plan.id && session.status === 'completed')
+    .sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time));
+
+  // Questionnaires count when they fall inside the plan's dates
+  const planStart = formatDateKey(new Date(plan.createdAt));
+  const planEnd = plan.dischargedAt ? formatDateKey(new Date(plan.dischargedAt)) : null;
+  const planOutcomes = outcomeResults.filter(result =>
+    result.date >= planStart && (!planEnd || result.date <= planEnd)
+  );
+
+  const isDischarged = plan.status === 'discharged';
+
+  return {
+    recipient: patient.referringDoctor || '',
+    subject: `Re: ${patient.name} - ${isDischarged ? 'Discharge Summary' : 'Progress Report'}`,
+    greeting: `Dear ${patient.referringDoctor || 'Doctor'},`,
+    sections: [
+      { heading: 'Diagnosis', text: describeDiagnosis(patient, plan) },
+      { heading: 'Treatment', text: describeTreatment(plan, planSessions) },
+      { heading: 'Clinical Findings', text: describeFindings(planSessions) },
+      { heading: 'Outcome Measures', text: describeOutcomes(planOutcomes) },
+      { heading: isDischarged ? 'Discharge' : 'Current Status', text: describeDischarge(plan) },
+      { heading: 'Recommendations', text: describeRecommendations(patient) },
+    ],
+    closing: ['Yours sincerely,', '', clinic?.practitionerName || '', clinic?.qualifications || '']
+      .join('\n')
+      .trim(),
+  };
+};
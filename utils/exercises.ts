@@ -0,0 +1,38 @@
+// Helpers for the exercise library and home exercise programs. Mirrors server/utils/exercises.js.
+import { Exercise, PrescribedExercise } from '../types';
+
+export const FREQUENCY_SUGGESTIONS = ['Once daily', 'Twice daily', '3x daily', 'Every other day', '3x per week'];
+
+// e.g. "3 sets × 10 reps, hold 5s"
+export const formatDosage = (exercise: Pick<PrescribedExercise, 'sets' | 'reps' | 'holdSeconds'>): string => {
+  const parts: string[] = [];
+  if (exercise.sets) parts.push(`${exercise.sets} ${exercise.sets === 1 ? 'set' : 'sets'}`);
+  if (exercise.reps) parts.push(`${exercise.reps} ${exercise.reps === 1 ? 'rep' : 'reps'}`);
+
+  const dosage = parts.join(' × ');
+  if (!exercise.holdSeconds) return dosage;
+  return dosage ? `${dosage}, hold ${exercise.holdSeconds}s` : `Hold ${exercise.holdSeconds}s`;
+};
+
+// Dosage and frequency on one line, e.g. "3 sets × 10 reps · Twice daily"
+export const formatPrescription = (exercise: Pick<PrescribedExercise, 'sets' | 'reps' | 'holdSeconds' | 'frequency'>): string => {
+  return [formatDosage(exercise), exercise.frequency].filter(Boolean).join(' · ');
+};
+
+// Copies a library exercise into a prescription, keeping its default dosage
+export const toPrescription = (exercise: Exercise): PrescribedExercise => ({
+  exerciseId: exercise.id,
+  name: exercise.name,
+  description: exercise.description,
+  sets: exercise.sets,
+  reps: exercise.reps,
+  holdSeconds: exercise.holdSeconds,
+  frequency: exercise.frequency,
+  notes: '',
+});
+
+// Parses a dosage field; blank means "not specified"
+export const parseDosageInput = (text: string): number | null => {
+  const digits = text.replace(/[^0-9]/g, '');
+  return digits ? parseInt(digits, 10) : null;
+};
@@ -1,7 +1,18 @@
 import * as XLSX from 'xlsx';
 import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
 import { Platform, Share } from 'react-native';
-import { Session } from '../types';
+import { Session, Exercise, PrescribedExercise, ClinicDetails, Invoice } from '../types';
+import { SESSION_STATUS_LABELS } from './sessionStatus';
+import { getBodyRegionLabels, getModalityLabels } from './clinicalNotes';
+import { formatPrescription } from './exercises';
+import { getJointLabel, MOVEMENT_LABELS, SIDE_OPTIONS } from './measurements';
+import { parseDateKey } from './calendarUtils';
+import { DischargeLetter } from './dischargeLetter';
+import { getRevenueByService } from './services';
+import { getInvoiceItemTypeLabel, getInvoiceStatusOption, getLineAmount, getTaxBreakdown } from './invoices';
+import { formatMoney } from './currency';
 
 /**
  * Formats a session for Excel export by creating a flattened object with readable properties
@@ -9,18 +20,56 @@ import { Session } from '../types';
 const formatSessionForExport = (session: Session) => {
   // Format date for better readability
   const formattedDate = new Date(session.date).toLocaleDateString();
+  const clinicalNotes = session.clinicalNotes;
   
   return {
     'Patient Name': session.patientName,
     'Date': formattedDate,
     'Time': session.time,
+    'Service': session.serviceName || '',
+    'Subjective': clinicalNotes?.subjective || '',
+    'Objective': clinicalNotes?.objective || '',
+    'Assessment': clinicalNotes?.assessment || '',
+    'Plan': clinicalNotes?.plan || '',
+    'Pain (VAS 0-10)': clinicalNotes?.painScore ?? '',
+    'Body Regions': getBodyRegionLabels(clinicalNotes?.bodyRegions),
+    'Modalities': getModalityLabels(clinicalNotes?.modalities),
     'Notes': session.notes,
-    'Status': session.completed ? 'Completed' : 'Pending',
-    'Amount Paid': session.amount !== undefined ? `$${session.amount.toFixed(2)}` : 'Not paid',
+    'Status': SESSION_STATUS_LABELS[session.status],
+    'Status Reason': session.statusReason || '',
+    'Fee': session.amount !== undefined && session.amount !== null ? formatMoney(session.amount) : '',
+    'Amount Paid': session.packageId ? 'Prepaid package' : formatMoney(session.amountPaid || 0),
     'Created At': new Date(session.createdAt).toLocaleDateString(),
   };
 };
 
+/**
+ * Flattens the measurements taken at each session into one row per measurement
+ */
+const formatMeasurementsForExport = (sessions: Session[]) => {
+  return sessions.flatMap(session => (session.measurements || []).map(measurement => ({
+    'Date': new Date(session.date).toLocaleDateString(),
+    'Joint': getJointLabel(measurement.joint),
+    'Movement': MOVEMENT_LABELS[measurement.movement],
+    'Side': SIDE_OPTIONS.find(option => option.value === measurement.side)?.label || '',
+    'AROM (°)': measurement.activeRom ?? '',
+    'PROM (°)': measurement.passiveRom ?? '',
+    'MMT (0-5)': measurement.strength ?? '',
+  })));
+};
+
+/**
+ * Totals completed sessions by the service they were booked as
+ */
+const formatRevenueByServiceForExport = (sessions: Session[]) => {
+  return getRevenueByService(sessions).map(row => ({
+    'Service': row.serviceName || 'No service',
+    'Sessions': row.sessions,
+    'Fees': formatMoney(row.fees),
+    'Paid': formatMoney(row.paid),
+  }));
+};
+
 /**
  * Exports sessions to an Excel file and shares it
  */
@@ -35,6 +84,18 @@ export const exportSessionsToExcel = async (sessions: Session[], patientName: st
     // Create a workbook with the worksheet
     const workbook = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(workbook, worksheet, 'Sessions');
+
+    // Range of motion and strength go on their own sheet, one row per measurement
+    const measurementRows = formatMeasurementsForExport(sessions);
+    if (measurementRows.length > 0) {
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(measurementRows), 'Measurements');
+    }
+
+    // Revenue broken down by service, for completed sessions
+    const revenueRows = formatRevenueByServiceForExport(sessions);
+    if (revenueRows.length > 0) {
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(revenueRows), 'Revenue by Service');
+    }
     
     // Generate the Excel file
     const wbout = XLSX.write(workbook, { type: 'base64', bookType: 'xlsx' });
@@ -62,4 +123,308 @@ export const exportSessionsToExcel = async (sessions: Session[], patientName: st
     console.error('Error exporting sessions:', error);
     return false;
   }
-}; 
\ No newline at end of file
+}; 
+
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+/**
+ * Builds a printable HTML handout for a home exercise program. Pictures come from the
+ * library entry each exercise was prescribed from.
+ */
+const buildExerciseHandoutHtml = (patientName: string, exercises: PrescribedExercise[], library: Exercise[]): string => {
+  const items = exercises.map((exercise, index) => {
+    const image = library.find(entry => entry.id === exercise.exerciseId)?.image;
+    const dosage = formatPrescription(exercise);
+
+    return `
+      <div class="exercise">
+        <h2>${index + 1}. ${escapeHtml(exercise.name)}</h2>
+        ${image ? `<img src="${image}" alt="" />` : ''}
+        ${dosage ? `<p class="dosage">${escapeHtml(dosage)}</p>` : ''}
+        ${exercise.description ? `<p>${escapeHtml(exercise.description)}</p>` : ''}
+        ${exercise.notes ? `<p class="notes">${escapeHtml(exercise.notes)}</p>` : ''}
+      </div>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>Home Exercise Program - ${escapeHtml(patientName)}</title>
+  <style>
+    body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #1C1C1E; margin: 24px; }
+    h1 { font-size: 22px; margin-bottom: 4px; }
+    .date { color: #8E8E93; margin-top: 0; }
+    .exercise { border-top: 1px solid #E5E5EA; padding: 16px 0; page-break-inside: avoid; }
+    .exercise h2 { font-size: 18px; margin: 0 0 8px; }
+    .exercise img { max-width: 100%; max-height: 240px; border-radius: 8px; }
+    .dosage { font-weight: 600; color: #0A84FF; }
+    .notes { font-style: italic; }
+  </style>
+</head>
+<body>
+  <h1>Home Exercise Program for ${escapeHtml(patientName)}</h1>
+  <p class="date">${new Date().toLocaleDateString()}</p>
+  ${items}
+</body>
+</html>`;
+};
+
+/**
+ * Writes a home exercise program handout to an HTML file and shares it
+ */
+export const shareExerciseHandout = async (
+  patientName: string,
+  exercises: PrescribedExercise[],
+  library: Exercise[]
+): Promise<boolean> => {
+  try {
+    const html = buildExerciseHandoutHtml(patientName, exercises, library);
+
+    const fileName = `${patientName.replace(/\s+/g, '_')}_Exercises_${new Date().toISOString().split('T')[0]}.html`;
+    const fileUri = `${FileSystem.documentDirectory}${fileName}`;
+
+    await FileSystem.writeAsStringAsync(fileUri, html, {
+      encoding: FileSystem.EncodingType.UTF8
+    });
+
+    await Share.share({
+      title: 'Home Exercise Program',
+      message: `${patientName}'s Home Exercise Program`,
+      url: fileUri,
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Error sharing exercise handout:', error);
+    return false;
+  }
+};
+
+/**
+ * Saves a chart captured as a base64 PNG and shares it
+ */
+export const shareChartImage = async (base64: string, patientName: string, chartTitle: string): Promise<boolean> => {
+  try {
+    const fileName = `${patientName.replace(/\s+/g, '_')}_${chartTitle.replace(/\W+/g, '_')}_${new Date().toISOString().split('T')[0]}.png`;
+    const fileUri = `${FileSystem.documentDirectory}${fileName}`;
+
+    await FileSystem.writeAsStringAsync(fileUri, base64, {
+      encoding: FileSystem.EncodingType.Base64
+    });
+
+    await Share.share({
+      title: chartTitle,
+      message: `${patientName} - ${chartTitle}`,
+      url: fileUri,
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Error sharing chart:', error);
+    return false;
+  }
+};
+
+// Paragraph breaks stay as typed in the letter editor
+const formatLetterText = (text: string): string => {
+  return text
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br />')}</p>`)
+    .join('');
+};
+
+// Clinic name, practitioner and contact line; empty when no clinic details are set
+const buildLetterheadHtml = (clinic?: ClinicDetails): string => {
+  if (!clinic || !(clinic.name || clinic.practitionerName)) return '';
+
+  const contact = [clinic.address, clinic.phone, clinic.email].filter(Boolean).map(escapeHtml).join(' &middot; ');
+  return `
+  <div class="letterhead">
+    <h1>${escapeHtml(clinic.name || clinic.practitionerName)}</h1>
+    ${clinic.name && clinic.practitionerName ? `<p>${escapeHtml([clinic.practitionerName, clinic.qualifications].filter(Boolean).join(', '))}</p>` : ''}
+    ${contact ? `<p class="contact">${contact}</p>` : ''}
+  </div>`;
+};
+
+/**
+ * Builds a printable A4 HTML letter with the clinic letterhead. Sections left empty
+ * in the editor are left out.
+ */
+const buildDischargeLetterHtml = (letter: DischargeLetter, patientDetails: string, clinic?: ClinicDetails): string => {
+  const letterhead = buildLetterheadHtml(clinic);
+
+  const sections = letter.sections
+    .filter(section => section.text.trim())
+    .map(section => `
+  <h2>${escapeHtml(section.heading)}</h2>
+  ${formatLetterText(section.text.trim())}`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${escapeHtml(letter.subject)}</title>
+  <style>
+    @page { size: A4; margin: 20mm; }
+    body { font-family: Georgia, 'Times New Roman', serif; color: #1C1C1E; margin: 24px; font-size: 14px; line-height: 1.5; }
+    .letterhead { border-bottom: 2px solid #0A84FF; padding-bottom: 8px; margin-bottom: 24px; }
+    .letterhead h1 { font-size: 22px; margin: 0; color: #0A84FF; }
+    .letterhead p { margin: 2px 0; }
+    .contact { color: #8E8E93; font-size: 12px; }
+    .date { text-align: right; }
+    .subject { font-weight: bold; margin-bottom: 0; }
+    .details { color: #3A3A3C; margin-top: 2px; }
+    h2 { font-size: 15px; margin: 18px 0 4px; }
+    p { margin: 0 0 8px; }
+    .closing { margin-top: 24px; }
+  </style>
+</head>
+<body>
+  ${letterhead}
+  <p class="date">${new Date().toLocaleDateString()}</p>
+  ${letter.recipient.trim() ? formatLetterText(letter.recipient.trim()) : ''}
+  <p class="subject">${escapeHtml(letter.subject)}</p>
+  ${patientDetails ? `<p class="details">${escapeHtml(patientDetails)}</p>` : ''}
+  <p>${escapeHtml(letter.greeting)}</p>
+  ${sections}
+  <div class="closing">${formatLetterText(letter.closing)}</div>
+</body>
+</html>`;
+};
+
+/**
+ * Renders HTML to a PDF named fileName and opens the share sheet for it
+ */
+const sharePdf = async (html: string, fileName: string, title: string): Promise<void> => {
+  const { uri } = await Print.printToFileAsync({ html });
+
+  // The printed file gets a random name, so give it one the recipient will recognise
+  const fileUri = `${FileSystem.documentDirectory}${fileName}`;
+  await FileSystem.deleteAsync(fileUri, { idempotent: true });
+  await FileSystem.moveAsync({ from: uri, to: fileUri });
+
+  await Sharing.shareAsync(fileUri, {
+    mimeType: 'application/pdf',
+    UTI: 'com.adobe.pdf',
+    dialogTitle: title,
+  });
+};
+
+/**
+ * Renders a discharge summary or referral letter to a PDF and shares it
+ */
+export const shareDischargeLetter = async (
+  letter: DischargeLetter,
+  patientName: string,
+  patientDetails: string,
+  clinic?: ClinicDetails
+): Promise<boolean> => {
+  try {
+    const fileName = `${patientName.replace(/\s+/g, '_')}_Letter_${new Date().toISOString().split('T')[0]}.pdf`;
+    await sharePdf(buildDischargeLetterHtml(letter, patientDetails, clinic), fileName, letter.subject);
+    return true;
+  } catch (error) {
+    console.error('Error sharing discharge letter:', error);
+    return false;
+  }
+};
+
+/**
+ * Builds a printable A4 HTML invoice from the clinic details saved on it when it was issued
+ */
+const buildInvoiceHtml = (invoice: Invoice): string => {
+  const status = getInvoiceStatusOption(invoice.status);
+
+  const rows = invoice.items.map(item => `
+      <tr>
+        <td>${escapeHtml(item.description)}<div class="type">${escapeHtml(getInvoiceItemTypeLabel(item.type))}</div></td>
+        <td class="num">${item.quantity}</td>
+        <td class="num">${formatMoney(item.unitPrice, invoice.currency)}</td>
+        <td class="num">${item.taxRate}%</td>
+        <td class="num">${formatMoney(getLineAmount(item), invoice.currency)}</td>
+      </tr>`).join('');
+
+  const taxRows = getTaxBreakdown(invoice.items, invoice.discountPercent).map(entry => `
+      <tr><td>Tax ${entry.rate}% on ${formatMoney(entry.taxable, invoice.currency)}</td><td class="num">${formatMoney(entry.tax, invoice.currency)}</td></tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>Invoice ${escapeHtml(invoice.number)}</title>
+  <style>
+    @page { size: A4; margin: 20mm; }
+    body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #1C1C1E; margin: 24px; font-size: 14px; }
+    .letterhead { border-bottom: 2px solid #0A84FF; padding-bottom: 8px; margin-bottom: 24px; }
+    .letterhead h1 { font-size: 22px; margin: 0; color: #0A84FF; }
+    .letterhead p { margin: 2px 0; }
+    .contact { color: #8E8E93; font-size: 12px; }
+    .header { display: flex; justify-content: space-between; margin-bottom: 24px; }
+    .header h2 { margin: 0 0 6px; font-size: 20px; }
+    .header p { margin: 2px 0; }
+    .status { font-weight: bold; color: ${status.color}; }
+    table { width: 100%; border-collapse: collapse; }
+    th { text-align: left; border-bottom: 2px solid #1C1C1E; padding: 6px 4px; }
+    td { border-bottom: 1px solid #E5E5EA; padding: 6px 4px; vertical-align: top; }
+    .num { text-align: right; white-space: nowrap; }
+    .type { color: #8E8E93; font-size: 11px; }
+    .totals { width: 50%; margin-left: auto; margin-top: 12px; }
+    .totals td { border-bottom: none; padding: 3px 4px; }
+    .grand td { font-weight: bold; font-size: 16px; border-top: 2px solid #1C1C1E; }
+    .notes { margin-top: 24px; white-space: pre-wrap; }
+  </style>
+</head>
+<body>
+  ${buildLetterheadHtml(invoice.clinic)}
+  <div class="header">
+    <div>
+      <h2>Invoice ${escapeHtml(invoice.number)}</h2>
+      <p>Billed to: ${escapeHtml(invoice.patientName)}</p>
+    </div>
+    <div>
+      <p>Issued: ${parseDateKey(invoice.issueDate).toLocaleDateString()}</p>
+      ${invoice.dueDate ? `<p>Due: ${parseDateKey(invoice.dueDate).toLocaleDateString()}</p>` : ''}
+      <p class="status">${escapeHtml(status.label)}${invoice.paidAt ? ` on ${new Date(invoice.paidAt).toLocaleDateString()}` : ''}</p>
+    </div>
+  </div>
+  <table>
+    <thead>
+      <tr><th>Description</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Tax</th><th class="num">Amount</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  <table class="totals">
+    <tr><td>Subtotal</td><td class="num">${formatMoney(invoice.subtotal, invoice.currency)}</td></tr>
+    ${invoice.discountTotal > 0 ? `<tr><td>Discount (${invoice.discountPercent}%)</td><td class="num">-${formatMoney(invoice.discountTotal, invoice.currency)}</td></tr>` : ''}${taxRows}
+    <tr class="grand"><td>Total</td><td class="num">${formatMoney(invoice.total, invoice.currency)}</td></tr>
+  </table>
+  ${invoice.notes ? `<p class="notes">${escapeHtml(invoice.notes)}</p>` : ''}
+</body>
+</html>`;
+};
+
+/**
+ * Renders an invoice to a PDF and shares it
+ */
+export const shareInvoice = async (invoice: Invoice): Promise<boolean> => {
+  try {
+    const fileName = `Invoice_${invoice.number}_${invoice.patientName.replace(/\s+/g, '_')}.pdf`;
+    await sharePdf(buildInvoiceHtml(invoice), fileName, `Invoice ${invoice.number}`);
+    return true;
+  } catch (error) {
+    console.error('Error sharing invoice:', error);
+    return false;
+  }
+};
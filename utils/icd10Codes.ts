@@ -0,0 +1,172 @@
+// Bundled ICD-10 codes for conditions commonly seen in physiotherapy practice,
+// so diagnoses can be looked up without a network service.
+
+export interface Icd10Code {
+  code: string;
+  description: string;
+}
+
+export const ICD10_CODES: Icd10Code[] = [
+  // Spine
+  { code: 'M54.2', description: 'Cervicalgia (neck pain)' },
+  { code: 'M54.5', description: 'Low back pain' },
+  { code: 'M54.6', description: 'Pain in thoracic spine' },
+  { code: 'M54.3', description: 'Sciatica' },
+  { code: 'M54.4', description: 'Lumbago with sciatica' },
+  { code: 'M54.1', description: 'Radiculopathy' },
+  { code: 'M53.1', description: 'Cervicobrachial syndrome' },
+  { code: 'M53.0', description: 'Cervicocranial syndrome' },
+  { code: 'M53.3', description: 'Sacrococcygeal disorders (coccydynia)' },
+  { code: 'M51.1', description: 'Lumbar and other intervertebral disc disorders with radiculopathy' },
+  { code: 'M51.2', description: 'Other specified intervertebral disc displacement' },
+  { code: 'M50.1', description: 'Cervical disc disorder with radiculopathy' },
+  { code: 'M50.2', description: 'Other cervical disc displacement' },
+  { code: 'M47.8', description: 'Other spondylosis' },
+  { code: 'M47.2', description: 'Other spondylosis with radiculopathy' },
+  { code: 'M48.0', description: 'Spinal stenosis' },
+  { code: 'M43.1', description: 'Spondylolisthesis' },
+  { code: 'M41.1', description: 'Juvenile and adolescent idiopathic scoliosis' },
+  { code: 'M40.2', description: 'Other and unspecified kyphosis' },
+  { code: 'M45', description: 'Ankylosing spondylitis' },
+  { code: 'M46.1', description: 'Sacroiliitis, not elsewhere classified' },
+  { code: 'M53.2', description: 'Spinal instabilities' },
+  { code: 'S13.4', description: 'Sprain and strain of cervical spine (whiplash)' },
+  { code: 'S33.5', description: 'Sprain and strain of lumbar spine' },
+
+  // Shoulder
+  { code: 'M75.0', description: 'Adhesive capsulitis of shoulder (frozen shoulder)' },
+  { code: 'M75.1', description: 'Rotator cuff syndrome' },
+  { code: 'M75.2', description: 'Bicipital tendinitis' },
+  { code: 'M75.3', description: 'Calcific tendinitis of shoulder' },
+  { code: 'M75.4', description: 'Impingement syndrome of shoulder' },
+  { code: 'M75.5', description: 'Bursitis of shoulder' },
+  { code: 'M25.51', description: 'Pain in shoulder' },
+  { code: 'S43.0', description: 'Dislocation of shoulder joint' },
+  { code: 'S43.4', description: 'Sprain and strain of shoulder joint' },
+  { code: 'S46.0', description: 'Injury of rotator cuff tendon' },
+  { code: 'S42.2', description: 'Fracture of upper end of humerus' },
+
+  // Elbow, wrist and hand
+  { code: 'M77.0', description: 'Medial epicondylitis (golfer\'s elbow)' },
+  { code: 'M77.1', description: 'Lateral epicondylitis (tennis elbow)' },
+  { code: 'M70.2', description: 'Olecranon bursitis' },
+  { code: 'G56.0', description: 'Carpal tunnel syndrome' },
+  { code: 'G56.2', description: 'Lesion of ulnar nerve (cubital tunnel syndrome)' },
+  { code: 'M65.4', description: 'Radial styloid tenosynovitis (de Quervain)' },
+  { code: 'M65.3', description: 'Trigger finger' },
+  { code: 'M72.0', description: 'Palmar fascial fibromatosis (Dupuytren)' },
+  { code: 'M18.9', description: 'Arthrosis of first carpometacarpal joint' },
+  { code: 'S52.5', description: 'Fracture of lower end of radius (Colles)' },
+  { code: 'S63.5', description: 'Sprain and strain of wrist' },
+  { code: 'S62.0', description: 'Fracture of navicular (scaphoid) bone of hand' },
+
+  // Hip and pelvis
+  { code: 'M16.9', description: 'Coxarthrosis (hip osteoarthritis), unspecified' },
+  { code: 'M16.1', description: 'Other primary coxarthrosis' },
+  { code: 'M70.6', description: 'Trochanteric bursitis' },
+  { code: 'M76.0', description: 'Gluteal tendinitis' },
+  { code: 'M24.85', description: 'Other specific joint derangements of hip (labral tear)' },
+  { code: 'M25.55', description: 'Pain in hip' },
+  { code: 'M87.0', description: 'Idiopathic aseptic necrosis of bone (hip)' },
+  { code: 'S72.0', description: 'Fracture of neck of femur' },
+  { code: 'S72.1', description: 'Pertrochanteric fracture' },
+  { code: 'S76.0', description: 'Injury of muscle and tendon of hip' },
+  { code: 'O26.7', description: 'Subluxation of symphysis pubis in pregnancy (pelvic girdle pain)' },
+
+  // Knee
+  { code: 'M17.9', description: 'Gonarthrosis (knee osteoarthritis), unspecified' },
+  { code: 'M17.1', description: 'Other primary gonarthrosis' },
+  { code: 'M22.2', description: 'Patellofemoral disorders (patellofemoral pain)' },
+  { code: 'M22.4', description: 'Chondromalacia patellae' },
+  { code: 'M23.2', description: 'Derangement of meniscus due to old tear or injury' },
+  { code: 'M76.5', description: 'Patellar tendinitis' },
+  { code: 'M76.3', description: 'Iliotibial band syndrome' },
+  { code: 'M70.4', description: 'Prepatellar bursitis' },
+  { code: 'M25.56', description: 'Pain in knee' },
+  { code: 'S83.2', description: 'Tear of meniscus, current' },
+  { code: 'S83.5', description: 'Sprain and strain involving (anterior) (posterior) cruciate ligament of knee' },
+  { code: 'S83.4', description: 'Sprain and strain involving (fibular) (tibial) collateral ligament of knee' },
+  { code: 'Z96.65', description: 'Presence of artificial knee joint' },
+  { code: 'Z96.64', description: 'Presence of artificial hip joint' },
+
+  // Ankle and foot
+  { code: 'M72.2', description: 'Plantar fascial fibromatosis (plantar fasciitis)' },
+  { code: 'M76.6', description: 'Achilles tendinitis' },
+  { code: 'M76.8', description: 'Other enthesopathies of lower limb (shin splints)' },
+  { code: 'M77.4', description: 'Metatarsalgia' },
+  { code: 'M20.1', description: 'Hallux valgus (acquired)' },
+  { code: 'M21.4', description: 'Flat foot (pes planus) (acquired)' },
+  { code: 'M25.57', description: 'Pain in ankle and joints of foot' },
+  { code: 'S93.4', description: 'Sprain and strain of ankle' },
+  { code: 'S82.6', description: 'Fracture of lateral malleolus' },
+  { code: 'S82.8', description: 'Fractures of other parts of lower leg (ankle)' },
+  { code: 'S86.0', description: 'Injury of Achilles tendon' },
+
+  // General musculoskeletal
+  { code: 'M79.1', description: 'Myalgia' },
+  { code: 'M79.7', description: 'Fibromyalgia' },
+  { code: 'M62.8', description: 'Other specified disorders of muscle (muscle strain)' },
+  { code: 'M62.4', description: 'Contracture of muscle' },
+  { code: 'M19.9', description: 'Arthrosis, unspecified' },
+  { code: 'M06.9', description: 'Rheumatoid arthritis, unspecified' },
+  { code: 'M10.9', description: 'Gout, unspecified' },
+  { code: 'M81.0', description: 'Postmenopausal osteoporosis' },
+  { code: 'M80.0', description: 'Postmenopausal osteoporosis with pathological fracture' },
+  { code: 'M35.3', description: 'Polymyalgia rheumatica' },
+  { code: 'M89.0', description: 'Algoneurodystrophy (complex regional pain syndrome)' },
+  { code: 'M25.6', description: 'Stiffness of joint, not elsewhere classified' },
+  { code: 'M24.5', description: 'Contracture of joint' },
+  { code: 'M62.5', description: 'Muscle wasting and atrophy, not elsewhere classified' },
+  { code: 'R26.8', description: 'Other abnormalities of gait and mobility' },
+  { code: 'R26.2', description: 'Difficulty in walking, not elsewhere classified' },
+  { code: 'R29.6', description: 'Tendency to fall, not elsewhere classified' },
+  { code: 'R52.2', description: 'Other chronic pain' },
+  { code: 'Z47.8', description: 'Other specified orthopaedic follow-up care' },
+  { code: 'Z50.1', description: 'Other physical therapy' },
+
+  // Neurological
+  { code: 'I63.9', description: 'Cerebral infarction (stroke), unspecified' },
+  { code: 'I69.3', description: 'Sequelae of cerebral infarction' },
+  { code: 'G81.9', description: 'Hemiplegia, unspecified' },
+  { code: 'G20', description: 'Parkinson disease' },
+  { code: 'G35', description: 'Multiple sclerosis' },
+  { code: 'G51.0', description: 'Bell palsy' },
+  { code: 'G57.0', description: 'Lesion of sciatic nerve' },
+  { code: 'G57.1', description: 'Meralgia paraesthetica' },
+  { code: 'G62.9', description: 'Polyneuropathy, unspecified' },
+  { code: 'G80.9', description: 'Cerebral palsy, unspecified' },
+  { code: 'G61.0', description: 'Guillain-Barre syndrome' },
+  { code: 'G12.2', description: 'Motor neuron disease' },
+  { code: 'G44.2', description: 'Tension-type headache' },
+  { code: 'H81.1', description: 'Benign paroxysmal vertigo' },
+  { code: 'S06.0', description: 'Concussion' },
+  { code: 'T91.3', description: 'Sequelae of injury of spinal cord' },
+
+  // Cardiorespiratory and other
+  { code: 'J44.9', description: 'Chronic obstructive pulmonary disease, unspecified' },
+  { code: 'J45.9', description: 'Asthma, unspecified' },
+  { code: 'E84.9', description: 'Cystic fibrosis, unspecified' },
+  { code: 'I25.9', description: 'Chronic ischaemic heart disease, unspecified' },
+  { code: 'I50.9', description: 'Heart failure, unspecified' },
+  { code: 'U09.9', description: 'Post COVID-19 condition' },
+  { code: 'I89.0', description: 'Lymphoedema, not elsewhere classified' },
+  { code: 'N39.3', description: 'Stress incontinence' },
+  { code: 'M62.08', description: 'Separation of muscle (diastasis recti)' },
+];
+
+// Case-insensitive lookup by code prefix or description words
+export const searchIcd10Codes = (query: string, limit = 8): Icd10Code[] => {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) {
+    return [];
+  }
+
+  const codeMatches = ICD10_CODES.filter(item => item.code.toLowerCase().startsWith(normalized));
+  const words = normalized.split(/\s+/);
+  const descriptionMatches = ICD10_CODES.filter(item =>
+    !codeMatches.includes(item) &&
+    words.every(word => item.description.toLowerCase().includes(word))
+  );
+
+  return [...codeMatches, ...descriptionMatches].slice(0, limit);
+};
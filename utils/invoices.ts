@@ -0,0 +1,85 @@
+// Labels and totals for invoices. Mirrors server/utils/invoices.js.
+import { InvoiceItem, InvoiceItemType, InvoiceStatus, Session } from '../types';
+import { parseDateKey } from './calendarUtils';
+import { roundMoney } from './currency';
+
+export const INVOICE_ITEM_TYPE_OPTIONS: { value: InvoiceItemType; label: string }[] = [
+  { value: 'session', label: 'Session' },
+  { value: 'consumable', label: 'Consumable' },
+  { value: 'package', label: 'Package' },
+  { value: 'other', label: 'Other' },
+];
+
+export const INVOICE_STATUS_OPTIONS: { value: InvoiceStatus; label: string; color: string }[] = [
+  { value: 'issued', label: 'Unpaid', color: '#FF9500' },
+  { value: 'paid', label: 'Paid', color: '#34C759' },
+  { value: 'void', label: 'Void', color: '#8E8E93' },
+];
+
+// Common GST slabs offered as chips; any rate can still be typed
+export const TAX_RATE_OPTIONS = [0, 5, 12, 18];
+
+export const EMPTY_INVOICE_ITEM: InvoiceItem = {
+  type: 'other',
+  description: '',
+  quantity: 1,
+  unitPrice: 0,
+  taxRate: 0,
+  sessionId: null,
+};
+
+export const getInvoiceStatusOption = (status: InvoiceStatus) => {
+  return INVOICE_STATUS_OPTIONS.find(option => option.value === status) || INVOICE_STATUS_OPTIONS[0];
+};
+
+export const getInvoiceItemTypeLabel = (type: InvoiceItemType): string => {
+  return INVOICE_ITEM_TYPE_OPTIONS.find(option => option.value === type)?.label || type;
+};
+
+export const getLineAmount = (item: Pick<InvoiceItem, 'quantity' | 'unitPrice'>): number => roundMoney(item.quantity * item.unitPrice);
+
+// The discount comes off every line before tax, as on the server
+export const calculateInvoiceTotals = (items: InvoiceItem[], discountPercent: number) => {
+  const totals = items.reduce((sums, item) => {
+    const lineAmount = item.quantity * item.unitPrice;
+    const discount = lineAmount * (discountPercent / 100);
+    return {
+      subtotal: sums.subtotal + lineAmount,
+      discountTotal: sums.discountTotal + discount,
+      taxTotal: sums.taxTotal + (lineAmount - discount) * (item.taxRate / 100),
+    };
+  }, { subtotal: 0, discountTotal: 0, taxTotal: 0 });
+
+  const subtotal = roundMoney(totals.subtotal);
+  const discountTotal = roundMoney(totals.discountTotal);
+  const taxTotal = roundMoney(totals.taxTotal);
+  return { subtotal, discountTotal, taxTotal, total: roundMoney(subtotal - discountTotal + taxTotal) };
+};
+
+// Taxable amount and tax for each rate charged, lowest rate first
+export const getTaxBreakdown = (items: InvoiceItem[], discountPercent: number): { rate: number; taxable: number; tax: number }[] => {
+  const byRate = new Map<number, number>();
+  items.filter(item => item.taxRate > 0).forEach(item => {
+    const taxable = item.quantity * item.unitPrice * (1 - discountPercent / 100);
+    byRate.set(item.taxRate, (byRate.get(item.taxRate) || 0) + taxable);
+  });
+
+  return Array.from(byRate.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([rate, taxable]) => ({ rate, taxable: roundMoney(taxable), tax: roundMoney(taxable * rate / 100) }));
+};
+
+// Completed sessions that haven't been billed yet or paid for by a prepaid package
+export const isInvoiceable = (session: Session): boolean => {
+  return session.status === 'completed' && !session.invoiceId && !session.packageId;
+};
+
+// A line billing one session, priced at the amount recorded on it
+export const buildSessionItem = (session: Session, taxRate = 0): InvoiceItem => ({
+  type: 'session',
+  description: `Physiotherapy session on ${parseDateKey(session.date).toLocaleDateString()}${session.duration ? ` (${session.duration} min)` : ''}`,
+  quantity: 1,
+  unitPrice: session.amount || 0,
+  taxRate,
+  sessionId: session.id,
+});
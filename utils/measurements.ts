@@ -0,0 +1,198 @@
+// Labels and helpers for range of motion and strength measurements
+import { Joint, JointMovement, Measurement, MeasurementSide, Session } from '../types';
+
+export const JOINT_OPTIONS: { value: Joint; label: string; movements: JointMovement[] }[] = [
+  { value: 'cervical-spine', label: 'Cervical Spine', movements: ['flexion', 'extension', 'lateral-flexion', 'rotation'] },
+  { value: 'lumbar-spine', label: 'Lumbar Spine', movements: ['flexion', 'extension', 'lateral-flexion', 'rotation'] },
+  {
+    value: 'shoulder',
+    label: 'Shoulder',
+    movements: ['flexion', 'extension', 'abduction', 'adduction', 'internal-rotation', 'external-rotation']
+  },
+  { value: 'elbow', label: 'Elbow', movements: ['flexion', 'extension'] },
+  { value: 'forearm', label: 'Forearm', movements: ['pronation', 'supination'] },
+  { value: 'wrist', label: 'Wrist', movements: ['flexion', 'extension', 'radial-deviation', 'ulnar-deviation'] },
+  {
+    value: 'hip',
+    label: 'Hip',
+    movements: ['flexion', 'extension', 'abduction', 'adduction', 'internal-rotation', 'external-rotation']
+  },
+  { value: 'knee', label: 'Knee', movements: ['flexion', 'extension'] },
+  { value: 'ankle', label: 'Ankle', movements: ['dorsiflexion', 'plantarflexion', 'inversion', 'eversion'] },
+];
+
+export const MOVEMENT_LABELS: Record<JointMovement, string> = {
+  'flexion': 'Flexion',
+  'extension': 'Extension',
+  'lateral-flexion': 'Lateral Flexion',
+  'rotation': 'Rotation',
+  'abduction': 'Abduction',
+  'adduction': 'Adduction',
+  'internal-rotation': 'Internal Rotation',
+  'external-rotation': 'External Rotation',
+  'pronation': 'Pronation',
+  'supination': 'Supination',
+  'radial-deviation': 'Radial Deviation',
+  'ulnar-deviation': 'Ulnar Deviation',
+  'dorsiflexion': 'Dorsiflexion',
+  'plantarflexion': 'Plantarflexion',
+  'inversion': 'Inversion',
+  'eversion': 'Eversion',
+};
+
+// Negative values record hyperextension or a lack of full extension
+export const MIN_ROM = -30;
+export const MAX_ROM = 200;
+
+export const SIDE_OPTIONS: { value: MeasurementSide; label: string }[] = [
+  { value: 'left', label: 'Left' },
+  { value: 'right', label: 'Right' },
+  { value: 'none', label: 'N/A' },
+];
+
+// Oxford scale used for manual muscle testing
+export const STRENGTH_GRADES: { value: number; description: string }[] = [
+  { value: 0, description: 'No contraction' },
+  { value: 1, description: 'Flicker of contraction' },
+  { value: 2, description: 'Movement with gravity eliminated' },
+  { value: 3, description: 'Movement against gravity' },
+  { value: 4, description: 'Movement against some resistance' },
+  { value: 5, description: 'Normal strength' },
+];
+
+export const EMPTY_MEASUREMENT: Measurement = {
+  joint: 'knee',
+  movement: 'flexion',
+  side: 'right',
+  activeRom: null,
+  passiveRom: null,
+  strength: null,
+};
+
+export const getJointLabel = (joint: Joint): string =>
+  JOINT_OPTIONS.find(option => option.value === joint)?.label || joint;
+
+export const getJointMovements = (joint: Joint): JointMovement[] =>
+  JOINT_OPTIONS.find(option => option.value === joint)?.movements || [];
+
+const getSideLabel = (side: MeasurementSide): string =>
+  SIDE_OPTIONS.find(option => option.value === side)?.label || '';
+
+// e.g. "Right Knee Flexion"
+export const getMeasurementName = (measurement: Pick<Measurement, 'joint' | 'movement' | 'side'>): string =>
+  [
+    measurement.side === 'none' ? '' : getSideLabel(measurement.side),
+    getJointLabel(measurement.joint),
+    MOVEMENT_LABELS[measurement.movement]
+  ].filter(Boolean).join(' ');
+
+// e.g. "AROM 110° · PROM 120° · MMT 4/5"
+export const formatMeasurementValues = (measurement: Pick<Measurement, 'activeRom' | 'passiveRom' | 'strength'>): string => {
+  const parts: string[] = [];
+  if (measurement.activeRom !== null) parts.push(`AROM ${measurement.activeRom}°`);
+  if (measurement.passiveRom !== null) parts.push(`PROM ${measurement.passiveRom}°`);
+  if (measurement.strength !== null) parts.push(`MMT ${measurement.strength}/5`);
+  return parts.join(' · ');
+};
+
+export const formatMeasurement = (measurement: Measurement): string =>
+  `${getMeasurementName(measurement)}: ${formatMeasurementValues(measurement)}`;
+
+export const isMeasurementEmpty = (measurement: Measurement): boolean =>
+  measurement.activeRom === null && measurement.passiveRom === null && measurement.strength === null;
+
+// One side of a movement as recorded at a visit
+export interface MeasurementReading {
+  date: string;
+  activeRom: number | null;
+  passiveRom: number | null;
+  strength: number | null;
+}
+
+export interface MeasurementSideHistory {
+  latest: MeasurementReading;
+  previous: MeasurementReading | null;
+}
+
+// Everything recorded for one joint movement, split by side
+export interface MeasurementHistory {
+  joint: Joint;
+  movement: JointMovement;
+  sides: Partial<Record<MeasurementSide, MeasurementSideHistory>>;
+}
+
+// Groups the measurements from a patient's sessions by joint movement, keeping the
+// latest and previous reading for each side. Ordered like JOINT_OPTIONS.
+export const getMeasurementHistory = (sessions: Session[]): MeasurementHistory[] => {
+  const readings = new Map<string, Partial<Record<MeasurementSide, MeasurementReading[]>>>();
+
+  [...sessions]
+    .filter(session => session.measurements && session.measurements.length > 0)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(session => {
+      session.measurements!.forEach(measurement => {
+        const key = `${measurement.joint}:${measurement.movement}`;
+        const bySide = readings.get(key) || {};
+        bySide[measurement.side] = [
+          ...(bySide[measurement.side] || []),
+          {
+            date: session.date,
+            activeRom: measurement.activeRom,
+            passiveRom: measurement.passiveRom,
+            strength: measurement.strength,
+          }
+        ];
+        readings.set(key, bySide);
+      });
+    });
+
+  const history: MeasurementHistory[] = [];
+  JOINT_OPTIONS.forEach(jointOption => {
+    jointOption.movements.forEach(movement => {
+      const bySide = readings.get(`${jointOption.value}:${movement}`);
+      if (!bySide) return;
+
+      const sides: MeasurementHistory['sides'] = {};
+      (Object.keys(bySide) as MeasurementSide[]).forEach(side => {
+        const list = bySide[side]!;
+        sides[side] = {
+          latest: list[list.length - 1],
+          previous: list.length > 1 ? list[list.length - 2] : null,
+        };
+      });
+      history.push({ joint: jointOption.value, movement, sides });
+    });
+  });
+
+  return history;
+};
+
+type MeasurementValueKey = 'activeRom' | 'passiveRom' | 'strength';
+
+// Difference between two readings for each value recorded in both
+export const getMeasurementChange = (
+  from: MeasurementReading | null,
+  to: MeasurementReading | null
+): Partial<Record<MeasurementValueKey, number>> => {
+  const change: Partial<Record<MeasurementValueKey, number>> = {};
+  if (!from || !to) return change;
+
+  (['activeRom', 'passiveRom', 'strength'] as MeasurementValueKey[]).forEach(key => {
+    const before = from[key];
+    const after = to[key];
+    if (before !== null && after !== null) {
+      change[key] = after - before;
+    }
+  });
+  return change;
+};
+
+// e.g. "AROM +15° · MMT +1"; empty when nothing comparable was recorded
+export const formatMeasurementChange = (change: Partial<Record<MeasurementValueKey, number>>): string => {
+  const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+  const parts: string[] = [];
+  if (change.activeRom !== undefined) parts.push(`AROM ${signed(change.activeRom)}°`);
+  if (change.passiveRom !== undefined) parts.push(`PROM ${signed(change.passiveRom)}°`);
+  if (change.strength !== undefined) parts.push(`MMT ${signed(change.strength)}`);
+  return parts.join(' · ');
+};
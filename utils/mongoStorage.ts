@@ -1,5 +1,40 @@
-import { Patient, Session, SessionFilter } from '../types';
+import {
+  Patient,
+  Session,
+  SessionFilter,
+  RecurrenceRule,
+  SeriesScope,
+  ScheduleConflict,
+  Availability,
+  AvailabilityDay,
+  RescheduleInitiator,
+  MedicalHistory,
+  NoteTemplate,
+  TreatmentPlan,
+  DischargeStatus,
+  PlanProgress,
+  Exercise,
+  PrescribedExercise,
+  OutcomeMeasureResult,
+  Attachment,
+  AttachmentCategory,
+  ConsentTemplate,
+  Consent,
+  Invoice,
+  InvoiceStatus,
+  Service,
+  ServicePrice,
+  SessionPackage,
+  PatientPackage,
+  Payment,
+  PatientLedger,
+  PatientDue,
+  PracticeStats,
+  StatsGrouping
+} from '../types';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
 
 // API Base URL - should match your server configuration
 export const API_BASE_URL = process.env.EXPO_PUBLIC_API_BASE_URL;
@@ -17,6 +52,12 @@ const getAuthHeaders = async () => {
   };
 };
 
+// Errors thrown by apiCall keep the HTTP status and response body so callers can react to specific failures
+export interface ApiError extends Error {
+  status?: number;
+  data?: any;
+}
+
 // Helper function to make API calls
 const apiCall = async (endpoint: string, options: RequestInit = {}) => {
   try {
@@ -32,7 +73,10 @@ const apiCall = async (endpoint: string, options: RequestInit = {}) => {
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      const apiError: ApiError = new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      apiError.status = response.status;
+      apiError.data = errorData;
+      throw apiError;
     }
 
     return await response.json();
@@ -110,12 +154,69 @@ export const deletePatient = async (id: string): Promise<void> => {
   }
 };
 
+export const updateMedicalHistory = async (patientId: string, medicalHistory: MedicalHistory): Promise<Patient> => {
+  try {
+    const response = await apiCall(`/patients/${patientId}/medical-history`, {
+      method: 'PUT',
+      body: JSON.stringify(medicalHistory),
+    });
+    return response.patient;
+  } catch (error) {
+    console.error('Error updating medical history:', error);
+    throw error;
+  }
+};
+
+export const updateHomeExercises = async (patientId: string, exercises: PrescribedExercise[]): Promise<Patient> => {
+  try {
+    const response = await apiCall(`/patients/${patientId}/exercises`, {
+      method: 'PUT',
+      body: JSON.stringify({ exercises }),
+    });
+    return response.patient;
+  } catch (error) {
+    console.error('Error updating home exercises:', error);
+    throw error;
+  }
+};
+
+// Replaces the prices agreed with the patient; services left out go back to their usual price
+export const updateServicePrices = async (patientId: string, servicePrices: ServicePrice[]): Promise<Patient> => {
+  try {
+    const response = await apiCall(`/patients/${patientId}/service-prices`, {
+      method: 'PUT',
+      body: JSON.stringify({ servicePrices }),
+    });
+    return response.patient;
+  } catch (error) {
+    console.error('Error updating service prices:', error);
+    throw error;
+  }
+};
+
+// Red flags keyed by patient ID, only for patients that have any
+export const getPatientRedFlags = async (): Promise<Record<string, string[]>> => {
+  try {
+    const response = await apiCall('/patients/red-flags');
+    return response.redFlags;
+  } catch (error) {
+    console.error('Error getting patient red flags:', error);
+    return {};
+  }
+};
+
+// Returns the overlap details when a save was rejected because of a double booking
+export const getScheduleConflict = (error: unknown): ScheduleConflict | null => {
+  const apiError = error as ApiError;
+  return apiError?.status === 409 && apiError.data?.conflicts ? apiError.data : null;
+};
+
 // Session functions
-export const saveSession = async (session: Omit<Session, 'id' | 'createdAt' | 'userId'>): Promise<Session> => {
+export const saveSession = async (session: Omit<Session, 'id' | 'createdAt' | 'userId'>, allowConflicts = false): Promise<Session> => {
   try {
     const response = await apiCall('/sessions', {
       method: 'POST',
-      body: JSON.stringify(session),
+      body: JSON.stringify({ ...session, allowConflicts }),
     });
 
     return response.session;
@@ -125,6 +226,24 @@ export const saveSession = async (session: Omit<Session, 'id' | 'createdAt' | 'u
   }
 };
 
+export const saveSessionSeries = async (
+  session: Omit<Session, 'id' | 'createdAt' | 'userId' | 'date' | 'status' | 'seriesId'>,
+  recurrence: RecurrenceRule,
+  allowConflicts = false
+): Promise<Session[]> => {
+  try {
+    const response = await apiCall('/sessions/series', {
+      method: 'POST',
+      body: JSON.stringify({ ...session, recurrence, allowConflicts }),
+    });
+
+    return response.sessions;
+  } catch (error) {
+    console.error('Error saving session series:', error);
+    throw error;
+  }
+};
+
 export const getSessions = async (): Promise<Session[]> => {
   try {
     const response = await apiCall('/sessions');
@@ -183,6 +302,7 @@ export const getFilteredSessions = async (filters: SessionFilter): Promise<Sessi
     if (filters.patientId) queryParams.append('patientId', filters.patientId);
     if (filters.startDate) queryParams.append('startDate', filters.startDate);
     if (filters.endDate) queryParams.append('endDate', filters.endDate);
+    if (filters.status && filters.status.length > 0) queryParams.append('status', filters.status.join(','));
     
     const response = await apiCall(`/sessions?${queryParams.toString()}`);
     return response.sessions;
@@ -202,29 +322,778 @@ export const getSessionById = async (id: string): Promise<Session | null> => {
   }
 };
 
-export const updateSession = async (updatedSession: Session): Promise<void> => {
+// Returns every session the update changed, starting with this one
+export const updateSession = async (updatedSession: Session, scope: SeriesScope = 'single', allowConflicts = false): Promise<Session[]> => {
   try {
-    await apiCall(`/sessions/${updatedSession.id}`, {
+    const response = await apiCall(`/sessions/${updatedSession.id}?scope=${scope}`, {
       method: 'PUT',
-      body: JSON.stringify(updatedSession),
+      body: JSON.stringify({ ...updatedSession, allowConflicts }),
     });
+    return response.sessions;
   } catch (error) {
     console.error('Error updating session:', error);
     throw error;
   }
 };
 
-export const deleteSession = async (id: string): Promise<void> => {
+export const rescheduleSession = async (
+  sessionId: string,
+  date: string,
+  time: string,
+  initiatedBy: RescheduleInitiator,
+  reason: string,
+  allowConflicts = false
+): Promise<Session> => {
+  try {
+    const response = await apiCall(`/sessions/${sessionId}/reschedule`, {
+      method: 'POST',
+      body: JSON.stringify({ date, time, initiatedBy, reason, allowConflicts }),
+    });
+    return response.session;
+  } catch (error) {
+    console.error('Error rescheduling session:', error);
+    throw error;
+  }
+};
+
+// Completes a session with its fee and records the payment taken for it, if any, in one request
+export const completeSession = async (
+  sessionId: string,
+  amount: number,
+  payment: Pick<Payment, 'amount' | 'method' | 'reference' | 'date'> | null
+): Promise<Session> => {
+  try {
+    const response = await apiCall(`/sessions/${sessionId}/complete`, {
+      method: 'POST',
+      body: JSON.stringify({ amount, payment }),
+    });
+    return response.session;
+  } catch (error) {
+    console.error('Error completing session:', error);
+    throw error;
+  }
+};
+
+// Returns the IDs of every session deleted
+export const deleteSession = async (id: string, scope: SeriesScope = 'single'): Promise<string[]> => {
   try {
-    await apiCall(`/sessions/${id}`, {
+    const response = await apiCall(`/sessions/${id}?scope=${scope}`, {
       method: 'DELETE',
     });
+    return response.deletedIds;
   } catch (error) {
     console.error('Error deleting session:', error);
     throw error;
   }
 };
 
+// Availability API functions
+export const getAvailabilitySettings = async (): Promise<Availability> => {
+  try {
+    const response = await apiCall('/availability/settings');
+    return response.availability;
+  } catch (error) {
+    console.error('Error getting availability settings:', error);
+    throw error;
+  }
+};
+
+export const updateAvailabilitySettings = async (availability: Availability): Promise<Availability> => {
+  try {
+    const response = await apiCall('/availability/settings', {
+      method: 'PUT',
+      body: JSON.stringify(availability),
+    });
+    return response.availability;
+  } catch (error) {
+    console.error('Error updating availability settings:', error);
+    throw error;
+  }
+};
+
+export const getAvailableSlots = async (startDate: string, endDate: string, duration?: number): Promise<AvailabilityDay[]> => {
+  try {
+    const queryParams = new URLSearchParams({ startDate, endDate });
+    if (duration) queryParams.append('duration', String(duration));
+
+    const response = await apiCall(`/availability?${queryParams.toString()}`);
+    return response.days;
+  } catch (error) {
+    console.error('Error getting available slots:', error);
+    return [];
+  }
+};
+
+// Note template functions
+export const getNoteTemplates = async (): Promise<NoteTemplate[]> => {
+  try {
+    const response = await apiCall('/note-templates');
+    return response.templates;
+  } catch (error) {
+    console.error('Error getting note templates:', error);
+    return [];
+  }
+};
+
+export const saveNoteTemplate = async (template: Omit<NoteTemplate, 'id' | 'userId' | 'order' | 'createdAt'>): Promise<NoteTemplate> => {
+  try {
+    const response = await apiCall('/note-templates', {
+      method: 'POST',
+      body: JSON.stringify(template),
+    });
+    return response.template;
+  } catch (error) {
+    console.error('Error saving note template:', error);
+    throw error;
+  }
+};
+
+export const updateNoteTemplate = async (template: NoteTemplate): Promise<NoteTemplate> => {
+  try {
+    const response = await apiCall(`/note-templates/${template.id}`, {
+      method: 'PUT',
+      body: JSON.stringify(template),
+    });
+    return response.template;
+  } catch (error) {
+    console.error('Error updating note template:', error);
+    throw error;
+  }
+};
+
+export const deleteNoteTemplate = async (id: string): Promise<void> => {
+  try {
+    await apiCall(`/note-templates/${id}`, {
+      method: 'DELETE',
+    });
+  } catch (error) {
+    console.error('Error deleting note template:', error);
+    throw error;
+  }
+};
+
+// Saves the picker order; ids must list every template
+export const reorderNoteTemplates = async (ids: string[]): Promise<NoteTemplate[]> => {
+  try {
+    const response = await apiCall('/note-templates/order', {
+      method: 'PUT',
+      body: JSON.stringify({ ids }),
+    });
+    return response.templates;
+  } catch (error) {
+    console.error('Error reordering note templates:', error);
+    throw error;
+  }
+};
+
+// Treatment plan functions
+export const getTreatmentPlans = async (patientId: string): Promise<TreatmentPlan[]> => {
+  try {
+    const response = await apiCall(`/treatment-plans?patientId=${patientId}`);
+    return response.plans;
+  } catch (error) {
+    console.error('Error getting treatment plans:', error);
+    return [];
+  }
+};
+
+// "Session N of M" keyed by session ID, only for sessions linked to a plan
+export const getSessionPlanProgress = async (): Promise<Record<string, PlanProgress>> => {
+  try {
+    const response = await apiCall('/treatment-plans/progress');
+    return response.progress;
+  } catch (error) {
+    console.error('Error getting treatment plan progress:', error);
+    return {};
+  }
+};
+
+export const saveTreatmentPlan = async (
+  plan: Pick<TreatmentPlan, 'patientId' | 'diagnosis' | 'goals' | 'plannedSessions' | 'frequencyPerWeek'>
+): Promise<TreatmentPlan> => {
+  try {
+    const response = await apiCall('/treatment-plans', {
+      method: 'POST',
+      body: JSON.stringify(plan),
+    });
+    return response.plan;
+  } catch (error) {
+    console.error('Error saving treatment plan:', error);
+    throw error;
+  }
+};
+
+export const updateTreatmentPlan = async (plan: TreatmentPlan): Promise<TreatmentPlan> => {
+  try {
+    const response = await apiCall(`/treatment-plans/${plan.id}`, {
+      method: 'PUT',
+      body: JSON.stringify(plan),
+    });
+    return response.plan;
+  } catch (error) {
+    console.error('Error updating treatment plan:', error);
+    throw error;
+  }
+};
+
+export const dischargeTreatmentPlan = async (
+  planId: string,
+  dischargeStatus: DischargeStatus,
+  dischargeNotes: string
+): Promise<TreatmentPlan> => {
+  try {
+    const response = await apiCall(`/treatment-plans/${planId}/discharge`, {
+      method: 'POST',
+      body: JSON.stringify({ dischargeStatus, dischargeNotes }),
+    });
+    return response.plan;
+  } catch (error) {
+    console.error('Error discharging treatment plan:', error);
+    throw error;
+  }
+};
+
+export const deleteTreatmentPlan = async (planId: string): Promise<void> => {
+  try {
+    await apiCall(`/treatment-plans/${planId}`, {
+      method: 'DELETE',
+    });
+  } catch (error) {
+    console.error('Error deleting treatment plan:', error);
+    throw error;
+  }
+};
+
+// Exercise library functions
+export const getExercises = async (): Promise<Exercise[]> => {
+  try {
+    const response = await apiCall('/exercises');
+    return response.exercises;
+  } catch (error) {
+    console.error('Error getting exercises:', error);
+    return [];
+  }
+};
+
+export const saveExercise = async (exercise: Omit<Exercise, 'id' | 'userId' | 'createdAt'>): Promise<Exercise> => {
+  try {
+    const response = await apiCall('/exercises', {
+      method: 'POST',
+      body: JSON.stringify(exercise),
+    });
+    return response.exercise;
+  } catch (error) {
+    console.error('Error saving exercise:', error);
+    throw error;
+  }
+};
+
+export const updateExercise = async (exercise: Exercise): Promise<Exercise> => {
+  try {
+    const response = await apiCall(`/exercises/${exercise.id}`, {
+      method: 'PUT',
+      body: JSON.stringify(exercise),
+    });
+    return response.exercise;
+  } catch (error) {
+    console.error('Error updating exercise:', error);
+    throw error;
+  }
+};
+
+export const deleteExercise = async (id: string): Promise<void> => {
+  try {
+    await apiCall(`/exercises/${id}`, {
+      method: 'DELETE',
+    });
+  } catch (error) {
+    console.error('Error deleting exercise:', error);
+    throw error;
+  }
+};
+
+// Outcome measure functions
+export const getOutcomeMeasures = async (patientId: string): Promise<OutcomeMeasureResult[]> => {
+  try {
+    const response = await apiCall(`/outcome-measures?patientId=${patientId}`);
+    return response.results;
+  } catch (error) {
+    console.error('Error getting outcome measures:', error);
+    return [];
+  }
+};
+
+export const saveOutcomeMeasure = async (
+  result: Pick<OutcomeMeasureResult, 'patientId' | 'sessionId' | 'measure' | 'date' | 'responses' | 'notes'>
+): Promise<OutcomeMeasureResult> => {
+  try {
+    const response = await apiCall('/outcome-measures', {
+      method: 'POST',
+      body: JSON.stringify(result),
+    });
+    return response.result;
+  } catch (error) {
+    console.error('Error saving outcome measure:', error);
+    throw error;
+  }
+};
+
+export const updateOutcomeMeasure = async (result: OutcomeMeasureResult): Promise<OutcomeMeasureResult> => {
+  try {
+    const response = await apiCall(`/outcome-measures/${result.id}`, {
+      method: 'PUT',
+      body: JSON.stringify(result),
+    });
+    return response.result;
+  } catch (error) {
+    console.error('Error updating outcome measure:', error);
+    throw error;
+  }
+};
+
+export const deleteOutcomeMeasure = async (id: string): Promise<void> => {
+  try {
+    await apiCall(`/outcome-measures/${id}`, {
+      method: 'DELETE',
+    });
+  } catch (error) {
+    console.error('Error deleting outcome measure:', error);
+    throw error;
+  }
+};
+
+// Attachment functions. Files go up as the raw request body rather than JSON.
+export const getAttachments = async (patientId: string): Promise<Attachment[]> => {
+  try {
+    const response = await apiCall(`/patients/${patientId}/attachments`);
+    return response.attachments;
+  } catch (error) {
+    console.error('Error getting attachments:', error);
+    return [];
+  }
+};
+
+export const uploadAttachment = async (
+  patientId: string,
+  file: { uri: string; fileName: string; mimeType: string },
+  details: { category: AttachmentCategory; sessionId: string | null }
+): Promise<Attachment> => {
+  try {
+    const { Authorization } = await getAuthHeaders();
+    const query = new URLSearchParams({ fileName: file.fileName, category: details.category });
+    if (details.sessionId) {
+      query.set('sessionId', details.sessionId);
+    }
+    const url = `${API_BASE_URL}/patients/${patientId}/attachments?${query.toString()}`;
+    const headers = { Authorization, 'Content-Type': file.mimeType };
+
+    let status: number;
+    let body: string;
+    if (Platform.OS === 'web') {
+      const blob = await (await fetch(file.uri)).blob();
+      const response = await fetch(url, { method: 'POST', headers, body: blob });
+      status = response.status;
+      body = await response.text();
+    } else {
+      const response = await FileSystem.uploadAsync(url, file.uri, {
+        httpMethod: 'POST',
+        uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+        headers,
+      });
+      status = response.status;
+      body = response.body;
+    }
+
+    // Proxies answer a too-large or failed upload with an HTML page rather than JSON
+    let data: any = {};
+    try {
+      data = JSON.parse(body || '{}');
+    } catch {
+      data = {};
+    }
+    if (status < 200 || status >= 300) {
+      const apiError: ApiError = new Error(data.error || `HTTP error! status: ${status}`);
+      apiError.status = status;
+      apiError.data = data;
+      throw apiError;
+    }
+    return data.attachment;
+  } catch (error) {
+    console.error('Error uploading attachment:', error);
+    throw error;
+  }
+};
+
+// Image source for showing an attachment, e.g. as a thumbnail
+export const getAttachmentSource = async (attachment: Attachment): Promise<{ uri: string; headers: Record<string, string> }> => {
+  const { Authorization } = await getAuthHeaders();
+  return {
+    uri: `${API_BASE_URL}/patients/${attachment.patientId}/attachments/${attachment.id}/file`,
+    headers: { Authorization },
+  };
+};
+
+// Downloads an attachment to the device and returns the local file URI
+export const downloadAttachment = async (attachment: Attachment): Promise<string> => {
+  try {
+    const { uri, headers } = await getAttachmentSource(attachment);
+    const localUri = `${FileSystem.cacheDirectory}${attachment.id}_${attachment.fileName}`;
+    const result = await FileSystem.downloadAsync(uri, localUri, { headers });
+    if (result.status !== 200) {
+      throw new Error(`HTTP error! status: ${result.status}`);
+    }
+    return result.uri;
+  } catch (error) {
+    console.error('Error downloading attachment:', error);
+    throw error;
+  }
+};
+
+export const deleteAttachment = async (attachment: Attachment): Promise<void> => {
+  try {
+    await apiCall(`/patients/${attachment.patientId}/attachments/${attachment.id}`, {
+      method: 'DELETE',
+    });
+  } catch (error) {
+    console.error('Error deleting attachment:', error);
+    throw error;
+  }
+};
+
+// Consent template functions
+export const getConsentTemplates = async (): Promise<ConsentTemplate[]> => {
+  try {
+    const response = await apiCall('/consent-templates');
+    return response.templates;
+  } catch (error) {
+    console.error('Error getting consent templates:', error);
+    return [];
+  }
+};
+
+export const saveConsentTemplate = async (template: Omit<ConsentTemplate, 'id' | 'userId' | 'createdAt'>): Promise<ConsentTemplate> => {
+  try {
+    const response = await apiCall('/consent-templates', {
+      method: 'POST',
+      body: JSON.stringify(template),
+    });
+    return response.template;
+  } catch (error) {
+    console.error('Error saving consent template:', error);
+    throw error;
+  }
+};
+
+export const updateConsentTemplate = async (template: ConsentTemplate): Promise<ConsentTemplate> => {
+  try {
+    const response = await apiCall(`/consent-templates/${template.id}`, {
+      method: 'PUT',
+      body: JSON.stringify(template),
+    });
+    return response.template;
+  } catch (error) {
+    console.error('Error updating consent template:', error);
+    throw error;
+  }
+};
+
+export const deleteConsentTemplate = async (id: string): Promise<void> => {
+  try {
+    await apiCall(`/consent-templates/${id}`, {
+      method: 'DELETE',
+    });
+  } catch (error) {
+    console.error('Error deleting consent template:', error);
+    throw error;
+  }
+};
+
+// Consent functions. The server sets the signing time and expiry.
+export const getConsents = async (patientId: string): Promise<Consent[]> => {
+  try {
+    const response = await apiCall(`/consents?patientId=${encodeURIComponent(patientId)}`);
+    return response.consents;
+  } catch (error) {
+    console.error('Error getting consents:', error);
+    return [];
+  }
+};
+
+export const saveConsent = async (
+  consent: Pick<Consent, 'patientId' | 'templateId' | 'title' | 'text' | 'signature' | 'signerName'>
+): Promise<Consent> => {
+  try {
+    const response = await apiCall('/consents', {
+      method: 'POST',
+      body: JSON.stringify(consent),
+    });
+    return response.consent;
+  } catch (error) {
+    console.error('Error saving consent:', error);
+    throw error;
+  }
+};
+
+export const withdrawConsent = async (id: string): Promise<Consent> => {
+  try {
+    const response = await apiCall(`/consents/${id}/withdraw`, {
+      method: 'POST',
+    });
+    return response.consent;
+  } catch (error) {
+    console.error('Error withdrawing consent:', error);
+    throw error;
+  }
+};
+
+// Invoice functions
+export const getInvoices = async (filters: { patientId?: string; status?: InvoiceStatus } = {}): Promise<Invoice[]> => {
+  try {
+    const queryParams = new URLSearchParams();
+    if (filters.patientId) queryParams.append('patientId', filters.patientId);
+    if (filters.status) queryParams.append('status', filters.status);
+
+    const response = await apiCall(`/invoices?${queryParams.toString()}`);
+    return response.invoices;
+  } catch (error) {
+    console.error('Error getting invoices:', error);
+    return [];
+  }
+};
+
+export const saveInvoice = async (
+  invoice: Pick<Invoice, 'patientId' | 'issueDate' | 'dueDate' | 'items' | 'discountPercent' | 'notes'>
+): Promise<Invoice> => {
+  try {
+    const response = await apiCall('/invoices', {
+      method: 'POST',
+      body: JSON.stringify(invoice),
+    });
+    return response.invoice;
+  } catch (error) {
+    console.error('Error saving invoice:', error);
+    throw error;
+  }
+};
+
+export const updateInvoice = async (invoice: Invoice): Promise<Invoice> => {
+  try {
+    const response = await apiCall(`/invoices/${invoice.id}`, {
+      method: 'PUT',
+      body: JSON.stringify(invoice),
+    });
+    return response.invoice;
+  } catch (error) {
+    console.error('Error updating invoice:', error);
+    throw error;
+  }
+};
+
+// Marks an invoice paid or unpaid, or voids it
+export const updateInvoiceStatus = async (id: string, status: InvoiceStatus): Promise<Invoice> => {
+  try {
+    const response = await apiCall(`/invoices/${id}/status`, {
+      method: 'PUT',
+      body: JSON.stringify({ status }),
+    });
+    return response.invoice;
+  } catch (error) {
+    console.error('Error updating invoice status:', error);
+    throw error;
+  }
+};
+
+// Service functions
+export const getServices = async (): Promise<Service[]> => {
+  try {
+    const response = await apiCall('/services');
+    return response.services;
+  } catch (error) {
+    console.error('Error getting services:', error);
+    return [];
+  }
+};
+
+export const saveService = async (service: Omit<Service, 'id' | 'userId' | 'createdAt'>): Promise<Service> => {
+  try {
+    const response = await apiCall('/services', {
+      method: 'POST',
+      body: JSON.stringify(service),
+    });
+    return response.service;
+  } catch (error) {
+    console.error('Error saving service:', error);
+    throw error;
+  }
+};
+
+export const updateService = async (service: Service): Promise<Service> => {
+  try {
+    const response = await apiCall(`/services/${service.id}`, {
+      method: 'PUT',
+      body: JSON.stringify(service),
+    });
+    return response.service;
+  } catch (error) {
+    console.error('Error updating service:', error);
+    throw error;
+  }
+};
+
+export const deleteService = async (id: string): Promise<void> => {
+  try {
+    await apiCall(`/services/${id}`, {
+      method: 'DELETE',
+    });
+  } catch (error) {
+    console.error('Error deleting service:', error);
+    throw error;
+  }
+};
+
+// Package functions
+export const getSessionPackages = async (): Promise<SessionPackage[]> => {
+  try {
+    const response = await apiCall('/packages');
+    return response.packages;
+  } catch (error) {
+    console.error('Error getting packages:', error);
+    return [];
+  }
+};
+
+export const saveSessionPackage = async (sessionPackage: Omit<SessionPackage, 'id' | 'userId' | 'createdAt'>): Promise<SessionPackage> => {
+  try {
+    const response = await apiCall('/packages', {
+      method: 'POST',
+      body: JSON.stringify(sessionPackage),
+    });
+    return response.package;
+  } catch (error) {
+    console.error('Error saving package:', error);
+    throw error;
+  }
+};
+
+export const updateSessionPackage = async (sessionPackage: SessionPackage): Promise<SessionPackage> => {
+  try {
+    const response = await apiCall(`/packages/${sessionPackage.id}`, {
+      method: 'PUT',
+      body: JSON.stringify(sessionPackage),
+    });
+    return response.package;
+  } catch (error) {
+    console.error('Error updating package:', error);
+    throw error;
+  }
+};
+
+export const deleteSessionPackage = async (id: string): Promise<void> => {
+  try {
+    await apiCall(`/packages/${id}`, {
+      method: 'DELETE',
+    });
+  } catch (error) {
+    console.error('Error deleting package:', error);
+    throw error;
+  }
+};
+
+// Packages sold to patients; without a patient ID, every patient's packages
+export const getPatientPackages = async (patientId?: string): Promise<PatientPackage[]> => {
+  try {
+    const query = patientId ? `?patientId=${encodeURIComponent(patientId)}` : '';
+    const response = await apiCall(`/patient-packages${query}`);
+    return response.packages;
+  } catch (error) {
+    console.error('Error getting patient packages:', error);
+    return [];
+  }
+};
+
+export const sellPackage = async (patientId: string, packageId: string, purchaseDate: string): Promise<PatientPackage> => {
+  try {
+    const response = await apiCall('/patient-packages', {
+      method: 'POST',
+      body: JSON.stringify({ patientId, packageId, purchaseDate }),
+    });
+    return response.package;
+  } catch (error) {
+    console.error('Error selling package:', error);
+    throw error;
+  }
+};
+
+export const deletePatientPackage = async (id: string): Promise<void> => {
+  try {
+    await apiCall(`/patient-packages/${id}`, {
+      method: 'DELETE',
+    });
+  } catch (error) {
+    console.error('Error removing patient package:', error);
+    throw error;
+  }
+};
+
+// Charges, payments and refunds with the running balance
+export const getPatientLedger = async (patientId: string): Promise<PatientLedger> => {
+  try {
+    return await apiCall(`/payments/ledger?patientId=${encodeURIComponent(patientId)}`);
+  } catch (error) {
+    console.error('Error getting patient ledger:', error);
+    return { entries: [], balance: 0 };
+  }
+};
+
+// Patients who owe money, largest balance first
+export const getDues = async (): Promise<PatientDue[]> => {
+  try {
+    const response = await apiCall('/payments/dues');
+    return response.dues;
+  } catch (error) {
+    console.error('Error getting dues:', error);
+    return [];
+  }
+};
+
+export const recordPayment = async (
+  payment: Pick<Payment, 'patientId' | 'sessionId' | 'type' | 'amount' | 'method' | 'reference' | 'date' | 'notes'>
+): Promise<Payment> => {
+  try {
+    const response = await apiCall('/payments', {
+      method: 'POST',
+      body: JSON.stringify(payment),
+    });
+    return response.payment;
+  } catch (error) {
+    console.error('Error recording payment:', error);
+    throw error;
+  }
+};
+
+export const deletePayment = async (id: string): Promise<void> => {
+  try {
+    await apiCall(`/payments/${id}`, {
+      method: 'DELETE',
+    });
+  } catch (error) {
+    console.error('Error deleting payment:', error);
+    throw error;
+  }
+};
+
+// Stats functions
+export const getPracticeStats = async (startDate: string, endDate: string, groupBy: StatsGrouping): Promise<PracticeStats | null> => {
+  try {
+    const queryParams = new URLSearchParams({ startDate, endDate, groupBy });
+    const response = await apiCall(`/stats?${queryParams.toString()}`);
+    return response.stats;
+  } catch (error) {
+    console.error('Error getting practice stats:', error);
+    return null;
+  }
+};
+
 // Placeholder for getCurrentUser - this should use the new auth system
 export const getCurrentUser = async () => {
   // This function is now handled by mongoAuth.ts
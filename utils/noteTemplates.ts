@@ -0,0 +1,39 @@
+// Placeholder filling for note templates
+import { ClinicalNotes, NoteTemplate } from '../types';
+import { SOAP_SECTIONS } from './clinicalNotes';
+
+export interface TemplateValues {
+  patientName: string;
+  date: string; // 'YYYY-MM-DD'
+  time: string; // 'HH:MM'
+}
+
+export const TEMPLATE_PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: '{patientName}', description: 'Full name of the patient' },
+  { key: '{firstName}', description: 'First name of the patient' },
+  { key: '{date}', description: 'Session date' },
+  { key: '{time}', description: 'Session time' },
+];
+
+// Replaces known placeholders; unknown ones are left as typed so mistakes stay visible
+export const fillTemplatePlaceholders = (text: string, values: TemplateValues): string => {
+  const replacements: Record<string, string> = {
+    patientName: values.patientName,
+    firstName: values.patientName.split(' ')[0] || '',
+    date: new Date(`${values.date}T00:00`).toLocaleDateString(),
+    time: values.time,
+  };
+
+  return text.replace(/\{(\w+)\}/g, (match, key: string) => (key in replacements ? replacements[key] : match));
+};
+
+// Adds the template text to each SOAP section, after anything already written there
+export const applyNoteTemplate = (notes: ClinicalNotes, template: NoteTemplate, values: TemplateValues): ClinicalNotes => {
+  return SOAP_SECTIONS.reduce((updated, { key }) => {
+    const text = fillTemplatePlaceholders(template[key], values);
+    if (text) {
+      updated[key] = updated[key] ? `${updated[key]}\n${text}` : text;
+    }
+    return updated;
+  }, { ...notes });
+};
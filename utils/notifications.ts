@@ -46,4 +46,21 @@ export const cancelNotification = async (notificationId: string): Promise<void>
   } catch (error) {
     console.error('Error canceling notification:', error);
   }
-};
\ No newline at end of file
+};
+
+// Reminders carry the session id in their data, so they can be found again when a session moves.
+// Pass several IDs to cancel the reminders of a whole series at once.
+export const cancelSessionNotifications = async (sessionIds: string | string[]): Promise<void> => {
+  if (Platform.OS === 'web') {
+    return;
+  }
+
+  try {
+    const ids = ([] as string[]).concat(sessionIds);
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    const sessionReminders = scheduled.filter(request => ids.includes(request.content.data?.sessionId as string));
+    await Promise.all(sessionReminders.map(request => Notifications.cancelScheduledNotificationAsync(request.identifier)));
+  } catch (error) {
+    console.error('Error canceling session notifications:', error);
+  }
+};
@@ -0,0 +1,483 @@
+// Outcome measure questionnaires, their scoring and interpretation bands. Scoring mirrors
+// server/utils/outcomeMeasures.js so the form can preview the score before it is saved.
+import { OutcomeMeasureType, OutcomeMeasureResult } from '../types';
+
+export interface OutcomeQuestion {
+  text: string;
+  options: string[]; // Labels in order; the first is worth the measure's minimum value
+}
+
+export interface OutcomeBand {
+  max: number;
+  label: string;
+  color: string;
+}
+
+export interface OutcomeMeasureDefinition {
+  type: OutcomeMeasureType;
+  name: string;
+  shortName: string;
+  instructions: string;
+  min: number;
+  max: number;
+  maxMissing: number;
+  maxScore: number;
+  unit: string;
+  higherIsBetter: boolean;
+  mcid: number; // Smallest change that is clinically important
+  scale?: boolean; // Show options as a row of numbers rather than a list
+  questions: OutcomeQuestion[];
+  bands: OutcomeBand[];
+  score: (answers: number[]) => number;
+}
+
+const roundScore = (value: number) => Math.round(value * 10) / 10;
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+const BAND_COLORS = ['#34C759', '#A3C614', '#FF9F0A', '#FF453A', '#C41E3A'];
+
+const LEFS_OPTIONS = [
+  'Extreme difficulty or unable to perform',
+  'Quite a bit of difficulty',
+  'Moderate difficulty',
+  'A little bit of difficulty',
+  'No difficulty',
+];
+
+const DASH_DIFFICULTY = ['No difficulty', 'Mild difficulty', 'Moderate difficulty', 'Severe difficulty', 'Unable'];
+const DASH_SEVERITY = ['None', 'Mild', 'Moderate', 'Severe', 'Extreme'];
+
+const PAIN_INTENSITY: OutcomeQuestion = {
+  text: 'Pain intensity',
+  options: [
+    'I have no pain at the moment',
+    'The pain is very mild at the moment',
+    'The pain is moderate at the moment',
+    'The pain is fairly severe at the moment',
+    'The pain is very severe at the moment',
+    'The pain is the worst imaginable at the moment',
+  ],
+};
+
+const PERSONAL_CARE: OutcomeQuestion = {
+  text: 'Personal care (washing, dressing, etc.)',
+  options: [
+    'I can look after myself normally without causing extra pain',
+    'I can look after myself normally but it causes extra pain',
+    'It is painful to look after myself and I am slow and careful',
+    'I need some help but manage most of my personal care',
+    'I need help every day in most aspects of self-care',
+    'I do not get dressed, wash with difficulty and stay in bed',
+  ],
+};
+
+const LIFTING: OutcomeQuestion = {
+  text: 'Lifting',
+  options: [
+    'I can lift heavy weights without extra pain',
+    'I can lift heavy weights but it gives extra pain',
+    'Pain prevents me lifting heavy weights off the floor, but I can if they are conveniently placed',
+    'Pain prevents me lifting heavy weights, but I can manage light to medium weights if conveniently placed',
+    'I can lift only very light weights',
+    'I cannot lift or carry anything at all',
+  ],
+};
+
+export const OUTCOME_MEASURES: Record<OutcomeMeasureType, OutcomeMeasureDefinition> = {
+  odi: {
+    type: 'odi',
+    name: 'Oswestry Disability Index',
+    shortName: 'ODI',
+    instructions: 'For each section, choose the one statement that best describes the patient today.',
+    min: 0,
+    max: 5,
+    maxMissing: 1,
+    maxScore: 100,
+    unit: '%',
+    higherIsBetter: false,
+    mcid: 10,
+    questions: [
+      PAIN_INTENSITY,
+      PERSONAL_CARE,
+      LIFTING,
+      {
+        text: 'Walking',
+        options: [
+          'Pain does not prevent me walking any distance',
+          'Pain prevents me walking more than 1 mile',
+          'Pain prevents me walking more than 1/4 of a mile',
+          'Pain prevents me walking more than 100 yards',
+          'I can only walk using a stick or crutches',
+          'I am in bed most of the time',
+        ],
+      },
+      {
+        text: 'Sitting',
+        options: [
+          'I can sit in any chair as long as I like',
+          'I can only sit in my favourite chair as long as I like',
+          'Pain prevents me sitting for more than 1 hour',
+          'Pain prevents me sitting for more than 30 minutes',
+          'Pain prevents me sitting for more than 10 minutes',
+          'Pain prevents me from sitting at all',
+        ],
+      },
+      {
+        text: 'Standing',
+        options: [
+          'I can stand as long as I want without extra pain',
+          'I can stand as long as I want but it gives me extra pain',
+          'Pain prevents me from standing for more than 1 hour',
+          'Pain prevents me from standing for more than 30 minutes',
+          'Pain prevents me from standing for more than 10 minutes',
+          'Pain prevents me from standing at all',
+        ],
+      },
+      {
+        text: 'Sleeping',
+        options: [
+          'My sleep is never disturbed by pain',
+          'My sleep is occasionally disturbed by pain',
+          'Because of pain I have less than 6 hours sleep',
+          'Because of pain I have less than 4 hours sleep',
+          'Because of pain I have less than 2 hours sleep',
+          'Pain prevents me from sleeping at all',
+        ],
+      },
+      {
+        text: 'Sex life (if applicable)',
+        options: [
+          'My sex life is normal and causes no extra pain',
+          'My sex life is normal but causes some extra pain',
+          'My sex life is nearly normal but is very painful',
+          'My sex life is severely restricted by pain',
+          'My sex life is nearly absent because of pain',
+          'Pain prevents any sex life at all',
+        ],
+      },
+      {
+        text: 'Social life',
+        options: [
+          'My social life is normal and gives me no extra pain',
+          'My social life is normal but increases the degree of pain',
+          'Pain only limits my more energetic interests, e.g. sport',
+          'Pain has restricted my social life and I do not go out as often',
+          'Pain has restricted my social life to my home',
+          'I have no social life because of pain',
+        ],
+      },
+      {
+        text: 'Travelling',
+        options: [
+          'I can travel anywhere without pain',
+          'I can travel anywhere but it gives me extra pain',
+          'Pain is bad but I manage journeys over 2 hours',
+          'Pain restricts me to journeys of less than 1 hour',
+          'Pain restricts me to short necessary journeys under 30 minutes',
+          'Pain prevents me from travelling except to receive treatment',
+        ],
+      },
+    ],
+    bands: [
+      { max: 20, label: 'Minimal disability', color: BAND_COLORS[0] },
+      { max: 40, label: 'Moderate disability', color: BAND_COLORS[1] },
+      { max: 60, label: 'Severe disability', color: BAND_COLORS[2] },
+      { max: 80, label: 'Crippling back pain', color: BAND_COLORS[3] },
+      { max: 100, label: 'Bed-bound or exaggerating', color: BAND_COLORS[4] },
+    ],
+    score: answers => roundScore(sum(answers) / (answers.length * 5) * 100),
+  },
+  ndi: {
+    type: 'ndi',
+    name: 'Neck Disability Index',
+    shortName: 'NDI',
+    instructions: 'For each section, choose the one statement that best describes the patient today.',
+    min: 0,
+    max: 5,
+    maxMissing: 1,
+    maxScore: 50,
+    unit: '',
+    higherIsBetter: false,
+    mcid: 7,
+    questions: [
+      PAIN_INTENSITY,
+      PERSONAL_CARE,
+      LIFTING,
+      {
+        text: 'Reading',
+        options: [
+          'I can read as much as I want with no pain in my neck',
+          'I can read as much as I want with slight pain in my neck',
+          'I can read as much as I want with moderate pain in my neck',
+          'I cannot read as much as I want because of moderate pain in my neck',
+          'I can hardly read at all because of severe pain in my neck',
+          'I cannot read at all',
+        ],
+      },
+      {
+        text: 'Headaches',
+        options: [
+          'I have no headaches at all',
+          'I have slight headaches which come infrequently',
+          'I have moderate headaches which come infrequently',
+          'I have moderate headaches which come frequently',
+          'I have severe headaches which come frequently',
+          'I have headaches almost all the time',
+        ],
+      },
+      {
+        text: 'Concentration',
+        options: [
+          'I can concentrate fully when I want with no difficulty',
+          'I can concentrate fully when I want with slight difficulty',
+          'I have a fair degree of difficulty concentrating',
+          'I have a lot of difficulty concentrating',
+          'I have a great deal of difficulty concentrating',
+          'I cannot concentrate at all',
+        ],
+      },
+      {
+        text: 'Work',
+        options: [
+          'I can do as much work as I want',
+          'I can only do my usual work, but no more',
+          'I can do most of my usual work, but no more',
+          'I cannot do my usual work',
+          'I can hardly do any work at all',
+          'I cannot do any work at all',
+        ],
+      },
+      {
+        text: 'Driving',
+        options: [
+          'I can drive my car without any neck pain',
+          'I can drive my car as long as I want with slight neck pain',
+          'I can drive my car as long as I want with moderate neck pain',
+          'I cannot drive my car as long as I want because of moderate neck pain',
+          'I can hardly drive at all because of severe neck pain',
+          'I cannot drive my car at all',
+        ],
+      },
+      {
+        text: 'Sleeping',
+        options: [
+          'I have no trouble sleeping',
+          'My sleep is slightly disturbed (less than 1 hour sleepless)',
+          'My sleep is mildly disturbed (1-2 hours sleepless)',
+          'My sleep is moderately disturbed (2-3 hours sleepless)',
+          'My sleep is greatly disturbed (3-5 hours sleepless)',
+          'My sleep is completely disturbed (5-7 hours sleepless)',
+        ],
+      },
+      {
+        text: 'Recreation',
+        options: [
+          'I am able to do all my recreation activities with no neck pain',
+          'I am able to do all my recreation activities with some neck pain',
+          'I am able to do most, but not all, of my usual recreation activities',
+          'I am able to do a few of my usual recreation activities',
+          'I can hardly do any recreation activities',
+          'I cannot do any recreation activities at all',
+        ],
+      },
+    ],
+    bands: [
+      { max: 4, label: 'No disability', color: BAND_COLORS[0] },
+      { max: 14, label: 'Mild disability', color: BAND_COLORS[1] },
+      { max: 24, label: 'Moderate disability', color: BAND_COLORS[2] },
+      { max: 34, label: 'Severe disability', color: BAND_COLORS[3] },
+      { max: 50, label: 'Complete disability', color: BAND_COLORS[4] },
+    ],
+    score: answers => roundScore(sum(answers) / answers.length * 10),
+  },
+  lefs: {
+    type: 'lefs',
+    name: 'Lower Extremity Functional Scale',
+    shortName: 'LEFS',
+    instructions: 'Today, does the patient have any difficulty with the following activities because of their lower limb problem?',
+    min: 0,
+    max: 4,
+    maxMissing: 0,
+    maxScore: 80,
+    unit: '',
+    higherIsBetter: true,
+    mcid: 9,
+    questions: [
+      'Any of your usual work, housework or school activities',
+      'Your usual hobbies, recreational or sporting activities',
+      'Getting into or out of the bath',
+      'Walking between rooms',
+      'Putting on your shoes or socks',
+      'Squatting',
+      'Lifting an object, like a bag of groceries, from the floor',
+      'Performing light activities around your home',
+      'Performing heavy activities around your home',
+      'Getting into or out of a car',
+      'Walking 2 blocks',
+      'Walking a mile',
+      'Going up or down 10 stairs (about 1 flight)',
+      'Standing for 1 hour',
+      'Sitting for 1 hour',
+      'Running on even ground',
+      'Running on uneven ground',
+      'Making sharp turns while running fast',
+      'Hopping',
+      'Rolling over in bed',
+    ].map(text => ({ text, options: LEFS_OPTIONS })),
+    bands: [
+      { max: 20, label: 'Severe limitation', color: BAND_COLORS[3] },
+      { max: 40, label: 'Moderate limitation', color: BAND_COLORS[2] },
+      { max: 60, label: 'Mild limitation', color: BAND_COLORS[1] },
+      { max: 80, label: 'Minimal limitation', color: BAND_COLORS[0] },
+    ],
+    score: answers => sum(answers),
+  },
+  dash: {
+    type: 'dash',
+    name: 'Disabilities of the Arm, Shoulder and Hand',
+    shortName: 'DASH',
+    instructions: 'Rate the patient\'s ability to do each activity in the last week. Up to 3 items can be skipped.',
+    min: 1,
+    max: 5,
+    maxMissing: 3,
+    maxScore: 100,
+    unit: '',
+    higherIsBetter: false,
+    mcid: 10,
+    questions: [
+      ...[
+        'Open a tight or new jar',
+        'Write',
+        'Turn a key',
+        'Prepare a meal',
+        'Push open a heavy door',
+        'Place an object on a shelf above your head',
+        'Do heavy household chores (e.g. wash walls, floors)',
+        'Garden or do yard work',
+        'Make a bed',
+        'Carry a shopping bag or briefcase',
+        'Carry a heavy object (over 10 lbs)',
+        'Change a lightbulb overhead',
+        'Wash or blow dry your hair',
+        'Wash your back',
+        'Put on a pullover sweater',
+        'Use a knife to cut food',
+        'Recreational activities which require little effort (e.g. card playing, knitting)',
+        'Recreational activities in which you take some force or impact through your arm, shoulder or hand (e.g. golf, hammering, tennis)',
+        'Recreational activities in which you move your arm freely (e.g. playing frisbee, badminton)',
+        'Manage transportation needs (getting from one place to another)',
+        'Sexual activities',
+      ].map(text => ({ text, options: DASH_DIFFICULTY })),
+      {
+        text: 'How much has your arm, shoulder or hand problem interfered with your normal social activities?',
+        options: ['Not at all', 'Slightly', 'Moderately', 'Quite a bit', 'Extremely'],
+      },
+      {
+        text: 'Were you limited in your work or other regular daily activities as a result of your arm, shoulder or hand problem?',
+        options: ['Not limited at all', 'Slightly limited', 'Moderately limited', 'Very limited', 'Unable'],
+      },
+      ...[
+        'Arm, shoulder or hand pain',
+        'Arm, shoulder or hand pain when you performed any specific activity',
+        'Tingling (pins and needles) in your arm, shoulder or hand',
+        'Weakness in your arm, shoulder or hand',
+        'Stiffness in your arm, shoulder or hand',
+      ].map(text => ({ text, options: DASH_SEVERITY })),
+      {
+        text: 'How much difficulty have you had sleeping because of the pain in your arm, shoulder or hand?',
+        options: ['No difficulty', 'Mild difficulty', 'Moderate difficulty', 'Severe difficulty', 'So much difficulty that I can\'t sleep'],
+      },
+      {
+        text: 'I feel less capable, less confident or less useful because of my arm, shoulder or hand problem',
+        options: ['Strongly disagree', 'Disagree', 'Neither agree nor disagree', 'Agree', 'Strongly agree'],
+      },
+    ],
+    bands: [
+      { max: 20, label: 'No or minimal disability', color: BAND_COLORS[0] },
+      { max: 40, label: 'Mild disability', color: BAND_COLORS[1] },
+      { max: 60, label: 'Moderate disability', color: BAND_COLORS[2] },
+      { max: 80, label: 'Severe disability', color: BAND_COLORS[3] },
+      { max: 100, label: 'Extreme disability', color: BAND_COLORS[4] },
+    ],
+    score: answers => roundScore((sum(answers) / answers.length - 1) * 25),
+  },
+  nprs: {
+    type: 'nprs',
+    name: 'Numeric Pain Rating Scale',
+    shortName: 'NPRS',
+    instructions: '0 is no pain and 10 is the worst pain imaginable.',
+    min: 0,
+    max: 10,
+    maxMissing: 0,
+    maxScore: 10,
+    unit: '',
+    higherIsBetter: false,
+    mcid: 2,
+    scale: true,
+    questions: [
+      {
+        text: 'Current pain',
+        options: Array.from({ length: 11 }, (_, value) => value.toString()),
+      },
+    ],
+    bands: [
+      { max: 0, label: 'No pain', color: BAND_COLORS[0] },
+      { max: 3, label: 'Mild pain', color: BAND_COLORS[1] },
+      { max: 6, label: 'Moderate pain', color: BAND_COLORS[2] },
+      { max: 10, label: 'Severe pain', color: BAND_COLORS[3] },
+    ],
+    score: answers => answers[0],
+  },
+};
+
+export const OUTCOME_MEASURE_OPTIONS = Object.values(OUTCOME_MEASURES);
+
+export const getOutcomeBand = (type: OutcomeMeasureType, score: number): OutcomeBand => {
+  const { bands } = OUTCOME_MEASURES[type];
+  return bands.find(band => score <= band.max) || bands[bands.length - 1];
+};
+
+// Returns the score and band, or null while too many items are unanswered
+export const scoreOutcomeMeasure = (
+  type: OutcomeMeasureType,
+  responses: (number | null)[]
+): { score: number; band: OutcomeBand } | null => {
+  const definition = OUTCOME_MEASURES[type];
+  const answers = responses.filter((value): value is number => value !== null);
+  if (answers.length === 0 || definition.questions.length - answers.length > definition.maxMissing) {
+    return null;
+  }
+
+  const score = definition.score(answers);
+  return { score, band: getOutcomeBand(type, score) };
+};
+
+// e.g. "46.7%" for the ODI or "32/80" for the LEFS
+export const formatOutcomeScore = (type: OutcomeMeasureType, score: number): string => {
+  const definition = OUTCOME_MEASURES[type];
+  return definition.unit ? `${score}${definition.unit}` : `${score}/${definition.maxScore}`;
+};
+
+export const getEmptyResponses = (type: OutcomeMeasureType): (number | null)[] => {
+  return OUTCOME_MEASURES[type].questions.map(() => null);
+};
+
+// Groups results by measure in the order measures are listed, each oldest first
+export const groupOutcomeResults = (results: OutcomeMeasureResult[]) => {
+  return OUTCOME_MEASURE_OPTIONS
+    .map(definition => ({
+      definition,
+      results: results
+        .filter(result => result.measure === definition.type)
+        .sort((a, b) => a.date.localeCompare(b.date)),
+    }))
+    .filter(group => group.results.length > 0);
+};
+
+// Change from the first result, signed so that positive always means improvement
+export const getOutcomeImprovement = (type: OutcomeMeasureType, baseline: number, latest: number) => {
+  const definition = OUTCOME_MEASURES[type];
+  const improvement = roundScore(definition.higherIsBetter ? latest - baseline : baseline - latest);
+  return { improvement, clinicallyImportant: improvement >= definition.mcid };
+};
@@ -0,0 +1,67 @@
+// Prepaid package balances and expiry. Mirrors server/utils/packages.js.
+import { PatientPackage, SessionPackage } from '../types';
+import { formatDateKey, parseDateKey } from './calendarUtils';
+
+export const MAX_PACKAGE_SESSIONS = 100;
+export const MAX_PACKAGE_VALID_FOR_MONTHS = 36;
+
+export const getSessionsRemaining = (patientPackage: PatientPackage): number => {
+  return Math.max(patientPackage.sessionCount - patientPackage.sessionsUsed, 0);
+};
+
+export const isPackageExpired = (patientPackage: PatientPackage, date: string = formatDateKey(new Date())): boolean => {
+  return patientPackage.expiryDate !== null && date > patientPackage.expiryDate;
+};
+
+// Had been bought by the given date, has sessions left and hasn't expired
+export const isPackageUsable = (patientPackage: PatientPackage, date: string = formatDateKey(new Date())): boolean => {
+  return patientPackage.purchaseDate <= date
+    && getSessionsRemaining(patientPackage) > 0
+    && !isPackageExpired(patientPackage, date);
+};
+
+// The package the server will use for a session on the given date: the one that expires first
+export const getUsablePackage = (packages: PatientPackage[], date: string = formatDateKey(new Date())): PatientPackage | null => {
+  return [...packages]
+    .filter(patientPackage => isPackageUsable(patientPackage, date))
+    .sort((a, b) => (a.expiryDate || '9999-12-31').localeCompare(b.expiryDate || '9999-12-31')
+      || a.purchaseDate.localeCompare(b.purchaseDate))[0] || null;
+};
+
+// The package to show for a patient: the one sessions are paid from, or else the latest bought
+export const getCurrentPackage = (packages: PatientPackage[]): PatientPackage | null => {
+  return getUsablePackage(packages)
+    || [...packages].sort((a, b) => b.purchaseDate.localeCompare(a.purchaseDate))[0]
+    || null;
+};
+
+// e.g. "3 of 10 sessions left · expires 4/15/2026"
+export const formatPackageBalance = (patientPackage: PatientPackage, date: string = formatDateKey(new Date())): string => {
+  const balance = `${getSessionsRemaining(patientPackage)} of ${patientPackage.sessionCount} sessions left`;
+  if (!patientPackage.expiryDate) return balance;
+
+  const expiry = parseDateKey(patientPackage.expiryDate).toLocaleDateString();
+  return `${balance} · ${isPackageExpired(patientPackage, date) ? 'expired' : 'expires'} ${expiry}`;
+};
+
+// e.g. "10 sessions · valid 3 months"
+export const formatPackageTerms = (sessionPackage: Pick<SessionPackage, 'sessionCount' | 'validForMonths'>): string => {
+  const sessions = `${sessionPackage.sessionCount} session${sessionPackage.sessionCount === 1 ? '' : 's'}`;
+  if (!sessionPackage.validForMonths) return `${sessions} · no expiry`;
+  return `${sessions} · valid ${sessionPackage.validForMonths} month${sessionPackage.validForMonths === 1 ? '' : 's'}`;
+};
+
+// Warns when booking another session uses up the package, or goes beyond it. bookedCount is
+// the patient's other open sessions, which will draw on the package when they are completed.
+export const getPackageBookingWarning = (patientPackage: PatientPackage | null, bookedCount: number): string | null => {
+  if (!patientPackage) return null;
+
+  const remaining = getSessionsRemaining(patientPackage);
+  if (bookedCount + 1 === remaining) {
+    return `This books the last session of the "${patientPackage.name}" package`;
+  }
+  if (bookedCount + 1 > remaining) {
+    return `The "${patientPackage.name}" package only covers ${remaining} more session${remaining === 1 ? '' : 's'}, and ${bookedCount} ${bookedCount === 1 ? 'is' : 'are'} already booked`;
+  }
+  return null;
+};
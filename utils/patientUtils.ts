@@ -0,0 +1,58 @@
+// Labels and helpers for the patient profile and medical history
+import { Gender, ReferralSource, AllergySeverity, MedicalHistory } from '../types';
+import { parseDateKey } from './calendarUtils';
+
+export const GENDER_OPTIONS: { value: Gender; label: string }[] = [
+  { value: 'male', label: 'Male' },
+  { value: 'female', label: 'Female' },
+  { value: 'other', label: 'Other' },
+  { value: 'prefer-not-to-say', label: 'Prefer not to say' },
+];
+
+export const REFERRAL_SOURCE_OPTIONS: { value: ReferralSource; label: string }[] = [
+  { value: 'doctor', label: 'Doctor' },
+  { value: 'self', label: 'Self' },
+  { value: 'insurance', label: 'Insurance' },
+  { value: 'website', label: 'Website' },
+  { value: 'social-media', label: 'Social Media' },
+  { value: 'friend-family', label: 'Friend / Family' },
+  { value: 'other', label: 'Other' },
+];
+
+export const ALLERGY_SEVERITY_OPTIONS: { value: AllergySeverity; label: string }[] = [
+  { value: 'mild', label: 'Mild' },
+  { value: 'moderate', label: 'Moderate' },
+  { value: 'severe', label: 'Severe' },
+];
+
+export const EMPTY_MEDICAL_HISTORY: MedicalHistory = {
+  chiefComplaint: '',
+  diagnoses: [],
+  pastMedicalHistory: '',
+  pastSurgicalHistory: '',
+  medications: [],
+  allergies: [],
+  redFlags: [],
+  contraindications: [],
+};
+
+export const getGenderLabel = (gender?: Gender | null): string => {
+  return GENDER_OPTIONS.find(option => option.value === gender)?.label || '';
+};
+
+export const getReferralSourceLabel = (source?: ReferralSource | null): string => {
+  return REFERRAL_SOURCE_OPTIONS.find(option => option.value === source)?.label || '';
+};
+
+// Age in whole years from a 'YYYY-MM-DD' date of birth
+export const getAge = (dateOfBirth: string, today: Date = new Date()): number => {
+  const birthDate = parseDateKey(dateOfBirth);
+  let age = today.getFullYear() - birthDate.getFullYear();
+  const hasHadBirthday =
+    today.getMonth() > birthDate.getMonth() ||
+    (today.getMonth() === birthDate.getMonth() && today.getDate() >= birthDate.getDate());
+  if (!hasHadBirthday) {
+    age -= 1;
+  }
+  return age;
+};
@@ -0,0 +1,49 @@
+// Payment methods, session payment status and balances. Mirrors server/utils/payments.js.
+import { PaymentMethod, PaymentType, Session } from '../types';
+import { formatMoney, roundMoney } from './currency';
+
+export const PAYMENT_METHOD_OPTIONS: { value: PaymentMethod; label: string }[] = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'upi', label: 'UPI' },
+  { value: 'card', label: 'Card' },
+  { value: 'bank-transfer', label: 'Bank transfer' },
+];
+
+export const PAYMENT_TYPE_OPTIONS: { value: PaymentType; label: string }[] = [
+  { value: 'payment', label: 'Payment' },
+  { value: 'refund', label: 'Refund' },
+];
+
+export const MAX_REFERENCE_LENGTH = 100;
+
+export const getPaymentMethodLabel = (method: PaymentMethod): string => {
+  return PAYMENT_METHOD_OPTIONS.find(option => option.value === method)?.label || method;
+};
+
+// Completed sessions with a fee are charged; sessions paid for by a package were charged with the package
+export const isChargedSession = (session: Session): boolean => {
+  return session.status === 'completed' && (session.amount || 0) > 0 && !session.packageId;
+};
+
+// What is still owed on a session's fee
+export const getAmountDue = (session: Session): number => {
+  if (!isChargedSession(session)) return 0;
+  return Math.max(roundMoney((session.amount || 0) - (session.amountPaid || 0)), 0);
+};
+
+// e.g. "Paid ₹500.00", "₹200.00 of ₹500.00 paid" or "Due ₹500.00"
+export const formatSessionPayment = (session: Session): string => {
+  if (session.amount === undefined || session.amount === null) return 'No fee';
+
+  const paid = session.amountPaid || 0;
+  if (getAmountDue(session) === 0) return `Paid ${formatMoney(session.amount)}`;
+  if (paid > 0) return `${formatMoney(paid)} of ${formatMoney(session.amount)} paid`;
+  return `Due ${formatMoney(session.amount)}`;
+};
+
+// e.g. "Owes ₹1,200.00", "Credit ₹300.00" or "Settled"
+export const formatBalance = (balance: number): string => {
+  if (balance > 0) return `Owes ${formatMoney(balance)}`;
+  if (balance < 0) return `Credit ${formatMoney(-balance)}`;
+  return 'Settled';
+};
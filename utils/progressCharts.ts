@@ -0,0 +1,169 @@
+// Turns a patient's sessions and outcome results into the series shown on the progress charts
+import { Joint, JointMovement, MeasurementSide, OutcomeMeasureResult, OutcomeMeasureType, Session } from '../types';
+import { formatDateKey, parseDateKey } from './calendarUtils';
+import { OUTCOME_MEASURES } from './outcomeMeasures';
+import { getJointLabel, MOVEMENT_LABELS } from './measurements';
+
+export interface ChartPoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+export interface ChartSeries {
+  key: string;
+  label: string;
+  color: string;
+  dashed?: boolean;
+  points: ChartPoint[]; // Oldest first
+}
+
+export type ProgressRange = '1m' | '3m' | '6m' | '1y' | 'all';
+
+export const PROGRESS_RANGE_OPTIONS: { value: ProgressRange; label: string; months: number | null }[] = [
+  { value: '1m', label: '1M', months: 1 },
+  { value: '3m', label: '3M', months: 3 },
+  { value: '6m', label: '6M', months: 6 },
+  { value: '1y', label: '1Y', months: 12 },
+  { value: 'all', label: 'All', months: null },
+];
+
+const SIDE_COLORS: Record<MeasurementSide, string> = {
+  left: '#0A84FF',
+  right: '#FF9F0A',
+  none: '#5856D6',
+};
+
+const SIDE_LABELS: Record<MeasurementSide, string> = {
+  left: 'Left',
+  right: 'Right',
+  none: '',
+};
+
+// First date included in the range, or null for all time
+export const getRangeStartDate = (range: ProgressRange, today: Date = new Date()): string | null => {
+  const months = PROGRESS_RANGE_OPTIONS.find(option => option.value === range)?.months;
+  if (!months) return null;
+
+  const start = new Date(today);
+  start.setMonth(start.getMonth() - months);
+  return formatDateKey(start);
+};
+
+// Drops points before the start of the range, and series left without any points
+export const filterSeriesByRange = (series: ChartSeries[], range: ProgressRange): ChartSeries[] => {
+  const startDate = getRangeStartDate(range);
+  return series
+    .map(item => ({ ...item, points: item.points.filter(point => !startDate || point.date >= startDate) }))
+    .filter(item => item.points.length > 0);
+};
+
+const byDate = (a: { date: string }, b: { date: string }) => a.date.localeCompare(b.date);
+
+// Pain score (VAS 0-10) from the clinical notes of each visit
+export const getPainScoreSeries = (sessions: Session[]): ChartSeries[] => {
+  const points = sessions
+    .filter(session => session.clinicalNotes?.painScore !== null && session.clinicalNotes?.painScore !== undefined)
+    .map(session => ({ date: session.date, value: session.clinicalNotes!.painScore as number }))
+    .sort(byDate);
+
+  return points.length > 0 ? [{ key: 'pain', label: 'Pain (VAS)', color: '#FF453A', points }] : [];
+};
+
+// One series per questionnaire, since their scales differ
+export const getOutcomeScoreSeries = (results: OutcomeMeasureResult[]): Partial<Record<OutcomeMeasureType, ChartSeries>> => {
+  const series: Partial<Record<OutcomeMeasureType, ChartSeries>> = {};
+
+  [...results].sort(byDate).forEach(result => {
+    const existing = series[result.measure];
+    const point = { date: result.date, value: result.score };
+    if (existing) {
+      existing.points.push(point);
+    } else {
+      series[result.measure] = {
+        key: result.measure,
+        label: OUTCOME_MEASURES[result.measure].shortName,
+        color: '#34C759',
+        points: [point],
+      };
+    }
+  });
+
+  return series;
+};
+
+export interface MeasurementChartOption {
+  key: string; // joint:movement
+  joint: Joint;
+  movement: JointMovement;
+  label: string;
+}
+
+// Joint movements that have been measured, in the order they were first recorded
+export const getMeasurementChartOptions = (sessions: Session[]): MeasurementChartOption[] => {
+  const options = new Map<string, MeasurementChartOption>();
+
+  [...sessions].sort(byDate).forEach(session => {
+    (session.measurements || []).forEach(measurement => {
+      const key = `${measurement.joint}:${measurement.movement}`;
+      if (!options.has(key)) {
+        options.set(key, {
+          key,
+          joint: measurement.joint,
+          movement: measurement.movement,
+          label: `${getJointLabel(measurement.joint)} ${MOVEMENT_LABELS[measurement.movement]}`,
+        });
+      }
+    });
+  });
+
+  return [...options.values()];
+};
+
+// Active (solid) and passive (dashed) range of motion for each side of one joint movement
+export const getRangeOfMotionSeries = (sessions: Session[], joint: Joint, movement: JointMovement): ChartSeries[] => {
+  const series: ChartSeries[] = [];
+
+  (['left', 'right', 'none'] as MeasurementSide[]).forEach(side => {
+    const readings = sessions
+      .flatMap(session => (session.measurements || [])
+        .filter(item => item.joint === joint && item.movement === movement && item.side === side)
+        .map(item => ({ ...item, date: session.date })))
+      .sort(byDate);
+
+    const sideLabel = SIDE_LABELS[side] ? `${SIDE_LABELS[side]} ` : '';
+    const active = readings.filter(item => item.activeRom !== null).map(item => ({ date: item.date, value: item.activeRom as number }));
+    const passive = readings.filter(item => item.passiveRom !== null).map(item => ({ date: item.date, value: item.passiveRom as number }));
+
+    if (active.length > 0) {
+      series.push({ key: `${side}-active`, label: `${sideLabel}AROM`, color: SIDE_COLORS[side], points: active });
+    }
+    if (passive.length > 0) {
+      series.push({ key: `${side}-passive`, label: `${sideLabel}PROM`, color: SIDE_COLORS[side], dashed: true, points: passive });
+    }
+  });
+
+  return series;
+};
+
+// Monthly share of booked visits the patient attended. Cancellations by the clinic and
+// reschedules aren't held against the patient, and open sessions haven't happened yet.
+export const getAttendanceSeries = (sessions: Session[]): ChartSeries[] => {
+  const months = new Map<string, { attended: number; total: number }>();
+
+  sessions.forEach(session => {
+    if (!['completed', 'no-show', 'cancelled-by-patient'].includes(session.status)) return;
+
+    const date = parseDateKey(session.date);
+    const monthKey = formatDateKey(new Date(date.getFullYear(), date.getMonth(), 1));
+    const month = months.get(monthKey) || { attended: 0, total: 0 };
+    month.total += 1;
+    if (session.status === 'completed') month.attended += 1;
+    months.set(monthKey, month);
+  });
+
+  const points = [...months.entries()]
+    .map(([date, month]) => ({ date, value: Math.round((month.attended / month.total) * 100) }))
+    .sort(byDate);
+
+  return points.length > 0 ? [{ key: 'attendance', label: 'Attendance %', color: '#5856D6', points }] : [];
+};
@@ -0,0 +1,42 @@
+// Service catalogue prices and revenue by service. Mirrors server/utils/services.js.
+import { Patient, Service, Session } from '../types';
+import { formatMoney } from './currency';
+
+export const MIN_SERVICE_DURATION = 5;
+export const MAX_SERVICE_DURATION = 480;
+
+// The price agreed with the patient if there is one, else the service's usual price
+export const getServicePrice = (service: Service, patient?: Pick<Patient, 'servicePrices'> | null): number => {
+  const override = patient?.servicePrices?.find(entry => entry.serviceId === service.id);
+  return override ? override.price : service.price;
+};
+
+// e.g. "45 min · ₹800.00"
+export const formatServiceTerms = (service: Pick<Service, 'duration' | 'price'>): string => {
+  return `${service.duration} min · ${formatMoney(service.price)}`;
+};
+
+export interface ServiceRevenue {
+  serviceName: string; // Empty for sessions booked without a service
+  sessions: number;
+  fees: number;
+  paid: number;
+}
+
+// Completed sessions grouped by the service they were booked as, highest fees first
+export const getRevenueByService = (sessions: Session[]): ServiceRevenue[] => {
+  const rows = new Map<string, ServiceRevenue>();
+
+  sessions
+    .filter(session => session.status === 'completed')
+    .forEach(session => {
+      const serviceName = session.serviceName || '';
+      const row = rows.get(serviceName) || { serviceName, sessions: 0, fees: 0, paid: 0 };
+      row.sessions += 1;
+      row.fees += session.amount || 0;
+      row.paid += session.amountPaid || 0;
+      rows.set(serviceName, row);
+    });
+
+  return [...rows.values()].sort((a, b) => b.fees - a.fees);
+};
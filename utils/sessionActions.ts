@@ -0,0 +1,26 @@
+// Session actions shared by the session list screens
+import { Alert } from 'react-native';
+import { Session } from '../types';
+import { getPatientPackages, updateSession } from './mongoStorage';
+import { getSessionsRemaining, getUsablePackage } from './packages';
+
+// Completes a session from the patient's prepaid package when one covers its date; the server
+// takes the session from the package when it is completed without a payment. Returns false
+// when there is no usable package, so the caller can ask for a payment instead.
+export const completeFromPackage = async (session: Session): Promise<boolean> => {
+  const prepaid = getUsablePackage(await getPatientPackages(session.patientId), session.date);
+  if (!prepaid) {
+    return false;
+  }
+
+  try {
+    await updateSession({ ...session, status: 'completed', statusReason: '', amount: undefined });
+    if (getSessionsRemaining(prepaid) === 1) {
+      Alert.alert('Package Used Up', `That was the last session of ${session.patientName}'s "${prepaid.name}" package.`);
+    }
+  } catch (error) {
+    console.error('Error completing session from package:', error);
+    Alert.alert('Error', 'Failed to update session status');
+  }
+  return true;
+};
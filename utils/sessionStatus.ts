@@ -0,0 +1,43 @@
+// Labels and colours for the session lifecycle. Mirrors server/utils/sessionStatus.js:
+// open statuses are still on the schedule, every other status is a final outcome.
+import { Session, SessionStatus } from '../types';
+
+export const SESSION_STATUSES: SessionStatus[] = [
+  'scheduled',
+  'checked-in',
+  'completed',
+  'no-show',
+  'cancelled-by-patient',
+  'cancelled-by-clinic',
+];
+
+export const OPEN_SESSION_STATUSES: SessionStatus[] = ['scheduled', 'checked-in'];
+
+export const CLOSED_SESSION_STATUSES: SessionStatus[] = SESSION_STATUSES.filter(
+  status => !OPEN_SESSION_STATUSES.includes(status)
+);
+
+// Statuses that free the time slot, so they are left off the calendar
+export const CANCELLED_SESSION_STATUSES: SessionStatus[] = ['cancelled-by-patient', 'cancelled-by-clinic'];
+
+export const SESSION_STATUS_LABELS: Record<SessionStatus, string> = {
+  'scheduled': 'Scheduled',
+  'checked-in': 'Checked In',
+  'completed': 'Completed',
+  'no-show': 'No Show',
+  'cancelled-by-patient': 'Cancelled by Patient',
+  'cancelled-by-clinic': 'Cancelled by Clinic',
+};
+
+export const SESSION_STATUS_COLORS: Record<SessionStatus, string> = {
+  'scheduled': '#0A84FF',
+  'checked-in': '#5E5CE6',
+  'completed': '#34C759',
+  'no-show': '#FF453A',
+  'cancelled-by-patient': '#FF9F0A',
+  'cancelled-by-clinic': '#8E8E93',
+};
+
+export const isOpenSession = (session: Session): boolean => OPEN_SESSION_STATUSES.includes(session.status);
+
+export const isCancelledSession = (session: Session): boolean => CANCELLED_SESSION_STATUSES.includes(session.status);
@@ -0,0 +1,47 @@
+// Date ranges, labels and chart lines for the dashboard's practice stats
+import { RevenuePeriod, StatsGrouping } from '../types';
+import { addDays, addMonths, formatDateKey, parseDateKey, startOfWeek } from './calendarUtils';
+import { ChartSeries } from './progressCharts';
+
+export const STATS_GROUPING_OPTIONS: { value: StatsGrouping; label: string; rangeLabel: string }[] = [
+  { value: 'day', label: 'Daily', rangeLabel: 'Last 14 days' },
+  { value: 'week', label: 'Weekly', rangeLabel: 'Last 12 weeks' },
+  { value: 'month', label: 'Monthly', rangeLabel: 'Last 12 months' },
+];
+
+// The range shown for each grouping, ending today and starting on a whole week or month
+export const getStatsRange = (groupBy: StatsGrouping, today: Date = new Date()): { startDate: string; endDate: string } => {
+  const endDate = formatDateKey(today);
+  if (groupBy === 'month') return { startDate: formatDateKey(addMonths(today, -11)), endDate };
+  if (groupBy === 'week') return { startDate: formatDateKey(addDays(startOfWeek(today), -7 * 11)), endDate };
+  return { startDate: formatDateKey(addDays(today, -13)), endDate };
+};
+
+// Month periods come back as YYYY-MM; the chart needs a day
+const getPeriodStart = (period: string): string => (period.length === 7 ? `${period}-01` : period);
+
+// e.g. "Oct 14", "Week of Oct 13" or "Oct 2026"
+export const formatPeriodLabel = (period: string, groupBy: StatsGrouping): string => {
+  const date = parseDateKey(getPeriodStart(period));
+  if (groupBy === 'month') return date.toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+
+  const day = date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return groupBy === 'week' ? `Week of ${day}` : day;
+};
+
+// Revenue (session fees and package sales) and money collected per period, as chart lines
+export const getRevenueSeries = (periods: RevenuePeriod[]): ChartSeries[] => [
+  {
+    key: 'revenue',
+    label: 'Revenue',
+    color: '#0A84FF',
+    points: periods.map(period => ({ date: getPeriodStart(period.period), value: period.revenue })),
+  },
+  {
+    key: 'collected',
+    label: 'Collected',
+    color: '#34C759',
+    dashed: true,
+    points: periods.map(period => ({ date: getPeriodStart(period.period), value: period.collected })),
+  },
+];
@@ -0,0 +1,47 @@
+// Labels and helpers for treatment plans. Mirrors server/utils/treatmentPlans.js.
+import { GoalStatus, DischargeStatus, TreatmentPlan, TreatmentGoal, PlanProgress } from '../types';
+
+export const GOAL_STATUS_OPTIONS: { value: GoalStatus; label: string; color: string }[] = [
+  { value: 'pending', label: 'In Progress', color: '#8E8E93' },
+  { value: 'met', label: 'Met', color: '#34C759' },
+  { value: 'not-met', label: 'Not Met', color: '#FF453A' },
+];
+
+export const DISCHARGE_STATUS_OPTIONS: { value: DischargeStatus; label: string }[] = [
+  { value: 'goals-met', label: 'Goals Met' },
+  { value: 'partially-met', label: 'Goals Partially Met' },
+  { value: 'not-met', label: 'Goals Not Met' },
+  { value: 'self-discharged', label: 'Patient Self-Discharged' },
+  { value: 'referred-on', label: 'Referred On' },
+];
+
+export const EMPTY_GOAL: TreatmentGoal = { description: '', targetDate: null, status: 'pending' };
+
+export const getGoalStatusOption = (status: GoalStatus) => {
+  return GOAL_STATUS_OPTIONS.find(option => option.value === status) || GOAL_STATUS_OPTIONS[0];
+};
+
+// Tapping a goal moves it pending -> met -> not met -> pending
+export const getNextGoalStatus = (status: GoalStatus): GoalStatus => {
+  const index = GOAL_STATUS_OPTIONS.findIndex(option => option.value === status);
+  return GOAL_STATUS_OPTIONS[(index + 1) % GOAL_STATUS_OPTIONS.length].value;
+};
+
+export const getDischargeStatusLabel = (status?: DischargeStatus | null): string => {
+  return DISCHARGE_STATUS_OPTIONS.find(option => option.value === status)?.label || '';
+};
+
+export const getFrequencyLabel = (frequencyPerWeek: number | null): string => {
+  return frequencyPerWeek ? `${frequencyPerWeek}x per week` : '';
+};
+
+export const getGoalCounts = (plan: TreatmentPlan): Record<GoalStatus, number> => {
+  return plan.goals.reduce(
+    (counts, goal) => ({ ...counts, [goal.status]: counts[goal.status] + 1 }),
+    { 'pending': 0, 'met': 0, 'not-met': 0 } as Record<GoalStatus, number>
+  );
+};
+
+export const formatPlanProgress = (progress: PlanProgress): string => {
+  return `Session ${progress.sessionNumber} of ${progress.plannedSessions}`;
+};